@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "Note" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "rawText" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "parseStatus" TEXT NOT NULL DEFAULT 'pending',
+    "provider" TEXT,
+    "capturedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Note_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Backfill one Note per distinct source note so sibling items stay linked
+INSERT INTO "Note" ("rawText", "source", "parseStatus", "capturedAt", "userId", "createdAt", "updatedAt")
+SELECT "sourceNote", 'manual', 'parsed', MIN("createdAt"), "userId", MIN("createdAt"), CURRENT_TIMESTAMP
+FROM "Item"
+WHERE "sourceNote" IS NOT NULL
+GROUP BY "userId", "sourceNote";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Item" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "content" TEXT NOT NULL,
+    "noteId" INTEGER,
+    "relevance" REAL NOT NULL DEFAULT 1.0,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "userId" INTEGER NOT NULL,
+    "activityId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Item_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Item_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Item_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Item" ("activityId", "content", "createdAt", "id", "isCompleted", "noteId", "relevance", "updatedAt", "userId")
+SELECT "activityId", "content", "createdAt", "id", "isCompleted",
+    (SELECT "Note"."id" FROM "Note" WHERE "Note"."userId" = "Item"."userId" AND "Note"."rawText" = "Item"."sourceNote"),
+    "relevance", "updatedAt", "userId"
+FROM "Item";
+DROP TABLE "Item";
+ALTER TABLE "new_Item" RENAME TO "Item";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
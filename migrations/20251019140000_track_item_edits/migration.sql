@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "extractedContent" TEXT;
+ALTER TABLE "Item" ADD COLUMN "tagsEditedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "parseModel" TEXT;
+
+-- Treat items already extracted from a note as unedited
+UPDATE "Item" SET "extractedContent" = "content" WHERE "noteId" IS NOT NULL;
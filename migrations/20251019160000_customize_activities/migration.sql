@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "color" TEXT;
+ALTER TABLE "Activity" ADD COLUMN "isArchived" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Activity" ADD COLUMN "sortOrder" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "TagCategory" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "icon" TEXT,
+    "color" TEXT,
+    "activityId" INTEGER,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TagCategory_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TagCategory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Backfill categories from the existing free-text values: global tags yield global categories,
+-- user tags yield user categories unless a global category with that name exists
+INSERT INTO "TagCategory" ("name", "userId")
+SELECT DISTINCT "category", NULL FROM "Tag" WHERE "userId" IS NULL;
+
+INSERT INTO "TagCategory" ("name", "userId")
+SELECT DISTINCT "category", "userId" FROM "Tag"
+WHERE "userId" IS NOT NULL
+  AND "category" NOT IN (SELECT "name" FROM "TagCategory" WHERE "userId" IS NULL);
+
+-- Link the seeded categories to the default activities they used to be mapped to in code
+UPDATE "TagCategory" SET "icon" = '🛒', "color" = '#10B981', "activityId" = (SELECT "id" FROM "Activity" WHERE "name" = 'Grocery Shopping' AND "userId" IS NULL) WHERE "name" = 'shopping' AND "userId" IS NULL;
+UPDATE "TagCategory" SET "icon" = '✈️', "color" = '#3B82F6', "activityId" = (SELECT "id" FROM "Activity" WHERE "name" = 'Travel Planning' AND "userId" IS NULL) WHERE "name" = 'travel' AND "userId" IS NULL;
+UPDATE "TagCategory" SET "icon" = '🍳', "color" = '#F59E0B', "activityId" = (SELECT "id" FROM "Activity" WHERE "name" = 'Meal Planning' AND "userId" IS NULL) WHERE "name" = 'cooking' AND "userId" IS NULL;
+UPDATE "TagCategory" SET "icon" = '💼', "color" = '#8B5CF6', "activityId" = (SELECT "id" FROM "Activity" WHERE "name" = 'Work Projects' AND "userId" IS NULL) WHERE "name" = 'work' AND "userId" IS NULL;
+UPDATE "TagCategory" SET "icon" = '📚', "color" = '#06B6D4', "activityId" = (SELECT "id" FROM "Activity" WHERE "name" = 'Personal Development' AND "userId" IS NULL) WHERE "name" = 'learning' AND "userId" IS NULL;
+UPDATE "TagCategory" SET "icon" = '🧘', "color" = '#EC4899', "activityId" = (SELECT "id" FROM "Activity" WHERE "name" = 'Personal Development' AND "userId" IS NULL) WHERE "name" = 'personal' AND "userId" IS NULL;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Tag" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "color" TEXT,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Tag_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "TagCategory" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Tag" ("categoryId", "color", "createdAt", "id", "name", "userId")
+SELECT
+    (SELECT "c"."id" FROM "TagCategory" "c"
+     WHERE "c"."name" = "Tag"."category" AND ("c"."userId" IS NULL OR "c"."userId" = "Tag"."userId")
+     ORDER BY "c"."userId" DESC LIMIT 1),
+    "color", "createdAt", "id", "name", "userId"
+FROM "Tag";
+DROP TABLE "Tag";
+ALTER TABLE "new_Tag" RENAME TO "Tag";
+CREATE UNIQUE INDEX "Tag_name_userId_key" ON "Tag"("name", "userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagCategory_name_userId_key" ON "TagCategory"("name", "userId");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "ActivityRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "activityId" INTEGER NOT NULL,
+    "includeTagIds" TEXT NOT NULL DEFAULT '[]',
+    "includeCategoryIds" TEXT NOT NULL DEFAULT '[]',
+    "excludeTagIds" TEXT NOT NULL DEFAULT '[]',
+    "excludeCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ActivityRule_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ActivityRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ActivityRule_activityId_userId_key" ON "ActivityRule"("activityId", "userId");
+
+-- Default rules for the seeded activities (same as seed.ts)
+INSERT INTO "ActivityRule" ("activityId", "includeTagIds", "includeCategoryIds", "excludeCompleted", "updatedAt")
+SELECT "id", '[' || COALESCE((SELECT group_concat("id") FROM "Tag" WHERE "userId" IS NULL AND "name" IN ('groceries', 'to-buy', 'ingredients')), '') || ']', '[' || COALESCE((SELECT group_concat("id") FROM "TagCategory" WHERE "userId" IS NULL AND "name" IN ('shopping')), '') || ']', true, CURRENT_TIMESTAMP
+FROM "Activity" WHERE "name" = 'Grocery Shopping' AND "userId" IS NULL;
+INSERT INTO "ActivityRule" ("activityId", "includeTagIds", "includeCategoryIds", "excludeCompleted", "updatedAt")
+SELECT "id", '[' || COALESCE((SELECT group_concat("id") FROM "Tag" WHERE "userId" IS NULL AND "name" IN ('recipes', 'meal-prep', 'ingredients')), '') || ']', '[' || COALESCE((SELECT group_concat("id") FROM "TagCategory" WHERE "userId" IS NULL AND "name" IN ('cooking')), '') || ']', false, CURRENT_TIMESTAMP
+FROM "Activity" WHERE "name" = 'Meal Planning' AND "userId" IS NULL;
+INSERT INTO "ActivityRule" ("activityId", "includeTagIds", "includeCategoryIds", "excludeCompleted", "updatedAt")
+SELECT "id", '[' || COALESCE((SELECT group_concat("id") FROM "Tag" WHERE "userId" IS NULL AND "name" IN ('restaurants', 'hobbies')), '') || ']', '[]', true, CURRENT_TIMESTAMP
+FROM "Activity" WHERE "name" = 'Weekend Planning' AND "userId" IS NULL;
+INSERT INTO "ActivityRule" ("activityId", "includeTagIds", "includeCategoryIds", "excludeCompleted", "updatedAt")
+SELECT "id", '[]', '[' || COALESCE((SELECT group_concat("id") FROM "TagCategory" WHERE "userId" IS NULL AND "name" IN ('work')), '') || ']', true, CURRENT_TIMESTAMP
+FROM "Activity" WHERE "name" = 'Work Projects' AND "userId" IS NULL;
+INSERT INTO "ActivityRule" ("activityId", "includeTagIds", "includeCategoryIds", "excludeCompleted", "updatedAt")
+SELECT "id", '[]', '[' || COALESCE((SELECT group_concat("id") FROM "TagCategory" WHERE "userId" IS NULL AND "name" IN ('learning', 'personal')), '') || ']', false, CURRENT_TIMESTAMP
+FROM "Activity" WHERE "name" = 'Personal Development' AND "userId" IS NULL;
+INSERT INTO "ActivityRule" ("activityId", "includeTagIds", "includeCategoryIds", "excludeCompleted", "updatedAt")
+SELECT "id", '[]', '[' || COALESCE((SELECT group_concat("id") FROM "TagCategory" WHERE "userId" IS NULL AND "name" IN ('travel')), '') || ']', false, CURRENT_TIMESTAMP
+FROM "Activity" WHERE "name" = 'Travel Planning' AND "userId" IS NULL;
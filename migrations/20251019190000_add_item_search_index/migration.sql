@@ -0,0 +1,77 @@
+-- Full-text index over item wording, the note it came from and its tag names.
+-- Prisma has no model for virtual tables, so the index is kept up to date by triggers.
+-- NOTE: triggers are dropped with their table, so any later migration that redefines
+-- "Item", "Note", "ItemTag" or "Tag" must recreate the matching triggers below.
+CREATE VIRTUAL TABLE "ItemSearchIndex" USING fts5(
+    "content",
+    "noteText",
+    "tagNames",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill existing items (rowid is the item id)
+INSERT INTO "ItemSearchIndex" ("rowid", "content", "noteText", "tagNames")
+SELECT
+    "Item"."id",
+    "Item"."content",
+    COALESCE((SELECT "rawText" FROM "Note" WHERE "Note"."id" = "Item"."noteId"), ''),
+    COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = "Item"."id"), '')
+FROM "Item";
+
+-- Items
+CREATE TRIGGER "Item_search_insert" AFTER INSERT ON "Item" BEGIN
+    INSERT INTO "ItemSearchIndex" ("rowid", "content", "noteText", "tagNames")
+    VALUES (
+        NEW."id",
+        NEW."content",
+        COALESCE((SELECT "rawText" FROM "Note" WHERE "Note"."id" = NEW."noteId"), ''),
+        ''
+    );
+END;
+
+CREATE TRIGGER "Item_search_update" AFTER UPDATE OF "content", "noteId" ON "Item" BEGIN
+    DELETE FROM "ItemSearchIndex" WHERE "rowid" = OLD."id";
+    INSERT INTO "ItemSearchIndex" ("rowid", "content", "noteText", "tagNames")
+    VALUES (
+        NEW."id",
+        NEW."content",
+        COALESCE((SELECT "rawText" FROM "Note" WHERE "Note"."id" = NEW."noteId"), ''),
+        COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = NEW."id"), '')
+    );
+END;
+
+CREATE TRIGGER "Item_search_delete" AFTER DELETE ON "Item" BEGIN
+    DELETE FROM "ItemSearchIndex" WHERE "rowid" = OLD."id";
+END;
+
+-- Note text changes (re-captured or edited notes)
+CREATE TRIGGER "Note_search_update" AFTER UPDATE OF "rawText" ON "Note" BEGIN
+    UPDATE "ItemSearchIndex" SET "noteText" = NEW."rawText"
+    WHERE "rowid" IN (SELECT "id" FROM "Item" WHERE "noteId" = NEW."id");
+END;
+
+-- Tag assignments
+CREATE TRIGGER "ItemTag_search_insert" AFTER INSERT ON "ItemTag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = NEW."itemId"), '')
+    WHERE "rowid" = NEW."itemId";
+END;
+
+CREATE TRIGGER "ItemTag_search_update" AFTER UPDATE ON "ItemTag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = NEW."itemId"), '')
+    WHERE "rowid" = NEW."itemId";
+END;
+
+CREATE TRIGGER "ItemTag_search_delete" AFTER DELETE ON "ItemTag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = OLD."itemId"), '')
+    WHERE "rowid" = OLD."itemId";
+END;
+
+-- Tag renames
+CREATE TRIGGER "Tag_search_update" AFTER UPDATE OF "name" ON "Tag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = "ItemSearchIndex"."rowid"), '')
+    WHERE "rowid" IN (SELECT "itemId" FROM "ItemTag" WHERE "tagId" = NEW."id");
+END;
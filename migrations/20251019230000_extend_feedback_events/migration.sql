@@ -0,0 +1,44 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_FeedbackEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "kind" TEXT NOT NULL,
+    "itemId" INTEGER,
+    "itemContent" TEXT NOT NULL,
+    "targets" TEXT NOT NULL DEFAULT '[]',
+    "relevanceBefore" REAL,
+    "relevanceAfter" REAL,
+    "activityId" INTEGER,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "FeedbackEvent_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "FeedbackEvent_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "FeedbackEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+-- Earlier events only knew the item; snapshot its current wording, tags, categories and activity
+INSERT INTO "new_FeedbackEvent" ("createdAt", "id", "itemContent", "itemId", "kind", "targets", "userId")
+SELECT
+    "e"."createdAt", "e"."id", "i"."content", "e"."itemId", "e"."kind",
+    (SELECT json_group_array(json("t"."target")) FROM (
+        SELECT json_object('targetType', 'tag', 'targetId', "it"."tagId") AS "target"
+        FROM "ItemTag" "it" WHERE "it"."itemId" = "e"."itemId"
+        UNION
+        SELECT json_object('targetType', 'category', 'targetId', "tag"."categoryId")
+        FROM "ItemTag" "it" JOIN "Tag" "tag" ON "tag"."id" = "it"."tagId" WHERE "it"."itemId" = "e"."itemId"
+        UNION
+        SELECT json_object('targetType', 'activity', 'targetId', "i"."activityId") WHERE "i"."activityId" IS NOT NULL
+    ) "t"),
+    "e"."userId"
+FROM "FeedbackEvent" "e"
+JOIN "Item" "i" ON "i"."id" = "e"."itemId";
+DROP TABLE "FeedbackEvent";
+ALTER TABLE "new_FeedbackEvent" RENAME TO "FeedbackEvent";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "FeedbackEvent_userId_createdAt_idx" ON "FeedbackEvent"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FeedbackEvent_itemId_idx" ON "FeedbackEvent"("itemId");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "dueAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "RankingPreference" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "relevance" REAL NOT NULL DEFAULT 1.0,
+    "preference" REAL NOT NULL DEFAULT 0.5,
+    "age" REAL NOT NULL DEFAULT 0.3,
+    "interaction" REAL NOT NULL DEFAULT 0.2,
+    "due" REAL NOT NULL DEFAULT 0.8,
+    "activity" REAL NOT NULL DEFAULT 0.3,
+    "ageHalfLifeDays" REAL NOT NULL DEFAULT 30,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RankingPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingPreference_userId_key" ON "RankingPreference"("userId");
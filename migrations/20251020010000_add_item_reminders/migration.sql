@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "remindAt" DATETIME;
+ALTER TABLE "Item" ADD COLUMN "snoozedUntil" DATETIME;
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "kind" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "itemId" INTEGER NOT NULL,
+    "scheduledFor" DATETIME NOT NULL,
+    "readAt" DATETIME,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Notification_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_itemId_kind_scheduledFor_key" ON "Notification"("itemId", "kind", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "Notification"("userId", "readAt");
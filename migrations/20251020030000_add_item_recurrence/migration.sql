@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "recurrenceRule" TEXT;
+
+-- CreateTable
+CREATE TABLE "ItemCompletion" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "itemId" INTEGER NOT NULL,
+    "dueAt" DATETIME,
+    "completedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ItemCompletion_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ItemCompletion_itemId_completedAt_idx" ON "ItemCompletion"("itemId", "completedAt");
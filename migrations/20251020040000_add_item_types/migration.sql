@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'note';
+ALTER TABLE "Item" ADD COLUMN "details" TEXT;
+
+-- Existing items get the type their seed tags imply; their details stay empty until edited
+UPDATE "Item" SET "type" = 'recipe'
+WHERE "id" IN (SELECT "itemId" FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "Tag"."name" = 'recipes');
+
+UPDATE "Item" SET "type" = 'shopping'
+WHERE "type" = 'note'
+  AND "id" IN (SELECT "itemId" FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "Tag"."name" IN ('groceries', 'to-buy', 'ingredients'));
+
+UPDATE "Item" SET "type" = 'place'
+WHERE "type" = 'note'
+  AND "id" IN (SELECT "itemId" FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "Tag"."name" IN ('to-visit', 'restaurants', 'bucket-list'));
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "layout" TEXT NOT NULL DEFAULT 'items';
+
+-- The default grocery activity opens as a shopping list
+UPDATE "Activity" SET "layout" = 'shopping' WHERE "name" = 'Grocery Shopping' AND "userId" IS NULL;
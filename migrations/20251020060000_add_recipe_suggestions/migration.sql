@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "RecipeSuggestionCache" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ingredientKey" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "recipes" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RecipeSuggestionCache_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipeSuggestionCache_userId_ingredientKey_provider_key" ON "RecipeSuggestionCache"("userId", "ingredientKey", "provider");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "dietaryPreferences" TEXT;
+
+-- CreateTable
+CREATE TABLE "MealPlanEntry" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "day" TEXT NOT NULL,
+    "meal" TEXT NOT NULL,
+    "itemId" INTEGER NOT NULL,
+    "sourceItemId" INTEGER,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MealPlanEntry_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "MealPlanEntry_sourceItemId_fkey" FOREIGN KEY ("sourceItemId") REFERENCES "Item" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "MealPlanEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealPlanEntry_itemId_key" ON "MealPlanEntry"("itemId");
+
+-- CreateIndex
+CREATE INDEX "MealPlanEntry_userId_day_idx" ON "MealPlanEntry"("userId", "day");
+
+-- The default meal planning activity opens as the week planner
+UPDATE "Activity" SET "layout" = 'meals' WHERE "name" = 'Meal Planning' AND "userId" IS NULL;
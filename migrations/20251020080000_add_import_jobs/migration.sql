@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "externalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'uploading',
+    "fileCount" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "noteCount" INTEGER NOT NULL DEFAULT 0,
+    "itemCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT,
+    "payload" TEXT,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    CONSTRAINT "ImportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Note_userId_externalId_key" ON "Note"("userId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_status_createdAt_idx" ON "ImportJob"("status", "createdAt");
@@ -0,0 +1,193 @@
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "source" TEXT NOT NULL,
+    "label" TEXT,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ImportBatch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- The search index triggers read the tables redefined below and would break the renames;
+-- they are dropped first and recreated unchanged at the end
+DROP TRIGGER "Item_search_insert";
+DROP TRIGGER "Item_search_update";
+DROP TRIGGER "Item_search_delete";
+DROP TRIGGER "Note_search_update";
+DROP TRIGGER "ItemTag_search_insert";
+DROP TRIGGER "ItemTag_search_update";
+DROP TRIGGER "ItemTag_search_delete";
+DROP TRIGGER "Tag_search_update";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Item" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "content" TEXT NOT NULL,
+    "noteId" INTEGER,
+    "relevance" REAL NOT NULL DEFAULT 1.0,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "userId" INTEGER NOT NULL,
+    "activityId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "extractedContent" TEXT,
+    "tagsEditedAt" DATETIME,
+    "dueAt" DATETIME,
+    "remindAt" DATETIME,
+    "snoozedUntil" DATETIME,
+    "recurrenceRule" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'note',
+    "details" TEXT,
+    "importBatchId" INTEGER,
+    CONSTRAINT "Item_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Item_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Item_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "Activity" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Item_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Item" ("activityId", "content", "createdAt", "details", "dueAt", "extractedContent", "id", "isCompleted", "noteId", "recurrenceRule", "relevance", "remindAt", "snoozedUntil", "tagsEditedAt", "type", "updatedAt", "userId") SELECT "activityId", "content", "createdAt", "details", "dueAt", "extractedContent", "id", "isCompleted", "noteId", "recurrenceRule", "relevance", "remindAt", "snoozedUntil", "tagsEditedAt", "type", "updatedAt", "userId" FROM "Item";
+DROP TABLE "Item";
+ALTER TABLE "new_Item" RENAME TO "Item";
+CREATE TABLE "new_Note" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "rawText" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "parseStatus" TEXT NOT NULL DEFAULT 'pending',
+    "provider" TEXT,
+    "capturedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "parseModel" TEXT,
+    "externalId" TEXT,
+    "importBatchId" INTEGER,
+    CONSTRAINT "Note_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Note_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Note" ("capturedAt", "createdAt", "externalId", "id", "parseModel", "parseStatus", "provider", "rawText", "source", "updatedAt", "userId") SELECT "capturedAt", "createdAt", "externalId", "id", "parseModel", "parseStatus", "provider", "rawText", "source", "updatedAt", "userId" FROM "Note";
+DROP TABLE "Note";
+ALTER TABLE "new_Note" RENAME TO "Note";
+CREATE UNIQUE INDEX "Note_userId_externalId_key" ON "Note"("userId", "externalId");
+CREATE TABLE "new_Tag" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "color" TEXT,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "importBatchId" INTEGER,
+    CONSTRAINT "Tag_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "TagCategory" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Tag_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Tag" ("categoryId", "color", "createdAt", "id", "name", "userId") SELECT "categoryId", "color", "createdAt", "id", "name", "userId" FROM "Tag";
+DROP TABLE "Tag";
+ALTER TABLE "new_Tag" RENAME TO "Tag";
+CREATE UNIQUE INDEX "Tag_name_userId_key" ON "Tag"("name", "userId");
+CREATE TABLE "new_Activity" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "icon" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "color" TEXT,
+    "isArchived" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "layout" TEXT NOT NULL DEFAULT 'items',
+    "importBatchId" INTEGER,
+    CONSTRAINT "Activity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Activity_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Activity" ("color", "createdAt", "description", "icon", "id", "isArchived", "isDefault", "layout", "name", "sortOrder", "userId") SELECT "color", "createdAt", "description", "icon", "id", "isArchived", "isDefault", "layout", "name", "sortOrder", "userId" FROM "Activity";
+DROP TABLE "Activity";
+ALTER TABLE "new_Activity" RENAME TO "Activity";
+CREATE UNIQUE INDEX "Activity_name_userId_key" ON "Activity"("name", "userId");
+CREATE TABLE "new_ImportJob" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'uploading',
+    "fileCount" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "noteCount" INTEGER NOT NULL DEFAULT 0,
+    "itemCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT,
+    "payload" TEXT,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    "label" TEXT,
+    "batchId" INTEGER,
+    CONSTRAINT "ImportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ImportJob_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ImportJob" ("createdAt", "errors", "fileCount", "finishedAt", "id", "itemCount", "noteCount", "payload", "processed", "skippedCount", "source", "startedAt", "status", "total", "userId") SELECT "createdAt", "errors", "fileCount", "finishedAt", "id", "itemCount", "noteCount", "payload", "processed", "skippedCount", "source", "startedAt", "status", "total", "userId" FROM "ImportJob";
+DROP TABLE "ImportJob";
+ALTER TABLE "new_ImportJob" RENAME TO "ImportJob";
+CREATE INDEX "ImportJob_status_createdAt_idx" ON "ImportJob"("status", "createdAt");
+CREATE UNIQUE INDEX "ImportJob_batchId_key" ON "ImportJob"("batchId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_userId_createdAt_idx" ON "ImportBatch"("userId", "createdAt");
+
+-- Search index triggers, as in 20251019190000_add_item_search_index
+CREATE TRIGGER "Item_search_insert" AFTER INSERT ON "Item" BEGIN
+    INSERT INTO "ItemSearchIndex" ("rowid", "content", "noteText", "tagNames")
+    VALUES (
+        NEW."id",
+        NEW."content",
+        COALESCE((SELECT "rawText" FROM "Note" WHERE "Note"."id" = NEW."noteId"), ''),
+        ''
+    );
+END;
+
+CREATE TRIGGER "Item_search_update" AFTER UPDATE OF "content", "noteId" ON "Item" BEGIN
+    DELETE FROM "ItemSearchIndex" WHERE "rowid" = OLD."id";
+    INSERT INTO "ItemSearchIndex" ("rowid", "content", "noteText", "tagNames")
+    VALUES (
+        NEW."id",
+        NEW."content",
+        COALESCE((SELECT "rawText" FROM "Note" WHERE "Note"."id" = NEW."noteId"), ''),
+        COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = NEW."id"), '')
+    );
+END;
+
+CREATE TRIGGER "Item_search_delete" AFTER DELETE ON "Item" BEGIN
+    DELETE FROM "ItemSearchIndex" WHERE "rowid" = OLD."id";
+END;
+
+CREATE TRIGGER "Note_search_update" AFTER UPDATE OF "rawText" ON "Note" BEGIN
+    UPDATE "ItemSearchIndex" SET "noteText" = NEW."rawText"
+    WHERE "rowid" IN (SELECT "id" FROM "Item" WHERE "noteId" = NEW."id");
+END;
+
+CREATE TRIGGER "ItemTag_search_insert" AFTER INSERT ON "ItemTag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = NEW."itemId"), '')
+    WHERE "rowid" = NEW."itemId";
+END;
+
+CREATE TRIGGER "ItemTag_search_update" AFTER UPDATE ON "ItemTag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = NEW."itemId"), '')
+    WHERE "rowid" = NEW."itemId";
+END;
+
+CREATE TRIGGER "ItemTag_search_delete" AFTER DELETE ON "ItemTag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = OLD."itemId"), '')
+    WHERE "rowid" = OLD."itemId";
+END;
+
+CREATE TRIGGER "Tag_search_update" AFTER UPDATE OF "name" ON "Tag" BEGIN
+    UPDATE "ItemSearchIndex"
+    SET "tagNames" = COALESCE((SELECT group_concat("Tag"."name", ' ') FROM "ItemTag" JOIN "Tag" ON "Tag"."id" = "ItemTag"."tagId" WHERE "ItemTag"."itemId" = "ItemSearchIndex"."rowid"), '')
+    WHERE "rowid" IN (SELECT "itemId" FROM "ItemTag" WHERE "tagId" = NEW."id");
+END;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "PreferenceReset" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "targetType" TEXT NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "resetAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER NOT NULL,
+    CONSTRAINT "PreferenceReset_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PreferenceReset_userId_targetType_targetId_key" ON "PreferenceReset"("userId", "targetType", "targetId");
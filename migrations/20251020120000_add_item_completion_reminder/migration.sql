@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ItemCompletion" ADD COLUMN "remindAt" DATETIME;
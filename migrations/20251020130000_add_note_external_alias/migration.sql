@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "externalAlias" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Note_userId_externalAlias_idx" ON "Note"("userId", "externalAlias");
@@ -0,0 +1,27 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Activity" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "icon" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "color" TEXT,
+    "isArchived" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "layout" TEXT NOT NULL DEFAULT 'items',
+    "importBatchId" INTEGER,
+    CONSTRAINT "Activity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Activity_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Existing activities count as unchanged since they were created
+INSERT INTO "new_Activity" ("color", "createdAt", "description", "icon", "id", "importBatchId", "isArchived", "isDefault", "layout", "name", "sortOrder", "updatedAt", "userId") SELECT "color", "createdAt", "description", "icon", "id", "importBatchId", "isArchived", "isDefault", "layout", "name", "sortOrder", "createdAt", "userId" FROM "Activity";
+DROP TABLE "Activity";
+ALTER TABLE "new_Activity" RENAME TO "Activity";
+CREATE UNIQUE INDEX "Activity_name_userId_key" ON "Activity"("name", "userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { Link } from 'wasp/client/router';
+import type { Activity } from 'wasp/entities';
+import {
+  useQuery,
+  getActivities,
+  createActivity,
+  updateActivity,
+  deleteActivity,
+  reorderActivities
+} from 'wasp/client/operations';
+import { ActivityRuleEditor } from '../client/components/ActivityRuleEditor';
+import { ACTIVITY_LAYOUTS, isActivityLayout, type ActivityLayout } from '../shared/activityLayouts';
+import { errorMessage } from '../client/errors';
+
+const ACTIVITY_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#6B7280'];
+
+interface ActivityForm {
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  layout: ActivityLayout;
+}
+
+const EMPTY_FORM: ActivityForm = { name: '', description: '', icon: '', color: '', layout: 'items' };
+
+export const ActivitiesPage = () => {
+  const [form, setForm] = useState<ActivityForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [rulesActivityId, setRulesActivityId] = useState<number | null>(null);
+  const [moveToActivityId, setMoveToActivityId] = useState<string>('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: activities, isLoading, refetch } = useQuery(getActivities, { includeArchived: true });
+
+  const allActivities = activities || [];
+  const defaultActivities = allActivities.filter(activity => activity.userId === null);
+  const ownActivities = allActivities.filter(activity => activity.userId !== null);
+
+  // Resolves to whether the operation succeeded, so forms are only reset once it did
+  const run = async (operation: () => Promise<unknown>): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+    let succeeded = false;
+    try {
+      await operation();
+      refetch();
+      succeeded = true;
+    } catch (err) {
+      setError(errorMessage(err, 'Something went wrong'));
+    }
+    setIsBusy(false);
+    return succeeded;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const data = {
+      name: form.name,
+      color: form.color || undefined,
+      layout: form.layout
+    };
+
+    // Emptied fields are sent as null so an edit can clear them
+    const saved = await run(() => (editingId
+      ? updateActivity({ id: editingId, ...data, description: form.description || null, icon: form.icon || null })
+      : createActivity({ ...data, description: form.description || undefined, icon: form.icon || undefined })));
+    if (saved) {
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    }
+  };
+
+  const handleEdit = (activity: Activity) => {
+    setEditingId(activity.id);
+    setForm({
+      name: activity.name,
+      description: activity.description || '',
+      icon: activity.icon || '',
+      color: activity.color || '',
+      layout: isActivityLayout(activity.layout) ? activity.layout : 'items'
+    });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = ownActivities.map(activity => activity.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    run(() => reorderActivities({ orderedIds: ids }));
+  };
+
+  const handleDelete = async (activityId: number) => {
+    const deleted = await run(() => deleteActivity({
+      id: activityId,
+      moveItemsToActivityId: moveToActivityId ? Number(moveToActivityId) : undefined
+    }));
+    if (deleted) {
+      setDeletingId(null);
+      setMoveToActivityId('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Activities</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Create / Edit Form */}
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {editingId ? 'Edit Activity' : 'New Activity'}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <input
+                value={form.icon}
+                onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                placeholder="Emoji"
+                maxLength={4}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name"
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Description"
+                className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Color:</span>
+              {ACTIVITY_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setForm({ ...form, color: form.color === color ? '' : color })}
+                  className={`w-6 h-6 rounded-full border-2 ${form.color === color ? 'border-gray-900' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Show as:</span>
+              <select
+                value={form.layout}
+                onChange={(e) => setForm({ ...form, layout: e.target.value as ActivityLayout })}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {(Object.keys(ACTIVITY_LAYOUTS) as ActivityLayout[]).map(layout => (
+                  <option key={layout} value={layout}>{ACTIVITY_LAYOUTS[layout].label}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500">{ACTIVITY_LAYOUTS[form.layout].description}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button type="submit" disabled={isBusy || !form.name.trim()} className="btn-primary disabled:opacity-50">
+                {editingId ? 'Save Changes' : 'Create Activity'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(EMPTY_FORM);
+                  }}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </form>
+
+          {/* User Activities */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Activities</h2>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                <span className="ml-3 text-gray-600">Loading activities...</span>
+              </div>
+            ) : ownActivities.length === 0 ? (
+              <p className="text-gray-500">You have not created any activities yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {ownActivities.map((activity, index) => (
+                  <div key={activity.id} className={`py-3 ${activity.isArchived ? 'opacity-60' : ''}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center space-x-3">
+                        <div className="flex flex-col">
+                          <button
+                            onClick={() => handleMove(index, -1)}
+                            disabled={isBusy || index === 0}
+                            className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={() => handleMove(index, 1)}
+                            disabled={isBusy || index === ownActivities.length - 1}
+                            className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            ▼
+                          </button>
+                        </div>
+                        <span
+                          className="w-2 h-8 rounded"
+                          style={{ backgroundColor: activity.color || '#E5E7EB' }}
+                        />
+                        <span className="text-2xl">{activity.icon || '📌'}</span>
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            {activity.name}
+                            {activity.isArchived && <span className="ml-2 text-xs text-gray-500">(archived)</span>}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {activity.description || 'No description'} · {activity._count.items} item{activity._count.items === 1 ? '' : 's'}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3 text-sm">
+                        <button onClick={() => handleEdit(activity)} className="text-blue-600 hover:text-blue-500">
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setRulesActivityId(rulesActivityId === activity.id ? null : activity.id)}
+                          className="text-purple-600 hover:text-purple-500"
+                        >
+                          Rules
+                        </button>
+                        <button
+                          onClick={() => run(() => updateActivity({ id: activity.id, isArchived: !activity.isArchived }))}
+                          disabled={isBusy}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {activity.isArchived ? 'Unarchive' : 'Archive'}
+                        </button>
+                        <button
+                          onClick={() => setDeletingId(deletingId === activity.id ? null : activity.id)}
+                          className="text-red-600 hover:text-red-500"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+
+                    {rulesActivityId === activity.id && (
+                      <ActivityRuleEditor
+                        activityId={activity.id}
+                        onClose={() => setRulesActivityId(null)}
+                        className="mt-3 p-3 bg-gray-50 rounded-md"
+                      />
+                    )}
+
+                    {/* Delete confirmation with item reassignment */}
+                    {deletingId === activity.id && (
+                      <div className="mt-3 p-3 bg-red-50 rounded-md flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-gray-700">
+                          Move its {activity._count.items} item{activity._count.items === 1 ? '' : 's'} to
+                        </span>
+                        <select
+                          value={moveToActivityId}
+                          onChange={(e) => setMoveToActivityId(e.target.value)}
+                          className="border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">No activity</option>
+                          {allActivities
+                            .filter(other => other.id !== activity.id && !other.isArchived)
+                            .map(other => (
+                              <option key={other.id} value={other.id}>
+                                {other.icon} {other.name}
+                              </option>
+                            ))}
+                        </select>
+                        <button
+                          onClick={() => handleDelete(activity.id)}
+                          disabled={isBusy}
+                          className="px-3 py-1 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Delete Activity
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Default Activities */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Built-in Activities</h2>
+            <p className="text-sm text-gray-500 mb-4">Shared by everyone and always available</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {defaultActivities.map(activity => (
+                <div key={activity.id} className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg">
+                  <span className="text-2xl">{activity.icon || '📌'}</span>
+                  <div className="flex-1">
+                    <div className="font-medium text-gray-900">{activity.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {activity._count.items} item{activity._count.items === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setRulesActivityId(rulesActivityId === activity.id ? null : activity.id)}
+                    className="text-sm text-purple-600 hover:text-purple-500"
+                  >
+                    Rules
+                  </button>
+                </div>
+              ))}
+            </div>
+            {rulesActivityId !== null && defaultActivities.some(activity => activity.id === rulesActivityId) && (
+              <ActivityRuleEditor
+                activityId={rulesActivityId}
+                onClose={() => setRulesActivityId(null)}
+                className="mt-4 p-4 bg-gray-50 rounded-md"
+              />
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import {
+  useQuery,
+  getActivityRule,
+  getTags,
+  getTagCategories,
+  updateActivityRule,
+  resetActivityRule
+} from 'wasp/client/operations';
+import { errorMessage } from '../errors';
+
+interface ActivityRuleEditorProps {
+  activityId: number;
+  onClose?: () => void;
+  className?: string;
+}
+
+type IdListField = 'includeTagIds' | 'includeCategoryIds' | 'excludeTagIds';
+
+export const ActivityRuleEditor: React.FC<ActivityRuleEditorProps> = ({
+  activityId,
+  onClose,
+  className = ''
+}) => {
+  const { data: rule, isLoading, refetch } = useQuery(getActivityRule, { activityId });
+  const { data: tags } = useQuery(getTags);
+  const { data: categories } = useQuery(getTagCategories);
+
+  const [includeTagIds, setIncludeTagIds] = useState<number[]>([]);
+  const [includeCategoryIds, setIncludeCategoryIds] = useState<number[]>([]);
+  const [excludeTagIds, setExcludeTagIds] = useState<number[]>([]);
+  const [excludeCompleted, setExcludeCompleted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the rule currently in effect (the user's override or the default)
+  useEffect(() => {
+    if (!rule) return;
+    setIncludeTagIds(rule.includeTagIds);
+    setIncludeCategoryIds(rule.includeCategoryIds);
+    setExcludeTagIds(rule.excludeTagIds);
+    setExcludeCompleted(rule.excludeCompleted);
+  }, [rule]);
+
+  const lists: Record<IdListField, [number[], (ids: number[]) => void]> = {
+    includeTagIds: [includeTagIds, setIncludeTagIds],
+    includeCategoryIds: [includeCategoryIds, setIncludeCategoryIds],
+    excludeTagIds: [excludeTagIds, setExcludeTagIds]
+  };
+
+  const toggle = (field: IdListField, id: number) => {
+    const [ids, setIds] = lists[field];
+    setIds(ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateActivityRule({ activityId, includeTagIds, includeCategoryIds, excludeTagIds, excludeCompleted });
+      refetch();
+      onClose?.();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save rules'));
+    }
+    setIsSaving(false);
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await resetActivityRule({ activityId });
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to reset rules'));
+    }
+    setIsSaving(false);
+  };
+
+  const renderChips = (field: IdListField, options: Array<{ id: number; name: string; icon?: string | null }>, activeClass: string) => (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <button
+          key={option.id}
+          type="button"
+          onClick={() => toggle(field, option.id)}
+          className={`px-2 py-1 rounded-full text-xs font-medium border transition-colors ${
+            lists[field][0].includes(option.id) ? activeClass : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          {option.icon ? `${option.icon} ` : ''}{option.name}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (isLoading) {
+    return <p className={`text-sm text-gray-500 ${className}`}>Loading rules...</p>;
+  }
+
+  return (
+    <div className={`space-y-4 text-sm ${className}`}>
+      <p className="text-gray-600">
+        Items assigned to this activity always show. These rules also surface items that match, ordered by relevance.
+        {rule?.isCustom ? ' You are using your own rules.' : ' You are using the default rules.'}
+      </p>
+
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-2">Include items tagged with</h4>
+        {renderChips('includeTagIds', tags || [], 'border-green-500 bg-green-50 text-green-700')}
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-2">Include items with a tag in categories</h4>
+        {renderChips('includeCategoryIds', categories || [], 'border-blue-500 bg-blue-50 text-blue-700')}
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-2">Never include items tagged with</h4>
+        {renderChips('excludeTagIds', tags || [], 'border-red-500 bg-red-50 text-red-700')}
+      </div>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={excludeCompleted}
+          onChange={(e) => setExcludeCompleted(e.target.checked)}
+        />
+        <span>Hide completed items</span>
+      </label>
+
+      <div className="flex items-center space-x-2">
+        <button onClick={handleSave} disabled={isSaving} className="btn-primary disabled:opacity-50">
+          Save Rules
+        </button>
+        {rule?.isCustom && (
+          <button onClick={handleReset} disabled={isSaving} className="btn-secondary disabled:opacity-50">
+            Reset to Default
+          </button>
+        )}
+        {onClose && (
+          <button onClick={onClose} className="btn-secondary">
+            Close
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
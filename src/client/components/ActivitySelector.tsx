@@ -5,6 +5,7 @@ interface ActivitySelectorProps {
   activities: Activity[];
   selectedActivityId: number | null;
   onActivitySelect: (activityId: number | null) => void;
+  onReorder?: (orderedIds: number[]) => void; // Enables move up/down controls on the user's own activities
   className?: string;
 }
 
@@ -12,8 +13,25 @@ export const ActivitySelector: React.FC<ActivitySelectorProps> = ({
   activities,
   selectedActivityId,
   onActivitySelect,
+  onReorder,
   className = ''
 }) => {
+  // Archived activities keep their items but are not offered for selection
+  const visibleActivities = activities.filter(activity => !activity.isArchived);
+  const ownActivities = visibleActivities.filter(activity => activity.userId !== null);
+
+  const moveActivity = (activityId: number, direction: -1 | 1) => {
+    if (!onReorder) return;
+
+    const ids = ownActivities.map(activity => activity.id);
+    const index = ids.indexOf(activityId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    onReorder(ids);
+  };
+
   return (
     <div className={`space-y-3 ${className}`}>
       <h3 className="text-lg font-semibold text-gray-900">Activities</h3>
@@ -38,27 +56,55 @@ export const ActivitySelector: React.FC<ActivitySelectorProps> = ({
         </button>
 
         {/* Activity Options */}
-        {activities.map((activity) => (
-          <button
-            key={activity.id}
-            onClick={() => onActivitySelect(activity.id)}
-            className={`p-4 rounded-lg border-2 transition-all duration-200 text-left ${
-              selectedActivityId === activity.id
-                ? 'border-blue-500 bg-blue-50 shadow-md'
-                : 'border-gray-200 bg-white hover:border-gray-300 hover:shadow-sm'
-            }`}
-          >
-            <div className="flex items-center space-x-3">
-              <div className="text-2xl">{activity.icon || '📌'}</div>
-              <div>
-                <div className="font-medium text-gray-900">{activity.name}</div>
-                <div className="text-sm text-gray-500">
-                  {activity.description || 'No description'}
+        {visibleActivities.map((activity) => {
+          const ownIndex = ownActivities.findIndex(own => own.id === activity.id);
+
+          return (
+            <div key={activity.id} className="relative">
+              <button
+                onClick={() => onActivitySelect(activity.id)}
+                style={activity.color ? { borderLeftColor: activity.color, borderLeftWidth: 6 } : undefined}
+                className={`w-full h-full p-4 rounded-lg border-2 transition-all duration-200 text-left ${
+                  selectedActivityId === activity.id
+                    ? 'border-blue-500 bg-blue-50 shadow-md'
+                    : 'border-gray-200 bg-white hover:border-gray-300 hover:shadow-sm'
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  <div className="text-2xl">{activity.icon || '📌'}</div>
+                  <div>
+                    <div className="font-medium text-gray-900">{activity.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {activity.description || 'No description'}
+                    </div>
+                  </div>
+                </div>
+              </button>
+
+              {/* Reorder controls (user activities only) */}
+              {onReorder && ownIndex !== -1 && (
+                <div className="absolute top-1 right-1 flex flex-col">
+                  <button
+                    onClick={() => moveActivity(activity.id, -1)}
+                    disabled={ownIndex === 0}
+                    className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => moveActivity(activity.id, 1)}
+                    disabled={ownIndex === ownActivities.length - 1}
+                    className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    ▼
+                  </button>
                 </div>
-              </div>
+              )}
             </div>
-          </button>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
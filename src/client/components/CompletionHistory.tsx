@@ -0,0 +1,39 @@
+import React from 'react';
+import { useQuery, getItemCompletions } from 'wasp/client/operations';
+import { errorMessage } from '../errors';
+import { describeRecurrence } from './ItemScheduleEditor';
+
+interface CompletionHistoryProps {
+  itemId: number;
+  recurrenceRule: string;
+  className?: string;
+}
+
+export const CompletionHistory: React.FC<CompletionHistoryProps> = ({ itemId, recurrenceRule, className = '' }) => {
+  const { data: completions, isLoading, error } = useQuery(getItemCompletions, { itemId });
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <h4 className="font-semibold text-gray-700 mb-1">🔁 {describeRecurrence(recurrenceRule)}</h4>
+      {isLoading ? (
+        <p className="text-gray-500">Loading completions...</p>
+      ) : error || !completions ? (
+        <p className="text-red-600">{errorMessage(error, 'Could not load completions')}</p>
+      ) : completions.length === 0 ? (
+        <p className="text-gray-500">Not completed yet.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {completions.map(completion => (
+            <li key={completion.id} className="flex justify-between text-gray-600">
+              <span>✅ {formatDate(completion.completedAt)}</span>
+              {completion.dueAt && <span className="text-gray-400">due {formatDate(completion.dueAt)}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import type { Activity, Tag } from 'wasp/entities';
+import { toLocalInput, fromLocalInput, describeRecurrence } from './ItemScheduleEditor';
+import { ItemDetailsFields, ItemTypeSelect } from './ItemDetailsEditor';
+import { normalizeItemDetails, type ItemType, type ItemDetails } from '../../shared/itemTypes';
+
+export interface DraftItem {
+  key: string;
+  content: string;
+  tagIds: number[];
+  suggestedTags: string[];
+  activityId: number | null;
+  intent?: { category: string; confidence: number };
+  dueAt?: string | null;
+  remindAt?: string | null;
+  dateText?: string | null; // Date expression found in the note
+  recurrenceRule?: string | null;
+  type?: ItemType;
+  details?: ItemDetails;
+}
+
+interface DraftItemCardProps {
+  item: DraftItem;
+  tags: Tag[];
+  activities: Activity[];
+  onChange: (item: DraftItem) => void;
+  onSplit: (splitAt: number) => void;
+  onMergeWithNext?: () => void;
+  onDrop: () => void;
+  className?: string;
+}
+
+export const DraftItemCard: React.FC<DraftItemCardProps> = ({
+  item,
+  tags,
+  activities,
+  onChange,
+  onSplit,
+  onMergeWithNext,
+  onDrop,
+  className = ''
+}) => {
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const itemType = item.type ?? 'note';
+  // Kept as typed while editing; the server normalizes the fields when the draft is saved
+  const details = item.details ?? normalizeItemDetails(itemType, {});
+
+  const selectedTags = tags.filter(tag => item.tagIds.includes(tag.id));
+  const availableTags = tags.filter(tag => !item.tagIds.includes(tag.id));
+
+  const handleRemoveTag = (tagId: number) => {
+    onChange({ ...item, tagIds: item.tagIds.filter(id => id !== tagId) });
+  };
+
+  const handleAddTag = (tagId: number) => {
+    // Maximum 3 tags per item
+    if (item.tagIds.length >= 3) return;
+    onChange({ ...item, tagIds: [...item.tagIds, tagId] });
+  };
+
+  const handleSplit = () => {
+    // Split where the cursor is, or in the middle when the textarea is not focused
+    const cursor = contentRef.current?.selectionStart ?? 0;
+    const splitAt = cursor > 0 && cursor < item.content.length
+      ? cursor
+      : Math.floor(item.content.length / 2);
+    onSplit(splitAt);
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3 ${className}`}>
+      {/* Content */}
+      <textarea
+        ref={contentRef}
+        value={item.content}
+        onChange={(e) => onChange({ ...item, content: e.target.value })}
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+      />
+
+      {/* Tags */}
+      <div className="flex flex-wrap items-center gap-2">
+        {selectedTags.map(tag => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+            style={{
+              backgroundColor: tag.color ? `${tag.color}20` : '#f3f4f6',
+              color: tag.color || '#6b7280'
+            }}
+          >
+            {tag.name}
+            <button
+              onClick={() => handleRemoveTag(tag.id)}
+              className="ml-1 hover:text-red-600"
+              title="Remove tag"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {item.tagIds.length < 3 && (
+          <select
+            value=""
+            onChange={(e) => handleAddTag(Number(e.target.value))}
+            className="text-xs border border-gray-300 rounded-md py-0.5"
+          >
+            <option value="" disabled>+ Add tag</option>
+            {availableTags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {item.suggestedTags.length > 0 && (
+        <p className="text-xs text-gray-400">AI suggested: {item.suggestedTags.join(', ')}</p>
+      )}
+
+      {/* Dates read from the note */}
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <label className="flex items-center gap-1">
+          📅
+          <input
+            type="datetime-local"
+            value={toLocalInput(item.dueAt ?? null)}
+            onChange={(e) => onChange({ ...item, dueAt: fromLocalInput(e.target.value) })}
+            className="border border-gray-300 rounded-md py-0.5 px-1 text-sm"
+            title="Due date"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          🔔
+          <input
+            type="datetime-local"
+            value={toLocalInput(item.remindAt ?? null)}
+            onChange={(e) => onChange({ ...item, remindAt: fromLocalInput(e.target.value) })}
+            className="border border-gray-300 rounded-md py-0.5 px-1 text-sm"
+            title="Reminder"
+          />
+        </label>
+        {item.recurrenceRule && (
+          <span className="inline-flex items-center">
+            🔁 {describeRecurrence(item.recurrenceRule)}
+            <button
+              onClick={() => onChange({ ...item, recurrenceRule: null })}
+              className="ml-1 hover:text-red-600"
+              title="Does not repeat"
+            >
+              ×
+            </button>
+          </span>
+        )}
+        {item.dateText && <span className="text-xs text-gray-400">from "{item.dateText}"</span>}
+      </div>
+
+      {/* Type and the fields read for it */}
+      {showDetails && itemType !== 'note' && (
+        <div className="text-sm">
+          <ItemDetailsFields
+            type={itemType}
+            details={details}
+            onChange={(changed) => onChange({ ...item, details: changed })}
+          />
+        </div>
+      )}
+
+      {/* Activity and Actions */}
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-2">
+          <ItemTypeSelect
+            value={itemType}
+            onChange={(type) => onChange({ ...item, type, details: normalizeItemDetails(type, details) })}
+          />
+          {itemType !== 'note' && (
+            <button
+              onClick={() => setShowDetails(!showDetails)}
+              className="text-blue-600 hover:text-blue-500"
+            >
+              {showDetails ? 'Hide details' : 'Details'}
+            </button>
+          )}
+          <select
+            value={item.activityId ?? ''}
+            onChange={(e) => onChange({ ...item, activityId: e.target.value ? Number(e.target.value) : null })}
+            className="border border-gray-300 rounded-md py-1 text-sm"
+          >
+            <option value="">No activity</option>
+            {activities.map(activity => (
+              <option key={activity.id} value={activity.id}>
+                {activity.icon || '📌'} {activity.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleSplit}
+            className="px-2 py-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+            title="Split at the cursor"
+          >
+            ✂️ Split
+          </button>
+          {onMergeWithNext && (
+            <button
+              onClick={onMergeWithNext}
+              className="px-2 py-1 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+              title="Merge with the next item"
+            >
+              🔗 Merge
+            </button>
+          )}
+          <button
+            onClick={onDrop}
+            className="px-2 py-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+            title="Drop this item"
+          >
+            🗑️ Drop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+  className?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ segments, className = '' }) => (
+  <span className={className}>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </span>
+);
@@ -1,12 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Link } from 'wasp/client/router';
 import type { Item } from 'wasp/entities';
+import { SimilarItems } from './SimilarItems';
+import { RelevanceHistory, type RankingBreakdown } from './RelevanceHistory';
+import { ItemScheduleEditor, describeRecurrence, type ItemScheduleChange } from './ItemScheduleEditor';
+import { CompletionHistory } from './CompletionHistory';
+import { ItemDetailsView } from './ItemDetailsView';
+import { ItemDetailsEditor, type ItemDetailsChange } from './ItemDetailsEditor';
+import { ITEM_TYPE_INFO, isItemType, parseItemDetails } from '../../shared/itemTypes';
 
 interface ItemWithRelations extends Item {
   tags: Array<{
     tag: {
       id: number;
       name: string;
-      category: string;
+      categoryId: number;
       color: string | null;
     };
   }>;
@@ -15,13 +23,25 @@ interface ItemWithRelations extends Item {
     name: string;
     icon: string | null;
   } | null;
+  note?: {
+    id: number;
+    rawText: string;
+  } | null;
+  matchedByRule?: boolean; // Surfaced by the selected activity's rules rather than assigned to it
+  ranking?: RankingBreakdown; // Why the item sits where it does in the list
 }
 
+export type ItemFeedbackKind = 'boost' | 'dismiss' | 'open';
+
 interface ItemCardProps {
   item: ItemWithRelations;
   onToggleComplete?: (itemId: number, isCompleted: boolean) => void;
   onEdit?: (item: ItemWithRelations) => void;
   onDelete?: (itemId: number) => void;
+  onFeedback?: (itemId: number, kind: ItemFeedbackKind) => void;
+  onSchedule?: (itemId: number, schedule: ItemScheduleChange) => void;
+  onSnooze?: (itemId: number, until: string | null) => void;
+  onUpdateDetails?: (itemId: number, change: ItemDetailsChange) => void;
   className?: string;
 }
 
@@ -30,8 +50,21 @@ export const ItemCard: React.FC<ItemCardProps> = ({
   onToggleComplete,
   onEdit,
   onDelete,
+  onFeedback,
+  onSchedule,
+  onSnooze,
+  onUpdateDetails,
   className = ''
 }) => {
+  const [showSimilar, setShowSimilar] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showCompletions, setShowCompletions] = useState(false);
+  const [showDetailsEditor, setShowDetailsEditor] = useState(false);
+
+  const itemType = isItemType(item.type) ? item.type : 'note';
+  const details = parseItemDetails(itemType, item.details);
+
   const handleToggleComplete = () => {
     if (onToggleComplete) {
       onToggleComplete(item.id, !item.isCompleted);
@@ -47,6 +80,19 @@ export const ItemCard: React.FC<ItemCardProps> = ({
     });
   };
 
+  const formatDateTime = (date: string | Date) => {
+    const d = new Date(date);
+    return d.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const isOverdue = !!item.dueAt && !item.isCompleted && new Date(item.dueAt).getTime() < Date.now();
+  const isSnoozed = !!item.snoozedUntil && new Date(item.snoozedUntil).getTime() > Date.now();
+
   return (
     <div
       className={`bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow duration-200 ${
@@ -56,16 +102,35 @@ export const ItemCard: React.FC<ItemCardProps> = ({
       {/* Content and Actions */}
       <div className="flex items-start justify-between mb-3">
         <div className="flex-1 min-w-0">
-          <p
-            className={`text-gray-900 ${
-              item.isCompleted ? 'line-through text-gray-500' : ''
-            }`}
-          >
-            {item.content}
-          </p>
-          {item.sourceNote && item.sourceNote !== item.content && (
+          <div className="flex items-start gap-2">
+            <button
+              onClick={() => setShowDetailsEditor(!showDetailsEditor)}
+              disabled={!onUpdateDetails}
+              className="shrink-0 enabled:hover:scale-110 transition-transform"
+              title={onUpdateDetails ? `${ITEM_TYPE_INFO[itemType].label}, click to edit details` : ITEM_TYPE_INFO[itemType].label}
+            >
+              {ITEM_TYPE_INFO[itemType].icon}
+            </button>
+            <p
+              className={`text-gray-900 ${
+                item.isCompleted ? 'line-through text-gray-500' : ''
+              }`}
+            >
+              {item.content}
+            </p>
+          </div>
+          <ItemDetailsView type={itemType} details={details} className="mt-2" />
+          {item.note && item.note.rawText !== item.content && (
             <p className="text-sm text-gray-500 mt-1 italic">
-              From: "{item.sourceNote}"
+              From:{' '}
+              <Link
+                to="/notes/:id"
+                params={{ id: item.note.id }}
+                onClick={() => onFeedback?.(item.id, 'open')}
+                className="hover:text-blue-600 hover:underline"
+              >
+                "{item.note.rawText}"
+              </Link>
             </p>
           )}
         </div>
@@ -149,16 +214,132 @@ export const ItemCard: React.FC<ItemCardProps> = ({
               <span>{item.activity.name}</span>
             </>
           )}
+          {item.matchedByRule && (
+            <span
+              className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700"
+              title="Shown because it matches this activity's rules"
+            >
+              auto
+            </span>
+          )}
         </div>
         <div className="flex items-center space-x-3">
+          {item.dueAt && (
+            <span
+              className={isOverdue ? 'text-red-600 font-medium' : 'text-gray-600'}
+              title={isOverdue ? 'Overdue' : 'Due date'}
+            >
+              📅 {formatDate(item.dueAt)}
+            </span>
+          )}
+          {item.recurrenceRule && (
+            <button
+              onClick={() => setShowCompletions(!showCompletions)}
+              className="text-gray-600 hover:text-blue-600"
+              title={`${describeRecurrence(item.recurrenceRule)}, click for completions`}
+            >
+              🔁
+            </button>
+          )}
+          {item.remindAt && !item.isCompleted && (
+            <span className="text-gray-600" title="Reminder">
+              🔔 {formatDateTime(item.remindAt)}
+            </span>
+          )}
+          {isSnoozed && (
+            <button
+              onClick={() => onSnooze?.(item.id, null)}
+              className="text-gray-600 hover:text-blue-600"
+              title="Snoozed, click to wake up now"
+            >
+              💤 {formatDateTime(item.snoozedUntil!)}
+            </button>
+          )}
           {item.relevance < 1.0 && (
             <span className="text-yellow-600" title={`Relevance: ${(item.relevance * 100).toFixed(0)}%`}>
               ⭐ {(item.relevance * 100).toFixed(0)}%
             </span>
           )}
           <span>{formatDate(item.createdAt)}</span>
+          {onFeedback && (
+            <>
+              <button
+                onClick={() => onFeedback(item.id, 'boost')}
+                className="hover:scale-110 transition-transform"
+                title="More like this"
+              >
+                👍
+              </button>
+              <button
+                onClick={() => onFeedback(item.id, 'dismiss')}
+                className="hover:scale-110 transition-transform"
+                title="Show less like this"
+              >
+                👎
+              </button>
+            </>
+          )}
+          {onSchedule && !item.isCompleted && (
+            <button
+              onClick={() => setShowSchedule(!showSchedule)}
+              className="hover:scale-110 transition-transform"
+              title="Due date, reminder and snooze"
+            >
+              ⏰
+            </button>
+          )}
+          <button
+            onClick={() => setShowSimilar(!showSimilar)}
+            className="text-blue-600 hover:text-blue-500"
+            title="Show items with a similar meaning"
+          >
+            {showSimilar ? 'Hide similar' : 'Similar'}
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-blue-600 hover:text-blue-500"
+            title="Why this item ranks where it does"
+          >
+            {showHistory ? 'Hide why' : 'Why?'}
+          </button>
         </div>
       </div>
+
+      {showDetailsEditor && onUpdateDetails && (
+        <ItemDetailsEditor
+          type={itemType}
+          details={details}
+          onSave={(change) => onUpdateDetails(item.id, change)}
+          onClose={() => setShowDetailsEditor(false)}
+          className="mt-3 pt-3 border-t border-gray-100"
+        />
+      )}
+
+      {showSchedule && onSchedule && (
+        <ItemScheduleEditor
+          dueAt={item.dueAt}
+          remindAt={item.remindAt}
+          recurrenceRule={item.recurrenceRule}
+          onSchedule={(schedule) => onSchedule(item.id, schedule)}
+          onSnooze={onSnooze ? (until) => onSnooze(item.id, until) : undefined}
+          onClose={() => setShowSchedule(false)}
+          className="mt-3 pt-3 border-t border-gray-100"
+        />
+      )}
+
+      {showCompletions && item.recurrenceRule && (
+        <CompletionHistory
+          itemId={item.id}
+          recurrenceRule={item.recurrenceRule}
+          className="mt-3 pt-3 border-t border-gray-100"
+        />
+      )}
+
+      {/* Similar Items and Ranking History (loaded on demand) */}
+      {showSimilar && <SimilarItems itemId={item.id} className="mt-3 pt-3 border-t border-gray-100" />}
+      {showHistory && (
+        <RelevanceHistory itemId={item.id} ranking={item.ranking} className="mt-3 pt-3 border-t border-gray-100" />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import {
+  ITEM_TYPES,
+  ITEM_TYPE_INFO,
+  TASK_PRIORITIES,
+  normalizeItemDetails,
+  serializeItemDetails,
+  type ItemType,
+  type ItemDetails
+} from '../../shared/itemTypes';
+
+export interface ItemDetailsChange {
+  type: ItemType;
+  details?: ItemDetails; // Left out to have the server read them from the content
+}
+
+interface ItemDetailsFieldsProps {
+  type: ItemType;
+  details: ItemDetails;
+  onChange: (details: ItemDetails) => void;
+}
+
+const inputClass = 'mt-1 w-full px-2 py-1 border border-gray-300 rounded-md';
+
+// Lists are edited one entry per line
+const toLines = (entries: string[]) => entries.join('\n');
+const fromLines = (text: string) => text.split('\n');
+
+// Input fields for the details of one type, as a controlled form
+export const ItemDetailsFields: React.FC<ItemDetailsFieldsProps> = ({ type, details, onChange }) => {
+  const fields: { [field: string]: unknown } = details;
+  // Inputs hold what was typed (untrimmed text, blank lines); the details are normalized on save
+  const set = (field: string, value: unknown) => onChange({ ...fields, [field]: value } as ItemDetails);
+  const textOf = (field: string) => {
+    const value = fields[field];
+    return typeof value === 'string' || typeof value === 'number' ? value : '';
+  };
+  const listOf = (field: string) => {
+    const value = fields[field];
+    return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+  };
+  const setNumber = (field: string, value: string) => set(field, value === '' ? null : Number(value));
+
+  const textField = (field: string, label: string, placeholder = '') => (
+    <label className="block">
+      <span className="text-gray-700">{label}</span>
+      <input
+        type="text"
+        value={textOf(field)}
+        onChange={(e) => set(field, e.target.value)}
+        className={inputClass}
+        placeholder={placeholder}
+      />
+    </label>
+  );
+
+  const numberField = (field: string, label: string) => (
+    <label className="block">
+      <span className="text-gray-700">{label}</span>
+      <input
+        type="number"
+        step="any"
+        value={textOf(field)}
+        onChange={(e) => setNumber(field, e.target.value)}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const listField = (field: string, label: string, placeholder: string) => (
+    <label className="block">
+      <span className="text-gray-700">{label}</span>
+      <textarea
+        value={toLines(listOf(field))}
+        onChange={(e) => set(field, fromLines(e.target.value))}
+        rows={3}
+        className={inputClass}
+        placeholder={placeholder}
+      />
+    </label>
+  );
+
+  switch (type) {
+    case 'shopping':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {textField('name', 'Product', 'tomatoes')}
+          {textField('store', 'Store', 'Any store')}
+          {numberField('quantity', 'Quantity')}
+          {textField('unit', 'Unit', 'kg, bottle...')}
+          {textField('aisle', 'Aisle', 'Guessed from the product')}
+        </div>
+      );
+    case 'place':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {textField('name', 'Name')}
+          {textField('address', 'Address')}
+          {numberField('lat', 'Latitude')}
+          {numberField('lng', 'Longitude')}
+        </div>
+      );
+    case 'recipe':
+      return (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            {listField('ingredients', 'Ingredients', 'One per line')}
+            {listField('steps', 'Steps', 'One per line')}
+          </div>
+          {textField('sourceUrl', 'Source URL', 'https://')}
+        </div>
+      );
+    case 'task':
+      return (
+        <label className="block">
+          <span className="text-gray-700">Priority</span>
+          <select
+            value={textOf('priority')}
+            onChange={(e) => set('priority', e.target.value || null)}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {TASK_PRIORITIES.map(priority => (
+              <option key={priority} value={priority}>{priority}</option>
+            ))}
+          </select>
+        </label>
+      );
+    default:
+      return null;
+  }
+};
+
+interface ItemTypeSelectProps {
+  value: ItemType;
+  onChange: (type: ItemType) => void;
+  className?: string;
+}
+
+export const ItemTypeSelect: React.FC<ItemTypeSelectProps> = ({ value, onChange, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as ItemType)}
+    className={`border border-gray-300 rounded-md py-1 text-sm ${className}`}
+  >
+    {ITEM_TYPES.map(type => (
+      <option key={type} value={type}>
+        {ITEM_TYPE_INFO[type].icon} {ITEM_TYPE_INFO[type].label}
+      </option>
+    ))}
+  </select>
+);
+
+interface ItemDetailsEditorProps {
+  type: ItemType;
+  details: ItemDetails;
+  onSave: (change: ItemDetailsChange) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export const ItemDetailsEditor: React.FC<ItemDetailsEditorProps> = ({ type, details, onSave, onClose, className = '' }) => {
+  const [typeInput, setTypeInput] = useState(type);
+  const [detailsInput, setDetailsInput] = useState<ItemDetails>(details);
+
+  const handleTypeChange = (newType: ItemType) => {
+    setTypeInput(newType);
+    // Fields the new type shares (a shopping entry and a place both have a name) carry over
+    setDetailsInput(normalizeItemDetails(newType, detailsInput));
+  };
+
+  const handleSave = () => {
+    // A new type with nothing filled in is read from the item's wording instead
+    const isBlankRetype = typeInput !== type && serializeItemDetails(typeInput, detailsInput) === null;
+    onSave({ type: typeInput, details: isBlankRetype ? undefined : normalizeItemDetails(typeInput, detailsInput) });
+    onClose();
+  };
+
+  return (
+    <div className={`text-sm space-y-3 ${className}`}>
+      <label className="flex items-center gap-2">
+        <span className="text-gray-700">Type</span>
+        <ItemTypeSelect value={typeInput} onChange={handleTypeChange} />
+      </label>
+
+      <ItemDetailsFields type={typeInput} details={detailsInput} onChange={setDetailsInput} />
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="btn-primary">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  formatQuantity,
+  serializeItemDetails,
+  type ItemType,
+  type ItemDetails,
+  type ShoppingDetails,
+  type PlaceDetails,
+  type RecipeDetails,
+  type TaskDetails
+} from '../../shared/itemTypes';
+
+interface ItemDetailsViewProps {
+  type: ItemType;
+  details: ItemDetails;
+  className?: string;
+}
+
+const PRIORITY_STYLES: { [priority: string]: string } = {
+  high: 'bg-red-50 text-red-700',
+  medium: 'bg-yellow-50 text-yellow-700',
+  low: 'bg-gray-100 text-gray-600'
+};
+
+const mapUrl = (place: PlaceDetails) =>
+  place.lat !== null && place.lng !== null
+    ? `https://www.openstreetmap.org/?mlat=${place.lat}&mlon=${place.lng}#map=17/${place.lat}/${place.lng}`
+    : `https://www.openstreetmap.org/search?query=${encodeURIComponent(place.address || place.name || '')}`;
+
+const ShoppingView: React.FC<{ details: ShoppingDetails }> = ({ details }) => {
+  const quantity = formatQuantity(details);
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {quantity && <span className="px-2 py-0.5 rounded-md bg-green-50 text-green-700 font-medium">{quantity}</span>}
+      {details.name && <span className="text-gray-700">{details.name}</span>}
+      {details.store && <span className="text-gray-500">at {details.store}</span>}
+    </div>
+  );
+};
+
+const PlaceView: React.FC<{ details: PlaceDetails }> = ({ details }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    {details.name && <span className="font-medium text-gray-700">📍 {details.name}</span>}
+    {details.address && <span className="text-gray-500">{details.address}</span>}
+    <a
+      href={mapUrl(details)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 hover:text-blue-500"
+      title={details.lat !== null ? `${details.lat}, ${details.lng}` : 'Search on the map'}
+    >
+      Map
+    </a>
+  </div>
+);
+
+const RecipeView: React.FC<{ details: RecipeDetails }> = ({ details }) => (
+  <div className="space-y-1">
+    {details.ingredients.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {details.ingredients.map((ingredient, index) => (
+          <span key={index} className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-800 text-xs">
+            {ingredient}
+          </span>
+        ))}
+      </div>
+    )}
+    {details.steps.length > 0 && (
+      <ol className="list-decimal list-inside text-gray-600">
+        {details.steps.map((step, index) => (
+          <li key={index}>{step}</li>
+        ))}
+      </ol>
+    )}
+    {details.sourceUrl && (
+      <a href={details.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-500">
+        Source ↗
+      </a>
+    )}
+  </div>
+);
+
+const TaskView: React.FC<{ details: TaskDetails }> = ({ details }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PRIORITY_STYLES[details.priority ?? 'low']}`}>
+    {details.priority} priority
+  </span>
+);
+
+// Structured fields of an item, rendered for its type; notes have none
+export const ItemDetailsView: React.FC<ItemDetailsViewProps> = ({ type, details, className = '' }) => {
+  if (serializeItemDetails(type, details) === null) return null;
+
+  return (
+    <div className={`text-sm ${className}`}>
+      {type === 'shopping' && <ShoppingView details={details as ShoppingDetails} />}
+      {type === 'place' && <PlaceView details={details as PlaceDetails} />}
+      {type === 'recipe' && <RecipeView details={details as RecipeDetails} />}
+      {type === 'task' && <TaskView details={details as TaskDetails} />}
+    </div>
+  );
+};
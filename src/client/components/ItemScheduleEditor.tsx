@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+
+export interface ItemScheduleChange {
+  dueAt?: string | null;
+  remindAt?: string | null;
+  recurrenceRule?: string | null;
+}
+
+interface ItemScheduleEditorProps {
+  dueAt: Date | string | null;
+  remindAt: Date | string | null;
+  recurrenceRule: string | null;
+  onSchedule: (schedule: ItemScheduleChange) => void;
+  onSnooze?: (until: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export const toLocalInput = (date: Date | string | null) => {
+  if (!date) return '';
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+export const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const RECURRENCE_PRESETS: Array<{ label: string; rule: string }> = [
+  { label: 'Every day', rule: 'FREQ=DAILY' },
+  { label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: 'Every week', rule: 'FREQ=WEEKLY' },
+  { label: 'Every 2 weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { label: 'Every month', rule: 'FREQ=MONTHLY' },
+  { label: 'Every year', rule: 'FREQ=YEARLY' }
+];
+
+const RULE_UNITS: { [freq: string]: string } = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+const RULE_DAYS: { [day: string]: string } = { MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun' };
+
+const ordinal = (n: number) => {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`;
+};
+
+// "Every 2 weeks on Mon, Thu" from "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+export const describeRecurrence = (rule: string) => {
+  const parts: { [key: string]: string } = {};
+  rule.split(';').forEach(part => {
+    const [key, value] = part.split('=');
+    parts[key] = value;
+  });
+
+  const interval = Number(parts.INTERVAL || 1);
+  const unit = RULE_UNITS[parts.FREQ] || parts.FREQ;
+  let text = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+  if (parts.BYDAY) text += ` on ${parts.BYDAY.split(',').map(day => RULE_DAYS[day] || day).join(', ')}`;
+  if (parts.BYMONTHDAY) text += parts.BYMONTHDAY === '-1' ? ' on the last day' : ` on the ${ordinal(Number(parts.BYMONTHDAY))}`;
+  if (parts.COUNT) text += `, ${parts.COUNT} times`;
+  if (parts.UNTIL) text += `, until ${parts.UNTIL.slice(0, 4)}-${parts.UNTIL.slice(4, 6)}-${parts.UNTIL.slice(6, 8)}`;
+  return text;
+};
+
+const SNOOZE_PRESETS: Array<{ label: string; until: () => Date }> = [
+  { label: '1 hour', until: () => new Date(Date.now() + 60 * 60 * 1000) },
+  {
+    label: 'Tomorrow',
+    until: () => {
+      const d = new Date();
+      d.setDate(d.getDate() + 1);
+      d.setHours(9, 0, 0, 0);
+      return d;
+    }
+  },
+  {
+    label: 'Next week',
+    until: () => {
+      const d = new Date();
+      d.setDate(d.getDate() + 7);
+      d.setHours(9, 0, 0, 0);
+      return d;
+    }
+  }
+];
+
+export const ItemScheduleEditor: React.FC<ItemScheduleEditorProps> = ({
+  dueAt,
+  remindAt,
+  recurrenceRule,
+  onSchedule,
+  onSnooze,
+  onClose,
+  className = ''
+}) => {
+  const [dueInput, setDueInput] = useState(toLocalInput(dueAt));
+  const [remindInput, setRemindInput] = useState(toLocalInput(remindAt));
+  const [ruleInput, setRuleInput] = useState(recurrenceRule || '');
+  const isCustomRule = ruleInput !== '' && !RECURRENCE_PRESETS.some(preset => preset.rule === ruleInput);
+
+  const handleSave = () => {
+    onSchedule({
+      dueAt: fromLocalInput(dueInput),
+      remindAt: fromLocalInput(remindInput),
+      recurrenceRule: ruleInput.trim() || null
+    });
+    onClose();
+  };
+
+  const handleSnooze = (until: Date) => {
+    onSnooze?.(until.toISOString());
+    onClose();
+  };
+
+  return (
+    <div className={`text-sm space-y-3 ${className}`}>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-gray-700">📅 Due</span>
+          <input
+            type="datetime-local"
+            value={dueInput}
+            onChange={(e) => setDueInput(e.target.value)}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-700">🔔 Remind me</span>
+          <input
+            type="datetime-local"
+            value={remindInput}
+            onChange={(e) => setRemindInput(e.target.value)}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-gray-700">🔁 Repeat</span>
+        <div className="mt-1 flex items-center gap-2">
+          <select
+            value={isCustomRule ? 'custom' : ruleInput}
+            onChange={(e) => setRuleInput(e.target.value === 'custom' ? 'FREQ=WEEKLY;BYDAY=MO' : e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="">Does not repeat</option>
+            {RECURRENCE_PRESETS.map(preset => (
+              <option key={preset.rule} value={preset.rule}>{preset.label}</option>
+            ))}
+            <option value="custom">Custom…</option>
+          </select>
+          {isCustomRule && (
+            <input
+              type="text"
+              value={ruleInput}
+              onChange={(e) => setRuleInput(e.target.value)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+              placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+              title="RRULE: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT"
+            />
+          )}
+        </div>
+      </label>
+
+      <div className="flex items-center justify-between gap-2">
+        {onSnooze ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <span>💤 Snooze</span>
+            {SNOOZE_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => handleSnooze(preset.until())}
+                className="px-2 py-0.5 rounded-full bg-gray-100 hover:bg-gray-200"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="btn-primary">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
 import React from 'react';
-import { ItemCard } from './ItemCard';
+import { ItemCard, type ItemFeedbackKind } from './ItemCard';
+import type { RankingBreakdown } from './RelevanceHistory';
+import type { ItemScheduleChange } from './ItemScheduleEditor';
+import type { ItemDetailsChange } from './ItemDetailsEditor';
 import type { Item } from 'wasp/entities';
 
 interface ItemWithRelations extends Item {
@@ -7,7 +10,7 @@ interface ItemWithRelations extends Item {
     tag: {
       id: number;
       name: string;
-      category: string;
+      categoryId: number;
       color: string | null;
     };
   }>;
@@ -16,6 +19,12 @@ interface ItemWithRelations extends Item {
     name: string;
     icon: string | null;
   } | null;
+  note?: {
+    id: number;
+    rawText: string;
+  } | null;
+  matchedByRule?: boolean;
+  ranking?: RankingBreakdown;
 }
 
 interface ItemsListProps {
@@ -25,6 +34,10 @@ interface ItemsListProps {
   onToggleComplete?: (itemId: number, isCompleted: boolean) => void;
   onEdit?: (item: ItemWithRelations) => void;
   onDelete?: (itemId: number) => void;
+  onFeedback?: (itemId: number, kind: ItemFeedbackKind) => void;
+  onSchedule?: (itemId: number, schedule: ItemScheduleChange) => void;
+  onSnooze?: (itemId: number, until: string | null) => void;
+  onUpdateDetails?: (itemId: number, change: ItemDetailsChange) => void;
   className?: string;
 }
 
@@ -35,6 +48,10 @@ export const ItemsList: React.FC<ItemsListProps> = ({
   onToggleComplete,
   onEdit,
   onDelete,
+  onFeedback,
+  onSchedule,
+  onSnooze,
+  onUpdateDetails,
   className = ''
 }) => {
   if (isLoading) {
@@ -86,6 +103,10 @@ export const ItemsList: React.FC<ItemsListProps> = ({
                 onToggleComplete={onToggleComplete}
                 onEdit={onEdit}
                 onDelete={onDelete}
+                onFeedback={onFeedback}
+                onSchedule={onSchedule}
+                onSnooze={onSnooze}
+                onUpdateDetails={onUpdateDetails}
               />
             ))}
           </div>
@@ -108,6 +129,10 @@ export const ItemsList: React.FC<ItemsListProps> = ({
                 onToggleComplete={onToggleComplete}
                 onEdit={onEdit}
                 onDelete={onDelete}
+                onFeedback={onFeedback}
+                onSchedule={onSchedule}
+                onSnooze={onSnooze}
+                onUpdateDetails={onUpdateDetails}
               />
             ))}
           </div>
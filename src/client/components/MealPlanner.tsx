@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import {
+  useQuery,
+  getMealPlan,
+  planMeal,
+  moveMealPlanEntry,
+  removeMealPlanEntry,
+  addMealPlanToShoppingList,
+  fillMealPlanWeek,
+  updateDietaryPreferences
+} from 'wasp/client/operations';
+import { MEALS, MEAL_SLOTS, shiftDayKey, type MealSlot } from '../../shared/mealPlan';
+import { errorMessage } from '../errors';
+import { ITEM_TYPE_INFO, isItemType } from '../../shared/itemTypes';
+
+interface MealPlanEntry {
+  id: number;
+  day: string;
+  meal: MealSlot;
+  sourceItemId: number | null;
+  item: { id: number; content: string; type: string; isCompleted: boolean };
+}
+
+// What is being dragged: a recipe or cooking item from the list, or a meal already on the grid
+type DragPayload = { sourceItemId: number } | { entryId: number };
+
+const DRAG_TYPE = 'application/x-meal-plan';
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const typeIcon = (type: string) => (isItemType(type) ? ITEM_TYPE_INFO[type].icon : '📝');
+
+export const MealPlanner: React.FC = () => {
+  const [weekStart, setWeekStart] = useState<string | undefined>(undefined);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [typingSlot, setTypingSlot] = useState<string | null>(null);
+  const [typedMeal, setTypedMeal] = useState('');
+  const [preferences, setPreferences] = useState('');
+  const [fillMeals, setFillMeals] = useState<MealSlot[]>(['lunch', 'dinner']);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { data: plan, isLoading, error: loadError, refetch } = useQuery(getMealPlan, weekStart ? { weekStart } : {});
+
+  useEffect(() => {
+    if (plan) setPreferences(plan.dietaryPreferences ?? '');
+  }, [plan?.dietaryPreferences]);
+
+  const run = async (operation: () => Promise<string | void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await operation();
+      if (result) setMessage(result);
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, failure));
+    }
+    setIsBusy(false);
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading meal plan...</div>;
+  }
+
+  if (loadError || !plan) {
+    return <div className="text-center py-8 text-red-600">Error loading meal plan: {errorMessage(loadError, 'Unknown error')}</div>;
+  }
+
+  const entries = plan.entries as MealPlanEntry[];
+  const slotKey = (day: string, meal: MealSlot) => `${day}|${meal}`;
+
+  const handleDragStart = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = 'copyMove';
+  };
+
+  const handleDrop = (e: React.DragEvent, day: string, meal: MealSlot) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    if (!data) return;
+
+    const payload = JSON.parse(data) as DragPayload;
+    if ('entryId' in payload) {
+      const entry = entries.find(other => other.id === payload.entryId);
+      if (entry && entry.day === day && entry.meal === meal) return;
+      run(() => moveMealPlanEntry({ id: payload.entryId, day, meal }).then(() => undefined), 'Failed to move meal');
+    } else {
+      run(() => planMeal({ sourceItemId: payload.sourceItemId, day, meal }).then(() => undefined), 'Failed to plan meal');
+    }
+  };
+
+  const handleTypedMeal = (day: string, meal: MealSlot) => {
+    const content = typedMeal.trim();
+    setTypingSlot(null);
+    setTypedMeal('');
+    if (!content) return;
+    run(() => planMeal({ day, meal, content }).then(() => undefined), 'Failed to plan meal');
+  };
+
+  const handleRemove = (entryId: number) =>
+    run(() => removeMealPlanEntry({ id: entryId }), 'Failed to remove meal');
+
+  const handleAddToShoppingList = () => run(async () => {
+    const { added, skipped } = await addMealPlanToShoppingList({ weekStart: plan.weekStart });
+    const alreadyListed = skipped.length > 0 ? ` (${skipped.length} already on the list)` : '';
+    return `Added ${added.length} ingredient${added.length === 1 ? '' : 's'} to the shopping list${alreadyListed}`;
+  }, 'Failed to add ingredients');
+
+  const handleSavePreferences = () => run(async () => {
+    await updateDietaryPreferences({ dietaryPreferences: preferences || null });
+    return 'Dietary preferences saved';
+  }, 'Failed to save dietary preferences');
+
+  const handleFillWeek = () => run(async () => {
+    const result = await fillMealPlanWeek({
+      weekStart: plan.weekStart,
+      meals: fillMeals,
+      dietaryPreferences: preferences || null
+    });
+    return result.entries.length === 0
+      ? 'Every open slot of the week is already planned'
+      : `Planned ${result.entries.length} meal${result.entries.length === 1 ? '' : 's'}`;
+  }, 'Failed to fill the week');
+
+  const toggleFillMeal = (meal: MealSlot) =>
+    setFillMeals(fillMeals.includes(meal) ? fillMeals.filter(other => other !== meal) : [...fillMeals, meal]);
+
+  return (
+    <div className="space-y-6">
+      {/* Week navigation */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setWeekStart(shiftDayKey(plan.weekStart, -7))} className="btn-secondary">
+            ←
+          </button>
+          <button onClick={() => setWeekStart(undefined)} className="btn-secondary">
+            This week
+          </button>
+          <button onClick={() => setWeekStart(shiftDayKey(plan.weekStart, 7))} className="btn-secondary">
+            →
+          </button>
+        </div>
+        <span className="text-sm text-gray-600">
+          {formatDay(plan.days[0])} – {formatDay(plan.days[plan.days.length - 1])}
+        </span>
+      </div>
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Week grid */}
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[56rem] table-fixed border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="w-24" />
+              {plan.days.map(day => (
+                <th
+                  key={day}
+                  className={`py-2 font-medium ${day === plan.today ? 'text-blue-700' : 'text-gray-700'}`}
+                >
+                  {formatDay(day)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {MEAL_SLOTS.map(meal => (
+              <tr key={meal}>
+                <th className="py-2 pr-2 text-left align-top font-medium text-gray-600">
+                  {MEALS[meal].icon} {MEALS[meal].label}
+                </th>
+                {plan.days.map(day => {
+                  const key = slotKey(day, meal);
+                  const slotEntries = entries.filter(entry => entry.day === day && entry.meal === meal);
+                  return (
+                    <td
+                      key={key}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropTarget(key);
+                      }}
+                      onDragLeave={() => setDropTarget(null)}
+                      onDrop={(e) => handleDrop(e, day, meal)}
+                      className={`h-24 p-1 align-top border border-gray-200 ${
+                        dropTarget === key ? 'bg-blue-50 border-blue-300' : day < plan.today ? 'bg-gray-50' : 'bg-white'
+                      }`}
+                    >
+                      <div className="space-y-1">
+                        {slotEntries.map(entry => (
+                          <div
+                            key={entry.id}
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, { entryId: entry.id })}
+                            className={`group flex items-start justify-between gap-1 px-2 py-1 rounded-md bg-amber-50 cursor-move ${
+                              entry.item.isCompleted ? 'line-through text-gray-400' : 'text-gray-800'
+                            }`}
+                          >
+                            <span className="break-words">{typeIcon(entry.item.type)} {entry.item.content}</span>
+                            <button
+                              onClick={() => handleRemove(entry.id)}
+                              disabled={isBusy}
+                              className="text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                              title="Remove from plan"
+                            >
+                              ×
+                            </button>
+                          </div>
+                        ))}
+                        {typingSlot === key ? (
+                          <input
+                            autoFocus
+                            value={typedMeal}
+                            onChange={(e) => setTypedMeal(e.target.value)}
+                            onBlur={() => handleTypedMeal(day, meal)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleTypedMeal(day, meal);
+                              if (e.key === 'Escape') {
+                                setTypedMeal('');
+                                setTypingSlot(null);
+                              }
+                            }}
+                            placeholder="Meal"
+                            className="w-full px-1 py-0.5 border border-gray-300 rounded text-xs"
+                          />
+                        ) : (
+                          <button
+                            onClick={() => setTypingSlot(key)}
+                            className="w-full text-xs text-gray-400 hover:text-blue-600 text-left px-1"
+                          >
+                            + Add
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Recipes to drop on the grid */}
+        <section>
+          <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">Recipes and cooking items</h3>
+          {plan.candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Save recipes or tag items with cooking, recipes or meal-prep to plan them here.
+            </p>
+          ) : (
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {plan.candidates.map(candidate => (
+                <li
+                  key={candidate.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, { sourceItemId: candidate.id })}
+                  className="px-2 py-1 rounded-md border border-gray-200 bg-white text-sm cursor-move hover:border-blue-300"
+                  title="Drag onto a day and meal"
+                >
+                  {typeIcon(candidate.type)} {candidate.content}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Ingredients of the week */}
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Ingredients this week</h3>
+            {plan.ingredients.length > 0 && (
+              <button
+                onClick={handleAddToShoppingList}
+                disabled={isBusy}
+                className="text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+              >
+                🛒 Add to shopping list
+              </button>
+            )}
+          </div>
+          {plan.ingredients.length === 0 ? (
+            <p className="text-sm text-gray-500">Planned recipes with ingredients add them up here.</p>
+          ) : (
+            <ul className="text-sm text-gray-700 space-y-0.5 max-h-64 overflow-y-auto">
+              {plan.ingredients.map(ingredient => (
+                <li key={ingredient.key}>
+                  {ingredient.quantity && <span className="text-green-700 font-medium">{ingredient.quantity} </span>}
+                  {ingredient.name}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Fill my week */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Fill my week</h3>
+          <textarea
+            value={preferences}
+            onChange={(e) => setPreferences(e.target.value)}
+            rows={2}
+            placeholder="Dietary preferences, e.g. vegetarian, no mushrooms"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex items-center gap-3 text-sm">
+            {MEAL_SLOTS.map(meal => (
+              <label key={meal} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={fillMeals.includes(meal)}
+                  onChange={() => toggleFillMeal(meal)}
+                />
+                {MEALS[meal].label}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleFillWeek}
+              disabled={isBusy || fillMeals.length === 0}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isBusy ? 'Working...' : '✨ Fill empty slots'}
+            </button>
+            <button
+              onClick={handleSavePreferences}
+              disabled={isBusy || preferences === (plan.dietaryPreferences ?? '')}
+              className="btn-secondary disabled:opacity-50"
+            >
+              Save preferences
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { captureNote } from 'wasp/client/operations';
+import { describeRecurrence } from './ItemScheduleEditor';
+import { ITEM_TYPE_INFO, type ItemType } from '../../shared/itemTypes';
+import { errorMessage } from '../errors';
+
+interface CapturedItemProvenance {
+  itemId: number;
+  content: string;
+  provider: string;
+  suggestedTags: string[];
+  keptTags: string[];
+  intent: { category: string; confidence: number };
+  activityId: number | null;
+  dateText: string | null;
+  dueAt: Date | null;
+  remindAt: Date | null;
+  recurrenceRule: string | null;
+  type: ItemType;
+  duplicateOf: { itemId: number; content: string; similarity: number; reason: string } | null;
+  mergedIntoExisting: boolean;
+}
+
+interface NoteCaptureProps {
+  onCaptured?: () => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export const NoteCapture: React.FC<NoteCaptureProps> = ({
+  onCaptured,
+  onCancel,
+  className = ''
+}) => {
+  const [noteText, setNoteText] = useState('');
+  const [mergeDuplicates, setMergeDuplicates] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [provenance, setProvenance] = useState<CapturedItemProvenance[]>([]);
+
+  const handleCapture = async () => {
+    if (!noteText.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await captureNote({ noteText, onDuplicate: mergeDuplicates ? 'merge' : 'keep' });
+      setProvenance(result.provenance);
+      setNoteText('');
+      if (onCaptured) {
+        onCaptured();
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to capture note'));
+    }
+    setIsSaving(false);
+  };
+
+  const formatDateTime = (date: Date) => {
+    return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <textarea
+        value={noteText}
+        onChange={(e) => setNoteText(e.target.value)}
+        rows={4}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder="Try that Italian place downtown, Giovanni recommended it. Also buy tomatoes for pasta sauce..."
+      />
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleCapture}
+          disabled={isSaving || !noteText.trim()}
+          className="btn-primary disabled:opacity-50"
+        >
+          {isSaving ? 'Parsing...' : 'Parse & Save'}
+        </button>
+        {onCancel && (
+          <button onClick={onCancel} className="btn-secondary">
+            Close
+          </button>
+        )}
+        <label className="flex items-center space-x-1 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={mergeDuplicates}
+            onChange={(e) => setMergeDuplicates(e.target.checked)}
+          />
+          <span>Merge duplicates into existing items</span>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Provenance of the last capture */}
+      {provenance.length > 0 && (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-semibold text-gray-700">
+            Saved {provenance.length} item{provenance.length === 1 ? '' : 's'} (via {provenance[0].provider})
+          </h4>
+          {provenance.map((entry, index) => (
+            <div key={index} className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900" title={ITEM_TYPE_INFO[entry.type].label}>
+                {ITEM_TYPE_INFO[entry.type].icon} {entry.content}
+              </span>
+              {entry.duplicateOf && (
+                <span className="ml-2 text-amber-700">
+                  {entry.mergedIntoExisting ? 'merged into' : 'looks like'} "{entry.duplicateOf.content}"
+                </span>
+              )}
+              {(entry.dueAt || entry.remindAt) && (
+                <span className="ml-2" title={entry.dateText ? `From "${entry.dateText}"` : undefined}>
+                  {entry.dueAt ? '📅' : '🔔'} {formatDateTime((entry.dueAt || entry.remindAt)!)}
+                  {entry.recurrenceRule && ` 🔁 ${describeRecurrence(entry.recurrenceRule)}`}
+                </span>
+              )}
+              <span className="ml-2">
+                🏷️ {entry.keptTags.length > 0 ? entry.keptTags.join(', ') : 'no tags'}
+              </span>
+              {entry.suggestedTags.length > entry.keptTags.length && (
+                <span className="ml-2 text-gray-400">
+                  (suggested: {entry.suggestedTags.join(', ')})
+                </span>
+              )}
+              <span className="ml-2 text-gray-400">
+                intent: {entry.intent.category} ({(entry.intent.confidence * 100).toFixed(0)}%)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+
+type ProtectedReason = 'edited' | 'retagged' | 'completed';
+
+export interface NoteDiff {
+  added: string[];
+  removed: Array<{ itemId: number; content: string; protectedReasons: ProtectedReason[] }>;
+  changed: Array<{ itemId: number; before: string; after: string; similarity: number; protectedReasons: ProtectedReason[] }>;
+  unchanged: Array<{ itemId: number; content: string }>;
+}
+
+export interface NoteDiffSelection {
+  add: string[];
+  update: Array<{ itemId: number; content: string }>;
+  remove: number[];
+}
+
+interface NoteDiffReviewProps {
+  diff: NoteDiff;
+  onApply: (selection: NoteDiffSelection) => Promise<void> | void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+const ProtectedBadge: React.FC<{ reasons: ProtectedReason[] }> = ({ reasons }) => (
+  <span
+    className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-50 text-yellow-700"
+    title="Changed by hand, so re-parsing will not touch it"
+  >
+    🔒 {reasons.join(', ')}
+  </span>
+);
+
+export const NoteDiffReview: React.FC<NoteDiffReviewProps> = ({
+  diff,
+  onApply,
+  onCancel,
+  className = ''
+}) => {
+  // Everything that can safely be applied starts selected
+  const [selectedAdded, setSelectedAdded] = useState<Set<number>>(new Set(diff.added.map((_, index) => index)));
+  const [selectedChanged, setSelectedChanged] = useState<Set<number>>(
+    new Set(diff.changed.filter(change => change.protectedReasons.length === 0).map(change => change.itemId))
+  );
+  const [selectedRemoved, setSelectedRemoved] = useState<Set<number>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  const toggle = <T,>(set: Set<T>, value: T, update: (next: Set<T>) => void) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    update(next);
+  };
+
+  const hasChanges = diff.added.length + diff.changed.length + diff.removed.length > 0;
+  const selectionCount = selectedAdded.size + selectedChanged.size + selectedRemoved.size;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    await onApply({
+      add: diff.added.filter((_, index) => selectedAdded.has(index)),
+      update: diff.changed
+        .filter(change => selectedChanged.has(change.itemId))
+        .map(change => ({ itemId: change.itemId, content: change.after })),
+      remove: Array.from(selectedRemoved)
+    });
+    setIsApplying(false);
+  };
+
+  if (!hasChanges) {
+    return (
+      <div className={className}>
+        <p className="text-sm text-gray-600">
+          ✅ Re-parsing found the same {diff.unchanged.length} item{diff.unchanged.length === 1 ? '' : 's'}. Nothing to reconcile.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 text-sm ${className}`}>
+      {/* New items */}
+      {diff.added.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">New items found ({diff.added.length})</h4>
+          {diff.added.map((content, index) => (
+            <label key={index} className="flex items-center space-x-2 py-1">
+              <input
+                type="checkbox"
+                checked={selectedAdded.has(index)}
+                onChange={() => toggle(selectedAdded, index, setSelectedAdded)}
+              />
+              <span className="text-green-700">+ {content}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Wording changes */}
+      {diff.changed.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">Wording changes ({diff.changed.length})</h4>
+          {diff.changed.map(change => (
+            <label key={change.itemId} className="flex items-start space-x-2 py-1">
+              <input
+                type="checkbox"
+                className="mt-1"
+                disabled={change.protectedReasons.length > 0}
+                checked={selectedChanged.has(change.itemId)}
+                onChange={() => toggle(selectedChanged, change.itemId, setSelectedChanged)}
+              />
+              <span>
+                <span className="line-through text-gray-400">{change.before}</span>
+                <span className="mx-2">→</span>
+                <span className="text-blue-700">{change.after}</span>
+                {change.protectedReasons.length > 0 && <ProtectedBadge reasons={change.protectedReasons} />}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Items no longer extracted */}
+      {diff.removed.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">No longer extracted ({diff.removed.length})</h4>
+          {diff.removed.map(removal => (
+            <label key={removal.itemId} className="flex items-center space-x-2 py-1">
+              <input
+                type="checkbox"
+                disabled={removal.protectedReasons.length > 0}
+                checked={selectedRemoved.has(removal.itemId)}
+                onChange={() => toggle(selectedRemoved, removal.itemId, setSelectedRemoved)}
+              />
+              <span className="text-red-700">− {removal.content}</span>
+              {removal.protectedReasons.length > 0 && <ProtectedBadge reasons={removal.protectedReasons} />}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {diff.unchanged.length > 0 && (
+        <p className="text-gray-500">{diff.unchanged.length} item{diff.unchanged.length === 1 ? '' : 's'} unchanged.</p>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleApply}
+          disabled={isApplying || selectionCount === 0}
+          className="btn-primary disabled:opacity-50"
+        >
+          {isApplying ? 'Applying...' : `Apply ${selectionCount} Change${selectionCount === 1 ? '' : 's'}`}
+        </button>
+        {onCancel && (
+          <button onClick={onCancel} className="btn-secondary">
+            Dismiss
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
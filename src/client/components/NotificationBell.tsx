@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useQuery, getNotifications, markNotificationsRead } from 'wasp/client/operations';
+
+// Reminders are produced on the server every minute; polling at the same pace keeps the badge current
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const KIND_ICONS: { [kind: string]: string } = {
+  reminder: '🔔',
+  due: '📅',
+  snooze: '💤'
+};
+
+interface NotificationBellProps {
+  className?: string;
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: notifications, refetch } = useQuery(getNotifications, undefined, { refetchInterval: POLL_INTERVAL_MS });
+
+  const unreadCount = (notifications || []).filter(notification => !notification.readAt).length;
+
+  const handleMarkRead = async (ids?: number[]) => {
+    try {
+      await markNotificationsRead(ids ? { ids } : undefined);
+      refetch();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const formatTime = (date: string | Date) => {
+    const d = new Date(date);
+    return d.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-1 text-gray-600 hover:text-gray-900 transition-colors"
+        title="Notifications"
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-2 px-1.5 rounded-full bg-red-600 text-white text-xs font-medium">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={() => handleMarkRead()} className="text-sm text-blue-600 hover:text-blue-500">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {!notifications || notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  onClick={() => !notification.readAt && handleMarkRead([notification.id])}
+                  className={`px-4 py-2 text-sm ${notification.readAt ? 'text-gray-500' : 'text-gray-900 bg-blue-50 cursor-pointer'}`}
+                >
+                  <div>
+                    {KIND_ICONS[notification.kind] || '🔔'} {notification.title}
+                  </div>
+                  <div className="text-xs text-gray-400">{formatTime(notification.scheduledFor)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useQuery, getItemRelevanceHistory } from 'wasp/client/operations';
+import { errorMessage } from '../errors';
+
+const EVENT_LABELS: { [kind: string]: string } = {
+  boost: '👍 More like this',
+  dismiss: '👎 Show less like this',
+  complete: '✅ Completed',
+  snooze: '💤 Snoozed',
+  open: '👀 Opened',
+  delete: '🗑️ Deleted',
+  adjust: '✏️ Relevance set'
+};
+
+const SIGNAL_LABELS: { [signal: string]: string } = {
+  relevance: 'Relevance',
+  preference: 'Learned preference',
+  age: 'Newness',
+  interaction: 'Recent use',
+  due: 'Due date',
+  activity: 'In this activity'
+};
+
+export interface RankingBreakdown {
+  score: number;
+  components: Array<{ signal: string; value: number; weight: number; contribution: number }>;
+}
+
+interface RelevanceHistoryProps {
+  itemId: number;
+  ranking?: RankingBreakdown; // Breakdown from the list the item is shown in, else the one without activity context
+  className?: string;
+}
+
+export const RelevanceHistory: React.FC<RelevanceHistoryProps> = ({ itemId, ranking, className = '' }) => {
+  const { data: history, isLoading, error } = useQuery(getItemRelevanceHistory, { itemId });
+  const breakdown: RankingBreakdown | undefined = ranking ?? history?.ranking;
+
+  const formatPercent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(0)}%`);
+
+  return (
+    <div className={`text-sm space-y-3 ${className}`}>
+      {isLoading ? (
+        <p className="text-gray-500">Loading history...</p>
+      ) : error || !history ? (
+        <p className="text-red-600">{errorMessage(error, 'Could not load history')}</p>
+      ) : (
+        <>
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-1">Why it ranks here</h4>
+            {breakdown && (
+              <ul className="space-y-0.5">
+                {breakdown.components.map(component => (
+                  <li key={component.signal} className="flex justify-between text-gray-600">
+                    <span>
+                      {SIGNAL_LABELS[component.signal] || component.signal}{' '}
+                      <span className="text-gray-400">
+                        {(component.value * 100).toFixed(0)}% × {component.weight}
+                      </span>
+                    </span>
+                    <span className={component.contribution < 0 ? 'text-red-600' : 'text-gray-800'}>
+                      {component.contribution.toFixed(2)}
+                    </span>
+                  </li>
+                ))}
+                <li className="flex justify-between font-medium text-gray-800 border-t border-gray-100 pt-0.5">
+                  <span>Score</span>
+                  <span>{breakdown.score.toFixed(2)}</span>
+                </li>
+              </ul>
+            )}
+            {history.weights.length > 0 && (
+              <ul className="mt-2 space-y-0.5">
+                <li className="text-gray-500">Learned preference comes from:</li>
+                {history.weights.map(weight => (
+                  <li key={`${weight.targetType}:${weight.targetId}`} className="flex justify-between text-gray-500">
+                    <span>
+                      {weight.targetType} <span className="text-gray-800">{weight.name}</span>
+                    </span>
+                    <span className={weight.weight === null ? '' : weight.weight < 0 ? 'text-red-600' : 'text-green-600'}>
+                      {weight.weight === null ? 'not learned' : `${weight.weight > 0 ? '+' : ''}${(weight.weight * 100).toFixed(0)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-1">History</h4>
+            {history.events.length === 0 ? (
+              <p className="text-gray-500">No feedback yet.</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {history.events.map(event => (
+                  <li key={event.id} className="flex justify-between gap-2 text-gray-600">
+                    <span>
+                      {EVENT_LABELS[event.kind] || event.kind}
+                      {event.activity && (
+                        <span className="text-gray-400"> in {event.activity.icon} {event.activity.name}</span>
+                      )}
+                    </span>
+                    <span className="text-gray-400 whitespace-nowrap">
+                      {formatPercent(event.relevanceBefore)} → {formatPercent(event.relevanceAfter)} ·{' '}
+                      {new Date(event.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { useQuery, getItemSchedule } from 'wasp/client/operations';
+
+type ScheduleGroup = 'today' | 'upcoming' | 'overdue';
+
+const GROUPS: Array<{ key: ScheduleGroup; label: string; empty: string }> = [
+  { key: 'today', label: 'Today', empty: 'Nothing due or reminding today.' },
+  { key: 'upcoming', label: 'Upcoming', empty: 'Nothing scheduled for the next week.' },
+  { key: 'overdue', label: 'Overdue', empty: 'Nothing overdue.' }
+];
+
+interface ScheduleViewProps {
+  onToggleComplete?: (itemId: number, isCompleted: boolean) => void;
+  onSnooze?: (itemId: number, until: string | null) => void;
+  className?: string;
+}
+
+export const ScheduleView: React.FC<ScheduleViewProps> = ({ onToggleComplete, onSnooze, className = '' }) => {
+  const [group, setGroup] = useState<ScheduleGroup>('today');
+  const { data: schedule, isLoading } = useQuery(getItemSchedule, {
+    timezoneOffset: new Date().getTimezoneOffset()
+  });
+
+  const formatMoment = (date: string | Date) => {
+    const d = new Date(date);
+    return group === 'today'
+      ? d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+      : d.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  };
+
+  const snoozeUntilTomorrow = (itemId: number) => {
+    const until = new Date();
+    until.setDate(until.getDate() + 1);
+    until.setHours(9, 0, 0, 0);
+    onSnooze?.(itemId, until.toISOString());
+  };
+
+  const items = schedule ? schedule[group] : [];
+
+  return (
+    <div className={className}>
+      <div className="flex items-center space-x-2 mb-4">
+        {GROUPS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setGroup(key)}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              group === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+            {schedule && schedule[key].length > 0 && (
+              <span className={`ml-1 ${key === 'overdue' && group !== key ? 'text-red-600' : ''}`}>
+                {schedule[key].length}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading schedule...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">{GROUPS.find(({ key }) => key === group)!.empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="flex items-center gap-3 min-w-0">
+                {onToggleComplete && (
+                  <input
+                    type="checkbox"
+                    checked={item.isCompleted}
+                    onChange={() => onToggleComplete(item.id, !item.isCompleted)}
+                    title="Mark as complete"
+                  />
+                )}
+                <span className="text-gray-900 truncate">{item.content}</span>
+                {item.recurrenceRule && <span className="text-sm text-gray-500" title="Repeats">🔁</span>}
+                {item.activity && <span className="text-sm text-gray-500">{item.activity.icon || '📌'}</span>}
+              </div>
+              <div className="flex items-center gap-3 text-sm whitespace-nowrap">
+                {item.dueAt && (
+                  <span className={group === 'overdue' ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                    📅 {formatMoment(item.dueAt)}
+                  </span>
+                )}
+                {item.remindAt && <span className="text-gray-600">🔔 {formatMoment(item.remindAt)}</span>}
+                {onSnooze && (
+                  <button
+                    onClick={() => snoozeUntilTomorrow(item.id)}
+                    className="text-blue-600 hover:text-blue-500"
+                    title="Hide until tomorrow morning"
+                  >
+                    💤 Tomorrow
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+interface SearchBarProps {
+  initialQuery?: string;
+  className?: string;
+}
+
+export const SearchBar: React.FC<SearchBarProps> = ({ initialQuery = '', className = '' }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState(initialQuery);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={className}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="🔍 Search items and notes"
+        className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </form>
+  );
+};
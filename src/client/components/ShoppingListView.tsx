@@ -0,0 +1,210 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  useQuery,
+  getShoppingList,
+  setShoppingItemsPurchased,
+  clearPurchasedShoppingItems
+} from 'wasp/client/operations';
+import { Link } from 'wasp/client/router';
+import { errorMessage } from '../errors';
+
+interface ShoppingEntry {
+  key: string;
+  name: string;
+  quantity: string | null;
+  stores: string[];
+  aisle: string;
+  items: Array<{ id: number; content: string; noteId: number | null }>;
+}
+
+interface ShoppingListViewProps {
+  contextActivityId?: number;
+}
+
+// Check-offs are sent once this has passed without an undo
+const UNDO_DELAY_MS = 5000;
+
+const itemIdsOf = (entries: ShoppingEntry[]) => entries.flatMap(entry => entry.items.map(item => item.id));
+
+export const ShoppingListView: React.FC<ShoppingListViewProps> = ({ contextActivityId }) => {
+  const { data: list, isLoading, error, refetch } = useQuery(getShoppingList);
+  const [pending, setPending] = useState<ShoppingEntry[]>([]);
+  const [isClearing, setIsClearing] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<ShoppingEntry[]>([]);
+
+  const commitPending = async () => {
+    const entries = pendingRef.current;
+    pendingRef.current = [];
+    timerRef.current = null;
+    if (entries.length === 0) return;
+
+    try {
+      await setShoppingItemsPurchased({ itemIds: itemIdsOf(entries), purchased: true, contextActivityId });
+    } catch (error) {
+      console.error('Failed to check off items:', error);
+    }
+    setPending([]);
+    refetch();
+  };
+
+  const updatePending = (entries: ShoppingEntry[]) => {
+    pendingRef.current = entries;
+    setPending(entries);
+
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = entries.length > 0 ? setTimeout(commitPending, UNDO_DELAY_MS) : null;
+  };
+
+  // Leaving the page keeps what was checked off
+  useEffect(() => () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      commitPending();
+    }
+  }, []);
+
+  const isPending = (entry: ShoppingEntry) => pending.some(p => p.key === entry.key);
+
+  const handleToggle = (entry: ShoppingEntry) => {
+    updatePending(isPending(entry) ? pending.filter(p => p.key !== entry.key) : [...pending, entry]);
+  };
+
+  const handleUndo = () => updatePending([]);
+
+  const handleUncheck = async (entry: ShoppingEntry) => {
+    try {
+      await setShoppingItemsPurchased({ itemIds: itemIdsOf([entry]), purchased: false, contextActivityId });
+      refetch();
+    } catch (error) {
+      console.error('Failed to put item back on the list:', error);
+    }
+  };
+
+  const handleClearPurchased = async () => {
+    if (!list || !window.confirm('Delete every purchased item? Recurring items stay on the list for their next time.')) return;
+
+    setIsClearing(true);
+    try {
+      await clearPurchasedShoppingItems({ itemIds: itemIdsOf(list.purchased), contextActivityId });
+      refetch();
+    } catch (error) {
+      console.error('Failed to clear purchased items:', error);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading shopping list...</div>;
+  }
+
+  if (error || !list) {
+    return <div className="text-center py-8 text-red-600">Error loading shopping list: {errorMessage(error, 'Unknown error')}</div>;
+  }
+
+  const entryDetails = (entry: ShoppingEntry) => (
+    <>
+      {entry.quantity && <span className="text-green-700 font-medium">{entry.quantity}</span>}
+      <span>{entry.name}</span>
+      {entry.stores.length > 0 && <span className="text-xs text-gray-400">at {entry.stores.join(', ')}</span>}
+      {entry.items.length > 1 && (
+        <span
+          className="text-xs text-gray-400"
+          title={entry.items.map(item => item.content).join('\n')}
+        >
+          ×{entry.items.length} items
+        </span>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      {list.aisles.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <div className="text-4xl mb-2">🛒</div>
+          <p>Nothing left to buy. Items typed as shopping or tagged groceries, to-buy or ingredients show up here.</p>
+        </div>
+      ) : (
+        list.aisles.map(({ aisle, entries }) => (
+          <section key={aisle}>
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{aisle}</h3>
+            <ul className="divide-y divide-gray-100">
+              {entries.map((entry: ShoppingEntry) => {
+                const checked = isPending(entry);
+                return (
+                  <li key={entry.key} className="py-2">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() => handleToggle(entry)}
+                        className="h-5 w-5 text-green-600 rounded"
+                      />
+                      <span className={`flex flex-wrap items-center gap-2 ${checked ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                        {entryDetails(entry)}
+                      </span>
+                      {entry.items[0].noteId && (
+                        <Link
+                          to="/notes/:id"
+                          params={{ id: entry.items[0].noteId }}
+                          className="ml-auto text-xs text-blue-600 hover:text-blue-500"
+                        >
+                          Note
+                        </Link>
+                      )}
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))
+      )}
+
+      {list.purchased.length > 0 && (
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Purchased</h3>
+            <button
+              onClick={handleClearPurchased}
+              disabled={isClearing}
+              className="text-sm text-red-600 hover:text-red-500 disabled:opacity-50"
+            >
+              {isClearing ? 'Clearing...' : 'Clear purchased'}
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {list.purchased.map((entry: ShoppingEntry) => (
+              <li key={entry.key} className="py-2">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked
+                    onChange={() => handleUncheck(entry)}
+                    className="h-5 w-5 text-green-600 rounded"
+                  />
+                  <span className="flex flex-wrap items-center gap-2 line-through text-gray-400">
+                    {entryDetails(entry)}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {pending.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg">
+          <span className="text-sm">
+            {pending.length === 1 ? `${pending[0].name} checked off` : `${pending.length} items checked off`}
+          </span>
+          <button onClick={handleUndo} className="text-sm font-semibold text-yellow-300 hover:text-yellow-200">
+            Undo
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
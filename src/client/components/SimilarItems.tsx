@@ -0,0 +1,40 @@
+import React from 'react';
+import { useQuery, getSimilarItems } from 'wasp/client/operations';
+import { errorMessage } from '../errors';
+
+interface SimilarItemsProps {
+  itemId: number;
+  limit?: number;
+  className?: string;
+}
+
+export const SimilarItems: React.FC<SimilarItemsProps> = ({ itemId, limit = 5, className = '' }) => {
+  const { data: similarItems, isLoading, error } = useQuery(getSimilarItems, { itemId, limit });
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <h4 className="font-semibold text-gray-700 mb-2">Similar items</h4>
+      {isLoading ? (
+        <p className="text-gray-500">Finding similar items...</p>
+      ) : error ? (
+        <p className="text-red-600">{errorMessage(error, 'Could not load similar items')}</p>
+      ) : !similarItems || similarItems.length === 0 ? (
+        <p className="text-gray-500">Nothing similar yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {similarItems.map(similar => (
+            <li key={similar.id} className="flex items-center justify-between gap-2">
+              <span className={`truncate ${similar.isCompleted ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                {similar.activity?.icon && <span className="mr-1">{similar.activity.icon}</span>}
+                {similar.content}
+              </span>
+              <span className="text-xs text-gray-400 whitespace-nowrap" title="Similarity">
+                {(similar.similarity * 100).toFixed(0)}%
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
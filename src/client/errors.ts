@@ -0,0 +1,4 @@
+// Message of an error thrown by an operation or query, or the fallback when there is none to show
+export function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
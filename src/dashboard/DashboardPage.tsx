@@ -1,40 +1,76 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from 'wasp/client/auth';
 import { logout } from 'wasp/client/auth';
+import { Link } from 'wasp/client/router';
 import { useQuery } from 'wasp/client/operations';
 import {
   getItems,
   getActivities,
   updateItem,
-  deleteItem
+  deleteItem,
+  reorderActivities,
+  submitItemFeedback,
+  scheduleItem,
+  snoozeItem,
+  updateTimezone
 } from 'wasp/client/operations';
 import { ActivitySelector } from '../client/components/ActivitySelector';
 import { ItemsList } from '../client/components/ItemsList';
+import { ShoppingListView } from '../client/components/ShoppingListView';
+import { MealPlanner } from '../client/components/MealPlanner';
+import type { ItemFeedbackKind } from '../client/components/ItemCard';
+import type { ItemScheduleChange } from '../client/components/ItemScheduleEditor';
+import type { ItemDetailsChange } from '../client/components/ItemDetailsEditor';
+import { ScheduleView } from '../client/components/ScheduleView';
+import { NotificationBell } from '../client/components/NotificationBell';
 import { TestOperations } from '../client/components/TestOperations';
+import { NoteCapture } from '../client/components/NoteCapture';
+import { SearchBar } from '../client/components/SearchBar';
 
 export const DashboardPage = () => {
   const { data: user } = useAuth();
   const [selectedActivityId, setSelectedActivityId] = useState<number | null>(null);
   const [showTestOperations, setShowTestOperations] = useState(false);
+  const [showNoteCapture, setShowNoteCapture] = useState(false);
+  const [showSnoozed, setShowSnoozed] = useState(false);
+
+  // Dates in notes are read in the user's time zone; take the browser's until one is chosen
+  useEffect(() => {
+    if (user && !user.timezone) {
+      updateTimezone({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }).catch((error) => {
+        console.error('Failed to save time zone:', error);
+      });
+    }
+  }, [user]);
 
   // Fetch activities
-  const { data: activities, isLoading: activitiesLoading } = useQuery(getActivities);
+  const { data: activities, isLoading: activitiesLoading, refetch: refetchActivities } = useQuery(getActivities);
 
-  // Fetch items with optional activity filter
+  // Fetch items with optional activity filter; snoozed items only when asked for, so they can be woken early
   const { data: items, isLoading: itemsLoading, refetch: refetchItems } = useQuery(
     getItems,
-    selectedActivityId ? { activityId: selectedActivityId } : {}
+    { ...(selectedActivityId ? { activityId: selectedActivityId } : {}), includeSnoozed: showSnoozed }
   );
 
   const handleActivitySelect = (activityId: number | null) => {
     setSelectedActivityId(activityId);
   };
 
+  const handleReorderActivities = async (orderedIds: number[]) => {
+    try {
+      await reorderActivities({ orderedIds });
+      refetchActivities();
+    } catch (error) {
+      console.error('Failed to reorder activities:', error);
+    }
+  };
+
   const handleToggleComplete = async (itemId: number, isCompleted: boolean) => {
     try {
       await updateItem({
         id: itemId,
-        isCompleted
+        isCompleted,
+        contextActivityId: selectedActivityId ?? undefined
       });
       refetchItems();
     } catch (error) {
@@ -45,7 +81,7 @@ export const DashboardPage = () => {
   const handleDeleteItem = async (itemId: number) => {
     if (window.confirm('Are you sure you want to delete this item?')) {
       try {
-        await deleteItem({ id: itemId });
+        await deleteItem({ id: itemId, contextActivityId: selectedActivityId ?? undefined });
         refetchItems();
       } catch (error) {
         console.error('Failed to delete item:', error);
@@ -53,6 +89,53 @@ export const DashboardPage = () => {
     }
   };
 
+  const handleFeedback = async (itemId: number, kind: ItemFeedbackKind) => {
+    try {
+      await submitItemFeedback({ itemId, kind, activityId: selectedActivityId ?? undefined });
+      if (kind !== 'open') {
+        refetchItems();
+      }
+    } catch (error) {
+      console.error('Failed to record feedback:', error);
+    }
+  };
+
+  const handleSchedule = async (itemId: number, schedule: ItemScheduleChange) => {
+    try {
+      await scheduleItem({ id: itemId, ...schedule });
+      refetchItems();
+    } catch (error) {
+      console.error('Failed to schedule item:', error);
+    }
+  };
+
+  const handleSnooze = async (itemId: number, until: string | null) => {
+    try {
+      await snoozeItem({ id: itemId, until, contextActivityId: selectedActivityId ?? undefined });
+      refetchItems();
+    } catch (error) {
+      console.error('Failed to snooze item:', error);
+    }
+  };
+
+  const handleUpdateDetails = async (itemId: number, change: ItemDetailsChange) => {
+    try {
+      await updateItem({ id: itemId, ...change });
+      refetchItems();
+    } catch (error) {
+      console.error('Failed to update item details:', error);
+    }
+  };
+
+  const selectedActivity = activities?.find(a => a.id === selectedActivityId);
+  const layout = selectedActivity?.layout ?? 'items';
+
+  const getSelectedActivityDescription = () => {
+    if (layout === 'shopping') return 'Everything to buy across your notes, grouped by aisle';
+    if (layout === 'meals') return 'Drag recipes onto days and meals; planned meals show up on their day';
+    return selectedActivityId ? `Items for ${getSelectedActivityName()}` : 'All your items across all activities';
+  };
+
   const getSelectedActivityName = () => {
     if (!selectedActivityId || !activities) return 'All Items';
     const activity = activities.find(a => a.id === selectedActivityId);
@@ -72,6 +155,26 @@ export const DashboardPage = () => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <SearchBar className="hidden md:block w-64" />
+              <NotificationBell />
+              <Link to="/notes" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Notes
+              </Link>
+              <Link to="/activities" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Activities
+              </Link>
+              <Link to="/recipes" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Recipes
+              </Link>
+              <Link to="/duplicates" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Duplicates
+              </Link>
+              <Link to="/import" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Import
+              </Link>
+              <Link to="/preferences" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Preferences
+              </Link>
               <button
                 onClick={() => setShowTestOperations(!showTestOperations)}
                 className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
@@ -93,35 +196,88 @@ export const DashboardPage = () => {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Note Capture (Collapsible) */}
+          {showNoteCapture && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Add Note</h2>
+                  <p className="text-sm text-gray-600">
+                    Paste a messy note and AI will split it into tagged items
+                  </p>
+                </div>
+                <Link to="/notes/new" className="text-sm text-blue-600 hover:text-blue-500">
+                  Review before saving →
+                </Link>
+              </div>
+              <NoteCapture
+                onCaptured={() => refetchItems()}
+                onCancel={() => setShowNoteCapture(false)}
+              />
+            </div>
+          )}
+
           {/* Activity Selector */}
           <div className="bg-white rounded-lg shadow p-6">
             <ActivitySelector
               activities={activities || []}
               selectedActivityId={selectedActivityId}
               onActivitySelect={handleActivitySelect}
+              onReorder={handleReorderActivities}
             />
+            <div className="mt-3 text-right">
+              <Link to="/activities" className="text-sm text-blue-600 hover:text-blue-500">
+                Manage activities →
+              </Link>
+            </div>
+          </div>
+
+          {/* Schedule */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Schedule</h2>
+            <ScheduleView onToggleComplete={handleToggleComplete} onSnooze={handleSnooze} />
           </div>
 
           {/* Items List */}
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="mb-6">
-              <h2 className="text-xl font-semibold text-gray-900">
-                {getSelectedActivityName()}
-              </h2>
-              <p className="text-gray-600 mt-1">
-                {selectedActivityId
-                  ? `Items for ${getSelectedActivityName()}`
-                  : 'All your items across all activities'}
-              </p>
+            <div className="mb-6 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  {getSelectedActivityName()}
+                </h2>
+                <p className="text-gray-600 mt-1">
+                  {getSelectedActivityDescription()}
+                </p>
+              </div>
+              {layout === 'items' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-600 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={showSnoozed}
+                    onChange={(e) => setShowSnoozed(e.target.checked)}
+                  />
+                  <span>Show snoozed</span>
+                </label>
+              )}
             </div>
 
-            <ItemsList
-              items={(items || []) as any}
-              isLoading={itemsLoading}
-              selectedActivityId={selectedActivityId}
-              onToggleComplete={handleToggleComplete}
-              onDelete={handleDeleteItem}
-            />
+            {layout === 'shopping' ? (
+              <ShoppingListView contextActivityId={selectedActivityId ?? undefined} />
+            ) : layout === 'meals' ? (
+              <MealPlanner />
+            ) : (
+              <ItemsList
+                items={items || []}
+                isLoading={itemsLoading}
+                selectedActivityId={selectedActivityId}
+                onToggleComplete={handleToggleComplete}
+                onDelete={handleDeleteItem}
+                onFeedback={handleFeedback}
+                onSchedule={handleSchedule}
+                onSnooze={handleSnooze}
+                onUpdateDetails={handleUpdateDetails}
+              />
+            )}
           </div>
 
           {/* Test Operations Panel (Collapsible) */}
@@ -141,7 +297,10 @@ export const DashboardPage = () => {
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-              <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors text-center">
+              <button
+                onClick={() => setShowNoteCapture(true)}
+                className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors text-center"
+              >
                 <div className="text-2xl mb-2">📝</div>
                 <div className="text-sm font-medium text-gray-900">Add Note</div>
                 <div className="text-xs text-gray-500">Parse with AI</div>
@@ -153,11 +312,14 @@ export const DashboardPage = () => {
                 <div className="text-xs text-gray-500">Add directly</div>
               </button>
 
-              <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-purple-400 hover:bg-purple-50 transition-colors text-center">
+              <Link
+                to="/tags"
+                className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-purple-400 hover:bg-purple-50 transition-colors text-center"
+              >
                 <div className="text-2xl mb-2">🏷️</div>
                 <div className="text-sm font-medium text-gray-900">Manage Tags</div>
                 <div className="text-xs text-gray-500">Organize better</div>
-              </button>
+              </Link>
 
               <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-orange-400 hover:bg-orange-50 transition-colors text-center">
                 <div className="text-2xl mb-2">📊</div>
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Link } from 'wasp/client/router';
+import { useQuery, findDuplicates, mergeItems, dismissDuplicates } from 'wasp/client/operations';
+import { errorMessage } from '../client/errors';
+
+type GroupItems = { items: Array<{ id: number }> };
+
+const REASON_LABELS: { [reason: string]: string } = {
+  exact: 'Same wording',
+  fuzzy: 'Nearly the same wording',
+  semantic: 'Same meaning'
+};
+
+export const DuplicatesPage = () => {
+  // Item kept per group, keyed by the group's first item id; defaults to the oldest item
+  const [keptItemIds, setKeptItemIds] = useState<{ [groupKey: number]: number }>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: groups, isLoading, refetch } = useQuery(findDuplicates);
+
+  const run = async (operation: () => Promise<string>) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await operation());
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, 'Something went wrong'));
+    }
+    setIsBusy(false);
+  };
+
+  const handleMerge = async (group: GroupItems) => {
+    const keepItemId = keptItemIds[group.items[0].id] ?? group.items[0].id;
+    const duplicateItemIds = group.items.map(item => item.id).filter(id => id !== keepItemId);
+
+    await run(async () => {
+      const kept = await mergeItems({ keepItemId, duplicateItemIds });
+      return `Merged ${duplicateItemIds.length} duplicate${duplicateItemIds.length === 1 ? '' : 's'} into "${kept.content}"`;
+    });
+  };
+
+  const handleKeepAll = async (group: GroupItems) => {
+    await run(async () => {
+      await dismissDuplicates({ itemIds: group.items.map(item => item.id) });
+      return 'Kept all items, they will not be suggested again';
+    });
+  };
+
+  const formatDate = (date: string | Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Duplicates</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900">Possible duplicates</h2>
+            <p className="text-gray-600 mt-1">
+              Merging keeps the chosen item with every tag (up to 3), the earliest date and all source notes
+            </p>
+            {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+              <span className="ml-3 text-gray-600">Looking for duplicates...</span>
+            </div>
+          ) : !groups || groups.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-6 text-center py-12">
+              <div className="text-6xl mb-4">✨</div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No duplicates found</h3>
+              <p className="text-gray-500">Active items all look distinct.</p>
+            </div>
+          ) : (
+            groups.map(group => {
+              const groupKey = group.items[0].id;
+              const keepItemId = keptItemIds[groupKey] ?? groupKey;
+
+              return (
+                <div key={groupKey} className="bg-white rounded-lg shadow p-6 space-y-4">
+                  <div className="flex items-center justify-between text-sm text-gray-500">
+                    <span>
+                      {REASON_LABELS[group.reason] || group.reason} · {(group.similarity * 100).toFixed(0)}% similar
+                    </span>
+                  </div>
+
+                  <div className="divide-y divide-gray-200">
+                    {group.items.map(item => (
+                      <label key={item.id} className="flex items-start gap-3 py-3 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`keep-${groupKey}`}
+                          checked={keepItemId === item.id}
+                          onChange={() => setKeptItemIds({ ...keptItemIds, [groupKey]: item.id })}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 space-y-1">
+                          <div className="flex items-start justify-between gap-4">
+                            <span className="text-gray-900">{item.content}</span>
+                            <span className="text-sm text-gray-500 whitespace-nowrap">{formatDate(item.createdAt)}</span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                            {item.activity && (
+                              <span>
+                                {item.activity.icon || '📌'} {item.activity.name}
+                              </span>
+                            )}
+                            {item.tags.map(({ tag }) => (
+                              <span key={tag.id} className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                                {tag.name}
+                              </span>
+                            ))}
+                            {item.note && <span className="italic truncate">From: "{item.note.rawText}"</span>}
+                          </div>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <button onClick={() => handleMerge(group)} disabled={isBusy} className="btn-primary disabled:opacity-50">
+                      Merge into selected
+                    </button>
+                    <button onClick={() => handleKeepAll(group)} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                      Keep all
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Link } from 'wasp/client/router';
+import { useQuery, getImportBatches, rollbackImportBatch } from 'wasp/client/operations';
+import { errorMessage } from '../client/errors';
+
+type ImportJobStatus = 'uploading' | 'pending' | 'running' | 'completed' | 'failed';
+
+interface ImportBatch {
+  id: number;
+  source: string;
+  label: string | null;
+  status: ImportJobStatus | null;
+  itemCount: number;
+  noteCount: number;
+  tagCount: number;
+  activityCount: number;
+  editedItems: Array<{ id: number, content: string }>;
+  createdAt: string | Date;
+  rolledBackAt: string | Date | null;
+}
+
+const SOURCE_LABELS: { [source: string]: string } = {
+  keep: 'Google Keep',
+  files: 'Files',
+  capture: 'Captured note'
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const activities = (count: number, prefix = '') => `${count} ${prefix}${count === 1 ? 'activity' : 'activities'}`;
+
+const isImporting = (batch: ImportBatch) => batch.status === 'pending' || batch.status === 'running';
+
+export const ImportHistoryPage = () => {
+  // Edited items the user ticked to remove with the rest of their batch
+  const [confirmedIds, setConfirmedIds] = useState<{ [batchId: number]: number[] }>({});
+  const [busyBatchId, setBusyBatchId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { data: batches, isLoading, refetch } = useQuery(getImportBatches);
+
+  const toggleConfirmed = (batchId: number, itemId: number) => {
+    const current = confirmedIds[batchId] || [];
+    setConfirmedIds({
+      ...confirmedIds,
+      [batchId]: current.includes(itemId) ? current.filter(id => id !== itemId) : [...current, itemId]
+    });
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const confirmed = confirmedIds[batch.id] || [];
+    const removedCount = batch.itemCount - batch.editedItems.length + confirmed.length;
+    if (!window.confirm(`Remove ${plural(removedCount, 'item')} created by this import, with the notes, tags and activities only they use?`)) return;
+
+    setBusyBatchId(batch.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await rollbackImportBatch({ id: batch.id, confirmedItemIds: confirmed });
+      setConfirmedIds({ ...confirmedIds, [batch.id]: [] });
+      setMessage(
+        `Removed ${plural(result.deletedItemCount, 'item')}, ${plural(result.deletedNoteCount, 'note')}, ` +
+        `${plural(result.deletedTagCount, 'tag')} and ${activities(result.deletedActivityCount)}` +
+        (result.keptItems.length > 0 ? `; kept ${plural(result.keptItems.length, 'edited item')}` : '') +
+        (result.keptActivities.length > 0 ? `; kept the activities you set up since: ${result.keptActivities.join(', ')}` : '') +
+        (result.keptTags.length > 0 ? `; kept the tags your activity rules use: ${result.keptTags.join(', ')}` : '')
+      );
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to roll back the import'));
+    }
+    setBusyBatchId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Import history</div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link to="/import" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                Import
+              </Link>
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import history</h2>
+              <p className="text-gray-600 mt-1">
+                Imports and notes captured as several items. Rolling one back removes the items it created,
+                and the notes, tags and activities nothing else uses. Items you have edited since are kept
+                unless you tick them, and so are activities and tags you have set up since.
+              </p>
+            </div>
+            {message && <p className="text-sm text-green-700">{message}</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+            {!isLoading && (batches || []).length === 0 && <p className="text-sm text-gray-500">Nothing imported yet</p>}
+            {(batches as ImportBatch[] | undefined)?.map(batch => {
+              const isEmpty = batch.itemCount + batch.noteCount + batch.tagCount + batch.activityCount === 0;
+              const confirmed = confirmedIds[batch.id] || [];
+              return (
+                <div key={batch.id} className="border border-gray-200 rounded-md p-4 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{batch.label || SOURCE_LABELS[batch.source] || batch.source}</span>
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                        {SOURCE_LABELS[batch.source] || batch.source}
+                      </span>
+                      {batch.rolledBackAt && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">Rolled back</span>
+                      )}
+                      {isImporting(batch) && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">Importing</span>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-400">
+                      {new Date(batch.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {isEmpty
+                      ? 'Nothing left of this import'
+                      : [
+                          plural(batch.itemCount, 'item'),
+                          plural(batch.noteCount, 'note'),
+                          batch.tagCount > 0 && plural(batch.tagCount, 'new tag'),
+                          batch.activityCount > 0 && activities(batch.activityCount, 'new ')
+                        ].filter(Boolean).join(' · ')}
+                  </p>
+                  {batch.editedItems.length > 0 && (
+                    <div className="text-sm">
+                      <p className="text-yellow-800">
+                        {plural(batch.editedItems.length, 'item')} edited since — tick those to remove as well:
+                      </p>
+                      <ul className="mt-1 space-y-1">
+                        {batch.editedItems.map(item => (
+                          <li key={item.id}>
+                            <label className="flex items-center gap-2 text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={confirmed.includes(item.id)}
+                                onChange={() => toggleConfirmed(batch.id, item.id)}
+                                disabled={busyBatchId !== null}
+                              />
+                              {item.content}
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {!isEmpty && (
+                    <button
+                      onClick={() => handleRollback(batch)}
+                      disabled={busyBatchId !== null || isImporting(batch)}
+                      className="btn-secondary disabled:opacity-50"
+                    >
+                      {busyBatchId === batch.id ? 'Rolling back...' : 'Roll back'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,377 @@
+import React, { useState } from 'react';
+import { Link } from 'wasp/client/router';
+import { errorMessage } from '../client/errors';
+import {
+  useQuery,
+  getImportJobs,
+  createImportJob,
+  uploadImportFiles,
+  getImportPreview,
+  discardImportJob,
+  startImportJob
+} from 'wasp/client/operations';
+
+type ImportSource = 'keep' | 'files';
+
+type ImportJobStatus = 'uploading' | 'pending' | 'running' | 'completed' | 'failed';
+
+interface ImportJob {
+  id: number;
+  source: string;
+  status: ImportJobStatus;
+  label: string | null;
+  fileCount: number;
+  total: number;
+  processed: number;
+  noteCount: number;
+  itemCount: number;
+  skippedCount: number;
+  errors: string[];
+  createdAt: string | Date;
+  finishedAt: string | Date | null;
+}
+
+interface PreviewItem {
+  content: string;
+  isCompleted: boolean;
+  tags: string[];
+  activity: string | null;
+  dueAt: string | null;
+  needsParsing: boolean;
+}
+
+interface ImportPreview {
+  noteCount: number;
+  itemCount: number;
+  completedCount: number;
+  passageCount: number;
+  activities: Array<{ name: string, itemCount: number, isNew: boolean }>;
+  tags: Array<{ name: string, itemCount: number, isNew: boolean }>;
+  samples: PreviewItem[];
+  alreadyImportedCount: number;
+}
+
+type UploadFile = { name: string, content: string, modifiedAt: string };
+
+const POLL_INTERVAL_MS = 2000;
+
+// Uploads stay well below the server's 100kb JSON body limit
+const UPLOAD_CHUNK_BYTES = 64 * 1024;
+
+const STATUS_STYLES: { [status in ImportJobStatus]: { label: string, className: string } } = {
+  uploading: { label: 'Uploading', className: 'bg-gray-100 text-gray-700' },
+  pending: { label: 'Waiting', className: 'bg-yellow-100 text-yellow-800' },
+  running: { label: 'Importing', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Done', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' }
+};
+
+const SOURCES: { [source in ImportSource]: { label: string, accept: string, description: string } } = {
+  keep: {
+    label: 'Google Keep',
+    accept: '.json,.html',
+    description: 'Export your notes with Google Takeout, unzip it and choose the files in Takeout/Keep. ' +
+      'Labels become tags and checked list entries are imported as completed.'
+  },
+  files: {
+    label: 'Markdown, text, CSV or JSON files',
+    accept: '.md,.markdown,.txt,.csv,.json',
+    description: 'Headings name activities, #hashtags become tags and "- [x]" entries are imported as completed. ' +
+      'CSV files need a content column and can have tags, activity, completed, due, remind and created columns. ' +
+      'Paragraphs of free text are split into items by the AI provider while importing.'
+  }
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const isActive = (job: ImportJob) => job.status === 'pending' || job.status === 'running';
+
+const baseName = (name: string) => name.replace(/\.(json|html?)$/i, '');
+
+// Takeout has a JSON and an HTML file per note; the HTML is only needed when the JSON is missing
+function keepFilesToUpload(files: File[]): File[] {
+  const jsonNames = new Set(files.filter(file => /\.json$/i.test(file.name)).map(file => baseName(file.name)));
+  return files.filter(file =>
+    /\.json$/i.test(file.name) || (/\.html?$/i.test(file.name) && !jsonNames.has(baseName(file.name)))
+  );
+}
+
+function filesToUpload(source: ImportSource, files: File[]): File[] {
+  return source === 'keep' ? keepFilesToUpload(files) : files;
+}
+
+function chunkFiles(files: UploadFile[]) {
+  const chunks: UploadFile[][] = [];
+  let size = 0;
+  for (const file of files) {
+    if (chunks.length === 0 || size + file.content.length > UPLOAD_CHUNK_BYTES) {
+      chunks.push([]);
+      size = 0;
+    }
+    chunks[chunks.length - 1].push(file);
+    size += file.content.length;
+  }
+  return chunks;
+}
+
+export const ImportPage = () => {
+  const [source, setSource] = useState<ImportSource>('keep');
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number, total: number } | null>(null);
+  const [preview, setPreview] = useState<{ jobId: number, summary: ImportPreview } | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { data: jobs, refetch } = useQuery(getImportJobs, undefined, {
+    refetchInterval: (data: ImportJob[] | undefined) => data?.some(isActive) ? POLL_INTERVAL_MS : false
+  });
+
+  // Uploads the files and shows what they would create; nothing is saved until the preview is confirmed
+  const handleUpload = async () => {
+    const toUpload = filesToUpload(source, files);
+    if (toUpload.length === 0) {
+      setError(source === 'keep'
+        ? 'Choose the .json or .html files from the Keep folder of your Takeout export'
+        : 'Choose Markdown, text, CSV or JSON files');
+      return;
+    }
+
+    setError(null);
+    setMessage(null);
+    setUploadProgress({ done: 0, total: toUpload.length });
+    try {
+      const contents = await Promise.all(toUpload.map(async file => ({
+        name: file.name,
+        content: await file.text(),
+        modifiedAt: new Date(file.lastModified).toISOString()
+      })));
+      const job = await createImportJob({ source });
+      let done = 0;
+      for (const chunk of chunkFiles(contents)) {
+        await uploadImportFiles({ jobId: job.id, files: chunk });
+        done += chunk.length;
+        setUploadProgress({ done, total: toUpload.length });
+      }
+      setPreview({ jobId: job.id, summary: await getImportPreview({ jobId: job.id }) });
+      setFiles([]);
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to upload the files'));
+    }
+    setUploadProgress(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    setIsConfirming(true);
+    setError(null);
+    try {
+      const started = await startImportJob({ jobId: preview.jobId });
+      setPreview(null);
+      setMessage(`Importing ${plural(started.total, 'note')} in the background`);
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to start the import'));
+    }
+    setIsConfirming(false);
+  };
+
+  const handleCancel = async () => {
+    if (!preview) return;
+    setIsConfirming(true);
+    setError(null);
+    try {
+      await discardImportJob({ jobId: preview.jobId });
+      setPreview(null);
+      refetch();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to cancel the import'));
+    }
+    setIsConfirming(false);
+  };
+
+  const uploadCount = filesToUpload(source, files).length;
+  const isBusy = uploadProgress !== null || preview !== null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Import</div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link to="/imports" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                History
+              </Link>
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import notes</h2>
+              <p className="text-gray-600 mt-1">
+                Notes imported before are skipped, so the same files can be imported again after adding notes.
+                You see what an import will create before anything is saved.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SOURCES) as ImportSource[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => { setSource(key); setFiles([]); }}
+                  disabled={isBusy}
+                  className={`${source === key ? 'btn-primary' : 'btn-secondary'} disabled:opacity-50`}
+                >
+                  {SOURCES[key].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600">{SOURCES[source].description}</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                key={source}
+                type="file"
+                multiple
+                accept={SOURCES[source].accept}
+                onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                disabled={isBusy}
+                className="text-sm text-gray-600"
+              />
+              <button
+                onClick={handleUpload}
+                disabled={files.length === 0 || isBusy}
+                className="btn-primary disabled:opacity-50"
+              >
+                {uploadProgress
+                  ? `Uploading ${uploadProgress.done} of ${uploadProgress.total}...`
+                  : `Preview${files.length > 0 ? ` ${plural(uploadCount, 'file')}` : ''}`}
+              </button>
+            </div>
+            {preview && (
+              <div className="border border-blue-200 bg-blue-50 rounded-md p-4 space-y-3">
+                <div>
+                  <h3 className="font-medium text-gray-900">This import will create</h3>
+                  <p className="text-sm text-gray-700 mt-1">
+                    {plural(preview.summary.noteCount - preview.summary.alreadyImportedCount, 'note')} with
+                    {' '}{plural(preview.summary.itemCount, 'item')}
+                    {preview.summary.completedCount > 0 && ` (${preview.summary.completedCount} completed)`}
+                    {preview.summary.passageCount > 0 &&
+                      `, ${plural(preview.summary.passageCount, 'passage')} of which the AI provider splits into items`}
+                  </p>
+                  {preview.summary.alreadyImportedCount > 0 && (
+                    <p className="text-sm text-gray-500">
+                      {plural(preview.summary.alreadyImportedCount, 'note')} imported before will be skipped
+                    </p>
+                  )}
+                </div>
+                {[
+                  { title: 'Activities', entries: preview.summary.activities },
+                  { title: 'Tags', entries: preview.summary.tags.map(tag => ({ ...tag, name: `#${tag.name}` })) }
+                ].filter(group => group.entries.length > 0).map(group => (
+                  <div key={group.title}>
+                    <p className="text-sm font-medium text-gray-700">{group.title}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {group.entries.map(entry => (
+                        <span key={entry.name} className="px-2 py-0.5 rounded-full text-xs bg-white border border-gray-200 text-gray-700">
+                          {entry.name} · {entry.itemCount}
+                          {entry.isNew && <span className="ml-1 text-blue-700">new</span>}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {preview.summary.samples.length > 0 && (
+                  <details className="text-sm text-gray-700">
+                    <summary className="cursor-pointer">First {plural(preview.summary.samples.length, 'item')}</summary>
+                    <ul className="mt-1 ml-4 list-disc space-y-1">
+                      {preview.summary.samples.map((item, index) => (
+                        <li key={index} className={item.isCompleted ? 'line-through text-gray-400' : ''}>
+                          <span className="whitespace-pre-line">{item.content}</span>
+                          {item.activity && <span className="ml-2 text-xs text-gray-500">{item.activity}</span>}
+                          {item.tags.map(tag => <span key={tag} className="ml-1 text-xs text-blue-600">#{tag}</span>)}
+                          {item.dueAt && <span className="ml-2 text-xs text-gray-500">due {item.dueAt}</span>}
+                          {item.needsParsing && <span className="ml-2 text-xs text-purple-600">split by AI</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleConfirm}
+                    disabled={isConfirming || preview.summary.noteCount === preview.summary.alreadyImportedCount}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    Import
+                  </button>
+                  <button onClick={handleCancel} disabled={isConfirming} className="btn-secondary disabled:opacity-50">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+            {message && <p className="text-sm text-green-700">{message}</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Imports</h3>
+            {(jobs || []).length === 0 && <p className="text-sm text-gray-500">Nothing imported yet</p>}
+            {(jobs as ImportJob[] | undefined)?.map(job => {
+              const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+              return (
+                <div key={job.id} className="border border-gray-200 rounded-md p-4 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{job.label || SOURCES[job.source as ImportSource]?.label || job.source}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[job.status].className}`}>
+                        {STATUS_STYLES[job.status].label}
+                      </span>
+                    </div>
+                    <span className="text-xs text-gray-400">
+                      {new Date(job.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {job.status !== 'uploading' && (
+                    <div className="w-full bg-gray-100 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${job.status === 'failed' ? 'bg-red-400' : 'bg-blue-500'}`}
+                        style={{ width: `${job.status === 'completed' ? 100 : percent}%` }}
+                      />
+                    </div>
+                  )}
+                  <p className="text-sm text-gray-600">
+                    {job.processed} of {job.total} notes processed · {job.noteCount} imported with {job.itemCount} items
+                    {job.skippedCount > 0 && ` · ${job.skippedCount} skipped`}
+                  </p>
+                  {job.errors.length > 0 && (
+                    <details className="text-sm text-red-600">
+                      <summary className="cursor-pointer">
+                        {job.errors.length} problem{job.errors.length === 1 ? '' : 's'}
+                      </summary>
+                      <ul className="mt-1 ml-4 list-disc">
+                        {job.errors.map((problem, index) => <li key={index}>{problem}</li>)}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Link } from 'wasp/client/router';
+import {
+  useQuery,
+  getNote,
+  reparseNote,
+  applyNoteReparse,
+  updateItem,
+  deleteItem
+} from 'wasp/client/operations';
+import { ItemCard } from '../client/components/ItemCard';
+import { NoteDiffReview, type NoteDiff, type NoteDiffSelection } from '../client/components/NoteDiffReview';
+import { errorMessage } from '../client/errors';
+
+interface ReparseState {
+  diff: NoteDiff;
+  provider: string;
+  previousProvider: string | null;
+  error?: string;
+}
+
+export const NoteDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const noteId = Number(id);
+  const [isReparsing, setIsReparsing] = useState(false);
+  const [reparseResult, setReparseResult] = useState<ReparseState | null>(null);
+  const [applyMessage, setApplyMessage] = useState<string | null>(null);
+
+  const { data: note, isLoading, error, refetch } = useQuery(getNote, { id: noteId });
+
+  const handleReparse = async () => {
+    setIsReparsing(true);
+    setApplyMessage(null);
+    try {
+      const result = await reparseNote({ id: noteId });
+      setReparseResult({
+        diff: result.diff,
+        provider: result.note.provider || 'unknown provider',
+        previousProvider: result.previousProvider,
+        error: result.error
+      });
+      refetch();
+    } catch (err) {
+      setReparseResult({
+        diff: { added: [], removed: [], changed: [], unchanged: [] },
+        provider: 'unknown provider',
+        previousProvider: null,
+        error: errorMessage(err, 'Failed to re-run parsing')
+      });
+    }
+    setIsReparsing(false);
+  };
+
+  const handleApplyReparse = async (selection: NoteDiffSelection) => {
+    try {
+      const result = await applyNoteReparse({ noteId, ...selection });
+      setApplyMessage(
+        `Added ${result.created.length}, updated ${result.updatedItemIds.length}, removed ${result.removedItemIds.length}` +
+        (result.skipped.length > 0 ? ` (kept ${result.skipped.length} hand-edited item${result.skipped.length === 1 ? '' : 's'})` : '')
+      );
+      setReparseResult(null);
+      refetch();
+    } catch (err) {
+      setApplyMessage(errorMessage(err, 'Failed to apply changes'));
+    }
+  };
+
+  const handleToggleComplete = async (itemId: number, isCompleted: boolean) => {
+    try {
+      await updateItem({ id: itemId, isCompleted });
+      refetch();
+    } catch (err) {
+      console.error('Failed to update item:', err);
+    }
+  };
+
+  const handleDeleteItem = async (itemId: number) => {
+    if (window.confirm('Are you sure you want to delete this item?')) {
+      try {
+        await deleteItem({ id: itemId });
+        refetch();
+      } catch (err) {
+        console.error('Failed to delete item:', err);
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Note</div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link to="/notes" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← All Notes
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+              <span className="ml-3 text-gray-600">Loading note...</span>
+            </div>
+          ) : error || !note ? (
+            <div className="bg-white rounded-lg shadow p-6 text-center text-gray-600">
+              Note not found.
+            </div>
+          ) : (
+            <>
+              {/* Original Note */}
+              <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900">Original Note</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Captured {new Date(note.capturedAt).toLocaleString()} · {note.source} ·{' '}
+                      {note.parseStatus}
+                      {note.provider && ` with ${note.provider}`}
+                      {note.parseModel && ` (${note.parseModel})`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleReparse}
+                    disabled={isReparsing}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    {isReparsing ? 'Parsing...' : 'Re-run Parsing'}
+                  </button>
+                </div>
+                <p className="text-gray-900 whitespace-pre-wrap">{note.rawText}</p>
+
+                {applyMessage && <p className="text-sm text-gray-600">{applyMessage}</p>}
+
+                {reparseResult && (
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    {reparseResult.error ? (
+                      <p className="text-sm text-red-600">{reparseResult.error}</p>
+                    ) : (
+                      <>
+                        <p className="text-xs text-gray-500 mb-3">
+                          Re-parsed with {reparseResult.provider}
+                          {reparseResult.previousProvider && reparseResult.previousProvider !== reparseResult.provider &&
+                            ` (previously ${reparseResult.previousProvider})`}
+                        </p>
+                        <NoteDiffReview
+                          diff={reparseResult.diff}
+                          onApply={handleApplyReparse}
+                          onCancel={() => setReparseResult(null)}
+                        />
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Items spawned from this note */}
+              <div className="bg-white rounded-lg shadow p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  Items from this note ({note.items.length})
+                </h3>
+                {note.items.length === 0 ? (
+                  <p className="text-gray-500">No items are linked to this note anymore.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {note.items.map(item => (
+                      <ItemCard
+                        key={item.id}
+                        item={item}
+                        onToggleComplete={handleToggleComplete}
+                        onDelete={handleDeleteItem}
+                      />
+                    ))}
+                  </div>
+                )}
+                {note.mergedItems.length > 0 && (
+                  <div className="mt-4 text-sm text-gray-600">
+                    <p className="font-medium text-gray-700">Merged into existing items:</p>
+                    <ul className="list-disc list-inside">
+                      {note.mergedItems.map(({ item }) => (
+                        <li key={item.id} className={item.isCompleted ? 'line-through text-gray-400' : ''}>
+                          {item.content}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Link } from 'wasp/client/router';
+import {
+  useQuery,
+  getNoteDrafts,
+  getTags,
+  getActivities,
+  createNoteDraft,
+  updateNoteDraft,
+  commitNoteDraft,
+  discardNoteDraft
+} from 'wasp/client/operations';
+import { DraftItemCard, type DraftItem } from '../client/components/DraftItemCard';
+import { errorMessage } from '../client/errors';
+
+export const NoteInputPage = () => {
+  const navigate = useNavigate();
+  const [noteText, setNoteText] = useState('');
+  const [selectedDraftId, setSelectedDraftId] = useState<number | null>(null);
+  const [draftItems, setDraftItems] = useState<DraftItem[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [mergeDuplicates, setMergeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const { data: drafts, isLoading: draftsLoading, refetch: refetchDrafts } = useQuery(getNoteDrafts);
+  const { data: tags } = useQuery(getTags);
+  const { data: activities } = useQuery(getActivities);
+
+  // Resume the most recently edited draft after a reload
+  const currentDraft = drafts?.find(draft => draft.id === selectedDraftId) ?? drafts?.[0] ?? null;
+
+  // Only load items from the server when switching drafts; local edits are the source of truth afterwards
+  useEffect(() => {
+    if (currentDraft) {
+      setSelectedDraftId(currentDraft.id);
+      setDraftItems(currentDraft.items);
+    }
+  }, [currentDraft?.id]);
+
+  // Persist edits shortly after the user stops typing so half-reviewed notes survive a reload
+  useEffect(() => {
+    if (!isDirty || !currentDraft) return;
+
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(async () => {
+      try {
+        await updateNoteDraft({ id: currentDraft.id, items: draftItems });
+        setIsDirty(false);
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to save draft'));
+      }
+    }, 800);
+
+    return () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+    };
+  }, [draftItems, isDirty]);
+
+  // Saves pending edits right away instead of waiting for the autosave
+  const flushDraft = async () => {
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    if (isDirty && currentDraft) {
+      await updateNoteDraft({ id: currentDraft.id, items: draftItems });
+      setIsDirty(false);
+    }
+  };
+
+  const handleSwitchDraft = async (id: number) => {
+    setError(null);
+    try {
+      await flushDraft();
+      setSelectedDraftId(id);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save draft'));
+    }
+  };
+
+  const editItems = (items: DraftItem[]) => {
+    setDraftItems(items);
+    setIsDirty(true);
+  };
+
+  const handleParse = async () => {
+    if (!noteText.trim()) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const draft = await createNoteDraft({ noteText });
+      setNoteText('');
+      setIsDirty(false);
+      setSelectedDraftId(draft.id);
+      setDraftItems(draft.items);
+      refetchDrafts();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to parse note'));
+    }
+    setIsBusy(false);
+  };
+
+  const handleChangeItem = (index: number, item: DraftItem) => {
+    editItems(draftItems.map((existing, i) => (i === index ? item : existing)));
+  };
+
+  const handleSplitItem = (index: number, splitAt: number) => {
+    const item = draftItems[index];
+    const first = item.content.slice(0, splitAt).trim();
+    const second = item.content.slice(splitAt).trim();
+    if (!first || !second) return;
+
+    editItems([
+      ...draftItems.slice(0, index),
+      { ...item, content: first },
+      { ...item, key: `${item.key}-split-${Date.now()}`, content: second },
+      ...draftItems.slice(index + 1)
+    ]);
+  };
+
+  const handleMergeWithNext = (index: number) => {
+    const item = draftItems[index];
+    const next = draftItems[index + 1];
+    if (!next) return;
+
+    const merged: DraftItem = {
+      ...item,
+      content: `${item.content.trim()}; ${next.content.trim()}`,
+      tagIds: Array.from(new Set([...item.tagIds, ...next.tagIds])).slice(0, 3),
+      suggestedTags: Array.from(new Set([...item.suggestedTags, ...next.suggestedTags])),
+      activityId: item.activityId ?? next.activityId,
+      dueAt: item.dueAt ?? next.dueAt,
+      remindAt: item.remindAt ?? next.remindAt,
+      recurrenceRule: item.recurrenceRule ?? next.recurrenceRule
+    };
+
+    editItems([...draftItems.slice(0, index), merged, ...draftItems.slice(index + 2)]);
+  };
+
+  const handleDropItem = (index: number) => {
+    editItems(draftItems.filter((_, i) => i !== index));
+  };
+
+  const handleCommit = async () => {
+    if (!currentDraft) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await flushDraft();
+      await commitNoteDraft({ id: currentDraft.id, onDuplicate: mergeDuplicates ? 'merge' : 'keep' });
+      navigate('/dashboard');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save items'));
+      setIsBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!currentDraft || !window.confirm('Discard this note and all its draft items?')) return;
+
+    setIsBusy(true);
+    try {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      await discardNoteDraft({ id: currentDraft.id });
+      setIsDirty(false);
+      setSelectedDraftId(null);
+      setDraftItems([]);
+      refetchDrafts();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to discard draft'));
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">New Note</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Note Input */}
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Paste a note</h2>
+              <p className="text-gray-600 mt-1">
+                AI will split it into items you can review before anything is saved
+              </p>
+            </div>
+            <textarea
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Try that Italian place downtown, Giovanni recommended it. Also buy tomatoes for pasta sauce recipe"
+            />
+            <button
+              onClick={handleParse}
+              disabled={isBusy || !noteText.trim()}
+              className="btn-primary disabled:opacity-50"
+            >
+              {isBusy ? 'Working...' : 'Parse Note'}
+            </button>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Draft Review */}
+          {draftsLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+              <span className="ml-3 text-gray-600">Loading drafts...</span>
+            </div>
+          ) : currentDraft && (
+            <div className="bg-white rounded-lg shadow p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">
+                    Review {draftItems.length} item{draftItems.length === 1 ? '' : 's'}
+                  </h2>
+                  <p className="text-sm text-gray-500 mt-1 italic">From: "{currentDraft.noteText}"</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Parsed with {currentDraft.provider || 'unknown provider'} · {isDirty ? 'Saving...' : 'All changes saved'}
+                  </p>
+                </div>
+                {drafts && drafts.length > 1 && (
+                  <select
+                    value={currentDraft.id}
+                    onChange={(e) => handleSwitchDraft(Number(e.target.value))}
+                    disabled={isBusy}
+                    className="border border-gray-300 rounded-md text-sm"
+                  >
+                    {drafts.map(draft => (
+                      <option key={draft.id} value={draft.id}>
+                        {draft.noteText.slice(0, 40)}{draft.noteText.length > 40 ? '…' : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {draftItems.map((item, index) => (
+                  <DraftItemCard
+                    key={item.key}
+                    item={item}
+                    tags={tags || []}
+                    activities={activities || []}
+                    onChange={(updated) => handleChangeItem(index, updated)}
+                    onSplit={(splitAt) => handleSplitItem(index, splitAt)}
+                    onMergeWithNext={index < draftItems.length - 1 ? () => handleMergeWithNext(index) : undefined}
+                    onDrop={() => handleDropItem(index)}
+                  />
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleCommit}
+                  disabled={isBusy || draftItems.length === 0}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  Save {draftItems.length} Item{draftItems.length === 1 ? '' : 's'}
+                </button>
+                <button onClick={handleDiscard} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                  Discard
+                </button>
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={mergeDuplicates}
+                    onChange={(e) => setMergeDuplicates(e.target.checked)}
+                  />
+                  <span>Merge duplicates into existing items</span>
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Link } from 'wasp/client/router';
+import { useQuery, getNotes } from 'wasp/client/operations';
+
+const PARSE_STATUS_STYLES: { [status: string]: string } = {
+  parsed: 'bg-green-50 text-green-700',
+  pending: 'bg-yellow-50 text-yellow-700',
+  failed: 'bg-red-50 text-red-700'
+};
+
+export const NotesPage = () => {
+  const { data: notes, isLoading } = useQuery(getNotes);
+
+  const formatDate = (date: string | Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Notes</div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link to="/notes/new" className="text-sm text-blue-600 hover:text-blue-500">
+                + New Note
+              </Link>
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-gray-900">Captured Notes</h2>
+              <p className="text-gray-600 mt-1">Every note you captured and the items it produced</p>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                <span className="ml-3 text-gray-600">Loading notes...</span>
+              </div>
+            ) : !notes || notes.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-6xl mb-4">🗒️</div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No notes yet</h3>
+                <p className="text-gray-500">Capture your first note to see it here.</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {notes.map(note => (
+                  <Link
+                    key={note.id}
+                    to="/notes/:id"
+                    params={{ id: note.id }}
+                    className="block py-4 hover:bg-gray-50 transition-colors"
+                  >
+                    <p className="text-gray-900 line-clamp-2">{note.rawText}</p>
+                    <div className="flex items-center space-x-3 mt-2 text-sm text-gray-500">
+                      <span>{formatDate(note.capturedAt)}</span>
+                      <span>{note._count.items} item{note._count.items === 1 ? '' : 's'}</span>
+                      <span className="capitalize">{note.source}</span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          PARSE_STATUS_STYLES[note.parseStatus] || 'bg-gray-100 text-gray-600'
+                        }`}
+                      >
+                        {note.parseStatus}
+                      </span>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wasp/client/router';
+import { useAuth } from 'wasp/client/auth';
+import {
+  useQuery,
+  getPreferenceWeights,
+  resetPreferenceWeights,
+  recomputeRelevance,
+  getRankingPreference,
+  updateRankingPreference,
+  resetRankingPreference,
+  updateTimezone
+} from 'wasp/client/operations';
+import { errorMessage } from '../client/errors';
+
+const TARGET_LABELS: { [targetType: string]: string } = {
+  tag: 'Tag',
+  category: 'Category',
+  activity: 'Activity'
+};
+
+type RankingSignal = 'relevance' | 'preference' | 'age' | 'interaction' | 'due' | 'activity';
+
+type RankingDraft = { [signal in RankingSignal]?: number } & { ageHalfLifeDays?: number };
+
+const RANKING_SIGNALS: Array<{ key: RankingSignal; label: string; hint: string }> = [
+  { key: 'relevance', label: 'Relevance', hint: 'The item\'s own score, lowered by 👎' },
+  { key: 'preference', label: 'Learned preference', hint: 'Feedback on items with the same tags and activity' },
+  { key: 'age', label: 'Newness', hint: 'Newer items first' },
+  { key: 'interaction', label: 'Recent use', hint: 'Items you gave feedback on or completed lately' },
+  { key: 'due', label: 'Due date', hint: 'Items due soon or overdue' },
+  { key: 'activity', label: 'Selected activity', hint: 'Items assigned to the activity you are viewing, over rule matches' }
+];
+
+// Zones the browser knows, with the browser's own first
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Array.from(new Set([browserTimeZone, ...Intl.supportedValuesOf('timeZone')]))
+  : [browserTimeZone];
+
+export const PreferencesPage = () => {
+  const { data: user } = useAuth();
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [rankingDraft, setRankingDraft] = useState<RankingDraft>({});
+  const [timezone, setTimezone] = useState<string>(browserTimeZone);
+
+  const { data: weights, isLoading, refetch } = useQuery(getPreferenceWeights);
+  const { data: ranking, refetch: refetchRanking } = useQuery(getRankingPreference);
+
+  useEffect(() => {
+    if (!ranking) return;
+    const { isDefault, ...rankingWeights } = ranking;
+    setRankingDraft(rankingWeights);
+  }, [ranking]);
+
+  useEffect(() => {
+    if (user?.timezone) setTimezone(user.timezone);
+  }, [user]);
+
+  const run = async (operation: () => Promise<string | void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await operation();
+      if (result) setMessage(result);
+    } catch (err) {
+      setError(errorMessage(err, failure));
+    }
+    setIsBusy(false);
+  };
+
+  const handleSaveRanking = () => run(async () => {
+    await updateRankingPreference(rankingDraft);
+    refetchRanking();
+    return 'Ranking weights saved';
+  }, 'Failed to save ranking weights');
+
+  const handleResetRanking = () => run(async () => {
+    await resetRankingPreference();
+    refetchRanking();
+    return 'Ranking weights reset to defaults';
+  }, 'Failed to reset ranking weights');
+
+  const handleSaveTimezone = () => run(async () => {
+    await updateTimezone({ timezone });
+    return `Dates in notes are now read in ${timezone}`;
+  }, 'Failed to save time zone');
+
+  const handleReset = async (id?: number) => {
+    if (id === undefined && !window.confirm('Forget everything learned from your feedback?')) return;
+
+    await run(async () => {
+      await resetPreferenceWeights(id !== undefined ? { id } : undefined);
+      refetch();
+    }, 'Failed to reset preferences');
+  };
+
+  const handleRecompute = () => run(async () => {
+    const result = await recomputeRelevance();
+    refetch();
+    return `Replayed ${result.eventCount} event${result.eventCount === 1 ? '' : 's'} into ${result.weightCount} weight${result.weightCount === 1 ? '' : 's'}`;
+  }, 'Failed to recompute preferences');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Preferences</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {message && <p className="text-sm text-green-700">{message}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Time Zone */}
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Time zone</h2>
+              <p className="text-gray-600 mt-1">
+                Dates like "tomorrow at 3pm" in your notes are read in this zone
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+              >
+                {Array.from(new Set([timezone, ...TIME_ZONES])).map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleSaveTimezone}
+                disabled={isBusy || timezone === user?.timezone}
+                className="btn-primary disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+
+          {/* Ranking Weights */}
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Ranking</h2>
+                <p className="text-gray-600 mt-1">
+                  How much each signal counts when ordering your items {ranking?.isDefault && '(defaults)'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button onClick={handleSaveRanking} disabled={isBusy || !ranking} className="btn-primary disabled:opacity-50">
+                  Save
+                </button>
+                <button
+                  onClick={handleResetRanking}
+                  disabled={isBusy || !ranking || ranking.isDefault}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  Use defaults
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {RANKING_SIGNALS.map(signal => (
+                <label key={signal.key} className="block">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-900">{signal.label}</span>
+                    <span className="text-gray-500">{(rankingDraft[signal.key] ?? 0).toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={5}
+                    step={0.1}
+                    value={rankingDraft[signal.key] ?? 0}
+                    onChange={(e) => setRankingDraft({ ...rankingDraft, [signal.key]: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                  <span className="text-xs text-gray-500">{signal.hint}</span>
+                </label>
+              ))}
+              <label className="block">
+                <div className="text-sm text-gray-900">Newness half-life (days)</div>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={rankingDraft.ageHalfLifeDays ?? 30}
+                  onChange={(e) => setRankingDraft({ ...rankingDraft, ageHalfLifeDays: Number(e.target.value) })}
+                  className="mt-1 w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <span className="block text-xs text-gray-500">After this many days an item counts as half as new</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Learned Weights */}
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Learned preferences</h2>
+                <p className="text-gray-600 mt-1">
+                  Every 👍, 👎 and completed item shifts these weights, which reorder items sharing the same tags,
+                  categories and activities
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleRecompute}
+                  disabled={isBusy}
+                  className="btn-secondary disabled:opacity-50"
+                  title="Rebuild weights and item relevance from the feedback history"
+                >
+                  Recompute from history
+                </button>
+                {weights && weights.length > 0 && (
+                  <button onClick={() => handleReset()} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                    Reset all
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                <span className="ml-3 text-gray-600">Loading preferences...</span>
+              </div>
+            ) : !weights || weights.length === 0 ? (
+              <p className="text-gray-500">Nothing learned yet. Give feedback on items from the dashboard.</p>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {weights.map(weight => (
+                  <div key={weight.id} className="flex items-center gap-4 py-3">
+                    <div className="w-48 min-w-0">
+                      <div className="text-gray-900 truncate">{weight.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {TARGET_LABELS[weight.targetType] || weight.targetType} · {weight.eventCount} event
+                        {weight.eventCount === 1 ? '' : 's'}
+                      </div>
+                    </div>
+
+                    {/* Weight bar, centered on zero */}
+                    <div className="flex-1 flex items-center">
+                      <div className="flex-1 h-2 bg-gray-100 rounded-l-full flex justify-end">
+                        {weight.weight < 0 && (
+                          <div className="h-2 bg-red-400 rounded-l-full" style={{ width: `${-weight.weight * 100}%` }} />
+                        )}
+                      </div>
+                      <div className="flex-1 h-2 bg-gray-100 rounded-r-full">
+                        {weight.weight > 0 && (
+                          <div className="h-2 bg-green-500 rounded-r-full" style={{ width: `${weight.weight * 100}%` }} />
+                        )}
+                      </div>
+                    </div>
+
+                    <span className="w-12 text-right text-sm text-gray-600">
+                      {weight.weight > 0 ? '+' : ''}{(weight.weight * 100).toFixed(0)}
+                    </span>
+                    <button
+                      onClick={() => handleReset(weight.id)}
+                      disabled={isBusy}
+                      className="text-sm text-gray-500 hover:text-red-600 disabled:opacity-50"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
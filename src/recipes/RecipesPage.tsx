@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wasp/client/router';
+import { errorMessage } from '../client/errors';
+import {
+  useQuery,
+  getActivities,
+  suggestRecipes,
+  saveRecipeSuggestion,
+  addMissingIngredients
+} from 'wasp/client/operations';
+
+interface RecipeSuggestion {
+  title: string;
+  summary: string | null;
+  usedIngredients: string[];
+  missingIngredients: string[];
+  steps: string[];
+}
+
+interface Suggestions {
+  recipes: RecipeSuggestion[];
+  ingredients: string[];
+  cached: boolean;
+  generatedAt: string | Date | null;
+}
+
+// Suggestions default to taking the meal planning activity's items into account
+const MEAL_PLANNING_ACTIVITY = 'Meal Planning';
+
+export const RecipesPage = () => {
+  const [activityId, setActivityId] = useState<string>('');
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [savedTitles, setSavedTitles] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { data: activities } = useQuery(getActivities);
+
+  useEffect(() => {
+    const mealPlanning = activities?.find(activity => activity.name === MEAL_PLANNING_ACTIVITY);
+    if (mealPlanning) setActivityId(String(mealPlanning.id));
+  }, [activities]);
+
+  const run = async (operation: () => Promise<string | void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await operation();
+      if (result) setMessage(result);
+    } catch (err) {
+      setError(errorMessage(err, failure));
+    }
+    setIsBusy(false);
+  };
+
+  const handleSuggest = (refresh = false) => run(async () => {
+    const result = await suggestRecipes({ activityId: activityId ? Number(activityId) : undefined, refresh });
+    setSuggestions(result as Suggestions);
+    if (result.ingredients.length === 0) {
+      return 'Nothing to cook with yet: tag items with groceries or ingredients, or add them as shopping items';
+    }
+  }, 'Failed to suggest recipes');
+
+  const handleSave = (recipe: RecipeSuggestion) => run(async () => {
+    await saveRecipeSuggestion({ recipe, activityId: activityId ? Number(activityId) : undefined });
+    setSavedTitles([...savedTitles, recipe.title]);
+    return `Saved "${recipe.title}" to your items`;
+  }, 'Failed to save recipe');
+
+  const handleAddMissing = (recipe: RecipeSuggestion) => run(async () => {
+    const { added, skipped } = await addMissingIngredients({ ingredients: recipe.missingIngredients });
+    const alreadyListed = skipped.length > 0 ? ` (${skipped.length} already on the list)` : '';
+    return `Added ${added.length} ingredient${added.length === 1 ? '' : 's'} to the shopping list${alreadyListed}`;
+  }, 'Failed to add ingredients');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Recipes</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Recipe suggestions</h2>
+              <p className="text-gray-600 mt-1">
+                Recipes for the groceries and ingredients on your list, from the configured AI provider
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-sm text-gray-600">Plans from:</label>
+              <select
+                value={activityId}
+                onChange={(e) => setActivityId(e.target.value)}
+                className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+              >
+                <option value="">No activity</option>
+                {(activities || []).map(activity => (
+                  <option key={activity.id} value={activity.id}>
+                    {activity.icon} {activity.name}
+                  </option>
+                ))}
+              </select>
+              <button onClick={() => handleSuggest()} disabled={isBusy} className="btn-primary disabled:opacity-50">
+                {isBusy ? 'Working...' : 'Suggest recipes'}
+              </button>
+              {suggestions?.cached && (
+                <button onClick={() => handleSuggest(true)} disabled={isBusy} className="btn-secondary disabled:opacity-50">
+                  Ask again
+                </button>
+              )}
+            </div>
+            {message && <p className="text-sm text-green-700">{message}</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {suggestions && suggestions.ingredients.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                <span className="text-gray-600">Using:</span>
+                {suggestions.ingredients.map(ingredient => (
+                  <span key={ingredient} className="px-2 py-0.5 rounded-full bg-green-50 text-green-700 text-xs">
+                    {ingredient}
+                  </span>
+                ))}
+                {suggestions.cached && suggestions.generatedAt && (
+                  <span className="text-xs text-gray-400 ml-2">
+                    suggested {new Date(suggestions.generatedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {suggestions?.recipes.map(recipe => {
+            const isSaved = savedTitles.includes(recipe.title);
+            return (
+              <div key={recipe.title} className="bg-white rounded-lg shadow p-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">🍳 {recipe.title}</h3>
+                    {recipe.summary && <p className="text-gray-600 text-sm mt-1">{recipe.summary}</p>}
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <button
+                      onClick={() => handleSave(recipe)}
+                      disabled={isBusy || isSaved}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      {isSaved ? 'Saved' : 'Save recipe'}
+                    </button>
+                    {recipe.missingIngredients.length > 0 && (
+                      <button
+                        onClick={() => handleAddMissing(recipe)}
+                        disabled={isBusy}
+                        className="btn-secondary disabled:opacity-50"
+                      >
+                        🛒 Add missing
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <h4 className="font-semibold text-gray-700 mb-1">You have</h4>
+                    <div className="flex flex-wrap gap-1">
+                      {recipe.usedIngredients.map(ingredient => (
+                        <span key={ingredient} className="px-2 py-0.5 rounded-full bg-green-50 text-green-700 text-xs">
+                          {ingredient}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-gray-700 mb-1">Missing</h4>
+                    {recipe.missingIngredients.length === 0 ? (
+                      <p className="text-gray-500">Nothing, you can cook it now</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {recipe.missingIngredients.map(ingredient => (
+                          <span key={ingredient} className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-800 text-xs">
+                            {ingredient}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <ol className="list-decimal list-inside text-sm text-gray-700 space-y-0.5">
+                  {recipe.steps.map((step, index) => (
+                    <li key={index}>{step}</li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Link } from 'wasp/client/router';
+import { useQuery, searchItems, semanticSearch, getTags, getActivities } from 'wasp/client/operations';
+import { HighlightedText } from '../client/components/HighlightedText';
+import { errorMessage } from '../client/errors';
+
+type StatusFilter = 'all' | 'active' | 'completed';
+type SearchMode = 'keywords' | 'meaning';
+
+export const SearchPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [queryInput, setQueryInput] = useState(searchParams.get('q') || '');
+
+  // Filters live in the URL so results can be bookmarked and survive a reload
+  const query = searchParams.get('q') || '';
+  const tagName = searchParams.get('tag') || '';
+  const activityId = searchParams.get('activity') || '';
+  const status = (searchParams.get('status') as StatusFilter) || 'all';
+  const createdFrom = searchParams.get('from') || '';
+  const createdTo = searchParams.get('to') || '';
+  const mode = (searchParams.get('mode') as SearchMode) || 'keywords';
+
+  useEffect(() => {
+    setQueryInput(query);
+  }, [query]);
+
+  const { data: tags } = useQuery(getTags);
+  const { data: activities } = useQuery(getActivities);
+  const keywordSearch = useQuery(searchItems, {
+    query,
+    tagNames: tagName ? [tagName] : undefined,
+    activityId: activityId ? Number(activityId) : undefined,
+    status,
+    createdFrom: createdFrom || undefined,
+    createdTo: createdTo || undefined
+  }, { enabled: mode === 'keywords' });
+  const meaningSearch = useQuery(semanticSearch, { query }, { enabled: mode === 'meaning' && query.length > 0 });
+
+  // Meaning search ranks by similarity only, so its results carry no highlights
+  // A disabled query (no text to search by meaning yet) counts as loading in react-query, so check the query too
+  const isLoading = mode === 'meaning' ? query.length > 0 && meaningSearch.isLoading : keywordSearch.isLoading;
+  const error = mode === 'meaning' ? meaningSearch.error : keywordSearch.error;
+  const results = mode === 'meaning'
+    ? meaningSearch.data && {
+        items: meaningSearch.data.items.map(item => ({
+          ...item,
+          highlights: { content: [{ text: item.content, match: false }], note: null }
+        })),
+        terms: [] as string[],
+        usedFullTextIndex: true
+      }
+    : keywordSearch.data;
+
+  const setParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setParam('q', queryInput.trim());
+  };
+
+  const formatDate = (date: string | Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Search</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Query and Filters */}
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <form onSubmit={handleSubmit} className="flex gap-2">
+              <input
+                type="search"
+                value={queryInput}
+                onChange={(e) => setQueryInput(e.target.value)}
+                placeholder="Search items, their notes and tags"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                autoFocus
+              />
+              <button type="submit" className="btn-primary">
+                Search
+              </button>
+            </form>
+
+            <div className="flex items-center space-x-2 text-sm">
+              {(['keywords', 'meaning'] as SearchMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setParam('mode', option === 'keywords' ? '' : option)}
+                  className={`px-3 py-1 rounded-full border ${
+                    mode === option ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'
+                  }`}
+                >
+                  {option === 'keywords' ? 'Matching words' : 'Similar meaning'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'keywords' && (
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <select
+                  value={tagName}
+                  onChange={(e) => setParam('tag', e.target.value)}
+                  className="border border-gray-300 rounded-md"
+                >
+                  <option value="">Any tag</option>
+                  {(tags || []).map(tag => (
+                    <option key={tag.id} value={tag.name}>
+                      {tag.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={activityId}
+                  onChange={(e) => setParam('activity', e.target.value)}
+                  className="border border-gray-300 rounded-md"
+                >
+                  <option value="">Any activity</option>
+                  {(activities || []).map(activity => (
+                    <option key={activity.id} value={activity.id}>
+                      {activity.icon} {activity.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={status}
+                  onChange={(e) => setParam('status', e.target.value === 'all' ? '' : e.target.value)}
+                  className="border border-gray-300 rounded-md"
+                >
+                  <option value="all">Active and completed</option>
+                  <option value="active">Active only</option>
+                  <option value="completed">Completed only</option>
+                </select>
+                <label className="flex items-center space-x-1 text-gray-600">
+                  <span>From</span>
+                  <input
+                    type="date"
+                    value={createdFrom}
+                    onChange={(e) => setParam('from', e.target.value)}
+                    className="border border-gray-300 rounded-md"
+                  />
+                </label>
+                <label className="flex items-center space-x-1 text-gray-600">
+                  <span>To</span>
+                  <input
+                    type="date"
+                    value={createdTo}
+                    onChange={(e) => setParam('to', e.target.value)}
+                    className="border border-gray-300 rounded-md"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Results */}
+          <div className="bg-white rounded-lg shadow p-6">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                <span className="ml-3 text-gray-600">Searching...</span>
+              </div>
+            ) : error ? (
+              <p className="text-red-600">{errorMessage(error, 'Search failed')}</p>
+            ) : !results || results.items.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-6xl mb-4">🔍</div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No matching items</h3>
+                <p className="text-gray-500">Try fewer words or loosen the filters.</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  {results.items.length} result{results.items.length === 1 ? '' : 's'}
+                  {!results.usedFullTextIndex && results.terms.length > 0 && ' (basic matching)'}
+                </p>
+                <div className="divide-y divide-gray-200">
+                  {results.items.map(item => (
+                    <div key={item.id} className="py-4 space-y-2">
+                      <div className="flex items-start justify-between gap-4">
+                        <HighlightedText
+                          segments={item.highlights.content}
+                          className={`text-gray-900 ${item.isCompleted ? 'line-through text-gray-500' : ''}`}
+                        />
+                        <span className="text-sm text-gray-500 whitespace-nowrap">
+                          {'similarity' in item && typeof item.similarity === 'number' && `${(item.similarity * 100).toFixed(0)}% match · `}
+                          {formatDate(item.createdAt)}
+                        </span>
+                      </div>
+
+                      {item.highlights.note && item.note && (
+                        <Link
+                          to="/notes/:id"
+                          params={{ id: item.note.id }}
+                          className="block text-sm text-gray-500 italic hover:text-gray-700"
+                        >
+                          From: "<HighlightedText segments={item.highlights.note} />"
+                        </Link>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                        {item.activity && (
+                          <span>
+                            {item.activity.icon || '📌'} {item.activity.name}
+                          </span>
+                        )}
+                        {item.tags.map(({ tag }) => (
+                          <span
+                            key={tag.id}
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              results.terms.some(term => tag.name.startsWith(term))
+                                ? 'bg-yellow-200 text-gray-900'
+                                : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            {tag.name}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import type { Prisma } from '@prisma/client'
+
+// Activity rules decide which items surface in an activity beyond the ones assigned to it by hand
+
+export type ActivityRuleSet = {
+  includeTagIds: number[]
+  includeCategoryIds: number[]
+  excludeTagIds: number[]
+  excludeCompleted: boolean
+}
+
+type StoredActivityRule = {
+  includeTagIds: string
+  includeCategoryIds: string
+  excludeTagIds: string
+  excludeCompleted: boolean
+}
+
+export const EMPTY_RULE_SET: ActivityRuleSet = {
+  includeTagIds: [],
+  includeCategoryIds: [],
+  excludeTagIds: [],
+  excludeCompleted: false
+}
+
+// ID lists are stored as JSON strings because SQLite has no array or Json column
+function parseIdList(value: string): number[] {
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((id): id is number => Number.isInteger(id)) : []
+  } catch {
+    return []
+  }
+}
+
+export function parseActivityRule(rule: StoredActivityRule): ActivityRuleSet {
+  return {
+    includeTagIds: parseIdList(rule.includeTagIds),
+    includeCategoryIds: parseIdList(rule.includeCategoryIds),
+    excludeTagIds: parseIdList(rule.excludeTagIds),
+    excludeCompleted: rule.excludeCompleted
+  }
+}
+
+export function serializeActivityRule(rules: ActivityRuleSet): StoredActivityRule {
+  const unique = (ids: number[]) => Array.from(new Set(ids.filter(id => Number.isInteger(id))))
+
+  return {
+    includeTagIds: JSON.stringify(unique(rules.includeTagIds)),
+    includeCategoryIds: JSON.stringify(unique(rules.includeCategoryIds)),
+    excludeTagIds: JSON.stringify(unique(rules.excludeTagIds)),
+    excludeCompleted: rules.excludeCompleted
+  }
+}
+
+// Prisma filter for the items of an activity: explicitly assigned items plus everything the rules include
+export function buildActivityItemFilter(activityId: number, rules: ActivityRuleSet): Prisma.ItemWhereInput {
+  const matches: Prisma.ItemWhereInput[] = [{ activityId }]
+
+  if (rules.includeTagIds.length > 0) {
+    matches.push({ tags: { some: { tagId: { in: rules.includeTagIds } } } })
+  }
+
+  if (rules.includeCategoryIds.length > 0) {
+    matches.push({ tags: { some: { tag: { categoryId: { in: rules.includeCategoryIds } } } } })
+  }
+
+  const filter: Prisma.ItemWhereInput = { OR: matches }
+
+  if (rules.excludeTagIds.length > 0) {
+    filter.NOT = { tags: { some: { tagId: { in: rules.excludeTagIds } } } }
+  }
+
+  if (rules.excludeCompleted) {
+    filter.isCompleted = false
+  }
+
+  return filter
+}
@@ -0,0 +1,378 @@
+// Date and time expressions in extracted items ("dentist next Tuesday at 3pm", "pay rent on the 1st of the month").
+// Providers only return item strings, so this runs on their output and works the same for the regex
+// fallback and the LLMs. Expressions resolve against the capture time in the user's time zone
+
+export type ItemDate = {
+  content: string        // Item text without the expression, or unchanged when nothing would be left
+  dateText: string | null // The expression as written
+  dueAt: Date | null
+  remindAt: Date | null  // Set instead of dueAt when the item asks to be reminded
+}
+
+export type DateContext = {
+  now: Date        // Capture time the expression is relative to
+  timeZone: string // IANA zone, e.g. "Europe/Berlin"
+}
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+// Dates without a time land at the start of the working day
+export const DEFAULT_HOUR = 9
+
+const PART_OF_DAY_HOURS: { [part: string]: number } = {
+  morning: 9,
+  afternoon: 15,
+  evening: 19,
+  night: 21,
+  tonight: 20
+}
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+}
+
+const REMINDER_CUE = /\b(?:remind(?:\s+me)?|remember|don'?t\s+forget)\b/i
+
+// Words that only tie the expression to the item ("rent due on the 1st") and go with it
+const LEADING_CONNECTORS = /(?:\s+|^)(?:(?:due|by|on|at|before|for|until)\s+)+$/i
+
+const END = `(?![\\w'])`
+const WEEKDAY = `(${WEEKDAYS.join('|')})`
+const MONTH = `(${MONTHS.join('|')}|${MONTH_ABBREVIATIONS.join('|')}|sept)\\.?`
+const PART_OF_DAY = `(?:\\s+(morning|afternoon|evening|night))?`
+
+export type CalendarDay = { year: number, month: number, day: number } // month 1-12
+export type TimeOfDay = { hour: number, minute: number }
+
+export type ZonedNow = CalendarDay & TimeOfDay & { weekday: number }
+
+// A calendar day (with the time the expression implies, if any) or an offset from now in ms
+type ResolveDate = (now: ZonedNow, match: RegExpExecArray) => { day: CalendarDay, time?: TimeOfDay } | { instant: number }
+
+// Calendar arithmetic on plain days, independent of any zone
+export function addDays(day: CalendarDay, days: number): CalendarDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days))
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+export function addMonths(day: CalendarDay, months: number): CalendarDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1 + months, 1))
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: Math.min(day.day, lastDay) }
+}
+
+export function compareDays(a: CalendarDay, b: CalendarDay): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day)
+}
+
+function isRealDay(day: CalendarDay): boolean {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day))
+  return date.getUTCMonth() === day.month - 1 && date.getUTCDate() === day.day
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function zonedNow(now: Date, timeZone: string): ZonedNow {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'long'
+  }).formatToParts(now)
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    weekday: WEEKDAYS.indexOf(part('weekday').toLowerCase())
+  }
+}
+
+// Offset of the zone from UTC at the given instant, in ms
+function zoneOffset(instant: number, timeZone: string): number {
+  const local = zonedNow(new Date(instant), timeZone)
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - Math.floor(instant / 60000) * 60000
+}
+
+// Wall-clock time in the zone to an instant; checked twice so days that change offset resolve correctly
+export function zonedToInstant(day: CalendarDay, time: TimeOfDay, timeZone: string): Date {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, time.hour, time.minute)
+  const guess = wallClock - zoneOffset(wallClock, timeZone)
+  return new Date(wallClock - zoneOffset(guess, timeZone))
+}
+
+function today(now: ZonedNow): CalendarDay {
+  return { year: now.year, month: now.month, day: now.day }
+}
+
+// Next occurrence of the weekday after today; "this" also accepts today
+function nextWeekday(now: ZonedNow, weekday: number, includeToday: boolean): CalendarDay {
+  const delta = (weekday - now.weekday + 7) % 7
+  return addDays(today(now), delta === 0 && !includeToday ? 7 : delta)
+}
+
+function partOfDay(part: string | undefined): TimeOfDay | undefined {
+  return part ? { hour: PART_OF_DAY_HOURS[part.toLowerCase()], minute: 0 } : undefined
+}
+
+function monthIndex(name: string): number {
+  const lower = name.toLowerCase().replace('.', '')
+  const index = MONTHS.indexOf(lower)
+  return index >= 0 ? index : MONTH_ABBREVIATIONS.indexOf(lower === 'sept' ? 'sep' : lower)
+}
+
+// Next time the day of the month comes round, from the first of `start` when given, else after today;
+// with a weekday, the next time that day also falls on it (within a few years, else ignoring the weekday)
+function upcomingDayOfMonth(now: ZonedNow, dayOfMonth: number, start?: CalendarDay, weekday?: number): CalendarDay {
+  let month = start ?? { year: now.year, month: now.month, day: 1 }
+  if (!start && dayOfMonth <= now.day) month = addMonths(month, 1)
+
+  let fallback: CalendarDay | null = null
+  for (let i = 0; i < 48; i++, month = addMonths(month, 1)) {
+    const candidate = { ...month, day: dayOfMonth }
+    if (!isRealDay(candidate)) continue
+    if (weekday === undefined || new Date(Date.UTC(candidate.year, candidate.month - 1, candidate.day)).getUTCDay() === weekday) {
+      return candidate
+    }
+    fallback = fallback ?? candidate
+  }
+  return fallback ?? today(now)
+}
+
+// A day and month without a year is the next one to come
+function upcomingDay(now: ZonedNow, month: number, dayOfMonth: number, year?: number): CalendarDay | null {
+  const candidate = { year: year ?? now.year, month, day: dayOfMonth }
+  if (!isRealDay(candidate)) return null
+  if (year === undefined && compareDays(candidate, today(now)) < 0) {
+    const nextYear = { ...candidate, year: now.year + 1 }
+    return isRealDay(nextYear) ? nextYear : null
+  }
+  return candidate
+}
+
+const DATE_PATTERNS: Array<{ pattern: RegExp, resolve: ResolveDate }> = [
+  {
+    pattern: new RegExp(`\\b(\\d{4})-(\\d{2})-(\\d{2})${END}`, 'i'),
+    resolve: (now, m) => {
+      const day = { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) }
+      return { day: isRealDay(day) ? day : today(now) }
+    }
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?${END}`, 'i'),
+    resolve: (now, m) => {
+      const day = upcomingDay(now, monthIndex(m[1]) + 1, Number(m[2]), m[3] ? Number(m[3]) : undefined)
+      return { day: day ?? today(now) }
+    }
+  },
+  {
+    pattern: new RegExp(`\\b(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?${END}`, 'i'),
+    resolve: (now, m) => {
+      const day = upcomingDay(now, monthIndex(m[2]) + 1, Number(m[1]), m[3] ? Number(m[3]) : undefined)
+      return { day: day ?? today(now) }
+    }
+  },
+  {
+    // "the 1st of the month", "the 1st of next month": a bare ordinal ("the 3rd floor") is no date
+    pattern: new RegExp(`\\bthe\\s+(\\d{1,2})(?:st|nd|rd|th)\\s+of\\s+(the|this|next)\\s+month${END}`, 'i'),
+    resolve: (now, m) => {
+      const start = m[2].toLowerCase() === 'next' ? addMonths({ ...today(now), day: 1 }, 1) : undefined
+      return { day: upcomingDayOfMonth(now, Number(m[1]), start) }
+    }
+  },
+  {
+    // "Friday the 13th": the next month where that day falls on that weekday
+    pattern: new RegExp(`\\b${WEEKDAY},?\\s+the\\s+(\\d{1,2})(?:st|nd|rd|th)${END}`, 'i'),
+    resolve: (now, m) => ({ day: upcomingDayOfMonth(now, Number(m[2]), undefined, WEEKDAYS.indexOf(m[1].toLowerCase())) })
+  },
+  {
+    pattern: new RegExp(`\\b(?:the\\s+)?day\\s+after\\s+tomorrow${PART_OF_DAY}${END}`, 'i'),
+    resolve: (now, m) => ({ day: addDays(today(now), 2), time: partOfDay(m[1]) })
+  },
+  {
+    pattern: new RegExp(`\\b(today|tonight|tomorrow|tmrw)${PART_OF_DAY}${END}`, 'i'),
+    resolve: (now, m) => {
+      const word = m[1].toLowerCase()
+      return {
+        day: word === 'today' || word === 'tonight' ? today(now) : addDays(today(now), 1),
+        time: partOfDay(m[2]) ?? (word === 'tonight' ? partOfDay('tonight') : undefined)
+      }
+    }
+  },
+  {
+    pattern: new RegExp(`\\bthis\\s+(morning|afternoon|evening)${END}`, 'i'),
+    resolve: (now, m) => ({ day: today(now), time: partOfDay(m[1]) })
+  },
+  {
+    pattern: new RegExp(`\\b(this|next)\\s+${WEEKDAY}${PART_OF_DAY}${END}`, 'i'),
+    resolve: (now, m) => ({
+      day: nextWeekday(now, WEEKDAYS.indexOf(m[2].toLowerCase()), m[1].toLowerCase() === 'this'),
+      time: partOfDay(m[3])
+    })
+  },
+  {
+    pattern: new RegExp(`\\b${WEEKDAY}${PART_OF_DAY}${END}`, 'i'),
+    resolve: (now, m) => ({ day: nextWeekday(now, WEEKDAYS.indexOf(m[1].toLowerCase()), false), time: partOfDay(m[2]) })
+  },
+  {
+    // Weeks start on Monday: "next week" is its Monday, the weekend is its Saturday
+    pattern: new RegExp(`\\b(?:(this|next)\\s+(week|weekend)|(?:the\\s+)?(weekend))${END}`, 'i'),
+    resolve: (now, m) => {
+      const monday = addDays(today(now), -((now.weekday + 6) % 7))
+      const week = m[1]?.toLowerCase() === 'next' ? addDays(monday, 7) : monday
+      if ((m[2] ?? m[3]).toLowerCase() === 'weekend') {
+        const saturday = addDays(week, 5)
+        return { day: compareDays(saturday, today(now)) < 0 ? today(now) : saturday }
+      }
+      return { day: m[1]?.toLowerCase() === 'next' ? week : today(now) }
+    }
+  },
+  {
+    pattern: new RegExp(`\\bnext\\s+month${END}`, 'i'),
+    resolve: (now) => ({ day: addMonths({ year: now.year, month: now.month, day: 1 }, 1) })
+  },
+  {
+    // Minutes and hours count from now; days and later keep to the calendar
+    pattern: new RegExp(`\\bin\\s+(\\d+|${Object.keys(NUMBER_WORDS).join('|')})\\s+(minute|hour|day|week|month)s?${END}`, 'i'),
+    resolve: (now, m) => {
+      const amount = NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1])
+      const unit = m[2].toLowerCase()
+      if (unit === 'minute' || unit === 'hour') {
+        return { instant: amount * (unit === 'minute' ? 60 : 3600) * 1000 }
+      }
+      return {
+        day: unit === 'month' ? addMonths(today(now), amount) : addDays(today(now), amount * (unit === 'week' ? 7 : 1))
+      }
+    }
+  }
+]
+
+const TIME_PATTERNS: Array<{ pattern: RegExp, resolve: (m: RegExpExecArray) => TimeOfDay | null }> = [
+  {
+    pattern: new RegExp(`\\b(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)(?!\\w)`, 'i'),
+    resolve: (m) => {
+      const hour = Number(m[1])
+      const minute = m[2] ? Number(m[2]) : 0
+      if (hour < 1 || hour > 12 || minute > 59) return null
+      const isPm = m[3].toLowerCase().startsWith('p')
+      return { hour: (hour % 12) + (isPm ? 12 : 0), minute }
+    }
+  },
+  {
+    // A 24-hour time needs "at": "chapter 3:16" or "ratio 2:30" is no time
+    pattern: new RegExp(`\\bat\\s+(\\d{1,2}):(\\d{2})${END}`, 'i'),
+    resolve: (m) => {
+      const hour = Number(m[1])
+      const minute = Number(m[2])
+      return hour > 23 || minute > 59 ? null : { hour, minute }
+    }
+  },
+  {
+    pattern: new RegExp(`\\b(?:at\\s+)?(noon|midday|midnight)${END}`, 'i'),
+    resolve: (m) => ({ hour: m[1].toLowerCase() === 'midnight' ? 0 : 12, minute: 0 })
+  }
+]
+
+// Earliest match of any pattern, the longest one when several start at the same place
+export function firstMatch<T extends { pattern: RegExp }>(text: string, patterns: T[]): { entry: T, match: RegExpExecArray } | null {
+  let best: { entry: T, match: RegExpExecArray } | null = null
+  for (const entry of patterns) {
+    const match = entry.pattern.exec(text)
+    if (!match) continue
+    if (!best || match.index < best.match.index ||
+        (match.index === best.match.index && match[0].length > best.match[0].length)) {
+      best = { entry, match }
+    }
+  }
+  return best
+}
+
+// Cut the matched spans and the connectors in front of them; leftover punctuation and "and" go too
+export function stripSpans(text: string, spans: Array<{ start: number, end: number }>): string {
+  let result = text
+  for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+    const before = result.slice(0, span.start).replace(LEADING_CONNECTORS, ' ')
+    result = `${before} ${result.slice(span.end)}`
+  }
+
+  return result
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s,;:\-–]+|[\s,;:\-–]+$/g, '')
+    .replace(/\s+(?:and|,)$/i, '')
+    .trim()
+}
+
+export function extractItemDate(content: string, context: DateContext): ItemDate {
+  const none: ItemDate = { content, dateText: null, dueAt: null, remindAt: null }
+  const timeZone = isValidTimeZone(context.timeZone) ? context.timeZone : DEFAULT_TIME_ZONE
+  const now = zonedNow(context.now, timeZone)
+
+  const dateMatch = firstMatch(content, DATE_PATTERNS)
+  const timeMatch = firstMatch(content, TIME_PATTERNS)
+  const time = timeMatch ? timeMatch.entry.resolve(timeMatch.match) : null
+  if (!dateMatch && !time) return none
+
+  const spans: Array<{ start: number, end: number }> = []
+  let at: Date
+
+  if (dateMatch) {
+    spans.push({ start: dateMatch.match.index, end: dateMatch.match.index + dateMatch.match[0].length })
+    const resolved = dateMatch.entry.resolve(now, dateMatch.match)
+
+    if ('instant' in resolved) {
+      at = new Date(context.now.getTime() + resolved.instant)
+    } else {
+      at = zonedToInstant(resolved.day, time ?? resolved.time ?? { hour: DEFAULT_HOUR, minute: 0 }, timeZone)
+    }
+  } else {
+    // A time on its own is today's, or tomorrow's once it has passed
+    const day = time!.hour * 60 + time!.minute > now.hour * 60 + now.minute ? today(now) : addDays(today(now), 1)
+    at = zonedToInstant(day, time!, timeZone)
+  }
+
+  if (timeMatch && time) {
+    const start = timeMatch.match.index
+    const end = start + timeMatch.match[0].length
+    if (!spans.some(span => start < span.end && end > span.start)) spans.push({ start, end })
+  }
+
+  const dateText = spans
+    .sort((a, b) => a.start - b.start)
+    .map(span => content.slice(span.start, span.end))
+    .join(' ')
+
+  // Keep the wording when the date is all there is to the item
+  const stripped = stripSpans(content, spans)
+  const isReminder = REMINDER_CUE.test(content)
+
+  return {
+    content: /[a-z]/i.test(stripped) ? stripped : content,
+    dateText,
+    dueAt: isReminder ? null : at,
+    remindAt: isReminder ? at : null
+  }
+}
+
+export function extractItemDates(contents: string[], context: DateContext): ItemDate[] {
+  return contents.map(content => extractItemDate(content, context))
+}
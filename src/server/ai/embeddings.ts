@@ -0,0 +1,101 @@
+import { createHash } from 'crypto'
+import { openAIService, OPENAI_MODEL_EMBEDDING } from './openai'
+import { aiService as hfService, HF_MODEL_EMBEDDING } from './huggingface'
+import { normalizeText } from '../textSimilarity'
+
+// Environment variable to select the embedding provider; 'local' needs no network or API key
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || 'local'
+
+export interface EmbeddingProvider {
+  name: string
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// Offline fallback: hashed word and character-trigram features. It captures shared wording
+// and spelling variants, not meaning, so results are closer to fuzzy keyword matching
+const LOCAL_EMBEDDING_DIMENSIONS = 256
+
+function hashFeature(feature: string): number {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function embedLocally(text: string): number[] {
+  const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0)
+  const words = normalizeText(text).split(' ').filter(word => word.length > 0)
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashFeature(feature)
+    const sign = hash & 0x80000000 ? -1 : 1 // Signed hashing keeps collisions from always adding up
+    vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += sign * weight
+  }
+
+  for (const word of words) {
+    addFeature(`w:${word}`, 1)
+    const padded = `^${word}$`
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`c:${padded.slice(i, i + 3)}`, 0.5)
+    }
+  }
+
+  return normalizeVector(vector)
+}
+
+const providers: { [name: string]: EmbeddingProvider } = {
+  local: {
+    name: 'local',
+    model: `hashing-${LOCAL_EMBEDDING_DIMENSIONS}`,
+    embed: async (texts) => texts.map(embedLocally)
+  },
+  openai: {
+    name: 'openai',
+    model: OPENAI_MODEL_EMBEDDING,
+    embed: (texts) => openAIService.generateEmbeddings(texts)
+  },
+  huggingface: {
+    name: 'huggingface',
+    model: HF_MODEL_EMBEDDING,
+    embed: (texts) => hfService.generateEmbeddings(texts)
+  }
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = providers[EMBEDDING_PROVIDER]
+  if (!provider) {
+    console.warn(`⚠️  Unknown EMBEDDING_PROVIDER "${EMBEDDING_PROVIDER}", using local embeddings`)
+    return providers.local
+  }
+  return provider
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length > 0 ? vector.map(value => value / length) : vector
+}
+
+// Cosine similarity; vectors of different sizes come from different models and never match
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+
+  let dot = 0
+  let lengthA = 0
+  let lengthB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    lengthA += a[i] * a[i]
+    lengthB += b[i] * b[i]
+  }
+
+  return lengthA > 0 && lengthB > 0 ? dot / Math.sqrt(lengthA * lengthB) : 0
+}
+
+// Fingerprint of the embedded text, to spot stale embeddings after edits
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text.trim()).digest('hex')
+}
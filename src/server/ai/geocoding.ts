@@ -0,0 +1,50 @@
+import type { PlaceDetails } from '../../shared/itemTypes'
+
+// Environment variable to select the geocoder; 'none' keeps capture offline and leaves places without coordinates
+const GEOCODING_PROVIDER = process.env.GEOCODING_PROVIDER || 'none'
+const NOMINATIM_URL = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org/search'
+const GEOCODING_TIMEOUT_MS = 5000
+
+export type Coordinates = {
+  lat: number
+  lng: number
+}
+
+export function isGeocodingEnabled(): boolean {
+  return GEOCODING_PROVIDER === 'nominatim'
+}
+
+// Best match for a place name or address, or null when nothing was found or the lookup failed.
+// Capture must not fail because of the geocoder, so errors are only logged
+export async function geocode(query: string): Promise<Coordinates | null> {
+  if (!isGeocodingEnabled() || !query.trim()) return null
+
+  try {
+    const url = `${NOMINATIM_URL}?${new URLSearchParams({ q: query, format: 'json', limit: '1' })}`
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'smart-notes/1.0' }, // Nominatim rejects requests without one
+      signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`)
+    }
+
+    const [match] = await response.json() as Array<{ lat: string, lon: string }>
+    if (!match) return null
+
+    const lat = Number(match.lat)
+    const lng = Number(match.lon)
+    return isFinite(lat) && isFinite(lng) ? { lat, lng } : null
+  } catch (error) {
+    console.error(`Geocoding "${query}" failed:`, error)
+    return null
+  }
+}
+
+// Fill in coordinates for a place that has none, from its address or else its name
+export async function locatePlace(place: PlaceDetails): Promise<PlaceDetails> {
+  if (place.lat !== null && place.lng !== null) return place
+
+  const coordinates = await geocode(place.address || place.name || '')
+  return coordinates ? { ...place, ...coordinates } : place
+}
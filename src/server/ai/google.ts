@@ -2,7 +2,7 @@ import { GoogleGenerativeAI } from '@google/generative-ai'
 
 // Environment variables
 const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY
-const GOOGLE_MODEL = process.env.GOOGLE_MODEL || 'gemini-1.5-flash'
+export const GOOGLE_MODEL = process.env.GOOGLE_MODEL || 'gemini-1.5-flash'
 
 // Initialize Google AI client
 let genAI: GoogleGenerativeAI | null = null
@@ -185,6 +185,8 @@ Rules:
 - Split into logical, meaningful segments
 - Each item should be complete and understandable on its own
 - Preserve the original meaning and context
+- Keep dates and times (like "next Tuesday at 3pm") in the item they belong to, worded as in the text
+- Keep quantities, stores, addresses, links and a recipe's ingredients with their item too (like "2 kg tomatoes from Lidl")
 - Return each item on a new line with no numbering or bullets
 - If the text is already a single coherent item, return it as is
 
@@ -2,9 +2,10 @@ import { HfInference } from '@huggingface/inference'
 
 // Environment variables
 const HF_API_KEY = process.env.HUGGINGFACE_API_KEY
-const HF_MODEL_NER = process.env.HF_MODEL_NER || 'dbmdz/bert-large-cased-finetuned-conll03-english'
+export const HF_MODEL_NER = process.env.HF_MODEL_NER || 'dbmdz/bert-large-cased-finetuned-conll03-english'
 const HF_MODEL_CLASSIFICATION = process.env.HF_MODEL_CLASSIFICATION || 'distilbert-base-uncased'
 const HF_MODEL_TEXT_GENERATION = process.env.HF_MODEL_TEXT_GENERATION || 'gpt2'
+export const HF_MODEL_EMBEDDING = process.env.HF_MODEL_EMBEDDING || 'sentence-transformers/all-MiniLM-L6-v2'
 
 // Initialize Hugging Face client
 const hf = new HfInference(HF_API_KEY)
@@ -169,6 +170,33 @@ export class HuggingFaceService {
     }
   }
 
+  // Feature Extraction - Sentence embeddings, one vector per input text
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    try {
+      if (!HF_API_KEY) {
+        throw new Error('HUGGINGFACE_API_KEY not configured')
+      }
+
+      return await Promise.all(texts.map(async (text) => {
+        const output = await this.client.featureExtraction({
+          model: HF_MODEL_EMBEDDING,
+          inputs: text
+        })
+
+        // Sentence-transformer models return a pooled vector; token-level models return one vector per token
+        const rows = output as number[] | number[][]
+        if (rows.length > 0 && Array.isArray(rows[0])) {
+          const tokens = rows as number[][]
+          return tokens[0].map((_, dim) => tokens.reduce((sum, token) => sum + token[dim], 0) / tokens.length)
+        }
+        return rows as number[]
+      }))
+    } catch (error) {
+      console.error('Embedding generation failed:', error)
+      throw new Error(`Embedding generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   // Suggest tags based on item content
   async suggestTags(itemContent: string, availableTags: string[]): Promise<string[]> {
     try {
@@ -391,17 +419,12 @@ export class HuggingFaceService {
     return cleanedItems
   }
 
-  // Classify the intent/category of a parsed item
-  async classifyItemIntent(itemText: string): Promise<{ category: string, confidence: number }> {
+  // Classify the intent/category of a parsed item against the user's tag category names
+  async classifyItemIntent(itemText: string, categories: string[]): Promise<{ category: string, confidence: number }> {
     try {
-      const categories = [
-        'shopping', 'groceries', 'errands',
-        'restaurants', 'entertainment', 'travel',
-        'work', 'health', 'fitness',
-        'cooking', 'recipes', 'meal-prep',
-        'social', 'family', 'friends',
-        'hobbies', 'learning', 'skills'
-      ]
+      if (categories.length === 0) {
+        return { category: 'general', confidence: 0.1 }
+      }
 
       if (HF_MODEL_CLASSIFICATION === 'distilbert-base-uncased') {
         // Use our DistilBERT text analysis approach
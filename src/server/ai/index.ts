@@ -1,6 +1,6 @@
-import { HuggingFaceService, aiService as hfService } from './huggingface'
-import { OpenAIService, openAIService } from './openai'
-import { GoogleAIService, googleAIService } from './google'
+import { HuggingFaceService, aiService as hfService, HF_MODEL_NER } from './huggingface'
+import { OpenAIService, openAIService, OPENAI_MODEL_CHAT } from './openai'
+import { GoogleAIService, googleAIService, GOOGLE_MODEL } from './google'
 
 // Environment variable to select AI provider
 const AI_PROVIDER = process.env.AI_PROVIDER || 'google'
@@ -45,6 +45,17 @@ export class UnifiedAIService {
     return this.provider
   }
 
+  // Get the model the current provider uses to parse notes
+  getParseModel(): string {
+    if (this.provider === 'openai') {
+      return OPENAI_MODEL_CHAT
+    } else if (this.provider === 'google') {
+      return GOOGLE_MODEL
+    } else {
+      return HF_MODEL_NER
+    }
+  }
+
   // Set provider dynamically
   setProvider(provider: 'huggingface' | 'openai' | 'google'): void {
     this.provider = provider
@@ -204,11 +215,11 @@ export class UnifiedAIService {
     }
   }
 
-  // Classify item intent using current provider
-  async classifyItemIntent(itemText: string): Promise<{ category: string, confidence: number }> {
+  // Classify item intent into one of the given tag categories using current provider
+  async classifyItemIntent(itemText: string, categories: string[]): Promise<{ category: string, confidence: number }> {
     try {
       // For now, only HuggingFace service has intent classification implementation
-      return await this.hfService.classifyItemIntent(itemText)
+      return await this.hfService.classifyItemIntent(itemText, categories)
     } catch (error) {
       console.error(`Intent classification failed:`, error)
       return { category: 'general', confidence: 0.1 }
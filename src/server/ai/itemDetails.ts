@@ -0,0 +1,230 @@
+import {
+  normalizeItemDetails,
+  type ItemType,
+  type ItemDetails,
+  type ShoppingDetails,
+  type PlaceDetails,
+  type RecipeDetails,
+  type TaskDetails,
+  type TaskPriority
+} from '../../shared/itemTypes'
+
+// Typed payloads for extracted items ("2 kg tomatoes from Lidl", "visit the Louvre", "carbonara recipe
+// with eggs, guanciale and pecorino"). Like dates, this runs on the item strings the providers return,
+// so it works the same for every provider. The item keeps its content; the fields are read from it
+
+export type ItemTypeHints = {
+  tags: string[]          // Names of the tags the item was given
+  category: string | null // Classified intent category
+  hasDate: boolean        // A due date or reminder was found in the item
+}
+
+// Seed tags and categories that say what kind of thing an item is
+const TYPE_TAGS: { [type in Exclude<ItemType, 'note'>]: string[] } = {
+  recipe: ['recipes'],
+  shopping: ['groceries', 'to-buy', 'ingredients'],
+  place: ['to-visit', 'restaurants', 'bucket-list'],
+  task: ['deadlines', 'meetings', 'goals', 'projects']
+}
+
+const TYPE_CATEGORIES: { [category: string]: ItemType } = {
+  shopping: 'shopping',
+  travel: 'place',
+  work: 'task'
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')]+/i
+const RECIPE_CUE = /\b(?:recipes?|ingredients?\s*:)/i
+const SHOPPING_VERB = /^(?:buy|get|pick\s+up|grab|order|restock)\b\s*(?:some\s+|more\s+)?/i
+const PLACE_VERB = /^(?:visit|go\s+to|check\s+out|try|see|explore)\b\s*(?:the\s+)?/i
+const TASK_VERB = /^(?:call|email|e-mail|text|finish|submit|send|pay|book|schedule|fix|renew|clean|write|prepare|file|cancel|return|review|update|reply|follow\s+up)\b/i
+const COORDINATES = /(-?\d{1,2}\.\d{3,})\s*,\s*(-?\d{1,3}\.\d{3,})/
+const MAPS_COORDINATES = /maps\.[^\s]*?[@=](-?\d{1,2}\.\d+),(-?\d{1,3}\.\d+)/i
+
+const HIGH_PRIORITY = /\b(?:urgent(?:ly)?|asap|high\s+priority|important|critical)\b|!{2,}/i
+const MEDIUM_PRIORITY = /\b(?:medium|normal)\s+priority\b/i
+const LOW_PRIORITY = /\b(?:low\s+priority|someday|whenever|no\s+rush|eventually)\b/i
+
+export function inferItemType(content: string, hints: ItemTypeHints): ItemType {
+  const tags = hints.tags.map(tag => tag.toLowerCase())
+  const tagged = (type: Exclude<ItemType, 'note'>) => TYPE_TAGS[type].some(tag => tags.includes(tag))
+
+  // Explicit wording beats tags: "buy ingredients for the lasagna recipe" is still shopping
+  if (SHOPPING_VERB.test(content) || MEASURED_QUANTITY.test(content)) return 'shopping'
+  if (RECIPE_CUE.test(content) || tagged('recipe')) return 'recipe'
+  if (MAPS_COORDINATES.test(content) || COORDINATES.test(content)) return 'place'
+  if (tagged('shopping')) return 'shopping'
+  if (PLACE_VERB.test(content) || tagged('place')) return 'place'
+
+  const categoryType = hints.category ? TYPE_CATEGORIES[hints.category.toLowerCase()] : undefined
+  if (categoryType) return categoryType
+
+  if (tagged('task') || hints.hasDate || TASK_VERB.test(content) || HIGH_PRIORITY.test(content) || LOW_PRIORITY.test(content)) {
+    return 'task'
+  }
+  return 'note'
+}
+
+// Units are stored in one spelling so quantities of the same thing can be added up
+const UNIT_ALIASES: { [alias: string]: string } = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  g: 'g', gr: 'g', gram: 'g', grams: 'g',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  pack: 'pack', packs: 'pack', packet: 'pack', packets: 'pack',
+  bottle: 'bottle', bottles: 'bottle',
+  can: 'can', cans: 'can', tin: 'can', tins: 'can',
+  box: 'box', boxes: 'box',
+  bag: 'bag', bags: 'bag',
+  jar: 'jar', jars: 'jar',
+  carton: 'carton', cartons: 'carton',
+  bunch: 'bunch', bunches: 'bunch',
+  loaf: 'loaf', loaves: 'loaf',
+  cup: 'cup', cups: 'cup',
+  tbsp: 'tbsp', tsp: 'tsp'
+}
+
+const QUANTITY_WORDS: { [word: string]: number } = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5
+}
+
+const UNIT = `(${Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length).join('|')})`
+const AMOUNT = `(\\d+(?:[.,]\\d+)?|half\\s+an?|${Object.keys(QUANTITY_WORDS).join('|')})`
+
+// "2 kg of tomatoes", "2kg tomatoes", "a dozen eggs", "3 eggs"
+const LEADING_QUANTITY = new RegExp(`^${AMOUNT}\\s*(?:(dozen)|${UNIT}\\.?)?(?=\\s)\\s*(?:of\\s+)?`, 'i')
+// An amount with a unit only makes sense for things to buy
+const MEASURED_QUANTITY = new RegExp(`^${AMOUNT}\\s*(?:dozen|${UNIT}\\.?)\\s+(?:of\\s+)?[a-z]`, 'i')
+// "tomatoes x3", "eggs (12)"
+const TRAILING_QUANTITY = /\s*(?:[x×]\s*(\d+)|\((\d+)\))$/i
+// "from Lidl", "at Trader Joe's"; stores are proper names, "at home" is not a store
+const STORE = /\s+(?:from|at)\s+(?:the\s+)?([A-Z][\w'&.-]*(?:\s+[A-Z][\w'&.-]*)*)$/
+
+function amountValue(amount: string): number {
+  if (/^half\s/i.test(amount)) return 0.5
+  const word = QUANTITY_WORDS[amount.toLowerCase()]
+  return word ?? Number(amount.replace(',', '.'))
+}
+
+function trimPunctuation(text: string): string {
+  return text.replace(/^[\s,;:-]+|[\s,;:.!-]+$/g, '')
+}
+
+export function extractShoppingDetails(content: string): ShoppingDetails {
+  let rest = trimPunctuation(content).replace(SHOPPING_VERB, '')
+  let store: string | null = null
+  let quantity: number | null = null
+  let unit: string | null = null
+
+  const storeMatch = STORE.exec(rest)
+  if (storeMatch) {
+    store = storeMatch[1]
+    rest = rest.slice(0, storeMatch.index)
+  }
+
+  const leading = LEADING_QUANTITY.exec(rest)
+  if (leading) {
+    quantity = amountValue(leading[1]) * (leading[2] ? 12 : 1)
+    unit = leading[3] ? UNIT_ALIASES[leading[3].toLowerCase()] : null
+    rest = rest.slice(leading[0].length)
+  } else {
+    const trailing = TRAILING_QUANTITY.exec(rest)
+    if (trailing) {
+      quantity = Number(trailing[1] || trailing[2])
+      rest = rest.slice(0, trailing.index)
+    }
+  }
+
+  return normalizeItemDetails('shopping', { name: trimPunctuation(rest), quantity, unit, store })
+}
+
+// "221B Baker Street, London", "12 Rue de Rivoli, Paris"
+const STREET_NAME = `(?:[A-Z][\\w.'-]*\\s+)+(?:St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Ln|Lane|Dr|Drive|Way|Pl|Place|Sq|Square)\\b\\.?`
+const CONTINENTAL_STREET_NAME = `(?:Rue|Via|Calle|Avenida|Avenue|Boulevard)(?:\\s+(?:de|du|des|del|della|di|la|le|[A-Z][\\w.'-]*))+`
+const STREET_ADDRESS = new RegExp(
+  `\\b\\d+[A-Za-z]?\\s+(?:${STREET_NAME}|${CONTINENTAL_STREET_NAME})(?:,\\s*[A-Z][\\w.'-]*(?:\\s+[A-Z][\\w.'-]*)*)?`
+)
+
+// locations are the names NER found in the item, most specific first
+export function extractPlaceDetails(content: string, locations: string[] = []): PlaceDetails {
+  const coordinates = MAPS_COORDINATES.exec(content) || COORDINATES.exec(content)
+  const address = STREET_ADDRESS.exec(content)?.[0] ?? null
+
+  let name: string | null = locations.find(location => location.trim().length > 1) ?? null
+  if (!name) {
+    // Without NER the item itself names the place once the verb and any address or link are gone
+    const stripped = trimPunctuation(
+      content
+        .replace(URL_PATTERN, '')
+        .replace(address ?? '', '')
+        .replace(COORDINATES, '')
+        .replace(PLACE_VERB, '')
+        .replace(/\s+(?:at|on|in|near)\s*$/i, '')
+    )
+    name = stripped || null
+  }
+
+  return normalizeItemDetails('place', {
+    name,
+    address,
+    lat: coordinates ? Number(coordinates[1]) : null,
+    lng: coordinates ? Number(coordinates[2]) : null
+  })
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(/\s*(?:,|;|\band\b|\+)\s*/i)
+    .map(trimPunctuation)
+    .filter(entry => entry.length > 0)
+}
+
+export function extractRecipeDetails(content: string): RecipeDetails {
+  const sourceUrl = URL_PATTERN.exec(content)?.[0] ?? null
+  const text = content.replace(URL_PATTERN, '')
+
+  // "ingredients: eggs, bacon; steps: fry, mix" or "carbonara with eggs, guanciale and pecorino"
+  const ingredientsText =
+    /\bingredients?\s*:\s*(.+?)(?=\b(?:steps?|method|directions)\s*:|$)/i.exec(text)?.[1] ??
+    /\b(?:with|using|needs?)\s+(.+?)(?=\b(?:then|steps?\s*:|method\s*:)|$)/i.exec(text)?.[1] ??
+    /\(([^)]+)\)/.exec(text)?.[1] ??
+    null
+  const stepsText = /\b(?:steps?|method|directions)\s*:\s*(.+)$/i.exec(text)?.[1] ?? null
+
+  const steps = stepsText
+    ? stepsText.split(/\s*(?:;|\bthen\b|\d+[.)]\s)\s*/i).map(trimPunctuation).filter(step => step.length > 0)
+    : []
+
+  return normalizeItemDetails('recipe', {
+    ingredients: ingredientsText ? splitList(ingredientsText) : [],
+    steps,
+    sourceUrl
+  })
+}
+
+export function extractTaskDetails(content: string): TaskDetails {
+  let priority: TaskPriority | null = null
+  if (HIGH_PRIORITY.test(content)) priority = 'high'
+  else if (LOW_PRIORITY.test(content)) priority = 'low'
+  else if (MEDIUM_PRIORITY.test(content)) priority = 'medium'
+
+  return { priority }
+}
+
+export function extractItemDetails(content: string, type: ItemType, locations: string[] = []): ItemDetails {
+  switch (type) {
+    case 'shopping':
+      return extractShoppingDetails(content)
+    case 'place':
+      return extractPlaceDetails(content, locations)
+    case 'recipe':
+      return extractRecipeDetails(content)
+    case 'task':
+      return extractTaskDetails(content)
+    default:
+      return {}
+  }
+}
@@ -0,0 +1,99 @@
+import { aiService } from './index'
+import { extractJson } from './recipes'
+import { productKey } from '../shoppingList'
+import { isRecord } from '../../shared/itemTypes'
+import { MEALS, isMealSlot, type MealSlot } from '../../shared/mealPlan'
+
+// "Fill my week": the provider gets the empty slots of the week, the user's dietary preferences and the recipes
+// they already saved, and answers with one meal per slot. Saved recipes are preferred so the plan reuses what
+// the user cooks; anything else comes with its ingredients so it can go on the shopping list
+
+export type MealPlanSlot = {
+  day: string // "2026-10-19"
+  meal: MealSlot
+}
+
+export type SuggestedMeal = MealPlanSlot & {
+  title: string
+  ingredients: string[]
+  recipeTitle: string | null // Saved recipe the meal reuses, as worded in the request
+}
+
+export type MealPlanRequest = {
+  slots: MealPlanSlot[]
+  preferences: string | null // "vegetarian, no mushrooms"
+  recipes: string[]          // Titles of the user's saved recipes and cooking items
+}
+
+const MAX_PROMPT_RECIPES = 30
+const MAX_INGREDIENTS = 30
+const MAX_TEXT_LENGTH = 200
+const RESPONSE_MAX_LENGTH = 3000
+
+const weekdayName = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })
+
+export function buildMealPlanPrompt(request: MealPlanRequest): string {
+  const recipes = request.recipes.slice(0, MAX_PROMPT_RECIPES)
+
+  return `Plan meals for the slots below. Vary the meals over the week and keep breakfasts simple.
+
+Slots to fill:
+${request.slots.map(slot => `- ${slot.day} (${weekdayName(slot.day)}) ${MEALS[slot.meal].label.toLowerCase()}`).join('\n')}
+
+Dietary preferences: ${request.preferences?.trim() || 'none'}
+${recipes.length > 0 ? `\nSaved recipes to reuse when they fit, worded exactly as here:\n${recipes.map(recipe => `- ${recipe}`).join('\n')}\n` : ''}
+Rules:
+- one meal per slot, only for the slots listed
+- "meal" is one of: breakfast, lunch, dinner
+- "recipe" is the saved recipe the meal uses, or null
+- "ingredients" lists what to buy for the meal, with quantities when useful (like "200 g rice"); skip salt, pepper and water
+
+Respond with JSON only, no other text:
+{"meals": [{"day": "YYYY-MM-DD", "meal": "dinner", "title": "...", "recipe": null, "ingredients": ["..."]}]}`
+}
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim().slice(0, MAX_TEXT_LENGTH)
+  return trimmed || null
+}
+
+// Meals of the answer that fill one of the requested slots, first answer per slot wins. Recipe names the
+// provider made up instead of picking from the list are dropped, the meal stays as a free-text meal
+export function parseMealPlanSuggestions(response: string, request: MealPlanRequest): SuggestedMeal[] {
+  const parsed = extractJson(response)
+  const meals: unknown[] = isRecord(parsed) && Array.isArray(parsed.meals) ? parsed.meals : []
+  const open = new Set(request.slots.map(slot => `${slot.day}|${slot.meal}`))
+  const recipes = new Map(request.recipes.map(recipe => [productKey(recipe), recipe]))
+
+  return meals.flatMap(meal => {
+    if (!isRecord(meal)) return []
+    const day = text(meal.day)
+    const slot = typeof meal.meal === 'string' ? meal.meal.toLowerCase() : null
+    const title = text(meal.title) ?? text(meal.recipe)
+    if (!day || !isMealSlot(slot) || !title || !open.has(`${day}|${slot}`)) return []
+    open.delete(`${day}|${slot}`)
+
+    const recipe = text(meal.recipe)
+    const ingredients = Array.isArray(meal.ingredients)
+      ? meal.ingredients.map(text).filter((entry): entry is string => entry !== null).slice(0, MAX_INGREDIENTS)
+      : []
+
+    return [{
+      day,
+      meal: slot,
+      title,
+      ingredients,
+      recipeTitle: recipe ? recipes.get(productKey(recipe)) ?? null : null
+    }]
+  })
+}
+
+// Empty when the provider is not configured or its answer could not be read
+export async function suggestWeekMeals(request: MealPlanRequest): Promise<SuggestedMeal[]> {
+  if (request.slots.length === 0) return []
+
+  const response = await aiService.generateText(buildMealPlanPrompt(request), RESPONSE_MAX_LENGTH)
+  return parseMealPlanSuggestions(response, request)
+}
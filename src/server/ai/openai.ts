@@ -2,8 +2,8 @@ import OpenAI from 'openai'
 
 // Environment variables
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-const OPENAI_MODEL_CHAT = process.env.OPENAI_MODEL_CHAT || 'gpt-3.5-turbo'
-const OPENAI_MODEL_EMBEDDING = process.env.OPENAI_MODEL_EMBEDDING || 'text-embedding-ada-002'
+export const OPENAI_MODEL_CHAT = process.env.OPENAI_MODEL_CHAT || 'gpt-3.5-turbo'
+export const OPENAI_MODEL_EMBEDDING = process.env.OPENAI_MODEL_EMBEDDING || 'text-embedding-ada-002'
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -138,6 +138,27 @@ Response (JSON only):`
     }
   }
 
+  // Embeddings - one vector per input text, in input order
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    try {
+      if (!OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY not configured')
+      }
+
+      const response = await this.client.embeddings.create({
+        model: OPENAI_MODEL_EMBEDDING,
+        input: texts
+      })
+
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(entry => entry.embedding)
+    } catch (error) {
+      console.error('OpenAI embedding generation failed:', error)
+      throw new Error(`OpenAI embedding generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   // Suggest tags based on item content
   async suggestTags(itemContent: string, availableTags: string[]): Promise<string[]> {
     try {
@@ -165,6 +186,8 @@ Response (JSON only):`
       const prompt = `Parse the following note and extract separate actionable items or tasks.
 Return a JSON array of strings, where each string is a distinct item or task.
 If the note contains only one item, return an array with that single item.
+Keep dates and times (like "next Tuesday at 3pm") in the item they belong to, worded as in the note.
+Keep quantities, stores, addresses, links and a recipe's ingredients with their item too (like "2 kg tomatoes from Lidl").
 
 Note: "${noteText}"
 
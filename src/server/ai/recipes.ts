@@ -0,0 +1,130 @@
+import { createHash } from 'crypto'
+import { aiService } from './index'
+import { productKey } from '../shoppingList'
+import { isRecord } from '../../shared/itemTypes'
+
+// Recipe suggestions: the user's open ingredients and groceries go to the configured provider, which answers
+// with recipes as JSON. The provider's view of what is used or missing is checked against the ingredients
+// that were sent, so a recipe never claims the user has something that is not on their list
+
+export type RecipeSuggestion = {
+  title: string
+  summary: string | null
+  usedIngredients: string[]    // From the user's list
+  missingIngredients: string[] // To buy before cooking
+  steps: string[]
+}
+
+export type RecipeRequest = {
+  ingredients: string[] // Product names, merged like on the shopping list
+  wishes: string[]      // Open items of the selected meal planning activity ("something vegetarian")
+}
+
+const MAX_RECIPES = 3
+const MAX_PROMPT_INGREDIENTS = 40
+const MAX_PROMPT_WISHES = 10
+const MAX_LIST_LENGTH = 30
+const MAX_TEXT_LENGTH = 300
+const RESPONSE_MAX_LENGTH = 2000
+
+// Ingredient sets that differ only in order, case or plurals share a cache entry
+export function ingredientSetKey(request: RecipeRequest): string {
+  const normalize = (entries: string[]) => Array.from(new Set(entries.map(productKey).filter(Boolean))).sort()
+  const payload = JSON.stringify({ ingredients: normalize(request.ingredients), wishes: normalize(request.wishes) })
+  return createHash('sha256').update(payload).digest('hex')
+}
+
+export function buildRecipePrompt(request: RecipeRequest): string {
+  const ingredients = request.ingredients.slice(0, MAX_PROMPT_INGREDIENTS)
+  const wishes = request.wishes.slice(0, MAX_PROMPT_WISHES)
+
+  return `Suggest up to ${MAX_RECIPES} recipes that use the ingredients below. Prefer recipes that use many of them and need few others.
+
+Ingredients on hand:
+${ingredients.map(ingredient => `- ${ingredient}`).join('\n')}
+${wishes.length > 0 ? `\nMeal plans and wishes to take into account:\n${wishes.map(wish => `- ${wish}`).join('\n')}\n` : ''}
+Rules:
+- usedIngredients only lists ingredients from the list above, worded as in the list
+- missingIngredients lists what else is needed, with quantities when useful (like "200 g guanciale"); skip salt, pepper and water
+- steps are short, one action each
+
+Respond with JSON only, no other text:
+{"recipes": [{"title": "...", "summary": "one sentence", "usedIngredients": ["..."], "missingIngredients": ["..."], "steps": ["..."]}]}`
+}
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim().replace(/^(?:[-•*]|\d+[.)])\s+/, '').slice(0, MAX_TEXT_LENGTH)
+  return trimmed || null
+}
+
+function textList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.map(text).filter((entry): entry is string => entry !== null).slice(0, MAX_LIST_LENGTH)
+}
+
+// Providers wrap JSON in code fences or add a sentence around it; take the outermost object
+export function extractJson(response: string): unknown {
+  const start = response.indexOf('{')
+  const end = response.lastIndexOf('}')
+  if (start === -1 || end <= start) return null
+
+  try {
+    return JSON.parse(response.slice(start, end + 1))
+  } catch {
+    return null
+  }
+}
+
+// Recipes from the provider's answer, with used ingredients limited to the ones that were sent and anything
+// else the recipe names moved to the missing ones. Malformed recipes are dropped
+export function parseRecipeSuggestions(response: string, ingredients: string[]): RecipeSuggestion[] {
+  return narrowRecipeSuggestions(extractJson(response), ingredients)
+}
+
+// Also reads cached suggestions, which are stored as a plain list
+export function narrowRecipeSuggestions(parsed: unknown, ingredients: string[]): RecipeSuggestion[] {
+  const recipes: unknown[] = isRecord(parsed) && Array.isArray(parsed.recipes) ? parsed.recipes : Array.isArray(parsed) ? parsed : []
+  const onHand = new Map(ingredients.map(ingredient => [productKey(ingredient), ingredient]))
+
+  const findOnHand = (entry: string) => {
+    const key = productKey(entry)
+    if (onHand.has(key)) return onHand.get(key)!
+    // "fresh tomatoes" uses "tomatoes", "200 g guanciale" uses "guanciale"
+    return Array.from(onHand.entries()).find(([candidate]) => ` ${key} `.includes(` ${candidate} `))?.[1] ?? null
+  }
+
+  return recipes.flatMap(recipe => {
+    if (!isRecord(recipe)) return []
+    const title = text(recipe.title)
+    const steps = textList(recipe.steps)
+    if (!title || steps.length === 0) return []
+
+    const used = new Set<string>()
+    const missing: string[] = []
+    for (const entry of [...textList(recipe.usedIngredients), ...textList(recipe.missingIngredients)]) {
+      const match = findOnHand(entry)
+      if (match) {
+        used.add(match)
+      } else if (!missing.some(other => productKey(other) === productKey(entry))) {
+        missing.push(entry)
+      }
+    }
+
+    return [{
+      title,
+      summary: text(recipe.summary),
+      usedIngredients: Array.from(used),
+      missingIngredients: missing,
+      steps
+    }]
+  }).slice(0, MAX_RECIPES)
+}
+
+// Empty when the provider is not configured or its answer could not be read
+export async function suggestRecipesFor(request: RecipeRequest): Promise<RecipeSuggestion[]> {
+  if (request.ingredients.length === 0) return []
+
+  const response = await aiService.generateText(buildRecipePrompt(request), RESPONSE_MAX_LENGTH)
+  return parseRecipeSuggestions(response, request.ingredients)
+}
@@ -0,0 +1,268 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from 'wasp/server'
+import { normalizeText, textSimilarity } from './textSimilarity'
+import { getEmbeddingProvider, cosineSimilarity } from './ai/embeddings'
+import { ensureItemEmbeddings } from './itemEmbeddings'
+
+// Duplicate detection for items: same normalized wording, close wording (typos, small rewordings)
+// or, through embeddings, the same meaning. Only active items count, so re-adding something
+// already completed ("buy tomatoes" again next week) is never flagged
+
+export type DuplicateReason = 'exact' | 'fuzzy' | 'semantic'
+
+export type DuplicateMatch = {
+  itemId: number
+  content: string
+  similarity: number
+  reason: DuplicateReason
+}
+
+export type DuplicateGroup = {
+  itemIds: number[]
+  similarity: number // Weakest link that joined the group
+  reason: DuplicateReason
+}
+
+// Wording at least this similar is the same item ("buy tomatoes" / "buy tomatos")
+const FUZZY_DUPLICATE_THRESHOLD = 0.85
+
+// Embedding similarity needed before differently worded items count as the same
+const SEMANTIC_DUPLICATE_THRESHOLD = 0.92
+
+// Existing items compared against; the batch scan is quadratic, so it looks at fewer
+const DUPLICATE_CANDIDATE_LIMIT = 1000
+const DUPLICATE_SCAN_LIMIT = 500
+
+type ComparableItem = {
+  id: number
+  content: string
+}
+
+function compareContents(
+  a: string,
+  b: string,
+  vectorA?: number[],
+  vectorB?: number[]
+): { similarity: number, reason: DuplicateReason } | null {
+  const normalizedA = normalizeText(a)
+  const normalizedB = normalizeText(b)
+  if (!normalizedA || !normalizedB) return null
+  if (normalizedA === normalizedB) return { similarity: 1, reason: 'exact' }
+
+  // Close wording needs roughly the same length, which skips most edit-distance work in batch scans
+  const lengthRatio = Math.min(normalizedA.length, normalizedB.length) / Math.max(normalizedA.length, normalizedB.length)
+  if (lengthRatio >= 0.5) {
+    const similarity = textSimilarity(a, b)
+    if (similarity >= FUZZY_DUPLICATE_THRESHOLD) return { similarity, reason: 'fuzzy' }
+  }
+
+  if (vectorA && vectorB) {
+    const similarity = cosineSimilarity(vectorA, vectorB)
+    if (similarity >= SEMANTIC_DUPLICATE_THRESHOLD) return { similarity, reason: 'semantic' }
+  }
+
+  return null
+}
+
+async function loadActiveItems(userId: number, limit: number): Promise<ComparableItem[]> {
+  return prisma.item.findMany({
+    // Planned meals repeat their recipe on purpose
+    where: { userId, isCompleted: false, mealPlanEntry: { is: null } },
+    select: { id: true, content: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  })
+}
+
+// Embeddings only sharpen detection, so a failing provider leaves text matching in place
+async function loadVectorsSafely(items: ComparableItem[]): Promise<Map<number, number[]>> {
+  try {
+    return await ensureItemEmbeddings(items)
+  } catch (error) {
+    console.error('Duplicate detection without embeddings:', error)
+    return new Map()
+  }
+}
+
+async function embedSafely(texts: string[]): Promise<Array<number[] | undefined>> {
+  try {
+    return await getEmbeddingProvider().embed(texts)
+  } catch (error) {
+    console.error('Duplicate detection without embeddings:', error)
+    return texts.map(() => undefined)
+  }
+}
+
+// Best existing match for each new content (null when it is new), in input order
+export async function findDuplicatesForContents(
+  userId: number,
+  contents: string[],
+  excludeItemIds: number[] = []
+): Promise<Array<DuplicateMatch | null>> {
+  if (contents.length === 0) return []
+
+  const excluded = new Set(excludeItemIds)
+  const candidates = (await loadActiveItems(userId, DUPLICATE_CANDIDATE_LIMIT)).filter(item => !excluded.has(item.id))
+  if (candidates.length === 0) return contents.map(() => null)
+
+  const [vectors, contentVectors] = await Promise.all([loadVectorsSafely(candidates), embedSafely(contents)])
+
+  return contents.map((content, index) => {
+    let best: DuplicateMatch | null = null
+    for (const candidate of candidates) {
+      const match = compareContents(content, candidate.content, contentVectors[index], vectors.get(candidate.id))
+      if (match && (!best || match.similarity > best.similarity)) {
+        best = { itemId: candidate.id, content: candidate.content, ...match }
+      }
+    }
+    return best
+  })
+}
+
+// Group the user's active items that look like the same thing, skipping pairs the user kept apart
+export async function findDuplicateGroups(userId: number): Promise<DuplicateGroup[]> {
+  const items = await loadActiveItems(userId, DUPLICATE_SCAN_LIMIT)
+  const [vectors, dismissals] = await Promise.all([
+    loadVectorsSafely(items),
+    prisma.duplicateDismissal.findMany({
+      where: { item: { userId } },
+      select: { itemId: true, otherItemId: true }
+    })
+  ])
+  const dismissedPairs = new Set(dismissals.map(dismissal => `${dismissal.itemId}:${dismissal.otherItemId}`))
+
+  // Union-find over item indexes, remembering the weakest link of every group
+  const parent = items.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+  const weakestLinks = new Map<number, { similarity: number, reason: DuplicateReason }>()
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const [lowId, highId] = items[i].id < items[j].id ? [items[i].id, items[j].id] : [items[j].id, items[i].id]
+      if (dismissedPairs.has(`${lowId}:${highId}`)) continue
+
+      const match = compareContents(items[i].content, items[j].content, vectors.get(items[i].id), vectors.get(items[j].id))
+      if (!match) continue
+
+      const rootI = find(i)
+      const rootJ = find(j)
+      if (rootI === rootJ) continue
+
+      const links = [weakestLinks.get(rootI), weakestLinks.get(rootJ), match]
+        .filter((link): link is { similarity: number, reason: DuplicateReason } => link !== undefined)
+      const weakest = links.reduce((lowest, link) => link.similarity < lowest.similarity ? link : lowest)
+
+      parent[rootJ] = rootI
+      weakestLinks.delete(rootJ)
+      weakestLinks.set(rootI, weakest)
+    }
+  }
+
+  const groups = new Map<number, number[]>()
+  items.forEach((item, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) || []), item.id])
+  })
+
+  return Array.from(groups.entries())
+    .filter(([, itemIds]) => itemIds.length > 1)
+    .map(([root, itemIds]) => ({ itemIds, ...weakestLinks.get(root)! }))
+    .sort((a, b) => b.similarity - a.similarity)
+}
+
+// Add tags to an item without going over the 3-tag cap; the item's own tags come first
+async function addItemTags(tx: Prisma.TransactionClient, itemId: number, tagIds: number[]): Promise<void> {
+  const existing = await tx.itemTag.findMany({
+    where: { itemId },
+    select: { tagId: true }
+  })
+  const existingTagIds = new Set(existing.map(itemTag => itemTag.tagId))
+  const additions = Array.from(new Set(tagIds))
+    .filter(tagId => !existingTagIds.has(tagId))
+    .slice(0, Math.max(0, 3 - existingTagIds.size))
+
+  for (const tagId of additions) {
+    await tx.itemTag.create({ data: { itemId, tagId } })
+  }
+}
+
+// Record extra source notes of an item, skipping its own note and notes already recorded
+async function addItemSources(tx: Prisma.TransactionClient, itemId: number, noteIds: number[]): Promise<void> {
+  const item = await tx.item.findUniqueOrThrow({
+    where: { id: itemId },
+    select: { noteId: true, sources: { select: { noteId: true } } }
+  })
+  const known = new Set<number>([
+    ...(item.noteId !== null ? [item.noteId] : []),
+    ...item.sources.map(source => source.noteId)
+  ])
+
+  for (const noteId of Array.from(new Set(noteIds))) {
+    if (known.has(noteId)) continue
+    await tx.itemSource.create({ data: { itemId, noteId } })
+  }
+}
+
+// Fold a freshly captured duplicate into the existing item instead of creating a new row
+export async function mergeCapturedIntoItem(tx: Prisma.TransactionClient, itemId: number, noteId: number | null, tagIds: number[]): Promise<void> {
+  await addItemTags(tx, itemId, tagIds)
+  if (noteId !== null) {
+    await addItemSources(tx, itemId, [noteId])
+  }
+}
+
+// Merge duplicates into the kept item: union of tags (3-tag cap, kept item's first), the earliest
+// createdAt, the highest relevance and every source note. The duplicates are deleted afterwards
+export async function mergeItemsInto(tx: Prisma.TransactionClient, keepItemId: number, duplicateItemIds: number[]): Promise<void> {
+  const keepItem = await tx.item.findUniqueOrThrow({ where: { id: keepItemId } })
+  const duplicates = await tx.item.findMany({
+    where: { id: { in: duplicateItemIds } },
+    include: {
+      tags: { select: { tagId: true } },
+      sources: { select: { noteId: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  await addItemTags(
+    tx,
+    keepItemId,
+    duplicates.flatMap(duplicate => duplicate.tags.map(itemTag => itemTag.tagId))
+  )
+  await addItemSources(
+    tx,
+    keepItemId,
+    duplicates.flatMap(duplicate => [
+      ...(duplicate.noteId !== null ? [duplicate.noteId] : []),
+      ...duplicate.sources.map(source => source.noteId)
+    ])
+  )
+
+  const allItems = [keepItem, ...duplicates]
+  await tx.item.update({
+    where: { id: keepItemId },
+    data: {
+      createdAt: new Date(Math.min(...allItems.map(item => new Date(item.createdAt).getTime()))),
+      relevance: Math.max(...allItems.map(item => item.relevance)),
+      activityId: keepItem.activityId ?? duplicates.find(duplicate => duplicate.activityId !== null)?.activityId ?? null
+    }
+  })
+
+  await tx.item.deleteMany({ where: { id: { in: duplicates.map(duplicate => duplicate.id) } } })
+}
+
+// Remember that two items are distinct, stored with the lower id first
+export async function dismissDuplicatePair(itemId: number, otherItemId: number): Promise<void> {
+  const [lowId, highId] = itemId < otherItemId ? [itemId, otherItemId] : [otherItemId, itemId]
+  await prisma.duplicateDismissal.upsert({
+    where: { itemId_otherItemId: { itemId: lowId, otherItemId: highId } },
+    create: { itemId: lowId, otherItemId: highId },
+    update: {}
+  })
+}
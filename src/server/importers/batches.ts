@@ -0,0 +1,94 @@
+import { prisma } from 'wasp/server'
+import { parseActivityRule } from '../activityRules'
+
+// Rolling back an import batch removes what it created: its items, then the notes, tags and activities
+// that nothing else uses any more. Items the user changed after the import are kept unless the user
+// confirmed them one by one, and their notes, tags and activities stay with them. Activities and tags
+// the user has set up since (rules, categories, edits) are kept as well
+
+export type EditableItem = {
+  content: string
+  extractedContent: string | null
+  tagsEditedAt: Date | null
+  updatedAt: Date
+}
+
+// Reworded, retagged or otherwise changed by hand since the batch created it. Importers backdate
+// createdAt to when the note was written, so the batch's own creation is the reference
+export function isEditedItem(item: EditableItem, importedAt: Date): boolean {
+  return (item.extractedContent !== null && item.content !== item.extractedContent) ||
+    item.tagsEditedAt !== null ||
+    item.updatedAt > importedAt
+}
+
+export type RollbackResult = {
+  deletedItemCount: number
+  deletedNoteCount: number
+  deletedTagCount: number
+  deletedActivityCount: number
+  keptItems: Array<{ id: number, content: string }> // Edited items left in place
+  keptTags: string[]                                 // Unused tags an activity rule still names
+  keptActivities: string[]                           // Unused activities the user has set up since
+}
+
+export async function rollbackBatch(batchId: number, confirmedItemIds: number[]): Promise<RollbackResult> {
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.importBatch.findUniqueOrThrow({ where: { id: batchId } })
+    const items = await tx.item.findMany({
+      where: { importBatchId: batchId },
+      select: { id: true, content: true, extractedContent: true, tagsEditedAt: true, updatedAt: true }
+    })
+    const confirmed = new Set(confirmedItemIds)
+    const kept = items.filter(item => isEditedItem(item, batch.createdAt) && !confirmed.has(item.id))
+    const keptIds = new Set(kept.map(item => item.id))
+
+    // ItemTag rows and the rest of the item's records go with it
+    const deletedItems = await tx.item.deleteMany({
+      where: { importBatchId: batchId, id: { notIn: Array.from(keptIds) } }
+    })
+
+    // Notes, tags and activities are only removed once nothing points at them, which also spares
+    // those the user has since used for items of their own
+    const deletedNotes = await tx.note.deleteMany({
+      where: { importBatchId: batchId, items: { none: {} } }
+    })
+    const rules = await tx.activityRule.findMany({
+      where: { OR: [{ userId: batch.userId }, { activity: { userId: batch.userId } }] }
+    })
+    const ruleTagIds = new Set(rules.map(parseActivityRule).flatMap(rule => [...rule.includeTagIds, ...rule.excludeTagIds]))
+    const unusedTags = await tx.tag.findMany({
+      where: { importBatchId: batchId, items: { none: {} } },
+      select: { id: true, name: true }
+    })
+    const keptTags = unusedTags.filter(tag => ruleTagIds.has(tag.id))
+    const deletedTags = await tx.tag.deleteMany({
+      where: { id: { in: unusedTags.filter(tag => !ruleTagIds.has(tag.id)).map(tag => tag.id) } }
+    })
+
+    const unusedActivities = await tx.activity.findMany({
+      where: { importBatchId: batchId, items: { none: {} } },
+      select: { id: true, name: true, updatedAt: true, _count: { select: { rules: true, tagCategories: true } } }
+    })
+    const isSetUp = (activity: typeof unusedActivities[number]) =>
+      activity._count.rules > 0 || activity._count.tagCategories > 0 || activity.updatedAt > batch.createdAt
+    const keptActivities = unusedActivities.filter(isSetUp)
+    const deletedActivities = await tx.activity.deleteMany({
+      where: { id: { in: unusedActivities.filter(activity => !isSetUp(activity)).map(activity => activity.id) } }
+    })
+
+    await tx.importBatch.update({
+      where: { id: batchId },
+      data: { rolledBackAt: new Date() }
+    })
+
+    return {
+      deletedItemCount: deletedItems.count,
+      deletedNoteCount: deletedNotes.count,
+      deletedTagCount: deletedTags.count,
+      deletedActivityCount: deletedActivities.count,
+      keptItems: kept.map(item => ({ id: item.id, content: item.content })),
+      keptTags: keptTags.map(tag => tag.name),
+      keptActivities: keptActivities.map(activity => activity.name)
+    }
+  })
+}
@@ -0,0 +1,129 @@
+import type { ImportFile, ImportedItem, ImportedNote } from './types'
+import { importedItem, extractHashtags, splitTags, isTruthy, isReadableDate, contentId } from './items'
+
+// CSV with a header row, one item per row. Columns are found by name, in any order and case:
+// content (required), tags, activity, completed, and the dates due, remind and created. Commas,
+// semicolons or tabs separate the cells, whichever the header uses most
+
+type Column = 'content' | 'tags' | 'activity' | 'completed' | 'due' | 'remind' | 'created'
+
+// Header names after lowercasing and dropping everything but letters
+const COLUMN_NAMES: { [column in Column]: string[] } = {
+  content: ['content', 'text', 'item', 'title', 'task', 'note', 'name'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  activity: ['activity', 'list', 'project'],
+  completed: ['completed', 'iscompleted', 'done', 'checked', 'status'],
+  due: ['due', 'dueat', 'duedate', 'deadline', 'date'],
+  remind: ['remind', 'remindat', 'reminder', 'reminddate'],
+  created: ['created', 'createdat', 'datecreated', 'createddate']
+}
+
+const DELIMITERS = [',', ';', '\t']
+
+function detectDelimiter(headerLine: string): string {
+  const counts = DELIMITERS.map(delimiter => headerLine.split(delimiter).length)
+  return DELIMITERS[counts.indexOf(Math.max(...counts))]
+}
+
+// RFC 4180: quoted cells may hold delimiters, line breaks and "" for a quote
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()))
+}
+
+function findColumns(header: string[]): Partial<{ [column in Column]: number }> {
+  const names = header.map(name => name.toLowerCase().replace(/[^a-z]/g, ''))
+  const columns: Partial<{ [column in Column]: number }> = {}
+  for (const column of Object.keys(COLUMN_NAMES) as Column[]) {
+    const index = names.findIndex(name => COLUMN_NAMES[column].includes(name))
+    if (index >= 0) columns[column] = index
+  }
+  return columns
+}
+
+export function parseCsvFile(file: ImportFile): { note: ImportedNote | null, errors: string[] } {
+  const text = file.content.replace(/^\uFEFF/, '')
+  const rows = parseCsvRows(text, detectDelimiter(text.split(/\r?\n/, 1)[0]))
+  if (rows.length === 0) return { note: null, errors: [] }
+
+  const columns = findColumns(rows[0])
+  if (columns.content === undefined) {
+    return { note: null, errors: [`${file.name}: no content column (name one of ${COLUMN_NAMES.content.join(', ')})`] }
+  }
+
+  const items: ImportedItem[] = []
+  const errors: string[] = []
+  const cell = (row: string[], column: Column) => {
+    const index = columns[column]
+    return index === undefined ? '' : (row[index] ?? '').trim()
+  }
+  const date = (row: string[], column: Column, line: number) => {
+    const value = cell(row, column)
+    if (!value) return null
+    if (isReadableDate(value)) return value
+    errors.push(`${file.name}, row ${line}: unreadable ${column} date "${value}"`)
+    return null
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2
+    const { text: content, tags } = extractHashtags(cell(row, 'content'))
+    if (!content) {
+      errors.push(`${file.name}, row ${line}: no content`)
+      return
+    }
+
+    items.push(importedItem(content, {
+      tags: Array.from(new Set([...splitTags(cell(row, 'tags')), ...tags])),
+      activity: cell(row, 'activity') || null,
+      isCompleted: isTruthy(cell(row, 'completed')),
+      dueAt: date(row, 'due', line),
+      remindAt: date(row, 'remind', line),
+      createdAt: date(row, 'created', line),
+      // A cell over several lines holds more than one thing
+      needsParsing: content.includes('\n')
+    }))
+  })
+
+  return {
+    note: items.length > 0
+      ? { externalId: contentId('csv', file.content), rawText: file.content, items, capturedAt: file.modifiedAt ?? null }
+      : null,
+    errors
+  }
+}
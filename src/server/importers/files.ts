@@ -0,0 +1,63 @@
+import type { ImportFile, ImportParseResult } from './types'
+import { parseMarkdownFile } from './markdown'
+import { parseCsvFile } from './csv'
+import { parseJsonFile } from './json'
+import { parseKeepExport } from './keep'
+
+// Loose files, read by extension: Markdown, plain text, CSV and JSON. Keep notes picked from a Takeout
+// export among them are recognized and read as Keep notes
+
+export const FILE_EXTENSIONS = ['.md', '.markdown', '.txt', '.csv', '.json']
+
+const KEEP_NOTE = /"(?:textContent|listContent)"\s*:[\s\S]*"createdTimestampUsec"|"createdTimestampUsec"[\s\S]*"(?:textContent|listContent)"\s*:/
+
+function extensionOf(name: string): string {
+  const match = /\.[^./\\]+$/.exec(name)
+  return match ? match[0].toLowerCase() : ''
+}
+
+export function parseFileExport(files: ImportFile[]): ImportParseResult {
+  const result: ImportParseResult = { notes: [], skipped: 0, errors: [] }
+  const keepFiles: ImportFile[] = []
+
+  for (const file of files) {
+    switch (extensionOf(file.name)) {
+      case '.md':
+      case '.markdown':
+      case '.txt': {
+        const note = parseMarkdownFile(file, { headings: extensionOf(file.name) !== '.txt' })
+        if (note) result.notes.push(note)
+        else result.skipped++
+        break
+      }
+      case '.csv': {
+        const { note, errors } = parseCsvFile(file)
+        if (note) result.notes.push(note)
+        result.errors.push(...errors)
+        break
+      }
+      case '.json': {
+        if (KEEP_NOTE.test(file.content)) {
+          keepFiles.push(file)
+          break
+        }
+        const parsed = parseJsonFile(file)
+        result.notes.push(...parsed.notes)
+        result.skipped += parsed.skipped
+        result.errors.push(...parsed.errors)
+        break
+      }
+      default:
+        result.errors.push(`${file.name}: not a Markdown, text, CSV or JSON file`)
+    }
+  }
+
+  if (keepFiles.length > 0) {
+    const keep = parseKeepExport(keepFiles)
+    result.notes.push(...keep.notes)
+    result.skipped += keep.skipped
+    result.errors.push(...keep.errors)
+  }
+
+  return result
+}
@@ -0,0 +1,96 @@
+import { createHash } from 'crypto'
+import { zonedToInstant, DEFAULT_HOUR } from '../ai/dateExtraction'
+import type { ImportedItem } from './types'
+
+// Building blocks shared by the importers: item defaults, hashtags, tag and activity names, dates, and
+// the rule for when free text is left to the AI provider
+
+// A line this short is taken as one item as it is; anything longer, or several lines, is split by the provider
+const MAX_PLAIN_ITEM_LENGTH = 120
+
+// "#groceries", "#to-buy", "#projects/garden"; not "#1" or the "# " of a heading
+const HASHTAG = /(^|\s)#([\p{L}_][\p{L}\p{N}_/-]*|\p{N}+[\p{L}_][\p{L}\p{N}_/-]*)/gu
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/
+
+export function importedItem(content: string, fields: Partial<Omit<ImportedItem, 'content'>> = {}): ImportedItem {
+  return {
+    content,
+    isCompleted: false,
+    tags: [],
+    activity: null,
+    dueAt: null,
+    remindAt: null,
+    createdAt: null,
+    needsParsing: false,
+    ...fields
+  }
+}
+
+// "Shopping List" is the tag "shopping-list"
+export function labelToTagName(label: string): string {
+  return label.trim().replace(/^#/, '').toLowerCase().replace(/\s+/g, '-')
+}
+
+// Activities are matched by name regardless of case
+export function activityKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+// Hashtags of the text, and the text without them
+export function extractHashtags(text: string): { text: string, tags: string[] } {
+  const tags: string[] = []
+  const stripped = text.replace(HASHTAG, (_match, space: string, tag: string) => {
+    tags.push(tag)
+    return space
+  })
+  return { text: stripped.replace(/[ \t]{2,}/g, ' ').replace(/[ \t]+$/gm, '').trim(), tags }
+}
+
+// Free text is left to the provider unless it is one short line
+export function isAmbiguousText(text: string): boolean {
+  const trimmed = text.trim()
+  return trimmed.includes('\n') || trimmed.length > MAX_PLAIN_ITEM_LENGTH
+}
+
+export function textItem(text: string, fields: Partial<Omit<ImportedItem, 'content' | 'needsParsing'>> = {}): ImportedItem {
+  return importedItem(text.trim(), { ...fields, needsParsing: isAmbiguousText(text) })
+}
+
+// "yes", "x", "done"... in a completed column or field
+export function isTruthy(value: unknown): boolean {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+  return typeof value === 'string' && /^(?:true|yes|y|1|x|done|completed|checked|✓|✔)$/i.test(value.trim())
+}
+
+// Tag lists as written in a cell or field: "home, garden", "home; garden" or "#home #garden"
+export function splitTags(value: string): string[] {
+  const tokens = value.trim().split(/\s+/)
+  const parts = tokens.every(token => token.startsWith('#')) ? tokens : value.split(/[,;|]/)
+  return parts.map(part => part.trim().replace(/^#/, '')).filter(Boolean)
+}
+
+// Whether the worker will be able to read the date; checked while parsing so bad values are reported early
+export function isReadableDate(value: string): boolean {
+  return LOCAL_DATE_TIME.test(value.trim()) || !isNaN(Date.parse(value))
+}
+
+// Dates and date-times without a zone are the user's wall-clock time, a date alone the start of the working day
+export function resolveImportedDate(value: string | null, timeZone: string): Date | null {
+  if (!value) return null
+  const match = LOCAL_DATE_TIME.exec(value.trim())
+  if (match) {
+    const [year, month, day] = match.slice(1, 4).map(Number)
+    const time = match[4] ? { hour: Number(match[4]), minute: Number(match[5]) } : { hour: DEFAULT_HOUR, minute: 0 }
+    return zonedToInstant({ year, month, day }, time, timeZone)
+  }
+
+  const parsed = Date.parse(value)
+  return isNaN(parsed) ? null : new Date(parsed)
+}
+
+// Content-derived external ids: the same file imported again is recognized and skipped
+export function contentId(prefix: string, content: string): string {
+  return `${prefix}:${createHash('sha256').update(content).digest('hex').slice(0, 32)}`
+}
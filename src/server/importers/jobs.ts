@@ -0,0 +1,398 @@
+import { prisma } from 'wasp/server'
+import { Prisma } from '@prisma/client'
+import type { ServerSetupFn } from 'wasp/server'
+import { aiService } from '../ai/index'
+import { inferItemType, extractItemDetails } from '../ai/itemDetails'
+import { extractItemDate, isValidTimeZone, DEFAULT_TIME_ZONE } from '../ai/dateExtraction'
+import { serializeItemDetails } from '../../shared/itemTypes'
+import { parseKeepExport } from './keep'
+import { parseFileExport } from './files'
+import { labelToTagName, activityKey, resolveImportedDate } from './items'
+import type { ImportFile, ImportedItem, ImportedNote, ImportParseResult } from './types'
+
+// Import jobs: the files of an export are parsed as they are uploaded, and the notes found wait in
+// ImportJob.payload while the user looks at the preview. Once confirmed, the worker saves them in
+// batches, updating the job's counters so the import page can show progress. Like reminders, the
+// worker runs from the server setup because Wasp jobs need PostgreSQL. Notes keep the id they had in
+// the source, and a note already imported under that id is skipped, so importing the same export
+// again only adds what is new. Everything a job creates is linked to its ImportBatch
+
+export type ImportSource = 'keep' | 'files'
+
+export const IMPORT_SOURCES: ImportSource[] = ['keep', 'files']
+
+export type ImportJobStatus = 'uploading' | 'pending' | 'running' | 'completed' | 'failed'
+
+const DEFAULT_WORKER_INTERVAL_MS = 5 * 1000
+
+// Notes saved per round of the worker; each note is its own transaction
+const BATCH_SIZE = 25
+
+const MAX_ERRORS = 50
+
+// Labels without a matching tag become tags in this category of the user's. The category is shared by
+// all imports, so it is not part of any batch
+const IMPORTED_CATEGORY = { name: 'imported', description: 'Labels brought in from imported notes', icon: '📥' }
+
+const MAX_ITEM_TAGS = 3
+
+// Same offset as activities created by hand, after the default ones
+const USER_ACTIVITY_SORT_BASE = 100
+
+export function isImportSource(value: unknown): value is ImportSource {
+  return typeof value === 'string' && (IMPORT_SOURCES as string[]).includes(value)
+}
+
+export function parseImportFiles(source: ImportSource, files: ImportFile[]): ImportParseResult {
+  switch (source) {
+    case 'keep':
+      return parseKeepExport(files)
+    case 'files':
+      return parseFileExport(files)
+  }
+}
+
+export function parseJsonArray<T>(json: string | null): T[] {
+  if (!json) return []
+  try {
+    const parsed = JSON.parse(json)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export function appendErrors(json: string | null, errors: string[]): string | null {
+  const all = [...parseJsonArray<string>(json), ...errors].slice(0, MAX_ERRORS)
+  return all.length > 0 ? JSON.stringify(all) : null
+}
+
+type ResolvedTag = { id: number, name: string, activityId: number | null }
+
+// What one round of the worker knows about the job's user. Tags and activities are looked up once per
+// round, however many notes name them, and created on first use as part of the batch
+type ImportRound = {
+  userId: number
+  batchId: number
+  importedAt: Date // The batch's creation, stamped as the last update of what it creates so later edits stand out
+  timeZone: string
+  resolveTag: (label: string) => Promise<ResolvedTag | null>
+  resolveActivity: (name: string) => Promise<number>
+}
+
+function createRound(userId: number, batchId: number, importedAt: Date, timeZone: string): ImportRound {
+  const tags = new Map<string, ResolvedTag>()
+  let categoryId: number | null = null
+  let activities: Map<string, number> | null = null
+
+  const importedCategoryId = async (): Promise<number> => {
+    if (categoryId !== null) return categoryId
+    const category = await prisma.tagCategory.upsert({
+      where: { name_userId: { name: IMPORTED_CATEGORY.name, userId } },
+      update: {},
+      create: { ...IMPORTED_CATEGORY, userId }
+    })
+    categoryId = category.id
+    return categoryId
+  }
+
+  const resolveTag = async (label: string): Promise<ResolvedTag | null> => {
+    const name = labelToTagName(label)
+    if (!name) return null
+    const cached = tags.get(name)
+    if (cached) return cached
+
+    // The user's own tag wins over a global one of the same name
+    const existing = await prisma.tag.findFirst({
+      where: { name, OR: [{ userId }, { userId: null }] },
+      orderBy: { userId: 'desc' },
+      include: { category: true }
+    })
+    const tag = existing
+      ? { id: existing.id, name, activityId: existing.category.activityId }
+      : {
+          id: (await prisma.tag.create({ data: { name, categoryId: await importedCategoryId(), userId, importBatchId: batchId } })).id,
+          name,
+          activityId: null
+        }
+
+    tags.set(name, tag)
+    return tag
+  }
+
+  const resolveActivity = async (name: string): Promise<number> => {
+    if (!activities) {
+      const visible = await prisma.activity.findMany({
+        where: { OR: [{ isDefault: true }, { userId }] },
+        select: { id: true, name: true, userId: true },
+        orderBy: { userId: 'asc' }
+      })
+      // The user's own activity wins over a default one of the same name
+      activities = new Map(visible.map(activity => [activityKey(activity.name), activity.id]))
+    }
+    const key = activityKey(name)
+    const existing = activities.get(key)
+    if (existing !== undefined) return existing
+
+    const lastActivity = await prisma.activity.findFirst({
+      where: { userId },
+      orderBy: { sortOrder: 'desc' }
+    })
+    const created = await prisma.activity.create({
+      data: {
+        name: name.trim().replace(/\s+/g, ' '),
+        sortOrder: lastActivity ? lastActivity.sortOrder + 1 : USER_ACTIVITY_SORT_BASE,
+        userId,
+        importBatchId: batchId,
+        updatedAt: importedAt
+      }
+    })
+    activities.set(key, created.id)
+    return created.id
+  }
+
+  return { userId, batchId, importedAt, timeZone, resolveTag, resolveActivity }
+}
+
+type ItemToSave = Omit<ImportedItem, 'dueAt' | 'remindAt' | 'createdAt' | 'needsParsing'> & {
+  dueAt: Date | null
+  remindAt: Date | null
+  createdAt: Date
+}
+
+// Free text is split by the AI provider like a captured note, and dates in the resulting items are read
+// relative to when the text was written. Without an answer the passage stays one item
+async function splitPassage(item: ImportedItem, capturedAt: Date, timeZone: string): Promise<{ items: ItemToSave[], parsed: boolean }> {
+  let contents: string[] = []
+  try {
+    contents = (await aiService.parseNote(item.content)).map(content => content.trim()).filter(Boolean)
+  } catch (error) {
+    console.error('Import could not parse a passage, keeping it as one item:', error)
+  }
+  const parsed = contents.length > 0
+
+  return {
+    parsed,
+    items: (parsed ? contents : [item.content]).map(content => {
+      const dated = extractItemDate(content, { now: capturedAt, timeZone })
+      return { ...item, content: dated.content, dueAt: dated.dueAt, remindAt: dated.remindAt, createdAt: capturedAt }
+    })
+  }
+}
+
+// Every id the note may have been imported under
+export function importedNoteIds(note: ImportedNote): string[] {
+  return [note.externalId, note.externalAlias].filter((id): id is string => !!id)
+}
+
+// Saves one note and its items unless it was imported before. Returns the number of items created,
+// or null when the note was skipped
+async function importNote(note: ImportedNote, round: ImportRound): Promise<number | null> {
+  const { userId, timeZone } = round
+  const ids = importedNoteIds(note)
+  if (ids.length > 0) {
+    const existing = await prisma.note.findFirst({
+      where: { userId, OR: [{ externalId: { in: ids } }, { externalAlias: { in: ids } }] },
+      select: { id: true }
+    })
+    if (existing) return null
+  }
+
+  const capturedAt = resolveImportedDate(note.capturedAt, timeZone) ?? new Date()
+  const toSave: ItemToSave[] = []
+  let parsedWithProvider = false
+  for (const item of note.items) {
+    if (item.needsParsing) {
+      const passage = await splitPassage(item, capturedAt, timeZone)
+      toSave.push(...passage.items)
+      parsedWithProvider = parsedWithProvider || passage.parsed
+      continue
+    }
+    toSave.push({
+      ...item,
+      dueAt: resolveImportedDate(item.dueAt, timeZone),
+      remindAt: resolveImportedDate(item.remindAt, timeZone),
+      createdAt: resolveImportedDate(item.createdAt, timeZone) ?? capturedAt
+    })
+  }
+
+  // Names are resolved one after another: the items of a note share them, and a missing one is created once
+  const tags: ResolvedTag[] = []
+  for (const label of Array.from(new Set(toSave.flatMap(item => item.tags)))) {
+    const tag = await round.resolveTag(label)
+    if (tag && !tags.some(other => other.id === tag.id)) tags.push(tag)
+  }
+  const activityIds = new Map<string, number>()
+  for (const name of Array.from(new Set(toSave.map(item => item.activity).filter((name): name is string => !!name?.trim())))) {
+    activityIds.set(name, await round.resolveActivity(name))
+  }
+
+  const items = toSave.map(item => {
+    const itemTags = tags.filter(tag => item.tags.some(label => labelToTagName(label) === tag.name)).slice(0, MAX_ITEM_TAGS)
+    const type = inferItemType(item.content, {
+      tags: itemTags.map(tag => tag.name),
+      category: null,
+      hasDate: !!(item.dueAt || item.remindAt)
+    })
+    return {
+      ...item,
+      tagIds: itemTags.map(tag => tag.id),
+      // A named activity wins; otherwise items follow their tags into an activity when a tag's category points at one
+      activityId: (item.activity ? activityIds.get(item.activity) : undefined)
+        ?? itemTags.find(tag => tag.activityId !== null)?.activityId
+        ?? null,
+      type,
+      details: serializeItemDetails(type, extractItemDetails(item.content, type))
+    }
+  })
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const created = await tx.note.create({
+        data: {
+          rawText: note.rawText,
+          source: 'import',
+          parseStatus: 'parsed',
+          provider: parsedWithProvider ? aiService.getProvider() : null,
+          parseModel: parsedWithProvider ? aiService.getParseModel() : null,
+          capturedAt,
+          externalId: note.externalId,
+          externalAlias: note.externalAlias ?? null,
+          importBatchId: round.batchId,
+          userId
+        }
+      })
+
+      for (const item of items) {
+        await tx.item.create({
+          data: {
+            content: item.content,
+            extractedContent: item.content,
+            type: item.type,
+            details: item.details,
+            isCompleted: item.isCompleted,
+            dueAt: item.dueAt,
+            remindAt: item.remindAt,
+            noteId: created.id,
+            activityId: item.activityId,
+            importBatchId: round.batchId,
+            userId,
+            createdAt: item.createdAt,
+            updatedAt: round.importedAt,
+            tags: {
+              create: item.tagIds.map(tagId => ({ tagId }))
+            }
+          }
+        })
+      }
+    })
+  } catch (error) {
+    // Imported by a job running at the same time
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null
+    throw error
+  }
+
+  return items.length
+}
+
+async function failJob(jobId: number, errors: string | null, message: string) {
+  await prisma.importJob.update({
+    where: { id: jobId },
+    data: { status: 'failed', errors: appendErrors(errors, [message]), payload: null, finishedAt: new Date() }
+  })
+}
+
+function batchLabel(label: string | null, fileCount: number): string | null {
+  if (!label) return null
+  return fileCount > 1 ? `${label} and ${fileCount - 1} more file${fileCount === 2 ? '' : 's'}` : label
+}
+
+// Saves the next batch of notes of the oldest waiting job. A job left running by a restart is picked up
+// where its counters stopped. Returns how many notes were handled
+export async function processImportJobs(): Promise<number> {
+  const job = await prisma.importJob.findFirst({
+    where: { status: { in: ['pending', 'running'] } },
+    orderBy: { createdAt: 'asc' },
+    include: { user: { select: { timezone: true } } }
+  })
+  if (!job) return 0
+
+  if (!isImportSource(job.source)) {
+    await failJob(job.id, job.errors, `Unknown import source "${job.source}"`)
+    return 0
+  }
+
+  let importBatch = job.batchId === null ? null : await prisma.importBatch.findUnique({ where: { id: job.batchId } })
+  if (!importBatch) {
+    importBatch = await prisma.importBatch.create({
+      data: { source: job.source, label: batchLabel(job.label, job.fileCount), userId: job.userId }
+    })
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: { status: 'running', startedAt: job.startedAt ?? new Date(), batchId: importBatch.id }
+    })
+  }
+
+  const timeZone = job.user.timezone && isValidTimeZone(job.user.timezone) ? job.user.timezone : DEFAULT_TIME_ZONE
+  const round = createRound(job.userId, importBatch.id, importBatch.createdAt, timeZone)
+  const notes = parseJsonArray<ImportedNote>(job.payload)
+  const batch = notes.slice(job.processed, job.processed + BATCH_SIZE)
+  let noteCount = 0
+  let itemCount = 0
+  let skippedCount = 0
+  const errors: string[] = []
+
+  for (const note of batch) {
+    try {
+      const created = await importNote(note, round)
+      if (created === null) {
+        skippedCount++
+      } else {
+        noteCount++
+        itemCount += created
+      }
+    } catch (error) {
+      console.error(`Import job ${job.id} failed on note ${note.externalId ?? '(no id)'}:`, error)
+      errors.push(`${note.externalId ?? note.rawText.slice(0, 40)}: could not be saved`)
+    }
+  }
+
+  const processed = job.processed + batch.length
+  const isDone = processed >= notes.length
+  await prisma.importJob.update({
+    where: { id: job.id },
+    data: {
+      processed,
+      noteCount: { increment: noteCount },
+      itemCount: { increment: itemCount },
+      skippedCount: { increment: skippedCount },
+      errors: appendErrors(job.errors, errors),
+      ...(isDone ? { status: 'completed', payload: null, finishedAt: new Date() } : {})
+    }
+  })
+
+  return batch.length
+}
+
+export const setupImportWorker: ServerSetupFn = async () => {
+  const intervalMs = Number(process.env.IMPORT_WORKER_INTERVAL_MS) || DEFAULT_WORKER_INTERVAL_MS
+  let isWorking = false
+
+  const work = async () => {
+    if (isWorking) return
+    isWorking = true
+    try {
+      // Batches follow each other while there is work, yielding in between so requests are served
+      while (await processImportJobs() > 0) {
+        await new Promise(resolve => setImmediate(resolve))
+      }
+    } catch (error) {
+      console.error('Import worker failed:', error)
+    } finally {
+      isWorking = false
+    }
+  }
+
+  setInterval(work, intervalMs)
+  void work()
+}
@@ -0,0 +1,127 @@
+import type { ImportFile, ImportedItem, ImportedNote, ImportParseResult } from './types'
+import { importedItem, isAmbiguousText, extractHashtags, splitTags, isTruthy, isReadableDate, contentId } from './items'
+import { isRecord } from '../../shared/itemTypes'
+
+// JSON exports of other apps, read loosely: a list of items, an object with "items", or an object with
+// "notes" whose entries hold their own "items". An item is a string or an object with the content under
+// content, text or title, plus any of tags, activity, completed and the dates. Free text goes to the AI
+// provider unless it is one short line
+
+type Fields = Pick<ImportedItem, 'tags' | 'activity'>
+
+type Entry = { [field: string]: unknown }
+
+const CONTENT_FIELDS = ['content', 'text', 'title', 'name', 'body']
+const COMPLETED_FIELDS = ['completed', 'isCompleted', 'done', 'checked', 'isChecked']
+const DATE_FIELDS = {
+  dueAt: ['dueAt', 'due', 'dueDate', 'deadline'],
+  remindAt: ['remindAt', 'remind', 'reminder'],
+  createdAt: ['createdAt', 'created', 'date']
+}
+
+function firstField(entry: Entry, names: string[]): unknown {
+  const name = names.find(field => entry[field] !== undefined && entry[field] !== null)
+  return name ? entry[name] : undefined
+}
+
+function stringField(entry: Entry, names: string[]): string | null {
+  const value = firstField(entry, names)
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function tagsField(entry: Entry): string[] {
+  const value = firstField(entry, ['tags', 'labels'])
+  if (typeof value === 'string') return splitTags(value)
+  if (!Array.isArray(value)) return []
+  return value
+    .map(tag => typeof tag === 'string' ? tag : isRecord(tag) && typeof tag.name === 'string' ? tag.name : '')
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(Boolean)
+}
+
+export function parseJsonFile(file: ImportFile): ImportParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(file.content)
+  } catch {
+    return { notes: [], skipped: 0, errors: [`${file.name}: not valid JSON`] }
+  }
+
+  const errors: string[] = []
+  let skipped = 0
+
+  // A content field is one item however long, only text over several lines needs splitting; plain strings
+  // and the text of notes are read as free text
+  const toItem = (entry: unknown, inherited: Fields, label: string, isFreeText = typeof entry === 'string'): ImportedItem | null => {
+    const fields: Entry = typeof entry === 'string' ? { content: entry } : isRecord(entry) ? entry : {}
+    const { text, tags } = extractHashtags(stringField(fields, CONTENT_FIELDS) ?? '')
+    if (!text) {
+      skipped++
+      return null
+    }
+
+    const date = (field: keyof typeof DATE_FIELDS) => {
+      const value = firstField(fields, DATE_FIELDS[field])
+      if (value === undefined) return null
+      // Epoch milliseconds, as some apps write them
+      if (typeof value === 'number' && isFinite(value)) return new Date(value).toISOString()
+      if (typeof value === 'string' && isReadableDate(value)) return value
+      errors.push(`${file.name}, ${label}: unreadable ${field} "${value}"`)
+      return null
+    }
+
+    return importedItem(text, {
+      tags: Array.from(new Set([...inherited.tags, ...tagsField(fields), ...tags])),
+      activity: stringField(fields, ['activity', 'list', 'project']) ?? inherited.activity,
+      isCompleted: isTruthy(firstField(fields, COMPLETED_FIELDS)),
+      dueAt: date('dueAt'),
+      remindAt: date('remindAt'),
+      createdAt: date('createdAt'),
+      needsParsing: isFreeText ? isAmbiguousText(text) : text.includes('\n')
+    })
+  }
+
+  const toItems = (entries: unknown[], inherited: Fields, label: string) =>
+    entries
+      .map((entry, index) => toItem(entry, inherited, `${label} ${index + 1}`))
+      .filter((item): item is ImportedItem => item !== null)
+
+  const notes: ImportedNote[] = []
+  const none: Fields = { tags: [], activity: null }
+
+  const listed = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.items) ? data.items : null
+  if (listed) {
+    const items = toItems(listed, none, 'item')
+    if (items.length > 0) {
+      notes.push({ externalId: contentId('json', file.content), rawText: file.content, items, capturedAt: file.modifiedAt ?? null })
+    }
+  } else if (isRecord(data) && Array.isArray(data.notes)) {
+    data.notes.forEach((entry: unknown, index: number) => {
+      if (!isRecord(entry)) {
+        skipped++
+        return
+      }
+      const inherited: Fields = { tags: tagsField(entry), activity: stringField(entry, ['activity', 'list', 'project']) }
+      const title = stringField(entry, ['title', 'name'])
+      const body = stringField(entry, ['content', 'text', 'body'])
+      // The note's own tags and dates stay with the items it holds, or with its text as a whole
+      const items = Array.isArray(entry.items)
+        ? toItems(entry.items, inherited, `note ${index + 1}, item`)
+        : [toItem({ ...entry, content: [title, body].filter(Boolean).join('\n') }, none, `note ${index + 1}`, true)]
+            .filter((item): item is ImportedItem => item !== null)
+      if (items.length === 0) return
+
+      const created = firstField(entry, DATE_FIELDS.createdAt)
+      notes.push({
+        externalId: contentId('json', JSON.stringify(entry)),
+        rawText: [title, ...items.map(item => item.content)].filter(Boolean).join('\n'),
+        items,
+        capturedAt: typeof created === 'string' && isReadableDate(created) ? created : file.modifiedAt ?? null
+      })
+    })
+  } else {
+    errors.push(`${file.name}: expected a list of items or an object with "items" or "notes"`)
+  }
+
+  return { notes, skipped, errors }
+}
@@ -0,0 +1,228 @@
+import type { ImportFile, ImportedItem, ImportedNote, ImportParseResult } from './types'
+import { importedItem } from './items'
+
+// Google Keep has no public API, so notes come from a Google Takeout export: Takeout/Keep holds one JSON
+// file per note and an HTML rendering of the same note. JSON is read when present; HTML is the fallback for
+// exports (or single files) without it. Labels become tags and checklist entries keep their checked state.
+// Archived notes are imported as completed so they stay searchable without crowding the lists; trashed
+// notes are left out
+
+type KeepJsonNote = {
+  title?: string
+  textContent?: string
+  listContent?: Array<{ text?: string, isChecked?: boolean }>
+  labels?: Array<{ name?: string }>
+  annotations?: Array<{ url?: string, title?: string }>
+  isArchived?: boolean
+  isTrashed?: boolean
+  createdTimestampUsec?: number
+  userEditedTimestampUsec?: number
+}
+
+type KeepNote = {
+  key: string    // External id without the source prefix
+  alias?: string // The HTML rendering's key, so the note is not imported again from it
+  title: string
+  text: string
+  checklist: Array<{ text: string, isChecked: boolean }>
+  labels: string[]
+  links: string[]
+  isArchived: boolean
+  isTrashed: boolean
+  createdAt: Date | null
+}
+
+const EXTERNAL_ID_PREFIX = 'keep:'
+
+// Lines that read as list entries in a plain text note
+const BULLET_LINE = /^\s*(?:[-*•]|\d+[.)]|\[[ xX]?\])\s+(.+)$/
+const CHECKED_BULLET = /^\s*\[[xX]\]/
+
+export function baseName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.(json|html?)$/i, '')
+}
+
+function usecToDate(value: unknown): Date | null {
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) return null
+  return new Date(Math.floor(value / 1000))
+}
+
+function parseKeepJson(file: ImportFile): KeepNote {
+  const raw = JSON.parse(file.content) as KeepJsonNote
+  if (!raw || typeof raw !== 'object' || (raw.textContent === undefined && raw.listContent === undefined && raw.title === undefined)) {
+    throw new Error('not a Keep note')
+  }
+
+  const createdAt = usecToDate(raw.createdTimestampUsec) ?? usecToDate(raw.userEditedTimestampUsec)
+  return {
+    // The creation time survives renames; the file name is derived from the title. HTML only has the
+    // file name, so that one is recorded too
+    key: raw.createdTimestampUsec ? String(raw.createdTimestampUsec) : baseName(file.name),
+    alias: raw.createdTimestampUsec ? baseName(file.name) : undefined,
+    title: raw.title?.trim() ?? '',
+    text: raw.textContent?.trim() ?? '',
+    checklist: (raw.listContent ?? [])
+      .map(entry => ({ text: entry.text?.trim() ?? '', isChecked: !!entry.isChecked }))
+      .filter(entry => entry.text),
+    labels: (raw.labels ?? []).map(label => label.name?.trim() ?? '').filter(Boolean),
+    links: (raw.annotations ?? []).map(annotation => annotation.url ?? '').filter(Boolean),
+    isArchived: !!raw.isArchived,
+    isTrashed: !!raw.isTrashed,
+    createdAt
+  }
+}
+
+const ENTITIES: { [entity: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(html: string): string {
+  return html.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return isFinite(value) ? String.fromCodePoint(value) : entity
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:p|div|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).replace(/[ \t]+\n/g, '\n').trim()
+}
+
+type Element = { inner: string, className: string, end: number }
+
+// Inner HTML of the first element with the class, counting nested tags of the same name to find its end
+function elementWithClass(html: string, className: string, from = 0): Element | null {
+  const open = new RegExp(`<(\\w+)[^>]*class="((?:[^"]*\\s)?${className}(?:\\s[^"]*)?)"[^>]*>`, 'gi')
+  open.lastIndex = from
+  const match = open.exec(html)
+  if (!match) return null
+
+  const start = match.index + match[0].length
+  const tagPattern = new RegExp(`<(/?)${match[1]}\\b[^>]*>`, 'gi')
+  tagPattern.lastIndex = start
+  let depth = 1
+  let tag: RegExpExecArray | null
+  while ((tag = tagPattern.exec(html))) {
+    depth += tag[1] ? -1 : 1
+    if (depth === 0) {
+      return { inner: html.slice(start, tag.index), className: match[2], end: tagPattern.lastIndex }
+    }
+  }
+  return { inner: html.slice(start), className: match[2], end: html.length }
+}
+
+function elementsWithClass(html: string, className: string): Element[] {
+  const elements: Element[] = []
+  let element: Element | null
+  while ((element = elementWithClass(html, className, elements[elements.length - 1]?.end ?? 0))) {
+    elements.push(element)
+  }
+  return elements
+}
+
+function parseKeepHtml(file: ImportFile): KeepNote {
+  const html = file.content
+  if (!/class="[^"]*\bnote\b/.test(html)) {
+    throw new Error('not a Keep note')
+  }
+
+  const content = elementWithClass(html, 'content')?.inner ?? ''
+  const listItems = elementsWithClass(content, 'listitem').map(item => ({
+    text: htmlToText(elementWithClass(item.inner, 'text')?.inner ?? item.inner),
+    // Newer exports mark the item with a class, older ones only with a ☑ bullet
+    isChecked: item.className.split(/\s+/).includes('checked') || htmlToText(elementWithClass(item.inner, 'bullet')?.inner ?? '') === '☑'
+  }))
+
+  // "Oct 19, 2026, 9:41:07 AM", with narrow no-break spaces in recent exports
+  const heading = htmlToText(elementWithClass(html, 'heading')?.inner ?? '').replace(/\s+/g, ' ')
+  const headingDate = heading ? new Date(heading) : null
+
+  return {
+    key: baseName(file.name),
+    title: htmlToText(elementWithClass(html, 'title')?.inner ?? ''),
+    text: listItems.length > 0 ? '' : htmlToText(content),
+    checklist: listItems.filter(entry => entry.text),
+    labels: elementsWithClass(html, 'label-name').map(label => htmlToText(label.inner)).filter(Boolean),
+    links: Array.from(html.matchAll(/class="[^"]*\bannotation\b[^"]*"[\s\S]*?href="([^"]+)"/gi)).map(match => decodeEntities(match[1])),
+    isArchived: /class="[^"]*\barchived\b/.test(html),
+    isTrashed: /class="[^"]*\btrashed\b/.test(html),
+    createdAt: headingDate && !isNaN(headingDate.getTime()) ? headingDate : null
+  }
+}
+
+// Checklist entries are items as they are. A text note is split when it reads as a list, otherwise it is
+// one item: its title and text together, as it was one thought in Keep
+function keepItems(note: KeepNote): ImportedItem[] {
+  const tags = note.labels
+  if (note.checklist.length > 0) {
+    return note.checklist.map(entry => importedItem(entry.text, { isCompleted: entry.isChecked || note.isArchived, tags }))
+  }
+
+  const lines = note.text.split('\n').map(line => line.trim()).filter(Boolean)
+  const bullets = lines.filter(line => BULLET_LINE.test(line))
+  if (bullets.length >= 2 && bullets.length === lines.length) {
+    return bullets.map(line => importedItem(BULLET_LINE.exec(line)![1].trim(), {
+      isCompleted: CHECKED_BULLET.test(line) || note.isArchived,
+      tags
+    }))
+  }
+
+  const text = [note.text.replace(/\s*\n\s*/g, ' '), ...note.links].filter(Boolean).join(' ')
+  const content = note.title && text ? `${note.title}: ${text}` : note.title || text
+  return content ? [importedItem(content, { isCompleted: note.isArchived, tags })] : []
+}
+
+function keepRawText(note: KeepNote): string {
+  const body = note.checklist.length > 0
+    ? note.checklist.map(entry => `${entry.isChecked ? '[x]' : '[ ]'} ${entry.text}`).join('\n')
+    : note.text
+  return [note.title, body, ...note.links].filter(Boolean).join('\n\n')
+}
+
+export function parseKeepExport(files: ImportFile[]): ImportParseResult {
+  // The JSON and HTML of a note share a base name; JSON has the complete data
+  const byNote = new Map<string, ImportFile>()
+  for (const file of files) {
+    if (!/\.(json|html?)$/i.test(file.name)) continue
+    const key = baseName(file.name)
+    const existing = byNote.get(key)
+    if (!existing || (/\.json$/i.test(file.name) && !/\.json$/i.test(existing.name))) {
+      byNote.set(key, file)
+    }
+  }
+
+  const notes: ImportedNote[] = []
+  const errors: string[] = []
+  let skipped = 0
+
+  for (const file of Array.from(byNote.values())) {
+    let note: KeepNote
+    try {
+      note = /\.json$/i.test(file.name) ? parseKeepJson(file) : parseKeepHtml(file)
+    } catch (error) {
+      errors.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`)
+      continue
+    }
+
+    const items = keepItems(note)
+    if (note.isTrashed || items.length === 0) {
+      skipped++
+      continue
+    }
+
+    notes.push({
+      externalId: `${EXTERNAL_ID_PREFIX}${note.key}`,
+      externalAlias: note.alias ? `${EXTERNAL_ID_PREFIX}${note.alias}` : undefined,
+      rawText: keepRawText(note),
+      items,
+      capturedAt: note.createdAt?.toISOString() ?? null
+    })
+  }
+
+  return { notes, skipped, errors }
+}
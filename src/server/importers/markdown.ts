@@ -0,0 +1,202 @@
+import type { ImportFile, ImportedItem, ImportedNote } from './types'
+import { importedItem, textItem, extractHashtags, splitTags, isReadableDate, contentId } from './items'
+
+// Markdown (Obsidian vaults and the like) and plain text files. List entries are items as written,
+// "- [ ]" and "- [x]" keep their checked state, the nearest heading above an entry names its activity and
+// #hashtags become tags: on an entry for the entry, on a heading or a line of their own for the section
+// (for its last entry when the line closes it), and in the front matter for the file. Paragraphs are the
+// ambiguous part and go to the AI provider. Plain text is read the same way without headings, since "#"
+// starts a hashtag there
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const TASK = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const FENCE = /^\s*(?:```|~~~)/
+const RULE = /^\s*(?:[-*_]\s*){3,}$/
+const TABLE_ROW = /^\s*\|/
+const HASHTAGS_ONLY = /^(?:\s*#[^\s#]+)+\s*$/
+
+type FrontMatter = { tags: string[], createdAt: string | null }
+
+// List entry whose indented continuation lines are appended to it
+type Entry = { item: ImportedItem, indent: number }
+
+// The two keys the import uses, in the YAML subset Obsidian writes: "tags: [a, b]", "tags: a, b" or a "- a" list
+function parseFrontMatter(yaml: string): FrontMatter {
+  const tags: string[] = []
+  let createdAt: string | null = null
+  let listKey: string | null = null
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const entry = /^\s+-\s+(.+)$/.exec(line)
+    if (entry && listKey === 'tags') {
+      tags.push(...splitTags(entry[1].replace(/^["']|["']$/g, '')))
+      continue
+    }
+
+    const field = /^([\w-]+)\s*:\s*(.*)$/.exec(line)
+    if (!field) continue
+    const key = field[1].toLowerCase()
+    const value = field[2].trim().replace(/^["']|["']$/g, '')
+    listKey = null
+
+    if (key === 'tags' || key === 'tag') {
+      if (value) tags.push(...splitTags(value.replace(/^\[|\]$/g, '')))
+      else listKey = 'tags'
+    } else if ((key === 'created' || key === 'date') && isReadableDate(value)) {
+      createdAt = value
+    }
+  }
+
+  return { tags, createdAt }
+}
+
+// Wiki links, emphasis and inline code read as their text
+function cleanInline(text: string): string {
+  return text
+    .replace(/!?\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+    .replace(/!?\[\[([^\]]+)\]\]/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__|~~|==)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim()
+}
+
+export function parseMarkdownFile(file: ImportFile, options: { headings: boolean }): ImportedNote | null {
+  let body = file.content.replace(/^\uFEFF/, '')
+  let fileTags: string[] = []
+  let createdAt: string | null = null
+
+  const frontMatter = options.headings ? FRONT_MATTER.exec(body) : null
+  if (frontMatter) {
+    ({ tags: fileTags, createdAt } = parseFrontMatter(frontMatter[1]))
+    body = body.slice(frontMatter[0].length)
+  }
+
+  const items: ImportedItem[] = []
+  let activity: string | null = null
+  let sectionTags: string[] = []
+  let paragraph: string[] = []
+  let passage: string[] = []
+  let lastEntry: Entry | null = null
+  let sectionItem: ImportedItem | null = null // Last item of the current section
+  let trailingTags: string[] = []             // From a hashtag line no item of the section followed yet
+  let inFence = false
+
+  const sectionFields = () => ({ activity, tags: Array.from(new Set([...fileTags, ...sectionTags])) })
+
+  const addItem = (item: ImportedItem) => {
+    items.push(item)
+    sectionItem = item
+    trailingTags = []
+  }
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) passage.push(paragraph.join('\n'))
+    paragraph = []
+  }
+
+  // Consecutive paragraphs of a section go to the provider together
+  const endPassage = () => {
+    endParagraph()
+    if (passage.length === 0) return
+    const { text, tags } = extractHashtags(passage.join('\n\n'))
+    if (text) {
+      const fields = sectionFields()
+      addItem(textItem(text, { ...fields, tags: Array.from(new Set([...fields.tags, ...tags])) }))
+    }
+    passage = []
+  }
+
+  // A hashtag line closing a section tags its last item, as no item is left to take the tags
+  const endSection = () => {
+    endPassage()
+    if (sectionItem && trailingTags.length > 0) {
+      sectionItem.tags = Array.from(new Set([...sectionItem.tags, ...trailingTags]))
+    }
+    sectionItem = null
+    trailingTags = []
+  }
+
+  const addEntry = (indent: number, rawText: string, isCompleted: boolean): Entry | null => {
+    endPassage()
+    const { text, tags } = extractHashtags(cleanInline(rawText))
+    if (!text) return null
+    const fields = sectionFields()
+    const item = importedItem(text, { ...fields, isCompleted, tags: Array.from(new Set([...fields.tags, ...tags])) })
+    addItem(item)
+    return { item, indent }
+  }
+
+  for (const line of body.split(/\r?\n/)) {
+    if (FENCE.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence || TABLE_ROW.test(line)) continue
+
+    const heading = options.headings ? HEADING.exec(line) : null
+    if (heading) {
+      endSection()
+      const { text, tags } = extractHashtags(cleanInline(heading[2]))
+      activity = text || activity
+      sectionTags = tags
+      lastEntry = null
+      continue
+    }
+
+    if (!line.trim()) {
+      endParagraph()
+      continue
+    }
+    if (RULE.test(line)) {
+      endPassage()
+      lastEntry = null
+      continue
+    }
+
+    if (HASHTAGS_ONLY.test(line)) {
+      const { tags } = extractHashtags(line)
+      if (items.length === 0 && activity === null) {
+        fileTags = Array.from(new Set([...fileTags, ...tags]))
+      } else {
+        sectionTags = Array.from(new Set([...sectionTags, ...tags]))
+        if (sectionItem) trailingTags = Array.from(new Set([...trailingTags, ...tags]))
+      }
+      continue
+    }
+
+    const task = TASK.exec(line)
+    if (task) {
+      lastEntry = addEntry(task[1].length, task[3], task[2].toLowerCase() === 'x')
+      continue
+    }
+    const bullet = BULLET.exec(line)
+    if (bullet) {
+      lastEntry = addEntry(bullet[1].length, bullet[2], false)
+      continue
+    }
+
+    // Indented lines right after an entry continue it
+    if (lastEntry && paragraph.length === 0 && line.search(/\S/) > lastEntry.indent) {
+      const { text, tags } = extractHashtags(cleanInline(line))
+      lastEntry.item.content = `${lastEntry.item.content} ${text}`.trim()
+      lastEntry.item.tags = Array.from(new Set([...lastEntry.item.tags, ...tags]))
+      continue
+    }
+
+    lastEntry = null
+    paragraph.push(cleanInline(line.replace(/^\s*>\s?/, '')))
+  }
+  endSection()
+
+  if (items.length === 0) return null
+
+  return {
+    externalId: contentId(options.headings ? 'markdown' : 'text', file.content),
+    rawText: file.content,
+    items,
+    capturedAt: createdAt ?? file.modifiedAt ?? null
+  }
+}
@@ -0,0 +1,46 @@
+import type { ImportedItem, ImportedNote } from './types'
+import { labelToTagName, activityKey } from './items'
+
+// What an import would create, shown before it runs: counts, the activities and tags the items name,
+// and a sample of the items as they will be saved
+
+export type ImportSummary = {
+  noteCount: number
+  itemCount: number        // Items as listed; passages can turn into more
+  completedCount: number
+  passageCount: number     // Free text the AI provider splits into items during the import
+  activities: Array<{ name: string, itemCount: number }>
+  tags: Array<{ name: string, itemCount: number }>
+  samples: ImportedItem[]
+}
+
+const SAMPLE_SIZE = 20
+
+export function summarizeImport(notes: ImportedNote[]): ImportSummary {
+  const items = notes.flatMap(note => note.items)
+  const activities = new Map<string, { name: string, itemCount: number }>()
+  const tags = new Map<string, number>()
+
+  for (const item of items) {
+    if (item.activity) {
+      const key = activityKey(item.activity)
+      const entry = activities.get(key) ?? { name: item.activity.trim(), itemCount: 0 }
+      activities.set(key, { ...entry, itemCount: entry.itemCount + 1 })
+    }
+    for (const name of Array.from(new Set(item.tags.map(labelToTagName).filter(Boolean)))) {
+      tags.set(name, (tags.get(name) ?? 0) + 1)
+    }
+  }
+
+  const byCount = (a: { itemCount: number }, b: { itemCount: number }) => b.itemCount - a.itemCount
+
+  return {
+    noteCount: notes.length,
+    itemCount: items.length,
+    completedCount: items.filter(item => item.isCompleted).length,
+    passageCount: items.filter(item => item.needsParsing).length,
+    activities: Array.from(activities.values()).sort(byCount),
+    tags: Array.from(tags.entries()).map(([name, itemCount]) => ({ name, itemCount })).sort(byCount),
+    samples: items.slice(0, SAMPLE_SIZE)
+  }
+}
@@ -0,0 +1,33 @@
+// Every importer turns its files into the same shape, which the import worker then saves as notes and
+// items. Dates are strings because parsed notes wait in ImportJob.payload as JSON until they are saved
+
+export type ImportFile = {
+  name: string    // File name as uploaded, used to pair files and as a fallback external id
+  content: string
+  modifiedAt?: string | null // Last modified time the browser reported, for sources without dates
+}
+
+export type ImportedItem = {
+  content: string
+  isCompleted: boolean
+  tags: string[]            // Tag names, created when the user has none by that name
+  activity: string | null   // Activity name, created when the user has none by that name
+  dueAt: string | null      // As written in the source; dates without a zone are read in the user's
+  remindAt: string | null
+  createdAt: string | null  // Falls back to the note's capture time
+  needsParsing: boolean     // Free text without list structure, split into items by the AI provider when saved
+}
+
+export type ImportedNote = {
+  externalId: string | null  // Stable id in the source; notes already imported under it are skipped
+  externalAlias?: string     // Id of the same note in another file format of the source, skipped alike
+  rawText: string
+  items: ImportedItem[]
+  capturedAt: string | null  // When the note was written in the source
+}
+
+export type ImportParseResult = {
+  notes: ImportedNote[]
+  skipped: number   // Notes deliberately left out (trashed, empty)
+  errors: string[]  // Files, rows or values that could not be read
+}
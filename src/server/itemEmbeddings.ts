@@ -0,0 +1,89 @@
+import { prisma } from 'wasp/server'
+import { getEmbeddingProvider, contentHash, cosineSimilarity } from './ai/embeddings'
+
+// Stored item embeddings, computed lazily and refreshed when an item's wording changes
+
+const EMBEDDING_BATCH_SIZE = 32
+
+type EmbeddableItem = {
+  id: number
+  content: string
+}
+
+// Vectors for the given items, computing whatever is missing or stale (edited content or a different model)
+export async function ensureItemEmbeddings(items: EmbeddableItem[]): Promise<Map<number, number[]>> {
+  const provider = getEmbeddingProvider()
+  const vectors = new Map<number, number[]>()
+  if (items.length === 0) return vectors
+
+  const stored = await prisma.itemEmbedding.findMany({
+    where: { itemId: { in: items.map(item => item.id) } }
+  })
+  const storedByItemId = new Map(stored.map(embedding => [embedding.itemId, embedding]))
+
+  const stale: EmbeddableItem[] = []
+  for (const item of items) {
+    const embedding = storedByItemId.get(item.id)
+    if (
+      embedding &&
+      embedding.provider === provider.name &&
+      embedding.model === provider.model &&
+      embedding.contentHash === contentHash(item.content)
+    ) {
+      vectors.set(item.id, JSON.parse(embedding.vector))
+    } else {
+      stale.push(item)
+    }
+  }
+
+  for (let start = 0; start < stale.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = stale.slice(start, start + EMBEDDING_BATCH_SIZE)
+    const embedded = await provider.embed(batch.map(item => item.content))
+
+    await prisma.$transaction(
+      batch.map((item, index) => {
+        const data = {
+          provider: provider.name,
+          model: provider.model,
+          dimensions: embedded[index].length,
+          vector: JSON.stringify(embedded[index]),
+          contentHash: contentHash(item.content)
+        }
+        vectors.set(item.id, embedded[index])
+        return prisma.itemEmbedding.upsert({
+          where: { itemId: item.id },
+          create: { itemId: item.id, ...data },
+          update: data
+        })
+      })
+    )
+  }
+
+  return vectors
+}
+
+// Recompute one item's embedding after an edit; failures only cost search quality, so they don't fail the edit
+export async function refreshItemEmbedding(item: EmbeddableItem): Promise<void> {
+  try {
+    await ensureItemEmbeddings([item])
+  } catch (error) {
+    console.error(`Failed to refresh embedding for item ${item.id}:`, error)
+  }
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const [vector] = await getEmbeddingProvider().embed([text])
+  return vector
+}
+
+// Candidates ordered by similarity to the target vector, best first
+export function rankBySimilarity<T extends { id: number }>(
+  target: number[],
+  candidates: T[],
+  vectors: Map<number, number[]>
+): Array<{ item: T, similarity: number }> {
+  return candidates
+    .filter(candidate => vectors.has(candidate.id))
+    .map(candidate => ({ item: candidate, similarity: cosineSimilarity(target, vectors.get(candidate.id)!) }))
+    .sort((a, b) => b.similarity - a.similarity)
+}
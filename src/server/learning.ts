@@ -0,0 +1,265 @@
+import { prisma } from 'wasp/server'
+
+// "Show less like this" learning: what the user does with an item is logged as a FeedbackEvent, and
+// events move the user's preference weights for the item's tags, their categories and its activity.
+// Those weights then reorder every item sharing them. The log is append-only, so weights and item
+// relevance can always be replayed from it; a weight the user reset only learns from events after the reset
+
+export type FeedbackKind = 'boost' | 'dismiss' | 'complete' | 'snooze' | 'open' | 'delete' | 'adjust'
+
+export type PreferenceTargetType = 'tag' | 'category' | 'activity'
+
+const PREFERENCE_TARGET_TYPES: PreferenceTargetType[] = ['tag', 'category', 'activity']
+
+// Target types are stored as plain strings
+export function isPreferenceTargetType(value: string): value is PreferenceTargetType {
+  return (PREFERENCE_TARGET_TYPES as string[]).includes(value)
+}
+
+export type PreferenceTarget = {
+  targetType: PreferenceTargetType
+  targetId: number
+}
+
+// Kinds the client may report directly; the others are emitted by item operations
+export const USER_FEEDBACK_KINDS: FeedbackKind[] = ['boost', 'dismiss', 'open']
+
+type EventEffect = {
+  goal: number     // Weight the event pulls related preferences towards
+  strength: number // Share of the learning rate applied, 0 records the event without learning from it
+}
+
+// Completing an item says its kind of item is useful, but less loudly than a thumbs up.
+// Opening, snoozing and deleting are too ambiguous to learn from and are only logged
+const EVENT_EFFECTS: { [kind in FeedbackKind]: EventEffect } = {
+  boost: { goal: 1, strength: 1 },
+  dismiss: { goal: -1, strength: 1 },
+  complete: { goal: 1, strength: 0.5 },
+  snooze: { goal: 0, strength: 0 },
+  open: { goal: 0, strength: 0 },
+  delete: { goal: 0, strength: 0 },
+  adjust: { goal: 0, strength: 0 }
+}
+
+// How far one event moves a weight towards its goal; tags are the most specific signal, activities the broadest
+const LEARNING_RATES: { [type in PreferenceTargetType]: number } = {
+  tag: 0.3,
+  category: 0.15,
+  activity: 0.1
+}
+
+// Share of the preference score each target type contributes
+const SCORE_SHARES: { [type in PreferenceTargetType]: number } = {
+  tag: 0.5,
+  category: 0.3,
+  activity: 0.2
+}
+
+// The item itself moves more than its relatives: a dismiss halves its relevance
+const ITEM_DISMISS_FACTOR = 0.5
+const ITEM_BOOST_STEP = 0.5
+
+export type FeedbackItem = {
+  id: number
+  content: string
+  relevance: number
+  activityId: number | null
+  tags: Array<{ tag: { id: number, categoryId: number } }>
+}
+
+export type PreferenceWeights = Map<string, number>
+
+function weightKey(targetType: PreferenceTargetType, targetId: number): string {
+  return `${targetType}:${targetId}`
+}
+
+// Tags, categories and activity an item's feedback teaches about, each once
+export function feedbackTargets(item: Pick<FeedbackItem, 'activityId' | 'tags'>): PreferenceTarget[] {
+  const tagIds = Array.from(new Set(item.tags.map(({ tag }) => tag.id)))
+  const categoryIds = Array.from(new Set(item.tags.map(({ tag }) => tag.categoryId)))
+
+  return [
+    ...tagIds.map(targetId => ({ targetType: 'tag' as const, targetId })),
+    ...categoryIds.map(targetId => ({ targetType: 'category' as const, targetId })),
+    ...(item.activityId !== null ? [{ targetType: 'activity' as const, targetId: item.activityId }] : [])
+  ]
+}
+
+export function parseTargets(json: string): PreferenceTarget[] {
+  try {
+    const targets = JSON.parse(json)
+    return Array.isArray(targets) ? targets : []
+  } catch {
+    return []
+  }
+}
+
+// Move a weight part of the way towards the event's goal; repeated feedback converges instead of growing
+export function nextWeight(weight: number, kind: FeedbackKind, targetType: PreferenceTargetType): number {
+  const { goal, strength } = EVENT_EFFECTS[kind]
+  return weight + strength * LEARNING_RATES[targetType] * (goal - weight)
+}
+
+// Relevance of the item after an event; "adjust" carries its own value
+export function nextItemRelevance(relevance: number, kind: FeedbackKind, adjustedTo?: number): number {
+  switch (kind) {
+    case 'dismiss':
+      return relevance * ITEM_DISMISS_FACTOR
+    case 'boost':
+      return Math.min(1, relevance + (1 - relevance) * ITEM_BOOST_STEP)
+    case 'adjust':
+      return adjustedTo ?? relevance
+    default:
+      return relevance
+  }
+}
+
+type RecordOptions = {
+  activityId?: number | null // Activity the user was looking at
+  relevance?: number         // New relevance for "adjust" events
+}
+
+// Log the event and apply it: the item's relevance and every related weight change together or not at all.
+// Call before deleting an item, the log keeps a snapshot of it
+export async function recordItemEvent(
+  userId: number,
+  item: FeedbackItem,
+  kind: FeedbackKind,
+  options: RecordOptions = {}
+): Promise<number> {
+  const targets = feedbackTargets(item)
+  const relevance = nextItemRelevance(item.relevance, kind, options.relevance)
+
+  await prisma.$transaction(async (tx) => {
+    await tx.feedbackEvent.create({
+      data: {
+        kind,
+        itemId: item.id,
+        itemContent: item.content,
+        targets: JSON.stringify(targets),
+        relevanceBefore: item.relevance,
+        relevanceAfter: relevance,
+        activityId: options.activityId ?? null,
+        userId
+      }
+    })
+
+    if (relevance !== item.relevance) {
+      await tx.item.update({
+        where: { id: item.id },
+        data: { relevance }
+      })
+    }
+
+    if (EVENT_EFFECTS[kind].strength === 0) return
+
+    for (const { targetType, targetId } of targets) {
+      const where = { userId_targetType_targetId: { userId, targetType, targetId } }
+      const existing = await tx.preferenceWeight.findUnique({ where })
+
+      await tx.preferenceWeight.upsert({
+        where,
+        create: { userId, targetType, targetId, weight: nextWeight(0, kind, targetType), eventCount: 1 },
+        update: { weight: nextWeight(existing?.weight ?? 0, kind, targetType), eventCount: { increment: 1 } }
+      })
+    }
+  })
+
+  return relevance
+}
+
+// Rebuild all weights and the relevance of every item with events from the log, oldest event first.
+// Items start from full relevance, so the replay also repairs relevance written outside the log
+export async function replayFeedbackEvents(userId: number): Promise<{ eventCount: number, itemCount: number, weightCount: number }> {
+  const [events, resets] = await Promise.all([
+    prisma.feedbackEvent.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    }),
+    prisma.preferenceReset.findMany({ where: { userId } })
+  ])
+  const resetAt = new Map(resets.map(reset => [weightKey(reset.targetType as PreferenceTargetType, reset.targetId), reset.resetAt]))
+
+  const weights = new Map<string, { target: PreferenceTarget, weight: number, eventCount: number }>()
+  const relevances = new Map<number, number>()
+
+  for (const event of events) {
+    const kind = event.kind as FeedbackKind
+    if (!EVENT_EFFECTS[kind]) continue
+
+    if (event.itemId !== null) {
+      const relevance = relevances.get(event.itemId) ?? 1
+      relevances.set(event.itemId, nextItemRelevance(relevance, kind, event.relevanceAfter ?? undefined))
+    }
+
+    if (EVENT_EFFECTS[kind].strength === 0) continue
+    for (const target of parseTargets(event.targets)) {
+      const key = weightKey(target.targetType, target.targetId)
+      const reset = resetAt.get(key)
+      if (reset && event.createdAt <= reset) continue
+
+      const current = weights.get(key) ?? { target, weight: 0, eventCount: 0 }
+      weights.set(key, {
+        target,
+        weight: nextWeight(current.weight, kind, target.targetType),
+        eventCount: current.eventCount + 1
+      })
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.preferenceWeight.deleteMany({ where: { userId } })
+    for (const { target, weight, eventCount } of Array.from(weights.values())) {
+      await tx.preferenceWeight.create({
+        data: { userId, targetType: target.targetType, targetId: target.targetId, weight, eventCount }
+      })
+    }
+    for (const [itemId, relevance] of Array.from(relevances.entries())) {
+      await tx.item.updateMany({
+        where: { id: itemId, userId },
+        data: { relevance }
+      })
+    }
+  })
+
+  return { eventCount: events.length, itemCount: relevances.size, weightCount: weights.size }
+}
+
+export async function loadPreferenceWeights(userId: number): Promise<PreferenceWeights> {
+  const weights = await prisma.preferenceWeight.findMany({
+    where: { userId },
+    select: { targetType: true, targetId: true, weight: true }
+  })
+
+  return new Map(weights.map(weight => [weightKey(weight.targetType as PreferenceTargetType, weight.targetId), weight.weight]))
+}
+
+// Learned weight of each of the item's targets, for explaining its rank
+export function weightsForItem(
+  item: Pick<FeedbackItem, 'activityId' | 'tags'>,
+  weights: PreferenceWeights
+): Array<PreferenceTarget & { weight: number | null }> {
+  return feedbackTargets(item).map(target => ({
+    ...target,
+    weight: weights.get(weightKey(target.targetType, target.targetId)) ?? null
+  }))
+}
+
+// Between -1 and 1: the average learned weight per target type, blended by type share.
+// Types the item has nothing for (no tags, no activity) don't pull the score towards zero
+export function preferenceScore(item: Pick<FeedbackItem, 'activityId' | 'tags'>, weights: PreferenceWeights): number {
+  const byType = new Map<PreferenceTargetType, number[]>()
+  for (const { targetType, weight } of weightsForItem(item, weights)) {
+    if (weight === null) continue
+    byType.set(targetType, [...(byType.get(targetType) || []), weight])
+  }
+
+  let score = 0
+  let shares = 0
+  byType.forEach((typeWeights, targetType) => {
+    score += SCORE_SHARES[targetType] * typeWeights.reduce((sum, weight) => sum + weight, 0) / typeWeights.length
+    shares += SCORE_SHARES[targetType]
+  })
+
+  return shares > 0 ? score / shares : 0
+}
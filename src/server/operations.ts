@@ -1,13 +1,69 @@
-import { HttpError } from 'wasp/server'
+import { HttpError, prisma } from 'wasp/server'
 import type {
   GetItems,
+  SearchItems,
+  SemanticSearch,
+  GetSimilarItems,
+  FindDuplicates,
+  MergeItems,
+  DismissDuplicates,
   CreateItem,
   UpdateItem,
   DeleteItem,
   GetActivities,
+  CreateActivity,
+  UpdateActivity,
+  DeleteActivity,
+  ReorderActivities,
+  GetActivityRule,
+  UpdateActivityRule,
+  ResetActivityRule,
   GetTags,
   CreateTag,
+  UpdateTag,
+  DeleteTag,
+  MergeTags,
+  GetTagCategories,
+  CreateTagCategory,
+  UpdateTagCategory,
+  DeleteTagCategory,
   UpdateItemRelevance,
+  SubmitItemFeedback,
+  GetItemRelevanceHistory,
+  RecomputeRelevance,
+  GetPreferenceWeights,
+  ResetPreferenceWeights,
+  GetRankingPreference,
+  UpdateRankingPreference,
+  ResetRankingPreference,
+  ScheduleItem,
+  SnoozeItem,
+  GetItemSchedule,
+  GetNotifications,
+  MarkNotificationsRead,
+  UpdateTimezone,
+  GetItemCompletions,
+  GetShoppingList,
+  SetShoppingItemsPurchased,
+  ClearPurchasedShoppingItems,
+  SuggestRecipes,
+  SaveRecipeSuggestion,
+  AddMissingIngredients,
+  GetMealPlan,
+  PlanMeal,
+  MoveMealPlanEntry,
+  RemoveMealPlanEntry,
+  AddMealPlanToShoppingList,
+  FillMealPlanWeek,
+  UpdateDietaryPreferences,
+  GetImportJobs,
+  CreateImportJob,
+  UploadImportFiles,
+  GetImportPreview,
+  DiscardImportJob,
+  StartImportJob,
+  GetImportBatches,
+  RollbackImportBatch,
   TestAIConnection,
   TestTagSuggestion,
   TestAIProvider,
@@ -16,64 +72,417 @@ import type {
   TestGoogleAI,
   ParseNote,
   ExtractEntities,
-  ClassifyIntent
+  ClassifyIntent,
+  CaptureNote,
+  GetNoteDrafts,
+  CreateNoteDraft,
+  UpdateNoteDraft,
+  CommitNoteDraft,
+  DiscardNoteDraft,
+  GetNotes,
+  GetNote,
+  ReparseNote,
+  ApplyNoteReparse
 } from 'wasp/server/operations'
-import type { Item, Tag, Activity } from 'wasp/entities'
+import type { Item, Tag, TagCategory, Activity, ActivityRule, Note, NoteDraft, ItemCompletion, ImportJob } from 'wasp/entities'
+import type { Prisma, PrismaClient } from '@prisma/client'
 import { aiService } from './ai/index'
+import {
+  extractItemDate,
+  isValidTimeZone,
+  zonedNow,
+  zonedToInstant,
+  addDays,
+  DEFAULT_TIME_ZONE,
+  type ItemDate
+} from './ai/dateExtraction'
+import {
+  detectRecurrence,
+  parseRecurrenceRule,
+  normalizeRecurrenceRule,
+  anchorRecurrenceRule,
+  firstOccurrence,
+  advanceOccurrence,
+  type OccurrenceDates
+} from './recurrence'
+import { inferItemType, extractItemDetails, extractShoppingDetails } from './ai/itemDetails'
+import { locatePlace } from './ai/geocoding'
+import {
+  isItemType,
+  normalizeItemDetails,
+  parseItemDetails,
+  serializeItemDetails,
+  type ItemType,
+  type ItemDetails,
+  type PlaceDetails
+} from '../shared/itemTypes'
+import { isActivityLayout, type ActivityLayout } from '../shared/activityLayouts'
+import {
+  MEALS,
+  MEAL_SLOTS,
+  isMealSlot,
+  parseDayKey,
+  toDayKey,
+  weekStartOf,
+  weekDayKeys,
+  type MealSlot
+} from '../shared/mealPlan'
+import {
+  shoppingItemFilter,
+  buildShoppingList,
+  consolidateIngredients,
+  productKey,
+  type ShoppingList,
+  type ConsolidatedIngredient
+} from './shoppingList'
+import { suggestRecipesFor, ingredientSetKey, narrowRecipeSuggestions, type RecipeSuggestion } from './ai/recipes'
+import { suggestWeekMeals } from './ai/mealPlan'
+import { matchBySimilarity, normalizeText } from './textSimilarity'
+import {
+  parseSearchTerms,
+  findItemIdsByFullText,
+  buildTextSearchFilter,
+  highlightText,
+  highlightSnippet,
+  type HighlightSegment
+} from './search'
+import { getEmbeddingProvider } from './ai/embeddings'
+import { ensureItemEmbeddings, refreshItemEmbedding, embedText, rankBySimilarity } from './itemEmbeddings'
+import {
+  findDuplicatesForContents,
+  findDuplicateGroups,
+  mergeCapturedIntoItem,
+  mergeItemsInto,
+  dismissDuplicatePair,
+  type DuplicateMatch,
+  type DuplicateReason
+} from './duplicates'
+import {
+  recordItemEvent,
+  replayFeedbackEvents,
+  loadPreferenceWeights,
+  weightsForItem,
+  preferenceScore,
+  parseTargets,
+  USER_FEEDBACK_KINDS,
+  isPreferenceTargetType,
+  type FeedbackKind,
+  type PreferenceTargetType
+} from './learning'
+import {
+  rankItem,
+  toRankingWeights,
+  DEFAULT_RANKING_WEIGHTS,
+  RANKING_SIGNALS,
+  MAX_SIGNAL_WEIGHT,
+  MAX_AGE_HALF_LIFE_DAYS,
+  type RankingBreakdown,
+  type RankingWeights
+} from './ranking'
+import {
+  isImportSource,
+  parseImportFiles,
+  parseJsonArray,
+  appendErrors,
+  importedNoteIds,
+  type ImportSource,
+  type ImportJobStatus
+} from './importers/jobs'
+import type { ImportFile, ImportedNote } from './importers/types'
+import { summarizeImport, type ImportSummary } from './importers/summary'
+import { activityKey } from './importers/items'
+import { rollbackBatch, isEditedItem, type RollbackResult } from './importers/batches'
+import {
+  buildActivityItemFilter,
+  parseActivityRule,
+  serializeActivityRule,
+  EMPTY_RULE_SET,
+  type ActivityRuleSet
+} from './activityRules'
+
+// The entity delegates Wasp puts in an operation's context, for helpers that are handed the context
+type EntitiesContext<M extends Prisma.ModelName> = {
+  entities: { [Model in M]: PrismaClient[Uncapitalize<Model> & keyof PrismaClient] };
+}
+
+// Global rows (userId null) plus the ones owned by the user
+function ownedOrGlobal(userId: number) {
+  return {
+    OR: [
+      { userId: null },
+      { userId }
+    ]
+  };
+}
+
+// Tags the AI may suggest for a user: global tags and the user's own tags
+async function getAvailableTagNames(userId: number, context: EntitiesContext<'Tag'>): Promise<string[]> {
+  const availableTags = await context.entities.Tag.findMany({
+    where: ownedOrGlobal(userId),
+    select: {
+      name: true
+    }
+  });
+
+  return Array.from(new Set(availableTags.map(tag => tag.name)));
+}
+
+// Drop tag ids the user cannot see (other users' tags or unknown ids)
+async function filterVisibleTagIds(tagIds: number[], userId: number, context: EntitiesContext<'Tag'>): Promise<number[]> {
+  const visibleTags = await context.entities.Tag.findMany({
+    where: {
+      id: { in: tagIds },
+      ...ownedOrGlobal(userId)
+    },
+    select: {
+      id: true
+    }
+  });
+
+  const visibleIds = new Set(visibleTags.map(tag => tag.id));
+  return tagIds.filter(tagId => visibleIds.has(tagId));
+}
+
+// Items, tag categories and rules may only point at the default activities and the user's own
+async function checkVisibleActivity(activityId: number | null | undefined, userId: number, context: EntitiesContext<'Activity'>) {
+  if (activityId === undefined || activityId === null) return;
+
+  const activity = await context.entities.Activity.findFirst({
+    where: {
+      id: activityId,
+      ...visibleActivities(userId)
+    }
+  });
+
+  if (!activity) {
+    throw new HttpError(404, 'Activity not found');
+  }
+}
 
 // ============================================================================
 // ITEM OPERATIONS
 // ============================================================================
 
-export const getItems: GetItems<{ activityId?: number }, Item[]> = async (args, context) => {
+type ListedItem = SearchItem & {
+  matchedByRule: boolean;
+  ranking: RankingBreakdown;
+};
+
+export const getItems: GetItems<{ activityId?: number; includeSnoozed?: boolean }, ListedItem[]> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  const whereClause: any = {
+  const whereClause: Prisma.ItemWhereInput = {
     userId: context.user.id
   };
 
-  // Filter by activity if provided
+  // Snoozed items stay out of sight until they wake up
+  if (!args.includeSnoozed) {
+    whereClause.AND = [{ OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: new Date() } }] }];
+  }
+
+  // Filter by activity if provided: assigned items plus whatever the activity's rules surface
   if (args.activityId) {
-    whereClause.activityId = args.activityId;
+    const rule = await findEffectiveActivityRule(args.activityId, context.user.id, context);
+    Object.assign(whereClause, buildActivityItemFilter(args.activityId, rule ? parseActivityRule(rule) : EMPTY_RULE_SET));
   }
 
-  return context.entities.Item.findMany({
+  const items = await context.entities.Item.findMany({
     where: whereClause,
-    include: {
-      tags: {
-        include: {
-          tag: true
-        }
-      },
-      activity: true
-    },
+    include: SEARCH_ITEM_INCLUDE,
     orderBy: [
       { relevance: 'desc' }, // Higher relevance first
       { createdAt: 'desc' }   // Most recent first
     ]
   });
+
+  // Rank by the user's weighted signals; the query order above breaks ties
+  const rankingContext = await loadRankingContext(context.user.id, items.map(item => item.id), context);
+
+  // Flag items that only show up because a rule matched, not because they were assigned
+  return items
+    .map(item => ({
+      ...item,
+      matchedByRule: args.activityId !== undefined && item.activityId !== args.activityId,
+      ranking: rankItem(item, {
+        ...rankingContext,
+        lastInteractionAt: rankingContext.lastInteractions.get(item.id),
+        activityId: args.activityId
+      })
+    }))
+    .sort((a, b) => b.ranking.score - a.ranking.score);
+}
+
+// Everything rankItem needs besides the item: the user's weights, learned preferences and last interactions
+async function loadRankingContext(userId: number, itemIds: number[], context: EntitiesContext<'RankingPreference' | 'FeedbackEvent'>) {
+  const [stored, preferences, interactions] = await Promise.all([
+    context.entities.RankingPreference.findUnique({ where: { userId } }),
+    loadPreferenceWeights(userId),
+    context.entities.FeedbackEvent.groupBy({
+      by: ['itemId'],
+      where: {
+        userId,
+        itemId: { in: itemIds }
+      },
+      _max: { createdAt: true }
+    })
+  ]);
+
+  return {
+    now: new Date(),
+    weights: toRankingWeights(stored),
+    preferences,
+    lastInteractions: new Map<number, Date>(
+      interactions.flatMap(({ itemId, _max }): Array<[number, Date]> =>
+        itemId !== null && _max.createdAt ? [[itemId, _max.createdAt]] : []
+      )
+    )
+  };
+}
+
+// Dates arrive as ISO strings; null clears the date, undefined leaves it alone
+function parseDateArg(value: string | null | undefined, label = 'Due date'): Date | null | undefined {
+  if (value === undefined || value === null) return value;
+
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) {
+    throw new HttpError(400, `${label} is not a valid date`);
+  }
+  return parsed;
+}
+
+function userTimeZone(user: { timezone: string | null }): string {
+  return user.timezone || DEFAULT_TIME_ZONE;
+}
+
+function parseItemTypeArg(value: string | undefined): ItemType | undefined {
+  if (value === undefined) return undefined;
+  if (!isItemType(value)) {
+    throw new HttpError(400, `Unknown item type "${value}"`);
+  }
+  return value;
+}
+
+// Places without coordinates are geocoded; every other type is stored as given
+async function completeItemDetails(type: ItemType, details: ItemDetails): Promise<ItemDetails> {
+  return type === 'place' ? locatePlace(details as PlaceDetails) : details;
+}
+
+// Completing a recurring item logs the occurrence and returns the dates of the next one, which the
+// item moves to. Null when the item does not recur or its series has ended: then it completes for good.
+// Callers move the item in the same transaction, so a logged completion never stays behind on its own
+async function completeOccurrence(
+  item: Item,
+  user: { timezone: string | null },
+  tx: Prisma.TransactionClient
+): Promise<OccurrenceDates | null> {
+  if (!item.recurrenceRule) return null;
+
+  const completedAt = new Date();
+  const completedCount = await tx.itemCompletion.count({ where: { itemId: item.id } });
+  await tx.itemCompletion.create({
+    data: { itemId: item.id, dueAt: item.dueAt, remindAt: item.remindAt, completedAt }
+  });
+
+  return advanceOccurrence(
+    { dueAt: item.dueAt, remindAt: item.remindAt, recurrenceRule: item.recurrenceRule },
+    completedAt,
+    completedCount + 1,
+    userTimeZone(user)
+  );
 }
 
+// What to do when new content matches an existing active item
+type DuplicateStrategy = 'keep' | 'merge';
+
 type CreateItemInput = {
   content: string;
-  sourceNote?: string;
+  noteId?: number;     // Link to an existing note
+  sourceNote?: string; // Or capture the original text as a new note
   activityId?: number;
   tagIds?: number[];
+  dueAt?: string | null;
+  type?: string;     // Inferred from the content when left out
+  details?: unknown; // Fields of the type; read from the content when left out
+  onDuplicate?: DuplicateStrategy; // Defaults to keeping both
+}
+
+type CreatedItem = Item & {
+  duplicateOf: DuplicateMatch | null; // Existing item the content matched
+  mergedIntoExisting: boolean;        // True when the returned item is that existing item
 }
 
-export const createItem: CreateItem<CreateItemInput, Item> = async (args, context) => {
+export const createItem: CreateItem<CreateItemInput, CreatedItem> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
+  await checkVisibleActivity(args.activityId, context.user.id, context);
+
+  const dueAt = parseDateArg(args.dueAt);
+  const type = parseItemTypeArg(args.type) ?? inferItemType(args.content, { tags: [], category: null, hasDate: !!dueAt });
+  const details = args.details !== undefined
+    ? normalizeItemDetails(type, args.details)
+    : extractItemDetails(args.content, type);
+  const [duplicateOf] = await findDuplicatesForContents(context.user.id, [args.content]);
+
+  let noteId = args.noteId;
+  if (noteId !== undefined) {
+    // Verify note belongs to user
+    const note = await context.entities.Note.findFirst({
+      where: {
+        id: noteId,
+        userId: context.user.id
+      }
+    });
+
+    if (!note) {
+      throw new HttpError(404, 'Note not found');
+    }
+  } else if (args.sourceNote) {
+    const note = await context.entities.Note.create({
+      data: {
+        rawText: args.sourceNote,
+        userId: context.user.id
+      }
+    });
+    noteId = note.id;
+  }
+
+  // Fold the content into the existing item: its tags and source note are added there
+  if (duplicateOf && args.onDuplicate === 'merge') {
+    const tagIds = args.tagIds ? await filterVisibleTagIds(args.tagIds, context.user.id, context) : [];
+    await prisma.$transaction(async (tx) => {
+      await mergeCapturedIntoItem(tx, duplicateOf.itemId, noteId ?? null, tagIds);
+    });
+
+    const existingItem = await context.entities.Item.findUnique({
+      where: { id: duplicateOf.itemId },
+      include: {
+        tags: {
+          include: {
+            tag: true
+          }
+        },
+        activity: true
+      }
+    });
+    if (!existingItem) {
+      throw new HttpError(404, 'Item not found');
+    }
+    return { ...existingItem, duplicateOf, mergedIntoExisting: true };
+  }
+
   // Create the item first
   const item = await context.entities.Item.create({
     data: {
       content: args.content,
-      sourceNote: args.sourceNote,
+      noteId,
       activityId: args.activityId,
+      dueAt,
+      type,
+      details: serializeItemDetails(type, await completeItemDetails(type, details)),
       userId: context.user.id,
     },
     include: {
@@ -89,7 +498,7 @@ export const createItem: CreateItem<CreateItemInput, Item> = async (args, contex
   // If tags are provided, create the tag associations
   if (args.tagIds && args.tagIds.length > 0) {
     // Limit to 3 tags as per requirements
-    const limitedTagIds = args.tagIds.slice(0, 3);
+    const limitedTagIds = (await filterVisibleTagIds(args.tagIds, context.user.id, context)).slice(0, 3);
     
     await Promise.all(
       limitedTagIds.map(tagId =>
@@ -103,7 +512,7 @@ export const createItem: CreateItem<CreateItemInput, Item> = async (args, contex
     );
 
     // Return the item with tags included
-    return context.entities.Item.findUnique({
+    const taggedItem = await context.entities.Item.findUniqueOrThrow({
       where: { id: item.id },
       include: {
         tags: {
@@ -113,10 +522,11 @@ export const createItem: CreateItem<CreateItemInput, Item> = async (args, contex
         },
         activity: true
       }
-    }) as Promise<Item>;
+    });
+    return { ...taggedItem, duplicateOf, mergedIntoExisting: false };
   }
 
-  return item;
+  return { ...item, duplicateOf, mergedIntoExisting: false };
 }
 
 type UpdateItemInput = {
@@ -125,9 +535,15 @@ type UpdateItemInput = {
   isCompleted?: boolean;
   activityId?: number;
   tagIds?: number[];
+  dueAt?: string | null;
+  type?: string;
+  details?: unknown; // Replaces the details; changing only the type reads them from the content again
+  contextActivityId?: number; // Activity the user was looking at, logged with completions
 }
 
-export const updateItem: UpdateItem<UpdateItemInput, Item> = async (args, context) => {
+type ItemWithTagsAndActivity = Prisma.ItemGetPayload<{ include: { tags: { include: { tag: true } }, activity: true } }>;
+
+export const updateItem: UpdateItem<UpdateItemInput, ItemWithTagsAndActivity> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
@@ -144,17 +560,55 @@ export const updateItem: UpdateItem<UpdateItemInput, Item> = async (args, contex
     throw new HttpError(404, 'Item not found');
   }
 
+  await checkVisibleActivity(args.activityId, context.user.id, context);
+
+  let typeUpdate = {};
+  const type = parseItemTypeArg(args.type);
+  if (args.details !== undefined || (type !== undefined && type !== existingItem.type)) {
+    const newType = type ?? (isItemType(existingItem.type) ? existingItem.type : 'note');
+    const details = args.details !== undefined
+      ? normalizeItemDetails(newType, args.details)
+      : extractItemDetails(args.content ?? existingItem.content, newType);
+    typeUpdate = {
+      type: newType,
+      details: serializeItemDetails(newType, await completeItemDetails(newType, details))
+    };
+  }
+
+  // Remember manual retagging so re-parsing a note never overwrites it
+  const isRetagged = args.tagIds !== undefined ||
+    (args.activityId !== undefined && args.activityId !== existingItem.activityId);
+
+  const isCompleting = args.isCompleted === true && !existingItem.isCompleted;
+  const user = context.user;
+
   // Update the item
-  await context.entities.Item.update({
-    where: { id: args.id },
-    data: {
-      content: args.content,
-      isCompleted: args.isCompleted,
-      activityId: args.activityId,
-      updatedAt: new Date()
-    }
+  await prisma.$transaction(async (tx) => {
+    const nextOccurrence = isCompleting
+      ? await completeOccurrence({ ...existingItem, dueAt: parseDateArg(args.dueAt) ?? existingItem.dueAt }, user, tx)
+      : null;
+
+    await tx.item.update({
+      where: { id: args.id },
+      data: {
+        content: args.content,
+        isCompleted: nextOccurrence ? false : args.isCompleted,
+        activityId: args.activityId,
+        ...typeUpdate,
+        ...(nextOccurrence
+          ? { dueAt: nextOccurrence.dueAt, remindAt: nextOccurrence.remindAt, snoozedUntil: null }
+          : { dueAt: parseDateArg(args.dueAt) }),
+        tagsEditedAt: isRetagged ? new Date() : undefined,
+        updatedAt: new Date()
+      }
+    });
   });
 
+  // Keep semantic search in line with the new wording, without holding the response on the embedding provider
+  if (args.content !== undefined && args.content !== existingItem.content) {
+    void refreshItemEmbedding({ id: args.id, content: args.content });
+  }
+
   // Handle tag updates if provided
   if (args.tagIds !== undefined) {
     // Remove existing tag associations
@@ -164,7 +618,7 @@ export const updateItem: UpdateItem<UpdateItemInput, Item> = async (args, contex
 
     // Add new tag associations (limit to 3)
     if (args.tagIds.length > 0) {
-      const limitedTagIds = args.tagIds.slice(0, 3);
+      const limitedTagIds = (await filterVisibleTagIds(args.tagIds, context.user.id, context)).slice(0, 3);
       await Promise.all(
         limitedTagIds.map(tagId =>
           context.entities.ItemTag.create({
@@ -179,7 +633,7 @@ export const updateItem: UpdateItem<UpdateItemInput, Item> = async (args, contex
   }
 
   // Return updated item with relations
-  return context.entities.Item.findUnique({
+  const updatedItem = await context.entities.Item.findUniqueOrThrow({
     where: { id: args.id },
     include: {
       tags: {
@@ -189,10 +643,18 @@ export const updateItem: UpdateItem<UpdateItemInput, Item> = async (args, contex
       },
       activity: true
     }
-  }) as Promise<Item>;
+  });
+
+  if (isCompleting) {
+    await recordItemEvent(context.user.id, updatedItem, 'complete', {
+      activityId: await resolveContextActivityId(args.contextActivityId, context.user.id, context)
+    });
+  }
+
+  return updatedItem;
 }
 
-export const deleteItem: DeleteItem<{ id: number }, void> = async (args, context) => {
+export const deleteItem: DeleteItem<{ id: number; contextActivityId?: number }, void> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
@@ -202,6 +664,13 @@ export const deleteItem: DeleteItem<{ id: number }, void> = async (args, context
     where: { 
       id: args.id, 
       userId: context.user.id 
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      }
     }
   });
 
@@ -209,13 +678,18 @@ export const deleteItem: DeleteItem<{ id: number }, void> = async (args, context
     throw new HttpError(404, 'Item not found');
   }
 
+  // Logged first, the event keeps a snapshot of the item once it is gone
+  await recordItemEvent(context.user.id, existingItem, 'delete', {
+    activityId: await resolveContextActivityId(args.contextActivityId, context.user.id, context)
+  });
+
   // Delete the item (cascading delete will handle ItemTag relations)
   await context.entities.Item.delete({
     where: { id: args.id }
   });
 }
 
-export const updateItemRelevance: UpdateItemRelevance<{ id: number; relevance: number }, Item> = async (args, context) => {
+export const updateItemRelevance: UpdateItemRelevance<{ id: number; relevance: number }, ItemWithTagsAndActivity> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
@@ -230,6 +704,13 @@ export const updateItemRelevance: UpdateItemRelevance<{ id: number; relevance: n
     where: { 
       id: args.id, 
       userId: context.user.id 
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      }
     }
   });
 
@@ -237,12 +718,11 @@ export const updateItemRelevance: UpdateItemRelevance<{ id: number; relevance: n
     throw new HttpError(404, 'Item not found');
   }
 
-  return context.entities.Item.update({
+  // Logged like any other feedback, so replaying the log reproduces manual adjustments
+  await recordItemEvent(context.user.id, existingItem, 'adjust', { relevance: args.relevance });
+
+  return context.entities.Item.findUniqueOrThrow({
     where: { id: args.id },
-    data: { 
-      relevance: args.relevance,
-      updatedAt: new Date()
-    },
     include: {
       tags: {
         include: {
@@ -255,149 +735,2948 @@ export const updateItemRelevance: UpdateItemRelevance<{ id: number; relevance: n
 }
 
 // ============================================================================
-// ACTIVITY OPERATIONS (from queries.ts)
+// FEEDBACK OPERATIONS
 // ============================================================================
 
-export const getActivities: GetActivities<void, Activity[]> = async (_args, context) => {
-  return context.entities.Activity.findMany({
-    where: {
-      isDefault: true
-    },
-    orderBy: {
-      name: 'asc'
-    }
-  })
-}
-
-// ============================================================================
-// TAG OPERATIONS
-// ============================================================================
+// Activity id as reported by the client, kept only if the user can see that activity
+async function resolveContextActivityId(
+  activityId: number | undefined,
+  userId: number,
+  context: EntitiesContext<'Activity'>
+): Promise<number | null> {
+  if (activityId === undefined) return null;
 
-export const getTags: GetTags<void, Tag[]> = async (_args, context) => {
-  return context.entities.Tag.findMany({
+  const activity = await context.entities.Activity.findFirst({
     where: {
-      userId: null // Global/default tags only
+      id: activityId,
+      ...visibleActivities(userId)
     },
-    orderBy: [
-      { category: 'asc' },
-      { name: 'asc' }
-    ]
-  })
+    select: { id: true }
+  });
+
+  return activity?.id ?? null;
 }
 
-type CreateTagInput = {
-  name: string;
-  category: string;
-  color?: string;
+type SubmitItemFeedbackInput = {
+  itemId: number;
+  kind: FeedbackKind;
+  activityId?: number; // Activity the user was looking at
 }
 
-export const createTag: CreateTag<CreateTagInput, Tag> = async (args, context) => {
+export const submitItemFeedback: SubmitItemFeedback<SubmitItemFeedbackInput, { itemId: number, relevance: number }> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  // Check if tag already exists (global or user-specific)
-  const existingTag = await context.entities.Tag.findFirst({
+  if (!USER_FEEDBACK_KINDS.includes(args.kind)) {
+    throw new HttpError(400, `Feedback must be one of: ${USER_FEEDBACK_KINDS.join(', ')}`);
+  }
+
+  const item = await context.entities.Item.findFirst({
     where: {
-      name: args.name,
-      OR: [
-        { userId: null }, // Global tag
-        { userId: context.user.id } // User's tag
-      ]
+      id: args.itemId,
+      userId: context.user.id
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      }
     }
   });
 
-  if (existingTag) {
-    throw new HttpError(400, 'Tag with this name already exists');
+  if (!item) {
+    throw new HttpError(404, 'Item not found');
   }
 
-  return context.entities.Tag.create({
-    data: {
-      name: args.name,
-      category: args.category,
-      color: args.color,
-      userId: context.user.id // User-specific tag
-    }
+  const relevance = await recordItemEvent(context.user.id, item, args.kind, {
+    activityId: await resolveContextActivityId(args.activityId, context.user.id, context)
   });
+  return { itemId: item.id, relevance };
 }
 
-// ============================================================================
-// AI OPERATIONS
-// ============================================================================
-
-export const testAIConnection: TestAIConnection<void, any> = async (_args, context) => {
-  if (!context.user) {
-    throw new HttpError(401, 'Not authorized');
-  }
-
-  try {
-    const status = await aiService.testConnection();
-    return {
-      timestamp: new Date().toISOString(),
-      ...status
-    };
-  } catch (error) {
-    return {
-      timestamp: new Date().toISOString(),
-      connected: false,
-      apiKeyConfigured: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+type RelevanceHistoryEvent = {
+  id: number;
+  kind: string;
+  relevanceBefore: number | null;
+  relevanceAfter: number | null;
+  activity: { id: number, name: string, icon: string | null } | null;
+  targets: Array<{ targetType: string, targetId: number }>;
+  createdAt: Date;
 }
 
-type TestTagSuggestionInput = {
-  text: string;
+type RelevanceHistory = {
+  itemId: number;
+  content: string;
+  relevance: number;
+  preferenceScore: number;
+  ranking: RankingBreakdown; // Without activity context, as in the "All Items" view
+  // What the item's tags, categories and activity currently weigh, null when nothing was learned yet
+  weights: Array<{ targetType: PreferenceTargetType, targetId: number, name: string, weight: number | null }>;
+  events: RelevanceHistoryEvent[]; // Oldest first
 }
 
-export const testTagSuggestion: TestTagSuggestion<TestTagSuggestionInput, any> = async (args, context) => {
+// Why an item ranks where it does: every logged event plus the learned weights its rank depends on
+export const getItemRelevanceHistory: GetItemRelevanceHistory<{ itemId: number }, RelevanceHistory> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  try {
-    // Get available tags from database
-    const availableTags = await context.entities.Tag.findMany({
+  const item = await context.entities.Item.findFirst({
+    where: {
+      id: args.itemId,
+      userId: context.user.id
+    },
+    include: {
+      tags: {
+        include: {
+          tag: {
+            include: {
+              category: true
+            }
+          }
+        }
+      },
+      activity: true
+    }
+  });
+
+  if (!item) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  const [events, rankingContext] = await Promise.all([
+    context.entities.FeedbackEvent.findMany({
       where: {
-        userId: null // Global tags only
+        itemId: item.id,
+        userId: context.user.id
       },
-      select: {
-        name: true
-      }
-    });
+      include: {
+        activity: {
+          select: { id: true, name: true, icon: true }
+        }
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    }),
+    loadRankingContext(context.user.id, [item.id], context)
+  ]);
+  const weights = rankingContext.preferences;
 
-    const tagNames = availableTags.map(tag => tag.name);
-    const suggestedTags = await aiService.suggestTags(args.text, tagNames);
+  const names = new Map<string, string>([
+    ...item.tags.map(({ tag }): [string, string] => [`tag:${tag.id}`, tag.name]),
+    ...item.tags.map(({ tag }): [string, string] => [`category:${tag.categoryId}`, tag.category.name]),
+    ...(item.activity ? [[`activity:${item.activity.id}`, item.activity.name] as [string, string]] : [])
+  ]);
 
-    return {
-      timestamp: new Date().toISOString(),
-      provider: aiService.getProvider(),
-      input: args.text,
-      availableTagCount: tagNames.length,
-      suggestedTags: suggestedTags
-    };
-  } catch (error) {
-    return {
-      timestamp: new Date().toISOString(),
-      provider: aiService.getProvider(),
-      input: args.text,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      suggestedTags: []
-    };
+  return {
+    itemId: item.id,
+    content: item.content,
+    relevance: item.relevance,
+    preferenceScore: preferenceScore(item, weights),
+    ranking: rankItem(item, { ...rankingContext, lastInteractionAt: rankingContext.lastInteractions.get(item.id) }),
+    weights: weightsForItem(item, weights).map(target => ({
+      ...target,
+      name: names.get(`${target.targetType}:${target.targetId}`) || `#${target.targetId}`
+    })),
+    events: events.map(event => ({
+      id: event.id,
+      kind: event.kind,
+      relevanceBefore: event.relevanceBefore,
+      relevanceAfter: event.relevanceAfter,
+      activity: event.activity,
+      targets: parseTargets(event.targets),
+      createdAt: event.createdAt
+    }))
+  };
+}
+
+// Rebuild preference weights and item relevance from the feedback log
+export const recomputeRelevance: RecomputeRelevance<void, { eventCount: number, itemCount: number, weightCount: number }> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
   }
+
+  return replayFeedbackEvents(context.user.id);
 }
 
-type TestAIProviderInput = {
-  provider: 'huggingface' | 'openai' | 'google';
-  text: string;
+type PreferenceWeightView = {
+  id: number;
+  targetType: PreferenceTargetType;
+  targetId: number;
+  name: string; // Name of the tag, category or activity
+  weight: number;
+  eventCount: number;
+  updatedAt: Date;
 }
 
-export const testAIProvider: TestAIProvider<TestAIProviderInput, any> = async (args, context) => {
+export const getPreferenceWeights: GetPreferenceWeights<void, PreferenceWeightView[]> = async (_args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  try {
+  const weights = await context.entities.PreferenceWeight.findMany({
+    where: { userId: context.user.id },
+    orderBy: { weight: 'asc' } // Most dismissed first
+  });
+
+  const idsOf = (targetType: string) => weights
+    .filter(weight => weight.targetType === targetType)
+    .map(weight => weight.targetId);
+  const [tags, categories, activities] = await Promise.all([
+    context.entities.Tag.findMany({ where: { id: { in: idsOf('tag') } }, select: { id: true, name: true } }),
+    context.entities.TagCategory.findMany({ where: { id: { in: idsOf('category') } }, select: { id: true, name: true } }),
+    context.entities.Activity.findMany({ where: { id: { in: idsOf('activity') } }, select: { id: true, name: true } })
+  ]);
+  const names: { [targetType in PreferenceTargetType]: Map<number, string> } = {
+    tag: new Map(tags.map(tag => [tag.id, tag.name])),
+    category: new Map(categories.map(category => [category.id, category.name])),
+    activity: new Map(activities.map(activity => [activity.id, activity.name]))
+  };
+
+  // Weights of deleted tags, categories or activities no longer affect anything, so they are left out
+  return weights.flatMap(weight => {
+    const { targetType } = weight;
+    if (!isPreferenceTargetType(targetType)) return [];
+    const name = names[targetType].get(weight.targetId);
+    if (name === undefined) return [];
+
+    return [{
+      id: weight.id,
+      targetType,
+      targetId: weight.targetId,
+      name,
+      weight: weight.weight,
+      eventCount: weight.eventCount,
+      updatedAt: weight.updatedAt
+    }];
+  });
+}
+
+// Forget one learned weight, or all of them when no id is given; items' own relevance is kept.
+// The feedback log is untouched, but each reset target is stamped so recomputing relevance only
+// learns it again from feedback given after the reset
+export const resetPreferenceWeights: ResetPreferenceWeights<{ id?: number } | void, { deletedCount: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+  const userId = context.user.id;
+
+  const weights = await context.entities.PreferenceWeight.findMany({
+    where: {
+      userId,
+      ...(args?.id !== undefined ? { id: args.id } : {})
+    }
+  });
+
+  if (args?.id !== undefined && weights.length === 0) {
+    throw new HttpError(404, 'Preference not found');
+  }
+
+  const resetAt = new Date();
+  await prisma.$transaction(async (tx) => {
+    for (const weight of weights) {
+      await tx.preferenceReset.upsert({
+        where: { userId_targetType_targetId: { userId, targetType: weight.targetType, targetId: weight.targetId } },
+        create: { userId, targetType: weight.targetType, targetId: weight.targetId, resetAt },
+        update: { resetAt }
+      });
+    }
+    await tx.preferenceWeight.deleteMany({ where: { id: { in: weights.map(weight => weight.id) } } });
+  });
+
+  return { deletedCount: weights.length };
+}
+
+// ============================================================================
+// RANKING OPERATIONS
+// ============================================================================
+
+export const getRankingPreference: GetRankingPreference<void, RankingWeights & { isDefault: boolean }> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const stored = await context.entities.RankingPreference.findUnique({
+    where: { userId: context.user.id }
+  });
+
+  return { ...toRankingWeights(stored), isDefault: !stored };
+}
+
+export const updateRankingPreference: UpdateRankingPreference<Partial<RankingWeights>, RankingWeights & { isDefault: boolean }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const data: Partial<RankingWeights> = {};
+  for (const signal of RANKING_SIGNALS) {
+    const weight = args[signal];
+    if (weight === undefined) continue;
+    if (typeof weight !== 'number' || weight < 0 || weight > MAX_SIGNAL_WEIGHT) {
+      throw new HttpError(400, `Weight for ${signal} must be between 0 and ${MAX_SIGNAL_WEIGHT}`);
+    }
+    data[signal] = weight;
+  }
+
+  if (args.ageHalfLifeDays !== undefined) {
+    if (typeof args.ageHalfLifeDays !== 'number' || args.ageHalfLifeDays < 1 || args.ageHalfLifeDays > MAX_AGE_HALF_LIFE_DAYS) {
+      throw new HttpError(400, `Age half-life must be between 1 and ${MAX_AGE_HALF_LIFE_DAYS} days`);
+    }
+    data.ageHalfLifeDays = args.ageHalfLifeDays;
+  }
+
+  const stored = await context.entities.RankingPreference.upsert({
+    where: { userId: context.user.id },
+    create: { ...DEFAULT_RANKING_WEIGHTS, ...data, userId: context.user.id },
+    update: data
+  });
+
+  return { ...toRankingWeights(stored), isDefault: false };
+}
+
+export const resetRankingPreference: ResetRankingPreference<void, RankingWeights & { isDefault: boolean }> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  await context.entities.RankingPreference.deleteMany({
+    where: { userId: context.user.id }
+  });
+
+  return { ...DEFAULT_RANKING_WEIGHTS, isDefault: true };
+}
+
+// ============================================================================
+// REMINDER OPERATIONS
+// ============================================================================
+
+// How far ahead the "Upcoming" group of the schedule looks
+const UPCOMING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScheduleItemInput = {
+  id: number;
+  dueAt?: string | null;
+  remindAt?: string | null;
+  recurrenceRule?: string | null; // RRULE subset, see src/server/recurrence.ts
+}
+
+export const scheduleItem: ScheduleItem<ScheduleItemInput, Item> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const existingItem = await context.entities.Item.findFirst({
+    where: {
+      id: args.id,
+      userId: context.user.id
+    }
+  });
+
+  if (!existingItem) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  let dueAt = parseDateArg(args.dueAt);
+  const remindAt = parseDateArg(args.remindAt, 'Reminder');
+  let recurrenceRule: string | null | undefined = undefined;
+  if (args.recurrenceRule !== undefined) {
+    recurrenceRule = args.recurrenceRule === null ? null : normalizeRecurrenceRule(args.recurrenceRule);
+    if (args.recurrenceRule !== null && !recurrenceRule) {
+      throw new HttpError(400, 'Invalid recurrence rule');
+    }
+  }
+
+  // A series needs a first occurrence to count from, and a monthly one keeps to that day
+  const currentDate = (dueAt !== undefined ? dueAt : existingItem.dueAt) || (remindAt !== undefined ? remindAt : existingItem.remindAt);
+  if (recurrenceRule && !currentDate) {
+    dueAt = firstOccurrence(parseRecurrenceRule(recurrenceRule)!, new Date(), userTimeZone(context.user));
+  }
+  const start = currentDate || dueAt;
+  if (recurrenceRule && start) {
+    recurrenceRule = anchorRecurrenceRule(recurrenceRule, start, userTimeZone(context.user));
+  }
+
+  return context.entities.Item.update({
+    where: { id: args.id },
+    data: {
+      dueAt,
+      remindAt,
+      recurrenceRule,
+      updatedAt: new Date()
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      },
+      activity: true
+    }
+  });
+}
+
+type SnoozeItemInput = {
+  id: number;
+  until: string | null;       // Null wakes the item up right away
+  contextActivityId?: number; // Activity the user was looking at, logged with the snooze
+}
+
+export const snoozeItem: SnoozeItem<SnoozeItemInput, Item> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const snoozedUntil = parseDateArg(args.until, 'Snooze time') ?? null;
+  if (snoozedUntil && snoozedUntil.getTime() <= Date.now()) {
+    throw new HttpError(400, 'Snooze time must be in the future');
+  }
+
+  const existingItem = await context.entities.Item.findFirst({
+    where: {
+      id: args.id,
+      userId: context.user.id
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      }
+    }
+  });
+
+  if (!existingItem) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  const updatedItem = await context.entities.Item.update({
+    where: { id: args.id },
+    data: { snoozedUntil, updatedAt: new Date() },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      },
+      activity: true
+    }
+  });
+
+  if (snoozedUntil) {
+    await recordItemEvent(context.user.id, existingItem, 'snooze', {
+      activityId: await resolveContextActivityId(args.contextActivityId, context.user.id, context)
+    });
+  }
+
+  return updatedItem;
+}
+
+export const getItemCompletions: GetItemCompletions<{ itemId: number }, ItemCompletion[]> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const item = await context.entities.Item.findFirst({
+    where: {
+      id: args.itemId,
+      userId: context.user.id
+    }
+  });
+
+  if (!item) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  return context.entities.ItemCompletion.findMany({
+    where: { itemId: args.itemId },
+    orderBy: { completedAt: 'desc' }
+  });
+}
+
+type ScheduledItem = Prisma.ItemGetPayload<{ include: { tags: { include: { tag: true } }, activity: true, note: true } }>;
+
+type ItemSchedule = {
+  overdue: ScheduledItem[];  // Due date has passed
+  today: ScheduledItem[];    // Due or reminding later today, or reminded earlier today
+  upcoming: ScheduledItem[]; // Due or reminding within the next week
+}
+
+// The client passes its Date.getTimezoneOffset() so "today" is the user's day, not the server's
+export const getItemSchedule: GetItemSchedule<{ timezoneOffset?: number } | void, ItemSchedule> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const offsetMs = (args?.timezoneOffset ?? 0) * 60 * 1000;
+  const now = new Date();
+  const startOfToday = new Date(Math.floor((now.getTime() - offsetMs) / DAY_MS) * DAY_MS + offsetMs);
+  const endOfToday = new Date(startOfToday.getTime() + DAY_MS);
+  const endOfUpcoming = new Date(endOfToday.getTime() + UPCOMING_DAYS * DAY_MS);
+
+  const items = await context.entities.Item.findMany({
+    where: {
+      userId: context.user.id,
+      isCompleted: false,
+      AND: [
+        { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+        {
+          OR: [
+            { dueAt: { lt: endOfUpcoming } },
+            { remindAt: { gte: startOfToday, lt: endOfUpcoming } }
+          ]
+        }
+      ]
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      },
+      activity: true,
+      note: true
+    }
+  });
+
+  // An item sits where its earliest date within the view puts it; past reminders only count today
+  const schedule: ItemSchedule = { overdue: [], today: [], upcoming: [] };
+  const momentOf = (item: Item) => Math.min(
+    item.dueAt ? item.dueAt.getTime() : Infinity,
+    item.remindAt && item.remindAt >= startOfToday ? item.remindAt.getTime() : Infinity
+  );
+
+  for (const item of items.sort((a, b) => momentOf(a) - momentOf(b))) {
+    if (item.dueAt && item.dueAt < now) {
+      schedule.overdue.push(item);
+    } else if (momentOf(item) < endOfToday.getTime()) {
+      schedule.today.push(item);
+    } else {
+      schedule.upcoming.push(item);
+    }
+  }
+
+  return schedule;
+}
+
+// Most recent first; older read notifications are left out
+const NOTIFICATION_LIMIT = 50;
+
+type NotificationWithItem = Prisma.NotificationGetPayload<{ include: { item: true } }>;
+
+export const getNotifications: GetNotifications<{ unreadOnly?: boolean } | void, NotificationWithItem[]> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  return context.entities.Notification.findMany({
+    where: {
+      userId: context.user.id,
+      ...(args?.unreadOnly ? { readAt: null } : {})
+    },
+    include: {
+      item: true
+    },
+    orderBy: { createdAt: 'desc' },
+    take: NOTIFICATION_LIMIT
+  });
+}
+
+// Marks the given notifications read, or all of them without ids
+export const markNotificationsRead: MarkNotificationsRead<{ ids?: number[] } | void, { count: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const { count } = await context.entities.Notification.updateMany({
+    where: {
+      userId: context.user.id,
+      readAt: null,
+      ...(args?.ids ? { id: { in: args.ids } } : {})
+    },
+    data: { readAt: new Date() }
+  });
+
+  return { count };
+}
+
+// ============================================================================
+// SHOPPING LIST OPERATIONS
+// ============================================================================
+
+export const getShoppingList: GetShoppingList<void, ShoppingList> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  // Recurring staples ("milk every week") come back on the list once their next occurrence is due.
+  // One bought today stays listed as purchased until then, so the purchase can still be undone
+  const now = new Date();
+  const timeZone = userTimeZone(context.user);
+  const today = zonedNow(now, timeZone);
+  const startOfToday = zonedToInstant(today, { hour: 0, minute: 0 }, timeZone);
+  const endOfToday = zonedToInstant(addDays(today, 1), { hour: 0, minute: 0 }, timeZone);
+  const boughtToday = { completedAt: { gte: startOfToday } };
+
+  const items = await context.entities.Item.findMany({
+    where: {
+      ...shoppingItemFilter(context.user.id),
+      AND: [
+        { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+        {
+          OR: [
+            { recurrenceRule: null },
+            { dueAt: null },
+            { dueAt: { lt: endOfToday } },
+            { completions: { some: boughtToday } }
+          ]
+        }
+      ]
+    },
+    select: {
+      id: true,
+      content: true,
+      type: true,
+      details: true,
+      noteId: true,
+      isCompleted: true,
+      dueAt: true,
+      completions: { where: boughtToday, select: { id: true }, take: 1 }
+    },
+    orderBy: {
+      createdAt: 'asc'
+    }
+  });
+
+  return buildShoppingList(items.map(({ dueAt, completions, ...item }) => ({
+    ...item,
+    isCompleted: item.isCompleted || (completions.length > 0 && !(dueAt && dueAt < endOfToday))
+  })));
+}
+
+type SetShoppingItemsPurchasedInput = {
+  itemIds: number[];          // Every item merged into the checked entry
+  purchased: boolean;         // False puts them back on the list
+  contextActivityId?: number;
+}
+
+export const setShoppingItemsPurchased: SetShoppingItemsPurchased<SetShoppingItemsPurchasedInput, { count: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  if (!Array.isArray(args.itemIds) || args.itemIds.length === 0) {
+    throw new HttpError(400, 'No items to check off');
+  }
+
+  const items = await context.entities.Item.findMany({
+    where: {
+      id: { in: args.itemIds },
+      userId: context.user.id
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      }
+    }
+  });
+  const activityId = await resolveContextActivityId(args.contextActivityId, context.user.id, context);
+  const user = context.user;
+
+  let count = 0;
+  for (const item of items) {
+    if (args.purchased) {
+      if (item.isCompleted) continue;
+
+      // Buying a recurring staple moves it to its next occurrence, like completing it anywhere else
+      await prisma.$transaction(async (tx) => {
+        const nextOccurrence = await completeOccurrence(item, user, tx);
+        await tx.item.update({
+          where: { id: item.id },
+          data: nextOccurrence
+            ? { dueAt: nextOccurrence.dueAt, remindAt: nextOccurrence.remindAt, snoozedUntil: null }
+            : { isCompleted: true }
+        });
+      });
+      await recordItemEvent(context.user.id, item, 'complete', { activityId });
+    } else if (item.recurrenceRule) {
+      if (!(await undoLastOccurrence(item, user.id))) continue;
+    } else {
+      if (!item.isCompleted) continue;
+      await context.entities.Item.update({
+        where: { id: item.id },
+        data: { isCompleted: false }
+      });
+    }
+    count++;
+  }
+
+  return { count };
+}
+
+// Un-checking a recurring staple takes back its last purchase: the item returns to the occurrence it
+// was on and the completion, with the feedback it logged, is removed. False when there is nothing to undo
+async function undoLastOccurrence(item: Item, userId: number): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const completion = await tx.itemCompletion.findFirst({
+      where: { itemId: item.id },
+      orderBy: { completedAt: 'desc' }
+    });
+    if (!completion) return false;
+
+    const event = await tx.feedbackEvent.findFirst({
+      where: { itemId: item.id, userId, kind: 'complete', createdAt: { gte: completion.completedAt } },
+      orderBy: { createdAt: 'desc' }
+    });
+    if (event) {
+      await tx.feedbackEvent.delete({ where: { id: event.id } });
+    }
+
+    await tx.itemCompletion.delete({ where: { id: completion.id } });
+    await tx.item.update({
+      where: { id: item.id },
+      data: {
+        dueAt: completion.dueAt,
+        remindAt: completion.remindAt,
+        isCompleted: false,
+        ...(event?.relevanceBefore != null ? { relevance: event.relevanceBefore } : {})
+      }
+    });
+    return true;
+  });
+}
+
+type ClearPurchasedShoppingItemsInput = {
+  itemIds: number[];          // The purchased entries the list shows
+  contextActivityId?: number;
+}
+
+// Only what the list showed as purchased is removed. Recurring staples stay for their next occurrence
+export const clearPurchasedShoppingItems: ClearPurchasedShoppingItems<ClearPurchasedShoppingItemsInput, { deletedCount: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  if (!Array.isArray(args.itemIds)) {
+    throw new HttpError(400, 'No items to clear');
+  }
+
+  const purchasedItems = await context.entities.Item.findMany({
+    where: {
+      ...shoppingItemFilter(context.user.id),
+      id: { in: args.itemIds },
+      isCompleted: true
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      }
+    }
+  });
+  const activityId = await resolveContextActivityId(args.contextActivityId, context.user.id, context);
+
+  // Logged first, like a single delete, so the events keep a snapshot of the items
+  for (const item of purchasedItems) {
+    await recordItemEvent(context.user.id, item, 'delete', { activityId });
+  }
+
+  const { count } = await context.entities.Item.deleteMany({
+    where: {
+      id: { in: purchasedItems.map(item => item.id) }
+    }
+  });
+
+  return { deletedCount: count };
+}
+
+// ============================================================================
+// RECIPE OPERATIONS
+// ============================================================================
+
+// Tags that mark an item as something to cook with
+const INGREDIENT_TAGS = ['ingredients', 'groceries'];
+
+const RECIPE_CACHE_TTL_MS = 7 * DAY_MS;
+
+const MAX_RECIPE_WISHES = 10;
+
+// The user's own tag wins over a global tag with the same name
+async function findTagIdByName(name: string, userId: number, context: EntitiesContext<'Tag'>): Promise<number | null> {
+  const tag = await context.entities.Tag.findFirst({
+    where: {
+      name,
+      ...ownedOrGlobal(userId)
+    },
+    orderBy: {
+      userId: 'desc'
+    },
+    select: { id: true }
+  });
+  return tag?.id ?? null;
+}
+
+type SuggestRecipesInput = {
+  activityId?: number; // Meal planning activity whose open items are passed along as wishes
+  refresh?: boolean;   // Ask the provider again even when suggestions are cached
+}
+
+type SuggestRecipesResult = {
+  recipes: RecipeSuggestion[];
+  ingredients: string[]; // What the suggestions were asked for
+  cached: boolean;
+  generatedAt: Date | null;
+}
+
+export const suggestRecipes: SuggestRecipes<SuggestRecipesInput | void, SuggestRecipesResult> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const ingredientItems = await context.entities.Item.findMany({
+    where: {
+      userId: context.user.id,
+      isCompleted: false,
+      OR: [
+        { type: 'shopping' },
+        { tags: { some: { tag: { name: { in: INGREDIENT_TAGS } } } } }
+      ]
+    },
+    select: {
+      id: true,
+      content: true,
+      type: true,
+      details: true,
+      noteId: true,
+      isCompleted: true
+    }
+  });
+  // Merged like on the shopping list, so "2 tomatoes" and "3 tomatoes" are asked for once
+  const ingredients = buildShoppingList(ingredientItems).aisles.flatMap(aisle => aisle.entries.map(entry => entry.name));
+
+  if (ingredients.length === 0) {
+    return { recipes: [], ingredients, cached: false, generatedAt: null };
+  }
+
+  let wishes: string[] = [];
+  const activityId = await resolveContextActivityId(args?.activityId, context.user.id, context);
+  if (activityId !== null) {
+    const wishItems = await context.entities.Item.findMany({
+      where: {
+        userId: context.user.id,
+        activityId,
+        isCompleted: false,
+        type: { not: 'shopping' }
+      },
+      orderBy: { relevance: 'desc' },
+      take: MAX_RECIPE_WISHES,
+      select: { content: true }
+    });
+    wishes = wishItems.map(item => item.content);
+  }
+
+  const ingredientKey = ingredientSetKey({ ingredients, wishes });
+  const provider = aiService.getProvider();
+  const cacheKey = { userId: context.user.id, ingredientKey, provider };
+
+  const cachedEntry = await context.entities.RecipeSuggestionCache.findUnique({
+    where: { userId_ingredientKey_provider: cacheKey }
+  });
+  if (cachedEntry && !args?.refresh && Date.now() - cachedEntry.createdAt.getTime() < RECIPE_CACHE_TTL_MS) {
+    return {
+      recipes: narrowRecipeSuggestions(JSON.parse(cachedEntry.recipes), ingredients),
+      ingredients,
+      cached: true,
+      generatedAt: cachedEntry.createdAt
+    };
+  }
+
+  const recipes = await suggestRecipesFor({ ingredients, wishes });
+  if (recipes.length === 0) {
+    throw new HttpError(502, 'No recipe suggestions; check that the AI provider is configured');
+  }
+
+  const generatedAt = new Date();
+  await context.entities.RecipeSuggestionCache.upsert({
+    where: { userId_ingredientKey_provider: cacheKey },
+    create: { ...cacheKey, recipes: JSON.stringify(recipes), createdAt: generatedAt },
+    update: { recipes: JSON.stringify(recipes), createdAt: generatedAt }
+  });
+
+  return { recipes, ingredients, cached: false, generatedAt };
+}
+
+type SaveRecipeSuggestionInput = {
+  recipe: RecipeSuggestion;
+  activityId?: number;
+}
+
+// The suggested recipe becomes a recipe item with every ingredient it needs
+export const saveRecipeSuggestion: SaveRecipeSuggestion<SaveRecipeSuggestionInput, Item> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const title = args.recipe?.title?.trim();
+  if (!title) {
+    throw new HttpError(400, 'Recipe title is required');
+  }
+
+  const details = normalizeItemDetails('recipe', {
+    ingredients: [...(args.recipe.usedIngredients ?? []), ...(args.recipe.missingIngredients ?? [])],
+    steps: args.recipe.steps
+  });
+  const activityId = await resolveContextActivityId(args.activityId, context.user.id, context);
+  const tagId = await findTagIdByName('recipes', context.user.id, context);
+
+  return context.entities.Item.create({
+    data: {
+      content: title,
+      type: 'recipe',
+      details: serializeItemDetails('recipe', details),
+      activityId,
+      userId: context.user.id,
+      tags: tagId ? { create: [{ tagId }] } : undefined
+    },
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      },
+      activity: true
+    }
+  });
+}
+
+type AddedIngredients = {
+  added: Item[];
+  skipped: string[]; // Already on the shopping list
+}
+
+// Ingredient lines ("200 g guanciale") become tagged shopping items, except products already on the list
+async function addIngredientsToShoppingList(lines: string[], userId: number, context: EntitiesContext<'Item' | 'Tag'>): Promise<AddedIngredients> {
+  const listItems = await context.entities.Item.findMany({
+    where: {
+      ...shoppingItemFilter(userId),
+      isCompleted: false
+    },
+    select: {
+      id: true,
+      content: true,
+      type: true,
+      details: true,
+      noteId: true,
+      isCompleted: true
+    }
+  });
+  const onList = new Set(buildShoppingList(listItems).aisles.flatMap(aisle => aisle.entries.map(entry => entry.key)));
+  const tagId = await findTagIdByName('ingredients', userId, context);
+
+  const added: Item[] = [];
+  const skipped: string[] = [];
+  for (const line of lines) {
+    const details = extractShoppingDetails(line);
+    const key = productKey(details.name || line);
+    if (onList.has(key)) {
+      skipped.push(line);
+      continue;
+    }
+    onList.add(key);
+
+    added.push(await context.entities.Item.create({
+      data: {
+        content: line,
+        type: 'shopping',
+        details: serializeItemDetails('shopping', details),
+        userId,
+        tags: tagId ? { create: [{ tagId }] } : undefined
+      }
+    }));
+  }
+
+  return { added, skipped };
+}
+
+type AddMissingIngredientsInput = {
+  ingredients: string[]; // As worded in the recipe ("200 g guanciale")
+}
+
+export const addMissingIngredients: AddMissingIngredients<AddMissingIngredientsInput, AddedIngredients> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const ingredients = (Array.isArray(args.ingredients) ? args.ingredients : [])
+    .filter((ingredient): ingredient is string => typeof ingredient === 'string')
+    .map(ingredient => ingredient.trim())
+    .filter(Boolean);
+  if (ingredients.length === 0) {
+    throw new HttpError(400, 'No ingredients to add');
+  }
+
+  return addIngredientsToShoppingList(ingredients, context.user.id, context);
+}
+
+// ============================================================================
+// MEAL PLAN OPERATIONS
+// ============================================================================
+
+// Tags that mark an item as something to put on the meal plan
+const COOKING_TAGS = ['cooking', 'recipes', 'meal-prep'];
+
+const MEAL_CANDIDATE_LIMIT = 50;
+
+// Slots "fill my week" plans when the user doesn't pick any
+const DEFAULT_FILL_MEALS: MealSlot[] = ['lunch', 'dinner'];
+
+const MAX_DIETARY_PREFERENCES_LENGTH = 500;
+
+type MealPlanItem = {
+  id: number;
+  content: string;
+  type: string;
+  details: string | null;
+  isCompleted: boolean;
+  dueAt: Date | null;
+}
+
+type MealPlanEntryView = {
+  id: number;
+  day: string;
+  meal: MealSlot;
+  sourceItemId: number | null;
+  item: MealPlanItem;
+}
+
+const MEAL_PLAN_ITEM_SELECT = {
+  id: true,
+  content: true,
+  type: true,
+  details: true,
+  isCompleted: true,
+  dueAt: true
+} satisfies Prisma.ItemSelect;
+
+const MEAL_PLAN_ENTRY_INCLUDE = {
+  item: { select: MEAL_PLAN_ITEM_SELECT }
+} satisfies Prisma.MealPlanEntryInclude;
+
+type MealPlanEntryWithItem = Prisma.MealPlanEntryGetPayload<{ include: typeof MEAL_PLAN_ENTRY_INCLUDE }>;
+
+function parseDayKeyArg(value: unknown): string {
+  if (typeof value !== 'string' || !parseDayKey(value)) {
+    throw new HttpError(400, 'Day must be a date like 2026-10-19');
+  }
+  return value;
+}
+
+function parseMealArg(value: unknown): MealSlot {
+  if (!isMealSlot(value)) {
+    throw new HttpError(400, `Unknown meal "${value}"`);
+  }
+  return value;
+}
+
+function parseDietaryPreferencesArg(value: unknown): string | null {
+  if (value !== null && typeof value !== 'string') {
+    throw new HttpError(400, 'Dietary preferences must be text');
+  }
+  return value?.trim().slice(0, MAX_DIETARY_PREFERENCES_LENGTH) || null;
+}
+
+function todayKey(user: { timezone: string | null }): string {
+  return toDayKey(zonedNow(new Date(), userTimeZone(user)));
+}
+
+// A planned meal is due at the meal's time on its day, in the user's time zone
+function mealDueAt(day: string, meal: MealSlot, user: { timezone: string | null }): Date {
+  return zonedToInstant(parseDayKey(day)!, MEALS[meal], userTimeZone(user));
+}
+
+function toMealPlanEntryView(entry: MealPlanEntryWithItem): MealPlanEntryView {
+  return {
+    id: entry.id,
+    day: entry.day,
+    meal: entry.meal as MealSlot, // Only ever written through parseMealArg
+    sourceItemId: entry.sourceItemId,
+    item: entry.item
+  };
+}
+
+// Planned meals without an activity of their own go to the user's meal planner activity
+async function findMealPlannerActivityId(userId: number, context: EntitiesContext<'Activity'>): Promise<number | null> {
+  const activity = await context.entities.Activity.findFirst({
+    where: {
+      layout: 'meals',
+      isArchived: false,
+      ...visibleActivities(userId)
+    },
+    orderBy: {
+      userId: 'desc'
+    },
+    select: { id: true }
+  });
+  return activity?.id ?? null;
+}
+
+type PlannedMeal = {
+  content: string;
+  type: ItemType;
+  details: ItemDetails;
+  tagIds: number[];
+  activityId: number | null;
+  sourceItemId: number | null;
+}
+
+async function createPlannedMeal(
+  user: { id: number, timezone: string | null },
+  day: string,
+  meal: MealSlot,
+  planned: PlannedMeal,
+  context: EntitiesContext<'Activity'>
+): Promise<MealPlanEntryView> {
+  const activityId = planned.activityId ?? await findMealPlannerActivityId(user.id, context);
+
+  // The item and its slot are created together, so a failure never leaves an unplanned meal behind
+  const entry = await prisma.$transaction(async (tx) => {
+    const item = await tx.item.create({
+      data: {
+        content: planned.content,
+        type: planned.type,
+        details: serializeItemDetails(planned.type, planned.details),
+        dueAt: mealDueAt(day, meal, user),
+        activityId,
+        userId: user.id,
+        tags: planned.tagIds.length > 0 ? { create: planned.tagIds.map(tagId => ({ tagId })) } : undefined
+      }
+    });
+
+    return tx.mealPlanEntry.create({
+      data: {
+        day,
+        meal,
+        itemId: item.id,
+        sourceItemId: planned.sourceItemId,
+        userId: user.id
+      },
+      include: MEAL_PLAN_ENTRY_INCLUDE
+    });
+  });
+  return toMealPlanEntryView(entry);
+}
+
+// The planned meal copies the recipe or cooking item it comes from, which stays available to plan again
+async function plannedMealFromSource(sourceItemId: number, userId: number, context: EntitiesContext<'Item'>): Promise<PlannedMeal> {
+  const source = await context.entities.Item.findFirst({
+    where: {
+      id: sourceItemId,
+      userId
+    },
+    include: {
+      tags: true
+    }
+  });
+
+  if (!source) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  const type = isItemType(source.type) ? source.type : 'note';
+  return {
+    content: source.content,
+    type,
+    details: parseItemDetails(type, source.details),
+    tagIds: source.tags.map(itemTag => itemTag.tagId),
+    activityId: source.activityId,
+    sourceItemId: source.id
+  };
+}
+
+type MealPlanView = {
+  weekStart: string;
+  days: string[];
+  today: string;
+  entries: MealPlanEntryView[];
+  candidates: Array<Pick<Item, 'id' | 'content' | 'type' | 'details'>>; // Recipe and cooking items to drop on the grid
+  ingredients: ConsolidatedIngredient[];                                // What the week's open meals need
+  dietaryPreferences: string | null;
+}
+
+// Ingredients of the week's planned recipes that are still to cook, added up per product
+function weekIngredients(entries: MealPlanEntryView[]): ConsolidatedIngredient[] {
+  const lines = entries
+    .filter(entry => entry.item.type === 'recipe' && !entry.item.isCompleted)
+    .flatMap(entry => parseItemDetails('recipe', entry.item.details).ingredients);
+  return consolidateIngredients(lines);
+}
+
+async function loadWeekEntries(userId: number, days: string[], context: EntitiesContext<'MealPlanEntry'>): Promise<MealPlanEntryView[]> {
+  const entries = await context.entities.MealPlanEntry.findMany({
+    where: {
+      userId,
+      day: { in: days }
+    },
+    include: MEAL_PLAN_ENTRY_INCLUDE,
+    orderBy: { createdAt: 'asc' }
+  });
+  return entries.map(toMealPlanEntryView);
+}
+
+export const getMealPlan: GetMealPlan<{ weekStart?: string } | void, MealPlanView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const today = todayKey(context.user);
+  const weekStart = weekStartOf(args?.weekStart !== undefined ? parseDayKeyArg(args.weekStart) : today);
+  const days = weekDayKeys(weekStart);
+
+  const [entries, candidates] = await Promise.all([
+    loadWeekEntries(context.user.id, days, context),
+    context.entities.Item.findMany({
+      where: {
+        userId: context.user.id,
+        isCompleted: false,
+        mealPlanEntry: { is: null },
+        OR: [
+          { type: 'recipe' },
+          { tags: { some: { tag: { name: { in: COOKING_TAGS } } } } }
+        ]
+      },
+      select: {
+        id: true,
+        content: true,
+        type: true,
+        details: true
+      },
+      orderBy: [
+        { relevance: 'desc' },
+        { createdAt: 'desc' }
+      ],
+      take: MEAL_CANDIDATE_LIMIT
+    })
+  ]);
+
+  return {
+    weekStart,
+    days,
+    today,
+    entries,
+    candidates,
+    ingredients: weekIngredients(entries),
+    dietaryPreferences: context.user.dietaryPreferences ?? null
+  };
+}
+
+type PlanMealInput = {
+  day: string;
+  meal: string;
+  sourceItemId?: number; // Recipe or cooking item dropped on the slot
+  content?: string;      // Or a meal typed in
+}
+
+export const planMeal: PlanMeal<PlanMealInput, MealPlanEntryView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const day = parseDayKeyArg(args.day);
+  const meal = parseMealArg(args.meal);
+
+  if (args.sourceItemId !== undefined) {
+    const planned = await plannedMealFromSource(args.sourceItemId, context.user.id, context);
+    return createPlannedMeal(context.user, day, meal, planned, context);
+  }
+
+  const content = args.content?.trim();
+  if (!content) {
+    throw new HttpError(400, 'Pick a recipe or type a meal');
+  }
+  return createPlannedMeal(context.user, day, meal, {
+    content,
+    type: 'recipe',
+    details: normalizeItemDetails('recipe', {}),
+    tagIds: [],
+    activityId: null,
+    sourceItemId: null
+  }, context);
+}
+
+type MoveMealPlanEntryInput = {
+  id: number;
+  day: string;
+  meal: string;
+}
+
+export const moveMealPlanEntry: MoveMealPlanEntry<MoveMealPlanEntryInput, MealPlanEntryView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const day = parseDayKeyArg(args.day);
+  const meal = parseMealArg(args.meal);
+
+  const entry = await context.entities.MealPlanEntry.findFirst({
+    where: {
+      id: args.id,
+      userId: context.user.id
+    }
+  });
+
+  if (!entry) {
+    throw new HttpError(404, 'Planned meal not found');
+  }
+
+  const user = context.user;
+
+  // The item moves with the meal, so it is due (and reminded) on its new day
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.item.update({
+      where: { id: entry.itemId },
+      data: {
+        dueAt: mealDueAt(day, meal, user),
+        snoozedUntil: null
+      }
+    });
+
+    return tx.mealPlanEntry.update({
+      where: { id: entry.id },
+      data: { day, meal },
+      include: MEAL_PLAN_ENTRY_INCLUDE
+    });
+  });
+  return toMealPlanEntryView(updated);
+}
+
+// Taking a meal off the plan deletes its dated item; the recipe it came from stays
+export const removeMealPlanEntry: RemoveMealPlanEntry<{ id: number }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const entry = await context.entities.MealPlanEntry.findFirst({
+    where: {
+      id: args.id,
+      userId: context.user.id
+    }
+  });
+
+  if (!entry) {
+    throw new HttpError(404, 'Planned meal not found');
+  }
+
+  await context.entities.Item.delete({
+    where: { id: entry.itemId }
+  });
+}
+
+export const addMealPlanToShoppingList: AddMealPlanToShoppingList<{ weekStart: string }, AddedIngredients> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const days = weekDayKeys(weekStartOf(parseDayKeyArg(args.weekStart)));
+  const ingredients = weekIngredients(await loadWeekEntries(context.user.id, days, context));
+  if (ingredients.length === 0) {
+    throw new HttpError(400, 'The planned meals list no ingredients');
+  }
+
+  return addIngredientsToShoppingList(ingredients.map(ingredient => ingredient.line), context.user.id, context);
+}
+
+type FillMealPlanWeekInput = {
+  weekStart: string;
+  meals?: string[];                  // Slots to fill on each day, lunch and dinner when left out
+  dietaryPreferences?: string | null; // Saved for next time
+}
+
+// Empty slots from today on are filled by the AI provider, reusing the user's recipes where they fit
+export const fillMealPlanWeek: FillMealPlanWeek<FillMealPlanWeekInput, { entries: MealPlanEntryView[] }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const weekStart = weekStartOf(parseDayKeyArg(args.weekStart));
+  const meals = Array.isArray(args.meals) ? args.meals.map(parseMealArg) : DEFAULT_FILL_MEALS;
+
+  let preferences = context.user.dietaryPreferences ?? null;
+  if (args.dietaryPreferences !== undefined) {
+    preferences = parseDietaryPreferencesArg(args.dietaryPreferences);
+    await context.entities.User.update({
+      where: { id: context.user.id },
+      data: { dietaryPreferences: preferences }
+    });
+  }
+
+  const today = todayKey(context.user);
+  const days = weekDayKeys(weekStart);
+  const existing = await loadWeekEntries(context.user.id, days, context);
+  const filled = new Set(existing.map(entry => `${entry.day}|${entry.meal}`));
+  const slots = days
+    .filter(day => day >= today)
+    .flatMap(day => MEAL_SLOTS.filter(meal => meals.includes(meal)).map(meal => ({ day, meal })))
+    .filter(slot => !filled.has(`${slot.day}|${slot.meal}`));
+
+  if (slots.length === 0) {
+    return { entries: [] };
+  }
+
+  const recipes = await context.entities.Item.findMany({
+    where: {
+      userId: context.user.id,
+      isCompleted: false,
+      mealPlanEntry: { is: null },
+      OR: [
+        { type: 'recipe' },
+        { tags: { some: { tag: { name: { in: COOKING_TAGS } } } } }
+      ]
+    },
+    select: { id: true, content: true },
+    orderBy: { relevance: 'desc' },
+    take: MEAL_CANDIDATE_LIMIT
+  });
+  const recipeIds = new Map<string, number>(recipes.map(recipe => [recipe.content, recipe.id]));
+
+  const suggestions = await suggestWeekMeals({
+    slots,
+    preferences,
+    recipes: Array.from(recipeIds.keys())
+  });
+  if (suggestions.length === 0) {
+    throw new HttpError(502, 'No meal suggestions; check that the AI provider is configured');
+  }
+
+  const entries: MealPlanEntryView[] = [];
+  for (const suggestion of suggestions) {
+    const sourceItemId = suggestion.recipeTitle ? recipeIds.get(suggestion.recipeTitle) : undefined;
+    const planned: PlannedMeal = sourceItemId !== undefined
+      ? await plannedMealFromSource(sourceItemId, context.user.id, context)
+      : {
+          content: suggestion.title,
+          type: 'recipe',
+          details: normalizeItemDetails('recipe', { ingredients: suggestion.ingredients }),
+          tagIds: [],
+          activityId: null,
+          sourceItemId: null
+        };
+    entries.push(await createPlannedMeal(context.user, suggestion.day, suggestion.meal, planned, context));
+  }
+
+  return { entries };
+}
+
+// ============================================================================
+// IMPORT OPERATIONS
+// ============================================================================
+
+// Per upload call; the import page sends files in chunks that stay under the server's JSON body limit
+const MAX_IMPORT_UPLOAD_FILES = 500;
+
+const IMPORT_JOB_LIMIT = 20;
+
+type ImportJobView = Omit<ImportJob, 'payload' | 'errors' | 'source' | 'status'> & {
+  source: ImportSource;
+  status: ImportJobStatus;
+  errors: string[];
+}
+
+// Everything but the payload, which can be megabytes of notes
+const IMPORT_JOB_SELECT = {
+  id: true,
+  source: true,
+  status: true,
+  label: true,
+  fileCount: true,
+  total: true,
+  processed: true,
+  noteCount: true,
+  itemCount: true,
+  skippedCount: true,
+  errors: true,
+  batchId: true,
+  userId: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true
+};
+
+function toImportJobView(job: Omit<ImportJob, 'payload'>): ImportJobView {
+  return {
+    ...job,
+    source: job.source as ImportSource,
+    status: job.status as ImportJobStatus,
+    errors: parseJsonArray<string>(job.errors)
+  };
+}
+
+function parseImportFilesArg(value: unknown): ImportFile[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'No files to import');
+  }
+  if (value.length > MAX_IMPORT_UPLOAD_FILES) {
+    throw new HttpError(400, `At most ${MAX_IMPORT_UPLOAD_FILES} files can be uploaded at once`);
+  }
+  return value.map(file => {
+    if (typeof file?.name !== 'string' || typeof file?.content !== 'string') {
+      throw new HttpError(400, 'Each file needs a name and its content');
+    }
+    // When the file was last changed stands in for when notes without a date of their own were written
+    const modifiedAt = typeof file.modifiedAt === 'string' && !isNaN(Date.parse(file.modifiedAt)) ? file.modifiedAt : undefined;
+    return { name: file.name, content: file.content, modifiedAt };
+  });
+}
+
+async function findUploadingImportJob(id: number, userId: number, context: EntitiesContext<'ImportJob'>): Promise<ImportJob> {
+  const job = await context.entities.ImportJob.findFirst({
+    where: { id, userId }
+  });
+
+  if (!job) {
+    throw new HttpError(404, 'Import not found');
+  }
+  if (job.status !== 'uploading') {
+    throw new HttpError(400, 'This import has already started');
+  }
+
+  return job;
+}
+
+export const getImportJobs: GetImportJobs<void, ImportJobView[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const jobs = await context.entities.ImportJob.findMany({
+    where: { userId: context.user.id },
+    orderBy: { createdAt: 'desc' },
+    take: IMPORT_JOB_LIMIT,
+    select: IMPORT_JOB_SELECT
+  });
+
+  return jobs.map(toImportJobView);
+}
+
+export const createImportJob: CreateImportJob<{ source: string }, ImportJobView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  if (!isImportSource(args.source)) {
+    throw new HttpError(400, `Unknown import source "${args.source}"`);
+  }
+
+  const job = await context.entities.ImportJob.create({
+    data: {
+      source: args.source,
+      userId: context.user.id
+    },
+    select: IMPORT_JOB_SELECT
+  });
+
+  return toImportJobView(job);
+}
+
+type UploadImportFilesInput = {
+  jobId: number;
+  files: ImportFile[];
+}
+
+// Parses the files right away so unreadable ones are reported while the user is still on the page.
+// The parsed notes are added to the job's payload; a note uploaded twice is kept once
+export const uploadImportFiles: UploadImportFiles<UploadImportFilesInput, ImportJobView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const files = parseImportFilesArg(args.files);
+  const job = await findUploadingImportJob(args.jobId, context.user.id, context);
+  const parsed = parseImportFiles(job.source as ImportSource, files);
+
+  const notes = parseJsonArray<ImportedNote>(job.payload);
+  const externalIds = new Set(notes.flatMap(importedNoteIds));
+  const added = parsed.notes.filter(note => !importedNoteIds(note).some(id => externalIds.has(id)));
+
+  const updated = await context.entities.ImportJob.update({
+    where: { id: job.id },
+    data: {
+      payload: JSON.stringify([...notes, ...added]),
+      // The first file names the import in the history
+      label: job.label ?? files[0].name,
+      fileCount: { increment: files.length },
+      total: notes.length + added.length,
+      skippedCount: { increment: parsed.skipped },
+      errors: appendErrors(job.errors, parsed.errors)
+    },
+    select: IMPORT_JOB_SELECT
+  });
+
+  return toImportJobView(updated);
+}
+
+type ImportPreview = Omit<ImportSummary, 'activities' | 'tags'> & {
+  activities: Array<{ name: string, itemCount: number, isNew: boolean }>;
+  tags: Array<{ name: string, itemCount: number, isNew: boolean }>;
+  alreadyImportedCount: number; // Notes saved by an earlier import, skipped when this one runs
+}
+
+// The dry run: what the uploaded files would create, before anything is saved
+export const getImportPreview: GetImportPreview<{ jobId: number }, ImportPreview> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const userId = context.user.id;
+  const job = await findUploadingImportJob(args.jobId, userId, context);
+  const notes = parseJsonArray<ImportedNote>(job.payload);
+  const summary = summarizeImport(notes);
+
+  const activities = await context.entities.Activity.findMany({
+    where: visibleActivities(userId),
+    select: { name: true }
+  });
+  const activityKeys = new Set(activities.map(activity => activityKey(activity.name)));
+
+  const tags = await context.entities.Tag.findMany({
+    where: {
+      name: { in: summary.tags.map(tag => tag.name) },
+      OR: [{ userId }, { userId: null }]
+    },
+    select: { name: true }
+  });
+  const tagNames = new Set(tags.map(tag => tag.name));
+
+  // A note counts once whether it was imported under its own id or the one of its other file
+  const externalIds = notes.flatMap(importedNoteIds);
+  const imported = externalIds.length === 0 ? [] : await context.entities.Note.findMany({
+    where: { userId, OR: [{ externalId: { in: externalIds } }, { externalAlias: { in: externalIds } }] },
+    select: { externalId: true, externalAlias: true }
+  });
+  const importedIds = new Set(imported.flatMap(note => [note.externalId, note.externalAlias]));
+  const alreadyImportedCount = notes.filter(note => importedNoteIds(note).some(id => importedIds.has(id))).length;
+
+  return {
+    ...summary,
+    activities: summary.activities.map(activity => ({ ...activity, isNew: !activityKeys.has(activityKey(activity.name)) })),
+    tags: summary.tags.map(tag => ({ ...tag, isNew: !tagNames.has(tag.name) })),
+    alreadyImportedCount
+  };
+}
+
+// Cancelling after the preview drops the uploaded notes; nothing was saved yet
+export const discardImportJob: DiscardImportJob<{ jobId: number }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const job = await findUploadingImportJob(args.jobId, context.user.id, context);
+
+  await context.entities.ImportJob.delete({
+    where: { id: job.id }
+  });
+}
+
+// Hands the uploaded notes to the import worker, which picks the job up within seconds
+export const startImportJob: StartImportJob<{ jobId: number }, ImportJobView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const job = await findUploadingImportJob(args.jobId, context.user.id, context);
+
+  const updated = await context.entities.ImportJob.update({
+    where: { id: job.id },
+    data: { status: 'pending' },
+    select: IMPORT_JOB_SELECT
+  });
+
+  return toImportJobView(updated);
+}
+
+const IMPORT_BATCH_LIMIT = 50;
+
+type ImportBatchView = {
+  id: number;
+  source: string;
+  label: string | null;
+  status: ImportJobStatus | null; // Of the import job that filled the batch, null for captures
+  itemCount: number;
+  noteCount: number;
+  tagCount: number;
+  activityCount: number;
+  editedItems: Array<{ id: number, content: string }>; // Changed since; a rollback asks before removing them
+  createdAt: Date;
+  rolledBackAt: Date | null;
+}
+
+// The import history: every batch with what is left of it
+export const getImportBatches: GetImportBatches<void, ImportBatchView[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const batches = await context.entities.ImportBatch.findMany({
+    where: { userId: context.user.id },
+    orderBy: { createdAt: 'desc' },
+    take: IMPORT_BATCH_LIMIT,
+    include: {
+      importJob: { select: { status: true } },
+      _count: { select: { items: true, notes: true, tags: true, activities: true } }
+    }
+  });
+
+  const items = await context.entities.Item.findMany({
+    where: { importBatchId: { in: batches.map(batch => batch.id) } },
+    select: { id: true, content: true, extractedContent: true, tagsEditedAt: true, updatedAt: true, importBatchId: true }
+  });
+
+  return batches.map(batch => ({
+    id: batch.id,
+    source: batch.source,
+    label: batch.label,
+    status: (batch.importJob?.status ?? null) as ImportJobStatus | null,
+    itemCount: batch._count.items,
+    noteCount: batch._count.notes,
+    tagCount: batch._count.tags,
+    activityCount: batch._count.activities,
+    editedItems: items
+      .filter(item => item.importBatchId === batch.id && isEditedItem(item, batch.createdAt))
+      .map(item => ({ id: item.id, content: item.content })),
+    createdAt: batch.createdAt,
+    rolledBackAt: batch.rolledBackAt
+  }));
+}
+
+type RollbackImportBatchInput = {
+  id: number;
+  confirmedItemIds?: number[]; // Edited items the user agreed to remove as well
+}
+
+export const rollbackImportBatch: RollbackImportBatch<RollbackImportBatchInput, RollbackResult> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const batch = await context.entities.ImportBatch.findFirst({
+    where: { id: args.id, userId: context.user.id },
+    include: { importJob: { select: { status: true } } }
+  });
+
+  if (!batch) {
+    throw new HttpError(404, 'Import not found');
+  }
+  if (batch.importJob && (batch.importJob.status === 'pending' || batch.importJob.status === 'running')) {
+    throw new HttpError(400, 'Wait for the import to finish before rolling it back');
+  }
+
+  const confirmedItemIds = Array.isArray(args.confirmedItemIds)
+    ? args.confirmedItemIds.filter((id): id is number => Number.isInteger(id))
+    : [];
+
+  return rollbackBatch(batch.id, confirmedItemIds);
+}
+
+// ============================================================================
+// USER SETTINGS OPERATIONS
+// ============================================================================
+
+export const updateTimezone: UpdateTimezone<{ timezone: string }, { timezone: string }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  if (typeof args.timezone !== 'string' || !isValidTimeZone(args.timezone)) {
+    throw new HttpError(400, 'Unknown time zone');
+  }
+
+  await context.entities.User.update({
+    where: { id: context.user.id },
+    data: { timezone: args.timezone }
+  });
+
+  return { timezone: args.timezone };
+}
+
+export const updateDietaryPreferences: UpdateDietaryPreferences<{ dietaryPreferences: string | null }, { dietaryPreferences: string | null }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const dietaryPreferences = parseDietaryPreferencesArg(args.dietaryPreferences);
+  await context.entities.User.update({
+    where: { id: context.user.id },
+    data: { dietaryPreferences }
+  });
+
+  return { dietaryPreferences };
+}
+
+// ============================================================================
+// SEARCH OPERATIONS
+// ============================================================================
+
+// Upper bound on full-text matches considered before the other filters are applied
+const SEARCH_CANDIDATE_LIMIT = 500;
+
+type SearchItemsInput = {
+  query?: string;
+  tagNames?: string[];   // Items must carry at least one of these tags
+  activityId?: number;   // Same matching as the activity view (assignment plus rules)
+  status?: 'all' | 'active' | 'completed';
+  createdFrom?: string;  // ISO date, inclusive
+  createdTo?: string;    // ISO date, inclusive
+  limit?: number;
+}
+
+// Relations shown with every listed item and search result
+const SEARCH_ITEM_INCLUDE = {
+  tags: {
+    include: {
+      tag: true
+    }
+  },
+  activity: true,
+  note: true
+} satisfies Prisma.ItemInclude;
+
+type SearchItem = Prisma.ItemGetPayload<{ include: typeof SEARCH_ITEM_INCLUDE }>;
+
+type SearchItemsResult = {
+  items: Array<SearchItem & {
+    highlights: {
+      content: HighlightSegment[];
+      note: HighlightSegment[] | null; // Excerpt of the source note, when the match is there
+    };
+  }>;
+  terms: string[];
+  usedFullTextIndex: boolean;
+}
+
+export const searchItems: SearchItems<SearchItemsInput, SearchItemsResult> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const terms = parseSearchTerms(args.query ?? '');
+  const limit = Math.min(Math.max(args.limit ?? 50, 1), 200);
+  const filters: Prisma.ItemWhereInput[] = [{ userId: context.user.id }];
+
+  // Text matching: FTS5 ranking on SQLite, plain substring filtering wherever the index isn't available
+  let rankedIds: number[] | null = null;
+  let usedFullTextIndex = false;
+  if (terms.length > 0) {
+    try {
+      rankedIds = await findItemIdsByFullText(context.user.id, terms, SEARCH_CANDIDATE_LIMIT);
+      usedFullTextIndex = true;
+      filters.push({ id: { in: rankedIds } });
+    } catch (error) {
+      console.warn('Full-text index unavailable, falling back to substring search:', error);
+      filters.push(buildTextSearchFilter(terms));
+    }
+  }
+
+  if (args.tagNames && args.tagNames.length > 0) {
+    filters.push({ tags: { some: { tag: { name: { in: args.tagNames.map(name => name.trim().toLowerCase()) } } } } });
+  }
+
+  if (args.activityId) {
+    const rule = await findEffectiveActivityRule(args.activityId, context.user.id, context);
+    filters.push(buildActivityItemFilter(args.activityId, rule ? parseActivityRule(rule) : EMPTY_RULE_SET));
+  }
+
+  if (args.status === 'active' || args.status === 'completed') {
+    filters.push({ isCompleted: args.status === 'completed' });
+  }
+
+  const createdFrom = args.createdFrom ? new Date(args.createdFrom) : null;
+  const createdTo = args.createdTo ? new Date(args.createdTo) : null;
+  if ((createdFrom && isNaN(createdFrom.getTime())) || (createdTo && isNaN(createdTo.getTime()))) {
+    throw new HttpError(400, 'Invalid date range');
+  }
+  if (createdTo) {
+    createdTo.setUTCHours(23, 59, 59, 999); // Include the whole end day
+  }
+  if (createdFrom || createdTo) {
+    filters.push({ createdAt: { gte: createdFrom ?? undefined, lte: createdTo ?? undefined } });
+  }
+
+  const items = await context.entities.Item.findMany({
+    where: { AND: filters },
+    include: SEARCH_ITEM_INCLUDE,
+    orderBy: [
+      { relevance: 'desc' },
+      { createdAt: 'desc' }
+    ],
+    take: rankedIds ? undefined : limit // Ranked results are cut after re-ordering below
+  });
+
+  // Keep the full-text ranking when there is one
+  const ordered = rankedIds
+    ? [...items].sort((a, b) => rankedIds!.indexOf(a.id) - rankedIds!.indexOf(b.id)).slice(0, limit)
+    : items;
+
+  return {
+    items: ordered.map(item => ({
+      ...item,
+      highlights: {
+        content: highlightText(item.content, terms),
+        note: item.note ? highlightSnippet(item.note.rawText, terms) : null
+      }
+    })),
+    terms,
+    usedFullTextIndex
+  };
+}
+
+// Items considered for semantic matching, most recent first (embeddings are compared in memory)
+const SEMANTIC_CANDIDATE_LIMIT = 1000;
+
+// Below this cosine similarity a result is treated as unrelated
+const SEMANTIC_MIN_SIMILARITY = 0.15;
+
+type ItemWithSimilarity = SearchItem & { similarity: number };
+
+// Load items with their relations in the order of the ranked ids
+async function loadRankedItems(
+  ranked: Array<{ item: { id: number }, similarity: number }>,
+  context: EntitiesContext<'Item'>
+): Promise<ItemWithSimilarity[]> {
+  const items = await context.entities.Item.findMany({
+    where: { id: { in: ranked.map(entry => entry.item.id) } },
+    include: SEARCH_ITEM_INCLUDE
+  });
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  return ranked
+    .filter(entry => itemsById.has(entry.item.id))
+    .map(entry => ({ ...itemsById.get(entry.item.id)!, similarity: entry.similarity }));
+}
+
+async function loadSemanticCandidates(userId: number, context: EntitiesContext<'Item'>) {
+  const candidates = await context.entities.Item.findMany({
+    where: { userId },
+    select: { id: true, content: true },
+    orderBy: { createdAt: 'desc' },
+    take: SEMANTIC_CANDIDATE_LIMIT
+  });
+
+  try {
+    return { candidates, vectors: await ensureItemEmbeddings(candidates) };
+  } catch (error) {
+    throw new HttpError(503, `Embedding provider failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const semanticSearch: SemanticSearch<{ query: string; limit?: number }, { items: ItemWithSimilarity[], provider: string }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const query = args.query?.trim();
+  if (!query) {
+    throw new HttpError(400, 'Search query is required');
+  }
+
+  const { candidates, vectors } = await loadSemanticCandidates(context.user.id, context);
+
+  let queryVector: number[];
+  try {
+    queryVector = await embedText(query);
+  } catch (error) {
+    throw new HttpError(503, `Embedding provider failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const ranked = rankBySimilarity(queryVector, candidates, vectors)
+    .filter(entry => entry.similarity >= SEMANTIC_MIN_SIMILARITY)
+    .slice(0, Math.min(Math.max(args.limit ?? 20, 1), 100));
+
+  return {
+    items: await loadRankedItems(ranked, context),
+    provider: getEmbeddingProvider().name
+  };
+}
+
+export const getSimilarItems: GetSimilarItems<{ itemId: number; limit?: number }, ItemWithSimilarity[]> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const item = await context.entities.Item.findFirst({
+    where: {
+      id: args.itemId,
+      userId: context.user.id
+    }
+  });
+
+  if (!item) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  const { candidates, vectors } = await loadSemanticCandidates(context.user.id, context);
+  const target = vectors.get(item.id) ?? (await ensureItemEmbeddings([item])).get(item.id);
+  if (!target) {
+    return [];
+  }
+
+  const ranked = rankBySimilarity(
+    target,
+    candidates.filter(candidate => candidate.id !== item.id),
+    vectors
+  )
+    .filter(entry => entry.similarity >= SEMANTIC_MIN_SIMILARITY)
+    .slice(0, Math.min(Math.max(args.limit ?? 5, 1), 20));
+
+  return loadRankedItems(ranked, context);
+}
+
+// ============================================================================
+// DUPLICATE OPERATIONS
+// ============================================================================
+
+type DuplicateGroupView = {
+  items: SearchItem[]; // Oldest first, the usual one to keep
+  similarity: number;
+  reason: DuplicateReason;
+}
+
+export const findDuplicates: FindDuplicates<void, DuplicateGroupView[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const groups = await findDuplicateGroups(context.user.id);
+  const items = await context.entities.Item.findMany({
+    where: {
+      id: { in: groups.flatMap(group => group.itemIds) },
+      userId: context.user.id
+    },
+    include: SEARCH_ITEM_INCLUDE,
+    orderBy: {
+      createdAt: 'asc'
+    }
+  });
+
+  return groups.map(group => ({
+    items: items.filter(item => group.itemIds.includes(item.id)),
+    similarity: group.similarity,
+    reason: group.reason
+  }));
+}
+
+type MergeItemsInput = {
+  keepItemId: number;
+  duplicateItemIds: number[];
+}
+
+// The kept item with everything merged into it, its source notes included
+const MERGED_ITEM_INCLUDE = {
+  tags: {
+    include: {
+      tag: true
+    }
+  },
+  activity: true,
+  note: true,
+  sources: {
+    include: {
+      note: true
+    }
+  }
+} satisfies Prisma.ItemInclude;
+
+type MergedItem = Prisma.ItemGetPayload<{ include: typeof MERGED_ITEM_INCLUDE }>;
+
+export const mergeItems: MergeItems<MergeItemsInput, MergedItem> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const duplicateItemIds = Array.from(new Set(args.duplicateItemIds)).filter(id => id !== args.keepItemId);
+  if (duplicateItemIds.length === 0) {
+    throw new HttpError(400, 'Choose at least one duplicate to merge');
+  }
+
+  const ownedCount = await context.entities.Item.count({
+    where: {
+      id: { in: [args.keepItemId, ...duplicateItemIds] },
+      userId: context.user.id
+    }
+  });
+
+  if (ownedCount !== duplicateItemIds.length + 1) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await mergeItemsInto(tx, args.keepItemId, duplicateItemIds);
+  });
+
+  return context.entities.Item.findUniqueOrThrow({
+    where: { id: args.keepItemId },
+    include: MERGED_ITEM_INCLUDE
+  });
+}
+
+// Keep every item of a suggested group, so the duplicate finder stops pairing them
+export const dismissDuplicates: DismissDuplicates<{ itemIds: number[] }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const itemIds = Array.from(new Set(args.itemIds));
+  if (itemIds.length < 2) {
+    throw new HttpError(400, 'At least two items are required');
+  }
+
+  const ownedCount = await context.entities.Item.count({
+    where: {
+      id: { in: itemIds },
+      userId: context.user.id
+    }
+  });
+
+  if (ownedCount !== itemIds.length) {
+    throw new HttpError(404, 'Item not found');
+  }
+
+  for (let i = 0; i < itemIds.length; i++) {
+    for (let j = i + 1; j < itemIds.length; j++) {
+      await dismissDuplicatePair(itemIds[i], itemIds[j]);
+    }
+  }
+}
+
+// ============================================================================
+// ACTIVITY OPERATIONS (from queries.ts)
+// ============================================================================
+
+// Offset that keeps user activities after the default ones in the selector
+const USER_ACTIVITY_SORT_BASE = 100;
+
+function visibleActivities(userId: number) {
+  return {
+    OR: [
+      { isDefault: true },
+      { userId } // User's own activities
+    ]
+  };
+}
+
+// Verify the activity belongs to the user; default activities are shared and read-only
+async function findOwnActivity(id: number, userId: number, context: EntitiesContext<'Activity'>): Promise<Activity> {
+  const activity = await context.entities.Activity.findFirst({
+    where: {
+      id,
+      ...visibleActivities(userId)
+    }
+  });
+
+  if (!activity) {
+    throw new HttpError(404, 'Activity not found');
+  }
+
+  if (activity.userId !== userId) {
+    throw new HttpError(403, 'Default activities cannot be changed');
+  }
+
+  return activity;
+}
+
+type ActivityWithItemCount = Prisma.ActivityGetPayload<{ include: { _count: { select: { items: true } } } }>;
+
+export const getActivities: GetActivities<{ includeArchived?: boolean } | void, ActivityWithItemCount[]> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  return context.entities.Activity.findMany({
+    where: {
+      ...visibleActivities(context.user.id),
+      ...(args?.includeArchived ? {} : { isArchived: false })
+    },
+    include: {
+      _count: {
+        select: {
+          items: { where: { userId: context.user.id } } // Only count the user's own items
+        }
+      }
+    },
+    orderBy: [
+      { sortOrder: 'asc' },
+      { name: 'asc' }
+    ]
+  })
+}
+
+type CreateActivityInput = {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  layout?: string; // How its items are shown, 'items' when left out
+}
+
+function parseActivityLayoutArg(value: string | undefined): ActivityLayout | undefined {
+  if (value === undefined) return undefined;
+  if (!isActivityLayout(value)) {
+    throw new HttpError(400, `Unknown activity layout "${value}"`);
+  }
+  return value;
+}
+
+export const createActivity: CreateActivity<CreateActivityInput, Activity> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const name = args.name?.trim();
+  if (!name) {
+    throw new HttpError(400, 'Activity name is required');
+  }
+  const layout = parseActivityLayoutArg(args.layout);
+
+  // Check if activity already exists (default or user-specific)
+  const existingActivity = await context.entities.Activity.findFirst({
+    where: {
+      name,
+      ...visibleActivities(context.user.id)
+    }
+  });
+
+  if (existingActivity) {
+    throw new HttpError(400, 'Activity with this name already exists');
+  }
+
+  // New activities go to the end of the user's list
+  const lastActivity = await context.entities.Activity.findFirst({
+    where: { userId: context.user.id },
+    orderBy: { sortOrder: 'desc' }
+  });
+
+  return context.entities.Activity.create({
+    data: {
+      name,
+      description: args.description,
+      icon: args.icon,
+      color: args.color,
+      layout,
+      sortOrder: lastActivity ? lastActivity.sortOrder + 1 : USER_ACTIVITY_SORT_BASE,
+      userId: context.user.id
+    }
+  });
+}
+
+type UpdateActivityInput = {
+  id: number;
+  name?: string;
+  description?: string | null; // null clears it
+  icon?: string | null;
+  color?: string;
+  layout?: string;
+  isArchived?: boolean;
+}
+
+export const updateActivity: UpdateActivity<UpdateActivityInput, Activity> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  await findOwnActivity(args.id, context.user.id, context);
+
+  const name = args.name?.trim();
+  if (args.name !== undefined && !name) {
+    throw new HttpError(400, 'Activity name is required');
+  }
+  const layout = parseActivityLayoutArg(args.layout);
+
+  if (name) {
+    const duplicate = await context.entities.Activity.findFirst({
+      where: {
+        name,
+        id: { not: args.id },
+        ...visibleActivities(context.user.id)
+      }
+    });
+
+    if (duplicate) {
+      throw new HttpError(400, 'Activity with this name already exists');
+    }
+  }
+
+  return context.entities.Activity.update({
+    where: { id: args.id },
+    data: {
+      name,
+      description: args.description,
+      icon: args.icon,
+      color: args.color,
+      layout,
+      isArchived: args.isArchived
+    }
+  });
+}
+
+type DeleteActivityInput = {
+  id: number;
+  moveItemsToActivityId?: number; // Reassign the activity's items instead of leaving them unassigned
+}
+
+export const deleteActivity: DeleteActivity<DeleteActivityInput, { movedItemCount: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  await findOwnActivity(args.id, context.user.id, context);
+
+  if (args.moveItemsToActivityId !== undefined) {
+    if (args.moveItemsToActivityId === args.id) {
+      throw new HttpError(400, 'Cannot move items to the activity being deleted');
+    }
+
+    const target = await context.entities.Activity.findFirst({
+      where: {
+        id: args.moveItemsToActivityId,
+        ...visibleActivities(context.user.id)
+      }
+    });
+
+    if (!target) {
+      throw new HttpError(404, 'Target activity not found');
+    }
+  }
+
+  const userId = context.user.id;
+
+  return prisma.$transaction(async (tx) => {
+    // Items without a target end up unassigned rather than deleted
+    const moved = await tx.item.updateMany({
+      where: { activityId: args.id, userId },
+      data: { activityId: args.moveItemsToActivityId ?? null }
+    });
+
+    await tx.activity.delete({
+      where: { id: args.id }
+    });
+
+    return { movedItemCount: args.moveItemsToActivityId !== undefined ? moved.count : 0 };
+  });
+}
+
+export const reorderActivities: ReorderActivities<{ orderedIds: number[] }, Activity[]> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  // Only the user's own activities can be reordered; defaults keep their seeded order
+  const ownActivities = await context.entities.Activity.findMany({
+    where: { userId: context.user.id }
+  });
+  const ownIds = new Set(ownActivities.map(activity => activity.id));
+  const orderedIds = args.orderedIds.filter(id => ownIds.has(id));
+
+  await prisma.$transaction(
+    orderedIds.map((id, index) =>
+      prisma.activity.update({
+        where: { id },
+        data: { sortOrder: USER_ACTIVITY_SORT_BASE + index }
+      })
+    )
+  );
+
+  return context.entities.Activity.findMany({
+    where: { userId: context.user.id },
+    orderBy: { sortOrder: 'asc' }
+  });
+}
+
+// ============================================================================
+// TAG OPERATIONS
+// ============================================================================
+
+type TagWithUsage = Prisma.TagGetPayload<{ include: { category: true, _count: { select: { items: true } } } }>;
+
+export const getTags: GetTags<void, TagWithUsage[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  return context.entities.Tag.findMany({
+    where: ownedOrGlobal(context.user.id), // Global tags plus the user's own tags
+    include: {
+      category: true,
+      _count: {
+        select: {
+          items: { where: { item: { userId: context.user.id } } } // Only count the user's own items
+        }
+      }
+    },
+    orderBy: [
+      { category: { name: 'asc' } },
+      { name: 'asc' }
+    ]
+  })
+}
+
+// Resolve a category the user can file tags under (global or their own)
+async function findVisibleTagCategory(id: number, userId: number, context: EntitiesContext<'TagCategory'>): Promise<TagCategory> {
+  const category = await context.entities.TagCategory.findFirst({
+    where: {
+      id,
+      ...ownedOrGlobal(userId)
+    }
+  });
+
+  if (!category) {
+    throw new HttpError(404, 'Tag category not found');
+  }
+
+  return category;
+}
+
+type CreateTagInput = {
+  name: string;
+  categoryId: number;
+  color?: string;
+}
+
+export const createTag: CreateTag<CreateTagInput, Tag> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const name = args.name?.trim().toLowerCase();
+  if (!name) {
+    throw new HttpError(400, 'Tag name is required');
+  }
+
+  // Check if tag already exists (global or user-specific); other users' tags don't matter
+  const existingTag = await context.entities.Tag.findFirst({
+    where: {
+      name,
+      ...ownedOrGlobal(context.user.id)
+    }
+  });
+
+  if (existingTag) {
+    throw new HttpError(400, 'Tag with this name already exists');
+  }
+
+  const category = await findVisibleTagCategory(args.categoryId, context.user.id, context);
+
+  return context.entities.Tag.create({
+    data: {
+      name,
+      categoryId: category.id,
+      color: args.color ?? category.color, // New tags take their category's color unless one is picked
+      userId: context.user.id // User-specific tag
+    }
+  });
+}
+
+// Verify the tag belongs to the user; global tags are shared and read-only
+async function findOwnTag(id: number, userId: number, context: EntitiesContext<'Tag'>): Promise<Tag> {
+  const tag = await context.entities.Tag.findFirst({
+    where: {
+      id,
+      ...ownedOrGlobal(userId)
+    }
+  });
+
+  if (!tag) {
+    throw new HttpError(404, 'Tag not found');
+  }
+
+  if (tag.userId !== userId) {
+    throw new HttpError(403, 'Global tags cannot be changed');
+  }
+
+  return tag;
+}
+
+// Point every ItemTag row of one tag at another. Items that already carry the target just lose
+// the old row, so @@unique([itemId, tagId]) holds and no item ever gains a tag (3-tag cap is kept)
+async function moveItemTags(
+  tx: Prisma.TransactionClient,
+  fromTagId: number,
+  toTagId: number
+): Promise<{ movedCount: number, droppedCount: number }> {
+  const itemTags = await tx.itemTag.findMany({
+    where: { tagId: fromTagId },
+    select: { id: true, itemId: true }
+  });
+  const alreadyTagged = await tx.itemTag.findMany({
+    where: {
+      tagId: toTagId,
+      itemId: { in: itemTags.map(itemTag => itemTag.itemId) }
+    },
+    select: { itemId: true }
+  });
+  const alreadyTaggedItemIds = new Set(alreadyTagged.map(itemTag => itemTag.itemId));
+
+  const duplicateIds = itemTags
+    .filter(itemTag => alreadyTaggedItemIds.has(itemTag.itemId))
+    .map(itemTag => itemTag.id);
+  const movableIds = itemTags
+    .filter(itemTag => !alreadyTaggedItemIds.has(itemTag.itemId))
+    .map(itemTag => itemTag.id);
+
+  await tx.itemTag.deleteMany({ where: { id: { in: duplicateIds } } });
+  await tx.itemTag.updateMany({
+    where: { id: { in: movableIds } },
+    data: { tagId: toTagId }
+  });
+
+  return { movedCount: movableIds.length, droppedCount: duplicateIds.length };
+}
+
+type UpdateTagInput = {
+  id: number;
+  name?: string;
+  categoryId?: number;
+  color?: string | null;
+}
+
+export const updateTag: UpdateTag<UpdateTagInput, Tag> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  await findOwnTag(args.id, context.user.id, context);
+
+  const name = args.name?.trim().toLowerCase();
+  if (args.name !== undefined && !name) {
+    throw new HttpError(400, 'Tag name is required');
+  }
+
+  if (name) {
+    const duplicate = await context.entities.Tag.findFirst({
+      where: {
+        name,
+        id: { not: args.id },
+        ...ownedOrGlobal(context.user.id)
+      }
+    });
+
+    if (duplicate) {
+      throw new HttpError(400, 'Tag with this name already exists. Merge the tags instead.');
+    }
+  }
+
+  if (args.categoryId !== undefined) {
+    await findVisibleTagCategory(args.categoryId, context.user.id, context);
+  }
+
+  return context.entities.Tag.update({
+    where: { id: args.id },
+    data: {
+      name,
+      categoryId: args.categoryId,
+      color: args.color
+    }
+  });
+}
+
+type DeleteTagInput = {
+  id: number;
+  reassignToTagId?: number; // Retag the affected items instead of just removing the tag
+}
+
+export const deleteTag: DeleteTag<DeleteTagInput, { reassignedItemCount: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  await findOwnTag(args.id, context.user.id, context);
+
+  if (args.reassignToTagId !== undefined) {
+    if (args.reassignToTagId === args.id) {
+      throw new HttpError(400, 'Cannot reassign items to the tag being deleted');
+    }
+
+    const target = await context.entities.Tag.findFirst({
+      where: {
+        id: args.reassignToTagId,
+        ...ownedOrGlobal(context.user.id)
+      }
+    });
+
+    if (!target) {
+      throw new HttpError(404, 'Target tag not found');
+    }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const reassigned = args.reassignToTagId !== undefined
+      ? await moveItemTags(tx, args.id, args.reassignToTagId)
+      : { movedCount: 0, droppedCount: 0 };
+
+    // Remaining ItemTag rows are removed by the cascade
+    await tx.tag.delete({
+      where: { id: args.id }
+    });
+
+    return { reassignedItemCount: reassigned.movedCount };
+  });
+}
+
+type MergeTagsInput = {
+  sourceTagId: number; // Folded into the target and deleted
+  targetTagId: number;
+}
+
+export const mergeTags: MergeTags<MergeTagsInput, { tag: Tag, movedItemCount: number, alreadyTaggedCount: number }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  if (args.sourceTagId === args.targetTagId) {
+    throw new HttpError(400, 'Cannot merge a tag into itself');
+  }
+
+  await findOwnTag(args.sourceTagId, context.user.id, context);
+
+  const target = await context.entities.Tag.findFirst({
+    where: {
+      id: args.targetTagId,
+      ...ownedOrGlobal(context.user.id)
+    }
+  });
+
+  if (!target) {
+    throw new HttpError(404, 'Target tag not found');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const { movedCount, droppedCount } = await moveItemTags(tx, args.sourceTagId, args.targetTagId);
+
+    await tx.tag.delete({
+      where: { id: args.sourceTagId }
+    });
+
+    return { tag: target, movedItemCount: movedCount, alreadyTaggedCount: droppedCount };
+  });
+}
+
+// ============================================================================
+// ACTIVITY RULE OPERATIONS
+// ============================================================================
+
+// The user's own rule for an activity wins over the default rule
+async function findEffectiveActivityRule(activityId: number, userId: number, context: EntitiesContext<'ActivityRule'>): Promise<ActivityRule | null> {
+  return context.entities.ActivityRule.findFirst({
+    where: {
+      activityId,
+      ...ownedOrGlobal(userId)
+    },
+    orderBy: {
+      userId: 'desc' // User's override first
+    }
+  });
+}
+
+type ActivityRuleView = ActivityRuleSet & {
+  activityId: number;
+  isCustom: boolean; // Whether the user overrides the default rule
+}
+
+export const getActivityRule: GetActivityRule<{ activityId: number }, ActivityRuleView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const activity = await context.entities.Activity.findFirst({
+    where: {
+      id: args.activityId,
+      ...visibleActivities(context.user.id)
+    }
+  });
+
+  if (!activity) {
+    throw new HttpError(404, 'Activity not found');
+  }
+
+  const rule = await findEffectiveActivityRule(args.activityId, context.user.id, context);
+
+  return {
+    activityId: args.activityId,
+    isCustom: rule?.userId === context.user.id,
+    ...(rule ? parseActivityRule(rule) : EMPTY_RULE_SET)
+  };
+}
+
+type UpdateActivityRuleInput = Partial<ActivityRuleSet> & {
+  activityId: number;
+}
+
+export const updateActivityRule: UpdateActivityRule<UpdateActivityRuleInput, ActivityRuleView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const current = await getActivityRule({ activityId: args.activityId }, context);
+
+  // Only keep tags and categories the user can actually see
+  const [visibleTags, visibleCategories] = await Promise.all([
+    context.entities.Tag.findMany({ where: ownedOrGlobal(context.user.id), select: { id: true } }),
+    context.entities.TagCategory.findMany({ where: ownedOrGlobal(context.user.id), select: { id: true } })
+  ]);
+  const tagIds = new Set(visibleTags.map(tag => tag.id));
+  const categoryIds = new Set(visibleCategories.map(category => category.id));
+
+  const rules: ActivityRuleSet = {
+    includeTagIds: (args.includeTagIds ?? current.includeTagIds).filter(id => tagIds.has(id)),
+    includeCategoryIds: (args.includeCategoryIds ?? current.includeCategoryIds).filter(id => categoryIds.has(id)),
+    excludeTagIds: (args.excludeTagIds ?? current.excludeTagIds).filter(id => tagIds.has(id)),
+    excludeCompleted: args.excludeCompleted ?? current.excludeCompleted
+  };
+
+  // Global default rules can't be upserted by their compound key (userId is null), so edits always write the user's own row
+  const existing = await context.entities.ActivityRule.findFirst({
+    where: { activityId: args.activityId, userId: context.user.id }
+  });
+
+  const rule = existing
+    ? await context.entities.ActivityRule.update({
+        where: { id: existing.id },
+        data: serializeActivityRule(rules)
+      })
+    : await context.entities.ActivityRule.create({
+        data: {
+          activityId: args.activityId,
+          userId: context.user.id,
+          ...serializeActivityRule(rules)
+        }
+      });
+
+  return {
+    activityId: args.activityId,
+    isCustom: true,
+    ...parseActivityRule(rule)
+  };
+}
+
+export const resetActivityRule: ResetActivityRule<{ activityId: number }, ActivityRuleView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  // Dropping the override falls back to the default rule, if the activity has one
+  await context.entities.ActivityRule.deleteMany({
+    where: { activityId: args.activityId, userId: context.user.id }
+  });
+
+  return getActivityRule({ activityId: args.activityId }, context);
+}
+
+// ============================================================================
+// TAG CATEGORY OPERATIONS
+// ============================================================================
+
+type TagCategoryWithUsage = Prisma.TagCategoryGetPayload<{ include: { activity: true, _count: { select: { tags: true } } } }>;
+
+export const getTagCategories: GetTagCategories<void, TagCategoryWithUsage[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  return context.entities.TagCategory.findMany({
+    where: ownedOrGlobal(context.user.id), // Global categories plus the user's own categories
+    include: {
+      activity: true,
+      _count: {
+        select: {
+          tags: { where: ownedOrGlobal(context.user.id) } // Other users' tags don't count
+        }
+      }
+    },
+    orderBy: { name: 'asc' }
+  });
+}
+
+type TagCategoryInput = {
+  name: string;
+  description?: string | null; // null clears it
+  icon?: string | null;
+  color?: string | null;
+  activityId?: number | null;
+}
+
+// Categories can only point items at activities the user can see
+export const createTagCategory: CreateTagCategory<TagCategoryInput, TagCategory> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const name = args.name?.trim().toLowerCase();
+  if (!name) {
+    throw new HttpError(400, 'Category name is required');
+  }
+
+  const existingCategory = await context.entities.TagCategory.findFirst({
+    where: {
+      name,
+      ...ownedOrGlobal(context.user.id)
+    }
+  });
+
+  if (existingCategory) {
+    throw new HttpError(400, 'Category with this name already exists');
+  }
+
+  await checkVisibleActivity(args.activityId, context.user.id, context);
+
+  return context.entities.TagCategory.create({
+    data: {
+      name,
+      description: args.description,
+      icon: args.icon,
+      color: args.color,
+      activityId: args.activityId ?? null,
+      userId: context.user.id
+    }
+  });
+}
+
+export const updateTagCategory: UpdateTagCategory<Partial<TagCategoryInput> & { id: number }, TagCategory> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const category = await findVisibleTagCategory(args.id, context.user.id, context);
+  if (category.userId !== context.user.id) {
+    throw new HttpError(403, 'Global categories cannot be changed');
+  }
+
+  const name = args.name?.trim().toLowerCase();
+  if (args.name !== undefined && !name) {
+    throw new HttpError(400, 'Category name is required');
+  }
+
+  if (name) {
+    const duplicate = await context.entities.TagCategory.findFirst({
+      where: {
+        name,
+        id: { not: args.id },
+        ...ownedOrGlobal(context.user.id)
+      }
+    });
+
+    if (duplicate) {
+      throw new HttpError(400, 'Category with this name already exists');
+    }
+  }
+
+  await checkVisibleActivity(args.activityId, context.user.id, context);
+
+  return context.entities.TagCategory.update({
+    where: { id: args.id },
+    data: {
+      name,
+      description: args.description,
+      icon: args.icon,
+      color: args.color,
+      activityId: args.activityId
+    }
+  });
+}
+
+export const deleteTagCategory: DeleteTagCategory<{ id: number }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const category = await findVisibleTagCategory(args.id, context.user.id, context);
+  if (category.userId !== context.user.id) {
+    throw new HttpError(403, 'Global categories cannot be changed');
+  }
+
+  // Tags must always belong to a category, so they have to be moved first
+  const tagCount = await context.entities.Tag.count({
+    where: { categoryId: args.id }
+  });
+
+  if (tagCount > 0) {
+    throw new HttpError(400, 'Move this category\'s tags to another category before deleting it');
+  }
+
+  await context.entities.TagCategory.delete({
+    where: { id: args.id }
+  });
+}
+
+// ============================================================================
+// AI OPERATIONS
+// ============================================================================
+
+export const testAIConnection: TestAIConnection<void, any> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    const status = await aiService.testConnection();
+    return {
+      timestamp: new Date().toISOString(),
+      ...status
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      connected: false,
+      apiKeyConfigured: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+type TestTagSuggestionInput = {
+  text: string;
+}
+
+export const testTagSuggestion: TestTagSuggestion<TestTagSuggestionInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    // Get global tags plus the user's own tags from database
+    const tagNames = await getAvailableTagNames(context.user.id, context);
+    const suggestedTags = await aiService.suggestTags(args.text, tagNames);
+
+    return {
+      timestamp: new Date().toISOString(),
+      provider: aiService.getProvider(),
+      input: args.text,
+      availableTagCount: tagNames.length,
+      suggestedTags: suggestedTags
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      provider: aiService.getProvider(),
+      input: args.text,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      suggestedTags: []
+    };
+  }
+}
+
+type TestAIProviderInput = {
+  provider: 'huggingface' | 'openai' | 'google';
+  text: string;
+}
+
+export const testAIProvider: TestAIProvider<TestAIProviderInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
     // Test connection first
     const connectionStatus = await aiService.testConnectionWithProvider(args.provider);
     
@@ -412,287 +3691,1254 @@ export const testAIProvider: TestAIProvider<TestAIProviderInput, any> = async (a
       };
     }
 
-    // Get available tags from database
-    const availableTags = await context.entities.Tag.findMany({
-      where: {
-        userId: null // Global tags only
-      },
-      select: {
-        name: true
-      }
-    });
+    // Get global tags plus the user's own tags from database
+    const tagNames = await getAvailableTagNames(context.user.id, context);
+    const result = await aiService.suggestTagsWithProvider(args.text, tagNames, args.provider);
+
+    return {
+      timestamp: new Date().toISOString(),
+      provider: args.provider,
+      input: args.text,
+      availableTagCount: tagNames.length,
+      connectionStatus,
+      suggestedTags: result.tags,
+      error: result.error
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      provider: args.provider,
+      input: args.text,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      suggestedTags: []
+    };
+  }
+}
+
+type CompareProvidersInput = {
+  text: string;
+}
+
+export const compareProviders: CompareProviders<CompareProvidersInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    // Get global tags plus the user's own tags from database
+    const tagNames = await getAvailableTagNames(context.user.id, context);
+
+    // Test all three providers in parallel
+    const [hfResult, openaiResult, googleResult] = await Promise.allSettled([
+      aiService.suggestTagsWithProvider(args.text, tagNames, 'huggingface'),
+      aiService.suggestTagsWithProvider(args.text, tagNames, 'openai'),
+      aiService.suggestTagsWithProvider(args.text, tagNames, 'google')
+    ]);
+
+    return {
+      timestamp: new Date().toISOString(),
+      input: args.text,
+      availableTagCount: tagNames.length,
+      huggingface: {
+        status: hfResult.status,
+        tags: hfResult.status === 'fulfilled' ? hfResult.value.tags : [],
+        error: hfResult.status === 'fulfilled' ? hfResult.value.error : hfResult.reason?.message
+      },
+      openai: {
+        status: openaiResult.status,
+        tags: openaiResult.status === 'fulfilled' ? openaiResult.value.tags : [],
+        error: openaiResult.status === 'fulfilled' ? openaiResult.value.error : openaiResult.reason?.message
+      },
+      google: {
+        status: googleResult.status,
+        tags: googleResult.status === 'fulfilled' ? googleResult.value.tags : [],
+        error: googleResult.status === 'fulfilled' ? googleResult.value.error : googleResult.reason?.message
+      }
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      input: args.text,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+type SetAIProviderInput = {
+  provider: 'huggingface' | 'openai' | 'google';
+}
+
+export const setAIProvider: SetAIProvider<SetAIProviderInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    // Test the provider before setting it
+    const connectionStatus = await aiService.testConnectionWithProvider(args.provider);
+
+    if (!connectionStatus.connected) {
+      return {
+        timestamp: new Date().toISOString(),
+        success: false,
+        provider: args.provider,
+        error: connectionStatus.error || 'Provider not available'
+      };
+    }
+
+    // Set the provider
+    aiService.setProvider(args.provider);
+
+    return {
+      timestamp: new Date().toISOString(),
+      success: true,
+      provider: args.provider,
+      previousProvider: aiService.getProvider(),
+      message: `AI provider switched to ${args.provider}`
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      success: false,
+      provider: args.provider,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+type TestGoogleAIInput = {
+  text: string;
+}
+
+export const testGoogleAI: TestGoogleAI<TestGoogleAIInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    // Test Google AI connection first
+    const connectionStatus = await aiService.testConnectionWithProvider('google');
+
+    if (!connectionStatus.connected) {
+      return {
+        timestamp: new Date().toISOString(),
+        provider: 'google',
+        input: args.text,
+        connectionStatus,
+        suggestedTags: [],
+        error: connectionStatus.error || 'Google AI not connected'
+      };
+    }
+
+    // Get global tags plus the user's own tags from database
+    const tagNames = await getAvailableTagNames(context.user.id, context);
+    const result = await aiService.suggestTagsWithProvider(args.text, tagNames, 'google');
+
+    return {
+      timestamp: new Date().toISOString(),
+      provider: 'google',
+      input: args.text,
+      availableTagCount: tagNames.length,
+      connectionStatus,
+      suggestedTags: result.tags,
+      error: result.error
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      provider: 'google',
+      input: args.text,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      suggestedTags: []
+    };
+  }
+}
+
+// ============================================================================
+// NOTE PARSING OPERATIONS
+// ============================================================================
 
-    const tagNames = availableTags.map(tag => tag.name);
-    const result = await aiService.suggestTagsWithProvider(args.text, tagNames, args.provider);
+type ParseNoteInput = {
+  noteText: string;
+}
+
+export const parseNote: ParseNote<ParseNoteInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    const items = await aiService.parseNote(args.noteText);
+
+    return {
+      timestamp: new Date().toISOString(),
+      originalNote: args.noteText,
+      extractedItems: items,
+      dates: extractCapturedDates(items, context.user, new Date()),
+      itemCount: items.length
+    };
+  } catch (error) {
+    return {
+      timestamp: new Date().toISOString(),
+      originalNote: args.noteText,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      extractedItems: [args.noteText], // Fallback to original
+      itemCount: 1
+    };
+  }
+}
+
+type ExtractEntitiesInput = {
+  text: string;
+}
+
+export const extractEntities: ExtractEntities<ExtractEntitiesInput, any> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  try {
+    const result = await aiService.extractNamedEntities(args.text);
 
     return {
       timestamp: new Date().toISOString(),
-      provider: args.provider,
       input: args.text,
-      availableTagCount: tagNames.length,
-      connectionStatus,
-      suggestedTags: result.tags,
-      error: result.error
+      entities: result.entities,
+      locations: result.locations,
+      persons: result.persons,
+      organizations: result.organizations
     };
   } catch (error) {
     return {
       timestamp: new Date().toISOString(),
-      provider: args.provider,
       input: args.text,
       error: error instanceof Error ? error.message : 'Unknown error',
-      suggestedTags: []
+      entities: [],
+      locations: [],
+      persons: [],
+      organizations: []
     };
   }
 }
 
-type CompareProvidersInput = {
+type ClassifyIntentInput = {
   text: string;
 }
 
-export const compareProviders: CompareProviders<CompareProvidersInput, any> = async (args, context) => {
+export const classifyIntent: ClassifyIntent<ClassifyIntentInput, any> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
   try {
-    // Get available tags from database
-    const availableTags = await context.entities.Tag.findMany({
-      where: {
-        userId: null // Global tags only
-      },
-      select: {
-        name: true
-      }
+    const categories = await context.entities.TagCategory.findMany({
+      where: ownedOrGlobal(context.user.id)
     });
-
-    const tagNames = availableTags.map(tag => tag.name);
-
-    // Test all three providers in parallel
-    const [hfResult, openaiResult, googleResult] = await Promise.allSettled([
-      aiService.suggestTagsWithProvider(args.text, tagNames, 'huggingface'),
-      aiService.suggestTagsWithProvider(args.text, tagNames, 'openai'),
-      aiService.suggestTagsWithProvider(args.text, tagNames, 'google')
-    ]);
+    const result = await aiService.classifyItemIntent(args.text, categories.map(category => category.name));
 
     return {
       timestamp: new Date().toISOString(),
       input: args.text,
-      availableTagCount: tagNames.length,
-      huggingface: {
-        status: hfResult.status,
-        tags: hfResult.status === 'fulfilled' ? hfResult.value.tags : [],
-        error: hfResult.status === 'fulfilled' ? hfResult.value.error : hfResult.reason?.message
-      },
-      openai: {
-        status: openaiResult.status,
-        tags: openaiResult.status === 'fulfilled' ? openaiResult.value.tags : [],
-        error: openaiResult.status === 'fulfilled' ? openaiResult.value.error : openaiResult.reason?.message
-      },
-      google: {
-        status: googleResult.status,
-        tags: googleResult.status === 'fulfilled' ? googleResult.value.tags : [],
-        error: googleResult.status === 'fulfilled' ? googleResult.value.error : googleResult.reason?.message
-      }
+      category: result.category,
+      confidence: result.confidence
     };
   } catch (error) {
     return {
       timestamp: new Date().toISOString(),
       input: args.text,
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: error instanceof Error ? error.message : 'Unknown error',
+      category: 'general',
+      confidence: 0.1
+    };
+  }
+}
+
+// ============================================================================
+// NOTE CAPTURE OPERATIONS
+// ============================================================================
+
+type AnalyzedItem = {
+  content: string;
+  suggestedTags: string[]; // Everything the provider returned
+  keptTags: Tag[];         // Suggestions that matched an existing tag
+  intent: { category: string, confidence: number };
+  activityId: number | null;
+}
+
+type ItemToPersist = {
+  content: string;
+  tagIds: number[];
+  activityId: number | null;
+  dueAt?: Date | null;
+  remindAt?: Date | null;
+  recurrenceRule?: string | null;
+  type?: ItemType;
+  details?: ItemDetails;
+  mergeIntoItemId?: number | null; // Existing duplicate that receives this item's tags and note instead
+}
+
+type CaptureCandidates = {
+  tags: Tag[];
+  activities: Activity[];
+  categories: TagCategory[]; // Intent labels, each optionally pointing at an activity
+}
+
+// Tags, activities and categories that extracted items can be assigned to
+async function loadCaptureCandidates(userId: number, context: EntitiesContext<'Tag' | 'Activity' | 'TagCategory'>): Promise<CaptureCandidates> {
+  const [tags, activities, categories] = await Promise.all([
+    context.entities.Tag.findMany({
+      where: ownedOrGlobal(userId),
+      orderBy: {
+        userId: 'desc' // User's own tags win over global tags with the same name
+      }
+    }),
+    context.entities.Activity.findMany({
+      where: {
+        ...visibleActivities(userId),
+        isArchived: false
+      }
+    }),
+    context.entities.TagCategory.findMany({
+      where: ownedOrGlobal(userId),
+      orderBy: {
+        userId: 'desc' // User's own categories win over global categories with the same name
+      }
+    })
+  ]);
+
+  return { tags, activities, categories };
+}
+
+type CapturedDate = ItemDate & {
+  recurrenceRule: string | null;
+}
+
+// Dates in notes are read in the user's zone, relative to when the note was captured.
+// Recurring items ("every Monday") start at their first occurrence on or after the date the item names
+function extractCapturedDates(contents: string[], user: { timezone: string | null }, capturedAt: Date): CapturedDate[] {
+  const timeZone = userTimeZone(user);
+
+  return contents.map(content => {
+    const recurrence = detectRecurrence(content);
+    const dated = extractItemDate(recurrence.content, { now: capturedAt, timeZone });
+    const rule = recurrence.rule ? parseRecurrenceRule(recurrence.rule) : null;
+    if (!rule) return { ...dated, recurrenceRule: null };
+
+    const first = (start: Date | null) => firstOccurrence(rule, capturedAt, timeZone, start);
+    const dueAt = dated.dueAt || !dated.remindAt ? first(dated.dueAt) : null;
+    const remindAt = dated.remindAt ? first(dated.remindAt) : null;
+    const start = dueAt ?? remindAt;
+    return {
+      ...dated,
+      dateText: [recurrence.ruleText, dated.dateText].filter(Boolean).join(' '),
+      dueAt,
+      remindAt,
+      recurrenceRule: start && recurrence.rule ? anchorRecurrenceRule(recurrence.rule, start, timeZone) : recurrence.rule
+    };
+  });
+}
+
+// Suggest up to 3 tags and infer an activity for every extracted item
+async function analyzeExtractedItems(
+  contents: string[],
+  candidates: CaptureCandidates,
+  activityId?: number
+): Promise<AnalyzedItem[]> {
+  const tagNames = Array.from(new Set(candidates.tags.map(tag => tag.name)));
+  const categoryNames = Array.from(new Set(candidates.categories.map(category => category.name)));
+
+  return Promise.all(
+    contents.map(async (content) => {
+      const [suggestedTags, intent] = await Promise.all([
+        aiService.suggestTags(content, tagNames),
+        aiService.classifyItemIntent(content, categoryNames)
+      ]);
+
+      // Only keep suggestions that resolve to a real tag, once per name (limit to 3 as per requirements)
+      const keptTags = candidates.tags
+        .filter(tag => suggestedTags.includes(tag.name))
+        .filter((tag, index, tags) => tags.findIndex(other => other.name === tag.name) === index)
+        .slice(0, 3);
+
+      let inferredActivityId: number | null = activityId ?? null;
+      if (!inferredActivityId) {
+        // The classified category decides the activity, as long as that activity is still selectable
+        const categoryActivityId = candidates.categories.find(category => category.name === intent.category)?.activityId;
+        inferredActivityId = candidates.activities.find(activity => activity.id === categoryActivityId)?.id ?? null;
+      }
+
+      return { content, suggestedTags, keptTags, intent, activityId: inferredActivityId };
+    })
+  );
+}
+
+type CapturedDetails = {
+  type: ItemType;
+  details: ItemDetails;
+}
+
+// The type follows from the item's wording, kept tags and classified intent. Places take their name
+// from NER when it finds a location and are geocoded when the item carries no coordinates
+async function extractCapturedDetails(
+  analyzedItems: AnalyzedItem[],
+  itemDates: Array<{ dueAt: Date | null, remindAt: Date | null }>
+): Promise<CapturedDetails[]> {
+  return Promise.all(
+    analyzedItems.map(async (analyzed, index) => {
+      const type = inferItemType(analyzed.content, {
+        tags: analyzed.keptTags.map(tag => tag.name),
+        category: analyzed.intent.category,
+        hasDate: !!(itemDates[index]?.dueAt || itemDates[index]?.remindAt)
+      });
+      if (type !== 'place') {
+        return { type, details: extractItemDetails(analyzed.content, type) };
+      }
+
+      const { locations } = await aiService.extractNamedEntities(analyzed.content);
+      return { type, details: await completeItemDetails(type, extractItemDetails(analyzed.content, type, locations)) };
+    })
+  );
+}
+
+type NoteToPersist = {
+  rawText: string;
+  provider: string;
+  parseModel: string;
+  capturedAt?: Date;
+}
+
+const CAPTURE_BATCH_LABEL_LENGTH = 60;
+
+function captureBatchLabel(rawText: string): string {
+  const firstLine = rawText.trim().split('\n')[0].trim();
+  return firstLine.length > CAPTURE_BATCH_LABEL_LENGTH
+    ? `${firstLine.slice(0, CAPTURE_BATCH_LABEL_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+// Persist the note, its items and their tags together so a note is never half-saved. A note that
+// turns into several items is recorded as a batch, so the whole capture can be rolled back at once
+async function persistNoteItems(
+  userId: number,
+  noteToPersist: NoteToPersist,
+  items: ItemToPersist[]
+): Promise<{ note: Note, items: Item[] }> {
+  return prisma.$transaction(tx => saveNoteItems(tx, userId, noteToPersist, items));
+}
+
+async function saveNoteItems(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  noteToPersist: NoteToPersist,
+  items: ItemToPersist[]
+): Promise<{ note: Note, items: Item[] }> {
+  const batch = items.length > 1
+    ? await tx.importBatch.create({
+        data: { source: 'capture', label: captureBatchLabel(noteToPersist.rawText), userId }
+      })
+    : null;
+
+  const note = await tx.note.create({
+    data: {
+      rawText: noteToPersist.rawText,
+      source: 'manual',
+      parseStatus: 'parsed',
+      provider: noteToPersist.provider,
+      parseModel: noteToPersist.parseModel,
+      capturedAt: noteToPersist.capturedAt,
+      importBatchId: batch?.id ?? null,
+      userId
+    }
+  });
+
+  const createdItems: Item[] = [];
+
+  for (const item of items) {
+    // The duplicate may have been deleted since detection, in which case the item is created after all
+    const existing = item.mergeIntoItemId
+      ? await tx.item.findFirst({ where: { id: item.mergeIntoItemId, userId } })
+      : null;
+    if (existing) {
+      await mergeCapturedIntoItem(tx, existing.id, note.id, item.tagIds);
+      createdItems.push(await tx.item.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: {
+          tags: {
+            include: {
+              tag: true
+            }
+          },
+          activity: true
+        }
+      }));
+      continue;
+    }
+
+    const created = await tx.item.create({
+      data: {
+        content: item.content,
+        extractedContent: item.content,
+        noteId: note.id,
+        activityId: item.activityId,
+        dueAt: item.dueAt,
+        remindAt: item.remindAt,
+        recurrenceRule: item.recurrenceRule,
+        type: item.type,
+        details: item.type && item.details ? serializeItemDetails(item.type, item.details) : null,
+        importBatchId: batch?.id ?? null,
+        updatedAt: batch?.createdAt, // So a later edit stands out when the capture is rolled back
+        userId,
+        tags: {
+          create: Array.from(new Set(item.tagIds)).slice(0, 3).map(tagId => ({ tagId }))
+        }
+      },
+      include: {
+        tags: {
+          include: {
+            tag: true
+          }
+        },
+        activity: true
+      }
+    });
+    createdItems.push(created);
+  }
+
+  return { note, items: createdItems };
+}
+
+type CaptureNoteInput = {
+  noteText: string;
+  activityId?: number; // Assign every item to this activity instead of inferring one
+  onDuplicate?: DuplicateStrategy; // Defaults to keeping both
+}
+
+type CapturedItemProvenance = {
+  itemId: number;
+  content: string;
+  provider: string;
+  suggestedTags: string[]; // Everything the provider returned
+  keptTags: string[];      // Suggestions that matched an existing tag and were saved
+  intent: { category: string, confidence: number };
+  activityId: number | null;
+  dateText: string | null; // Date expression found in the item, removed from its content
+  dueAt: Date | null;
+  remindAt: Date | null;
+  recurrenceRule: string | null;
+  type: ItemType;
+  details: ItemDetails;
+  duplicateOf: DuplicateMatch | null;
+  mergedIntoExisting: boolean; // itemId is the existing duplicate
+}
+
+type CaptureNoteResult = {
+  timestamp: string;
+  provider: string;
+  originalNote: string;
+  note: Note;
+  items: Item[];
+  provenance: CapturedItemProvenance[];
+  itemCount: number;
+}
+
+export const captureNote: CaptureNote<CaptureNoteInput, CaptureNoteResult> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const noteText = args.noteText?.trim();
+  if (!noteText) {
+    throw new HttpError(400, 'Note text is required');
+  }
+
+  await checkVisibleActivity(args.activityId, context.user.id, context);
+
+  const provider = aiService.getProvider();
+
+  // Split the note into items (falls back to the whole note on failure), then pull out their dates
+  const extractedItems = await aiService.parseNote(noteText);
+  const itemDates = extractCapturedDates(extractedItems, context.user, new Date());
+  const candidates = await loadCaptureCandidates(context.user.id, context);
+  const analyzedItems = await analyzeExtractedItems(itemDates.map(dated => dated.content), candidates, args.activityId);
+  const itemDetails = await extractCapturedDetails(analyzedItems, itemDates);
+  const duplicates = await findDuplicatesForContents(context.user.id, analyzedItems.map(analyzed => analyzed.content));
+  const shouldMerge = args.onDuplicate === 'merge';
+
+  const { note, items: createdItems } = await persistNoteItems(
+    context.user.id,
+    { rawText: noteText, provider, parseModel: aiService.getParseModel() },
+    analyzedItems.map((analyzed, index) => ({
+      content: analyzed.content,
+      tagIds: analyzed.keptTags.map(tag => tag.id),
+      activityId: analyzed.activityId,
+      dueAt: itemDates[index].dueAt,
+      remindAt: itemDates[index].remindAt,
+      recurrenceRule: itemDates[index].recurrenceRule,
+      type: itemDetails[index].type,
+      details: itemDetails[index].details,
+      mergeIntoItemId: shouldMerge ? duplicates[index]?.itemId : null
+    }))
+  );
+
+  return {
+    timestamp: new Date().toISOString(),
+    provider,
+    originalNote: noteText,
+    note,
+    items: createdItems,
+    provenance: createdItems.map((item, index) => ({
+      itemId: item.id,
+      content: item.content,
+      provider,
+      suggestedTags: analyzedItems[index].suggestedTags,
+      keptTags: analyzedItems[index].keptTags.map(tag => tag.name),
+      intent: analyzedItems[index].intent,
+      activityId: analyzedItems[index].activityId,
+      dateText: itemDates[index].dateText,
+      dueAt: itemDates[index].dueAt,
+      remindAt: itemDates[index].remindAt,
+      recurrenceRule: itemDates[index].recurrenceRule,
+      type: itemDetails[index].type,
+      details: itemDetails[index].details,
+      duplicateOf: duplicates[index],
+      mergedIntoExisting: shouldMerge && duplicates[index]?.itemId === item.id
+    })),
+    itemCount: createdItems.length
+  };
+}
+
+// ============================================================================
+// NOTE DRAFT OPERATIONS
+// ============================================================================
+
+type DraftItem = {
+  key: string;             // Stable identifier for the client while editing
+  content: string;
+  tagIds: number[];
+  suggestedTags: string[];
+  activityId: number | null;
+  intent?: { category: string, confidence: number };
+  dueAt?: string | null;    // ISO strings, as the draft is stored as JSON
+  remindAt?: string | null;
+  dateText?: string | null; // Date expression the dates were read from
+  recurrenceRule?: string | null;
+  type?: ItemType;
+  details?: ItemDetails;
+}
+
+type NoteDraftView = {
+  id: number;
+  noteText: string;
+  provider: string | null;
+  items: DraftItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toNoteDraftView(draft: NoteDraft): NoteDraftView {
+  let items: DraftItem[] = [];
+  try {
+    items = JSON.parse(draft.items);
+  } catch (error) {
+    console.error(`Failed to parse items of note draft ${draft.id}:`, error);
+  }
+
+  return {
+    id: draft.id,
+    noteText: draft.noteText,
+    provider: draft.provider,
+    items,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt
+  };
+}
+
+function draftDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Kept only when it names one of the categories the item could have been classified into
+function draftIntent(value: unknown, categoryNames: Set<string>): DraftItem['intent'] {
+  if (!isRecord(value) || typeof value.category !== 'string' || typeof value.confidence !== 'number') return undefined;
+  if (!categoryNames.has(value.category) || !(value.confidence >= 0 && value.confidence <= 1)) return undefined;
+  return { category: value.category, confidence: value.confidence };
+}
+
+// Validate draft items coming from the client before they are stored. Intents must name one of
+// the user's tag categories, or the "general" fallback of the classifier
+function sanitizeDraftItems(items: unknown, categoryNames: Set<string>): DraftItem[] {
+  if (!Array.isArray(items)) {
+    throw new HttpError(400, 'Draft items must be an array');
+  }
+
+  return items.map((item: unknown, index: number) => {
+    if (!isRecord(item) || typeof item.content !== 'string') {
+      throw new HttpError(400, `Draft item ${index + 1} has no content`);
+    }
+
+    return {
+      key: typeof item.key === 'string' && item.key ? item.key : `item-${Date.now()}-${index}`,
+      content: item.content,
+      tagIds: Array.isArray(item.tagIds)
+        ? Array.from(new Set(item.tagIds.filter((id: unknown): id is number => typeof id === 'number'))).slice(0, 3)
+        : [],
+      suggestedTags: Array.isArray(item.suggestedTags)
+        ? item.suggestedTags.filter((tag: unknown): tag is string => typeof tag === 'string')
+        : [],
+      activityId: typeof item.activityId === 'number' ? item.activityId : null,
+      intent: draftIntent(item.intent, categoryNames),
+      dueAt: draftDate(item.dueAt),
+      remindAt: draftDate(item.remindAt),
+      dateText: typeof item.dateText === 'string' ? item.dateText : null,
+      recurrenceRule: typeof item.recurrenceRule === 'string' ? normalizeRecurrenceRule(item.recurrenceRule) : null,
+      type: isItemType(item.type) ? item.type : 'note',
+      details: normalizeItemDetails(isItemType(item.type) ? item.type : 'note', item.details)
     };
+  });
+}
+
+async function findOwnNoteDraft(id: number, userId: number, context: EntitiesContext<'NoteDraft'>): Promise<NoteDraft> {
+  const draft = await context.entities.NoteDraft.findFirst({
+    where: {
+      id,
+      userId
+    }
+  });
+
+  if (!draft) {
+    throw new HttpError(404, 'Note draft not found');
+  }
+
+  return draft;
+}
+
+export const getNoteDrafts: GetNoteDrafts<void, NoteDraftView[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const drafts = await context.entities.NoteDraft.findMany({
+    where: {
+      userId: context.user.id
+    },
+    orderBy: {
+      updatedAt: 'desc' // Most recently edited first
+    }
+  });
+
+  return drafts.map(toNoteDraftView);
+}
+
+export const createNoteDraft: CreateNoteDraft<{ noteText: string }, NoteDraftView> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const noteText = args.noteText?.trim();
+  if (!noteText) {
+    throw new HttpError(400, 'Note text is required');
   }
+
+  const extractedItems = await aiService.parseNote(noteText);
+  const itemDates = extractCapturedDates(extractedItems, context.user, new Date());
+  const candidates = await loadCaptureCandidates(context.user.id, context);
+  const analyzedItems = await analyzeExtractedItems(itemDates.map(dated => dated.content), candidates);
+  const itemDetails = await extractCapturedDetails(analyzedItems, itemDates);
+
+  const items: DraftItem[] = analyzedItems.map((analyzed, index) => ({
+    key: `item-${Date.now()}-${index}`,
+    content: analyzed.content,
+    tagIds: analyzed.keptTags.map(tag => tag.id),
+    suggestedTags: analyzed.suggestedTags,
+    activityId: analyzed.activityId,
+    intent: analyzed.intent,
+    dueAt: itemDates[index].dueAt?.toISOString() ?? null,
+    remindAt: itemDates[index].remindAt?.toISOString() ?? null,
+    dateText: itemDates[index].dateText,
+    recurrenceRule: itemDates[index].recurrenceRule,
+    type: itemDetails[index].type,
+    details: itemDetails[index].details
+  }));
+
+  const draft = await context.entities.NoteDraft.create({
+    data: {
+      noteText,
+      items: JSON.stringify(items),
+      provider: aiService.getProvider(),
+      userId: context.user.id
+    }
+  });
+
+  return toNoteDraftView(draft);
 }
 
-type SetAIProviderInput = {
-  provider: 'huggingface' | 'openai' | 'google';
+type UpdateNoteDraftInput = {
+  id: number;
+  items: DraftItem[];
 }
 
-export const setAIProvider: SetAIProvider<SetAIProviderInput, any> = async (args, context) => {
+export const updateNoteDraft: UpdateNoteDraft<UpdateNoteDraftInput, NoteDraftView> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  try {
-    // Test the provider before setting it
-    const connectionStatus = await aiService.testConnectionWithProvider(args.provider);
+  await findOwnNoteDraft(args.id, context.user.id, context);
 
-    if (!connectionStatus.connected) {
-      return {
-        timestamp: new Date().toISOString(),
-        success: false,
-        provider: args.provider,
-        error: connectionStatus.error || 'Provider not available'
-      };
+  const categories = await context.entities.TagCategory.findMany({
+    where: ownedOrGlobal(context.user.id),
+    select: { name: true }
+  });
+  const categoryNames = new Set(['general', ...categories.map(category => category.name)]);
+
+  const draft = await context.entities.NoteDraft.update({
+    where: { id: args.id },
+    data: {
+      items: JSON.stringify(sanitizeDraftItems(args.items, categoryNames))
     }
+  });
 
-    // Set the provider
-    aiService.setProvider(args.provider);
+  return toNoteDraftView(draft);
+}
 
-    return {
-      timestamp: new Date().toISOString(),
-      success: true,
-      provider: args.provider,
-      previousProvider: aiService.getProvider(),
-      message: `AI provider switched to ${args.provider}`
-    };
-  } catch (error) {
-    return {
-      timestamp: new Date().toISOString(),
-      success: false,
-      provider: args.provider,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+type CommitNoteDraftInput = {
+  id: number;
+  onDuplicate?: DuplicateStrategy; // Defaults to keeping both
 }
 
-type TestGoogleAIInput = {
-  text: string;
+type CommitNoteDraftResult = {
+  note: Note;
+  items: Item[];
+  itemCount: number;
+  mergedCount: number; // Items folded into existing duplicates
 }
 
-export const testGoogleAI: TestGoogleAI<TestGoogleAIInput, any> = async (args, context) => {
+export const commitNoteDraft: CommitNoteDraft<CommitNoteDraftInput, CommitNoteDraftResult> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  try {
-    // Test Google AI connection first
-    const connectionStatus = await aiService.testConnectionWithProvider('google');
+  const draft = toNoteDraftView(await findOwnNoteDraft(args.id, context.user.id, context));
 
-    if (!connectionStatus.connected) {
-      return {
-        timestamp: new Date().toISOString(),
-        provider: 'google',
-        input: args.text,
-        connectionStatus,
-        suggestedTags: [],
-        error: connectionStatus.error || 'Google AI not connected'
-      };
+  // Drop items emptied during review and anything pointing at tags/activities the user cannot use
+  const candidates = await loadCaptureCandidates(context.user.id, context);
+  const tagIds = new Set(candidates.tags.map(tag => tag.id));
+  const activityIds = new Set(candidates.activities.map(activity => activity.id));
+
+  const itemsToPersist: ItemToPersist[] = draft.items
+    .filter(item => item.content.trim().length > 0)
+    .map(item => ({
+      content: item.content.trim(),
+      tagIds: item.tagIds.filter(tagId => tagIds.has(tagId)),
+      activityId: item.activityId !== null && activityIds.has(item.activityId) ? item.activityId : null,
+      dueAt: item.dueAt ? new Date(item.dueAt) : null,
+      remindAt: item.remindAt ? new Date(item.remindAt) : null,
+      recurrenceRule: item.recurrenceRule ?? null,
+      type: item.type,
+      details: item.details
+    }));
+
+  if (itemsToPersist.length === 0) {
+    throw new HttpError(400, 'Draft has no items to save');
+  }
+
+  if (args.onDuplicate === 'merge') {
+    const duplicates = await findDuplicatesForContents(context.user.id, itemsToPersist.map(item => item.content));
+    itemsToPersist.forEach((item, index) => {
+      item.mergeIntoItemId = duplicates[index]?.itemId;
+    });
+  }
+
+  const userId = context.user.id;
+  const { note, items } = await prisma.$transaction(async (tx) => {
+    // Claiming the draft in the same transaction makes a second submit find it gone instead of
+    // saving the note again; a draft edited in the meantime is saved once reviewed again
+    const current = await tx.noteDraft.findFirst({ where: { id: draft.id, userId } });
+    if (!current) {
+      throw new HttpError(404, 'Note draft not found');
     }
+    if (current.updatedAt.getTime() !== draft.updatedAt.getTime()) {
+      throw new HttpError(409, 'The draft changed while saving, please try again');
+    }
+    await tx.noteDraft.delete({ where: { id: draft.id } });
 
-    // Get available tags from database
-    const availableTags = await context.entities.Tag.findMany({
-      where: {
-        userId: null // Global tags only
+    return saveNoteItems(
+      tx,
+      userId,
+      {
+        rawText: draft.noteText,
+        provider: draft.provider || aiService.getProvider(),
+        parseModel: aiService.getParseModel(),
+        capturedAt: draft.createdAt
       },
-      select: {
-        name: true
-      }
-    });
+      itemsToPersist
+    );
+  });
 
-    const tagNames = availableTags.map(tag => tag.name);
-    const result = await aiService.suggestTagsWithProvider(args.text, tagNames, 'google');
+  return {
+    note,
+    items,
+    itemCount: items.length,
+    mergedCount: itemsToPersist.filter((item, index) => item.mergeIntoItemId === items[index].id).length
+  };
+}
 
-    return {
-      timestamp: new Date().toISOString(),
-      provider: 'google',
-      input: args.text,
-      availableTagCount: tagNames.length,
-      connectionStatus,
-      suggestedTags: result.tags,
-      error: result.error
-    };
-  } catch (error) {
-    return {
-      timestamp: new Date().toISOString(),
-      provider: 'google',
-      input: args.text,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      suggestedTags: []
-    };
+export const discardNoteDraft: DiscardNoteDraft<{ id: number }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
   }
+
+  await findOwnNoteDraft(args.id, context.user.id, context);
+
+  await context.entities.NoteDraft.delete({
+    where: { id: args.id }
+  });
 }
 
 // ============================================================================
-// NOTE PARSING OPERATIONS
+// NOTE OPERATIONS
 // ============================================================================
 
-type ParseNoteInput = {
-  noteText: string;
+type NoteSummary = Prisma.NoteGetPayload<{ include: { _count: { select: { items: true } } } }>;
+
+export const getNotes: GetNotes<void, NoteSummary[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  return context.entities.Note.findMany({
+    where: {
+      userId: context.user.id
+    },
+    include: {
+      _count: {
+        select: { items: true }
+      }
+    },
+    orderBy: {
+      capturedAt: 'desc' // Most recent first
+    }
+  });
 }
 
-export const parseNote: ParseNote<ParseNoteInput, any> = async (args, context) => {
+const NOTE_DETAIL_INCLUDE = {
+  items: {
+    include: {
+      tags: {
+        include: {
+          tag: true
+        }
+      },
+      activity: true
+    },
+    orderBy: {
+      createdAt: 'asc' // Keep the order items were extracted in
+    }
+  },
+  mergedItems: {
+    include: {
+      item: true
+    }
+  }
+} satisfies Prisma.NoteInclude;
+
+type NoteDetail = Prisma.NoteGetPayload<{ include: typeof NOTE_DETAIL_INCLUDE }>;
+
+export const getNote: GetNote<{ id: number }, NoteDetail> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  try {
-    const items = await aiService.parseNote(args.noteText);
+  const note = await context.entities.Note.findFirst({
+    where: {
+      id: args.id,
+      userId: context.user.id
+    },
+    include: NOTE_DETAIL_INCLUDE
+  });
 
-    return {
-      timestamp: new Date().toISOString(),
-      originalNote: args.noteText,
-      extractedItems: items,
-      itemCount: items.length
-    };
-  } catch (error) {
-    return {
-      timestamp: new Date().toISOString(),
-      originalNote: args.noteText,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      extractedItems: [args.noteText], // Fallback to original
-      itemCount: 1
-    };
+  if (!note) {
+    throw new HttpError(404, 'Note not found');
   }
+
+  return note;
 }
 
-type ExtractEntitiesInput = {
-  text: string;
+// Extracted wording at least this similar to a saved item counts as the same item
+const REPARSE_MATCH_THRESHOLD = 0.5;
+
+type ProtectedReason = 'edited' | 'retagged' | 'completed';
+
+type NoteDiff = {
+  added: string[]; // Extracted now but not saved yet, as parsed (dates are read again when they are saved)
+  removed: Array<{ itemId: number, content: string, protectedReasons: ProtectedReason[] }>; // Saved but no longer extracted
+  changed: Array<{ itemId: number, before: string, after: string, similarity: number, protectedReasons: ProtectedReason[] }>;
+  unchanged: Array<{ itemId: number, content: string }>;
 }
 
-export const extractEntities: ExtractEntities<ExtractEntitiesInput, any> = async (args, context) => {
+// Hand-made changes that re-parsing must not overwrite
+function getProtectedReasons(item: Item): ProtectedReason[] {
+  const reasons: ProtectedReason[] = [];
+  if (item.extractedContent === null || item.content !== item.extractedContent) {
+    reasons.push('edited');
+  }
+  if (item.tagsEditedAt) {
+    reasons.push('retagged');
+  }
+  if (item.isCompleted) {
+    reasons.push('completed');
+  }
+  return reasons;
+}
+
+// Reconcile freshly extracted items with the items already saved for a note; added items are reported
+// in their parsed wording when given, so saving them can pick up their dates
+function diffNoteItems(savedItems: Item[], extractedItems: string[], parsedItems: string[] = extractedItems): NoteDiff {
+  const savedTexts = savedItems.map(item => item.extractedContent ?? item.content);
+  const matches = matchBySimilarity(savedTexts, extractedItems, REPARSE_MATCH_THRESHOLD);
+
+  const diff: NoteDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const match of matches) {
+    const item = savedItems[match.leftIndex];
+    const extracted = extractedItems[match.rightIndex];
+
+    if (normalizeText(savedTexts[match.leftIndex]) === normalizeText(extracted)) {
+      diff.unchanged.push({ itemId: item.id, content: item.content });
+    } else {
+      diff.changed.push({
+        itemId: item.id,
+        before: item.content,
+        after: extracted,
+        similarity: match.similarity,
+        protectedReasons: getProtectedReasons(item)
+      });
+    }
+  }
+
+  const matchedSaved = new Set(matches.map(match => match.leftIndex));
+  const matchedExtracted = new Set(matches.map(match => match.rightIndex));
+
+  savedItems.forEach((item, index) => {
+    if (!matchedSaved.has(index)) {
+      diff.removed.push({ itemId: item.id, content: item.content, protectedReasons: getProtectedReasons(item) });
+    }
+  });
+
+  parsedItems.forEach((parsed, index) => {
+    if (!matchedExtracted.has(index)) {
+      diff.added.push(parsed);
+    }
+  });
+
+  return diff;
+}
+
+type ReparseNoteResult = {
+  timestamp: string;
+  note: Note;
+  previousProvider: string | null;
+  previousModel: string | null;
+  extractedItems: string[];
+  itemCount: number;
+  diff: NoteDiff;
+  error?: string;
+}
+
+export const reparseNote: ReparseNote<{ id: number }, ReparseNoteResult> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
+  // Verify note belongs to user
+  const existingNote = await context.entities.Note.findFirst({
+    where: {
+      id: args.id,
+      userId: context.user.id
+    },
+    include: {
+      items: true
+    }
+  });
+
+  if (!existingNote) {
+    throw new HttpError(404, 'Note not found');
+  }
+
+  const provider = aiService.getProvider();
+  const parseModel = aiService.getParseModel();
+
   try {
-    const result = await aiService.extractNamedEntities(args.text);
+    // Dates are stripped as on capture, relative to the original capture time, so unchanged items still match
+    const parsedItems = await aiService.parseNote(existingNote.rawText);
+    const extractedItems = extractCapturedDates(parsedItems, context.user, existingNote.capturedAt).map(dated => dated.content);
+
+    const note = await context.entities.Note.update({
+      where: { id: existingNote.id },
+      data: {
+        parseStatus: 'parsed',
+        provider,
+        parseModel
+      }
+    });
 
     return {
       timestamp: new Date().toISOString(),
-      input: args.text,
-      entities: result.entities,
-      locations: result.locations,
-      persons: result.persons,
-      organizations: result.organizations
+      note,
+      previousProvider: existingNote.provider,
+      previousModel: existingNote.parseModel,
+      extractedItems,
+      itemCount: extractedItems.length,
+      diff: diffNoteItems(existingNote.items, extractedItems, parsedItems)
     };
   } catch (error) {
+    const note = await context.entities.Note.update({
+      where: { id: existingNote.id },
+      data: {
+        parseStatus: 'failed',
+        provider,
+        parseModel
+      }
+    });
+
     return {
       timestamp: new Date().toISOString(),
-      input: args.text,
+      note,
+      previousProvider: existingNote.provider,
+      previousModel: existingNote.parseModel,
       error: error instanceof Error ? error.message : 'Unknown error',
-      entities: [],
-      locations: [],
-      persons: [],
-      organizations: []
+      extractedItems: [],
+      itemCount: 0,
+      diff: { added: [], removed: [], changed: [], unchanged: [] }
     };
   }
 }
 
-type ClassifyIntentInput = {
-  text: string;
+type ApplyNoteReparseInput = {
+  noteId: number;
+  add?: string[];                                  // Newly extracted items to save, dates still in their wording
+  update?: Array<{ itemId: number, content: string }>; // New wording to accept
+  remove?: number[];                               // Items no longer extracted to delete
 }
 
-export const classifyIntent: ClassifyIntent<ClassifyIntentInput, any> = async (args, context) => {
+type ApplyNoteReparseResult = {
+  created: Item[];
+  updatedItemIds: number[];
+  removedItemIds: number[];
+  skipped: Array<{ itemId: number, protectedReasons: ProtectedReason[] }>;
+}
+
+export const applyNoteReparse: ApplyNoteReparse<ApplyNoteReparseInput, ApplyNoteReparseResult> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
 
-  try {
-    const result = await aiService.classifyItemIntent(args.text);
+  // Verify note belongs to user
+  const note = await context.entities.Note.findFirst({
+    where: {
+      id: args.noteId,
+      userId: context.user.id
+    },
+    include: {
+      items: true
+    }
+  });
 
-    return {
-      timestamp: new Date().toISOString(),
-      input: args.text,
-      category: result.category,
-      confidence: result.confidence
-    };
-  } catch (error) {
-    return {
-      timestamp: new Date().toISOString(),
-      input: args.text,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      category: 'general',
-      confidence: 0.1
-    };
+  if (!note) {
+    throw new HttpError(404, 'Note not found');
+  }
+
+  const { add = [], update = [], remove = [] } = args;
+  if (!Array.isArray(add) || !add.every(content => typeof content === 'string')) {
+    throw new HttpError(400, 'Items to add must be a list of texts');
+  }
+  if (!Array.isArray(update) || !update.every(change => isRecord(change) && Number.isInteger(change.itemId) && typeof change.content === 'string')) {
+    throw new HttpError(400, 'Each update needs an item id and its new content');
   }
-}
\ No newline at end of file
+  if (!Array.isArray(remove) || !remove.every(itemId => Number.isInteger(itemId))) {
+    throw new HttpError(400, 'Items to remove must be a list of item ids');
+  }
+
+  const itemsById = new Map<number, Item>(note.items.map(item => [item.id, item]));
+  const skipped: ApplyNoteReparseResult['skipped'] = [];
+
+  // Never touch items the user changed by hand, whatever the client sends
+  const isApplicable = (itemId: number): boolean => {
+    const item = itemsById.get(itemId);
+    if (!item) {
+      throw new HttpError(400, `Item ${itemId} does not belong to this note`);
+    }
+    const protectedReasons = getProtectedReasons(item);
+    if (protectedReasons.length > 0) {
+      skipped.push({ itemId, protectedReasons });
+      return false;
+    }
+    return true;
+  };
+
+  const updates = update.filter(change => change.content.trim() && isApplicable(change.itemId));
+  const removals = remove.filter(isApplicable);
+  const additions = add.map(content => content.trim()).filter(content => content.length > 0);
+
+  // Dates are read as on capture, relative to when the note was captured
+  const addedDates = extractCapturedDates(additions, context.user, note.capturedAt);
+  const analyzedItems = additions.length > 0
+    ? await analyzeExtractedItems(addedDates.map(dated => dated.content), await loadCaptureCandidates(context.user.id, context))
+    : [];
+  const addedDetails = await extractCapturedDetails(analyzedItems, addedDates);
+
+  const created = await prisma.$transaction(async (tx) => {
+    for (const change of updates) {
+      await tx.item.update({
+        where: { id: change.itemId },
+        data: {
+          content: change.content.trim(),
+          extractedContent: change.content.trim()
+        }
+      });
+    }
+
+    if (removals.length > 0) {
+      await tx.item.deleteMany({
+        where: { id: { in: removals } }
+      });
+    }
+
+    const createdItems: Item[] = [];
+    for (const [index, analyzed] of analyzedItems.entries()) {
+      const { type, details } = addedDetails[index];
+      const item = await tx.item.create({
+        data: {
+          content: analyzed.content,
+          extractedContent: analyzed.content,
+          noteId: note.id,
+          activityId: analyzed.activityId,
+          dueAt: addedDates[index].dueAt,
+          remindAt: addedDates[index].remindAt,
+          recurrenceRule: addedDates[index].recurrenceRule,
+          type,
+          details: serializeItemDetails(type, details),
+          userId: note.userId,
+          tags: {
+            create: analyzed.keptTags.map(tag => ({ tagId: tag.id }))
+          }
+        }
+      });
+      createdItems.push(item);
+    }
+
+    return createdItems;
+  });
+
+  return {
+    created,
+    updatedItemIds: updates.map(change => change.itemId),
+    removedItemIds: removals,
+    skipped
+  };
+}
@@ -0,0 +1,125 @@
+import { preferenceScore, type PreferenceWeights } from './learning'
+
+// Item ranking for getItems: a weighted sum of normalized signals, returned with its breakdown
+// so the UI can explain why an item sits where it does
+
+export type RankingSignal = 'relevance' | 'preference' | 'age' | 'interaction' | 'due' | 'activity'
+
+export type RankingWeights = {
+  relevance: number
+  preference: number
+  age: number
+  interaction: number
+  due: number
+  activity: number
+  ageHalfLifeDays: number // Age after which the age signal is worth half
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  relevance: 1.0,
+  preference: 0.5,
+  age: 0.3,
+  interaction: 0.2,
+  due: 0.8,
+  activity: 0.3,
+  ageHalfLifeDays: 30
+}
+
+export const RANKING_SIGNALS: RankingSignal[] = ['relevance', 'preference', 'age', 'interaction', 'due', 'activity']
+
+export const MAX_SIGNAL_WEIGHT = 5
+export const MAX_AGE_HALF_LIFE_DAYS = 365
+
+// Interactions stop counting quickly, a week later they are worth half
+const INTERACTION_HALF_LIFE_DAYS = 7
+
+// Due dates start pulling items up a few days ahead; overdue items get the full signal
+const DUE_HALF_LIFE_DAYS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RankingComponent = {
+  signal: RankingSignal
+  value: number        // Normalized signal, 0..1 (preference -1..1)
+  weight: number
+  contribution: number // value × weight
+}
+
+export type RankingBreakdown = {
+  score: number
+  components: RankingComponent[]
+}
+
+export type RankableItem = {
+  relevance: number
+  isCompleted: boolean
+  createdAt: Date
+  dueAt: Date | null
+  activityId: number | null
+  tags: Array<{ tag: { id: number, categoryId: number } }>
+}
+
+export type RankingContext = {
+  now: Date
+  weights: RankingWeights
+  preferences: PreferenceWeights
+  lastInteractionAt?: Date | null // Most recent feedback event on the item
+  activityId?: number             // Activity the user is looking at
+}
+
+function halfLifeDecay(ageMs: number, halfLifeDays: number): number {
+  return Math.pow(0.5, Math.max(0, ageMs) / (halfLifeDays * DAY_MS))
+}
+
+function dueSignal(item: RankableItem, now: Date): number {
+  if (!item.dueAt || item.isCompleted) return 0
+  const untilDue = new Date(item.dueAt).getTime() - now.getTime()
+  return untilDue <= 0 ? 1 : halfLifeDecay(untilDue, DUE_HALF_LIFE_DAYS)
+}
+
+// Items assigned to the selected activity outrank those its rules only surface; without a selection nothing changes
+function activitySignal(item: RankableItem, activityId?: number): number {
+  if (activityId === undefined) return 0
+  return item.activityId === activityId ? 1 : 0
+}
+
+export function rankItem(item: RankableItem, context: RankingContext): RankingBreakdown {
+  const { now, weights } = context
+  const values: { [signal in RankingSignal]: number } = {
+    relevance: item.relevance,
+    preference: preferenceScore(item, context.preferences),
+    age: halfLifeDecay(now.getTime() - new Date(item.createdAt).getTime(), weights.ageHalfLifeDays),
+    interaction: context.lastInteractionAt
+      ? halfLifeDecay(now.getTime() - new Date(context.lastInteractionAt).getTime(), INTERACTION_HALF_LIFE_DAYS)
+      : 0,
+    due: dueSignal(item, now),
+    activity: activitySignal(item, context.activityId)
+  }
+
+  const components = RANKING_SIGNALS.map(signal => ({
+    signal,
+    value: values[signal],
+    weight: weights[signal],
+    contribution: values[signal] * weights[signal]
+  }))
+
+  return {
+    score: components.reduce((sum, component) => sum + component.contribution, 0),
+    components
+  }
+}
+
+// Weights from a stored RankingPreference row, defaults when the user never changed them
+export function toRankingWeights(stored: RankingWeights | null): RankingWeights {
+  if (!stored) return DEFAULT_RANKING_WEIGHTS
+
+  return {
+    relevance: stored.relevance,
+    preference: stored.preference,
+    age: stored.age,
+    interaction: stored.interaction,
+    due: stored.due,
+    activity: stored.activity,
+    ageHalfLifeDays: stored.ageHalfLifeDays
+  }
+}
@@ -0,0 +1,324 @@
+import {
+  addDays,
+  compareDays,
+  zonedNow,
+  zonedToInstant,
+  firstMatch,
+  stripSpans,
+  DEFAULT_HOUR,
+  WEEKDAYS,
+  type CalendarDay,
+  type TimeOfDay
+} from './ai/dateExtraction'
+
+// Recurring items follow a subset of iCalendar RRULE ("FREQ=WEEKLY;BYDAY=MO,TH"). Completing one
+// logs an ItemCompletion and moves the item to its next occurrence instead of closing it.
+// Occurrences keep their wall-clock time in the user's zone across daylight saving changes
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay: number[]           // Weekdays, 0 = Sunday; WEEKLY only, defaults to the weekday of the occurrence
+  byMonthDay: number | null // Day of the month, -1 for the last; MONTHLY only, defaults to the day of the occurrence
+  until: Date | null        // No occurrences after this
+  count: number | null      // Occurrences in the whole series, completed ones included
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+export const MAX_RECURRENCE_INTERVAL = 99
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How far ahead to look for the next matching day, per step of the interval
+const SCAN_DAYS_PER_INTERVAL: { [freq in RecurrenceFrequency]: number } = {
+  DAILY: 1,
+  WEEKLY: 7,
+  MONTHLY: 31,
+  YEARLY: 366
+}
+
+function parseUntil(value: string): Date | null {
+  const compact = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value)
+  const date = compact
+    ? new Date(Date.UTC(+compact[1], +compact[2] - 1, +compact[3], +(compact[4] ?? 23), +(compact[5] ?? 59), +(compact[6] ?? 59)))
+    : new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Null when the rule uses anything outside the supported subset
+export function parseRecurrenceRule(text: string): RecurrenceRule | null {
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: null, until: null, count: null }
+  let hasFreq = false
+
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=').map(piece => piece?.trim().toUpperCase())
+    if (!value) return null
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as RecurrenceFrequency)) return null
+        rule.freq = value as RecurrenceFrequency
+        hasFreq = true
+        break
+      case 'INTERVAL':
+        rule.interval = Number(value)
+        if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_RECURRENCE_INTERVAL) return null
+        break
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(day => RRULE_DAYS.indexOf(day))
+        if (rule.byDay.some(day => day < 0)) return null
+        rule.byDay = Array.from(new Set(rule.byDay)).sort()
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = Number(value)
+        if (!Number.isInteger(rule.byMonthDay) || !(rule.byMonthDay === -1 || (rule.byMonthDay >= 1 && rule.byMonthDay <= 31))) return null
+        break
+      case 'UNTIL':
+        rule.until = parseUntil(value)
+        if (!rule.until) return null
+        break
+      case 'COUNT':
+        rule.count = Number(value)
+        if (!Number.isInteger(rule.count) || rule.count < 1) return null
+        break
+      default:
+        return null
+    }
+  }
+
+  if (!hasFreq) return null
+  if (rule.byDay.length > 0 && rule.freq !== 'WEEKLY') return null
+  if (rule.byMonthDay !== null && rule.freq !== 'MONTHLY') return null
+  return rule
+}
+
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(day => RRULE_DAYS[day]).join(',')}`)
+  if (rule.byMonthDay !== null) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+// The rule in canonical form, null when it is not valid
+export function normalizeRecurrenceRule(text: string): string | null {
+  const rule = parseRecurrenceRule(text)
+  return rule ? serializeRecurrenceRule(rule) : null
+}
+
+// Pin a plain monthly rule to the day of the series' first occurrence. Each occurrence is found from
+// the one before, so without BYMONTHDAY a series on the 31st would move to the 28th after February
+export function anchorRecurrenceRule(text: string, first: Date, timeZone: string): string {
+  const rule = parseRecurrenceRule(text)
+  if (!rule || rule.freq !== 'MONTHLY' || rule.byMonthDay !== null) return text
+  return serializeRecurrenceRule({ ...rule, byMonthDay: zonedNow(first, timeZone).day })
+}
+
+function weekdayOf(day: CalendarDay): number {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay()
+}
+
+function daysBetween(from: CalendarDay, to: CalendarDay): number {
+  return Math.round(compareDays(to, from) / DAY_MS)
+}
+
+// Monday-based weeks, as in the rest of the app
+function mondayOf(day: CalendarDay): CalendarDay {
+  return addDays(day, -((weekdayOf(day) + 6) % 7))
+}
+
+// Day of the month to use in a given month; months too short for it use their last day
+function monthDayIn(year: number, month: number, dayOfMonth: number): number {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return dayOfMonth === -1 ? lastDay : Math.min(dayOfMonth, lastDay)
+}
+
+// Whether the day is an occurrence of a series that has one on the anchor day
+function matchesDay(rule: RecurrenceRule, day: CalendarDay, anchor: CalendarDay): boolean {
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysBetween(anchor, day) % rule.interval === 0
+    case 'WEEKLY': {
+      const weekdays = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(anchor)]
+      const weeks = daysBetween(mondayOf(anchor), mondayOf(day)) / 7
+      return weekdays.includes(weekdayOf(day)) && weeks % rule.interval === 0
+    }
+    case 'MONTHLY': {
+      const months = (day.year - anchor.year) * 12 + day.month - anchor.month
+      return months % rule.interval === 0 && day.day === monthDayIn(day.year, day.month, rule.byMonthDay ?? anchor.day)
+    }
+    case 'YEARLY':
+      return (day.year - anchor.year) % rule.interval === 0 &&
+        day.month === anchor.month &&
+        day.day === monthDayIn(day.year, day.month, anchor.day)
+  }
+}
+
+// First occurrence from startDay on that lies after the given instant, null past UNTIL
+function scanOccurrences(
+  rule: RecurrenceRule,
+  anchor: CalendarDay,
+  time: TimeOfDay,
+  startDay: CalendarDay,
+  after: Date,
+  timeZone: string
+): Date | null {
+  const scanDays = SCAN_DAYS_PER_INTERVAL[rule.freq] * rule.interval + SCAN_DAYS_PER_INTERVAL[rule.freq]
+
+  for (let offset = 0; offset <= scanDays; offset++) {
+    const day = addDays(startDay, offset)
+    if (!matchesDay(rule, day, anchor)) continue
+
+    const occurrence = zonedToInstant(day, time, timeZone)
+    if (occurrence.getTime() <= after.getTime()) continue
+    return rule.until && occurrence > rule.until ? null : occurrence
+  }
+
+  return null
+}
+
+// Occurrence that follows the current one, skipping any that have already passed by `now`
+export function nextOccurrence(rule: RecurrenceRule, current: Date, now: Date, timeZone: string): Date | null {
+  const base = zonedNow(current, timeZone)
+  const anchor = { year: base.year, month: base.month, day: base.day }
+  const after = current > now ? current : now
+  const afterDay = zonedNow(after, timeZone)
+
+  // Scanning starts at the later of the two days; matching stays relative to the anchor
+  return scanOccurrences(
+    rule,
+    anchor,
+    { hour: base.hour, minute: base.minute },
+    { year: afterDay.year, month: afterDay.month, day: afterDay.day },
+    after,
+    timeZone
+  )
+}
+
+// First occurrence of a new series: on or after `start` (now when missing), at start's time of day
+export function firstOccurrence(rule: RecurrenceRule, now: Date, timeZone: string, start?: Date | null): Date | null {
+  const from = zonedNow(start ?? now, timeZone)
+  const day = { year: from.year, month: from.month, day: from.day }
+  const time = start ? { hour: from.hour, minute: from.minute } : { hour: DEFAULT_HOUR, minute: 0 }
+  const after = start && start > now ? new Date(start.getTime() - 1) : now
+
+  return scanOccurrences(rule, day, time, day, after, timeZone)
+}
+
+// ============================================================================
+// Recurrence hints in parsed items ("water plants every Monday")
+// ============================================================================
+
+export type DetectedRecurrence = {
+  content: string         // Item text without the hint
+  rule: string | null     // Canonical rule
+  ruleText: string | null // The hint as written
+}
+
+const END = `(?![\\w'])`
+const WEEKDAY = `(?:${WEEKDAYS.join('|')})`
+const WEEKDAY_LIST = `${WEEKDAY}s?(?:\\s*(?:,|and|&|,\\s*and)\\s*${WEEKDAY}s?)*`
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+}
+
+const UNIT_FREQUENCIES: { [unit: string]: RecurrenceFrequency } = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY'
+}
+
+function weekdaysIn(text: string): number[] {
+  const found = text.toLowerCase().match(new RegExp(WEEKDAY, 'g')) || []
+  return Array.from(new Set(found.map(day => WEEKDAYS.indexOf(day)))).sort()
+}
+
+const RECURRENCE_PATTERNS: Array<{ pattern: RegExp, rule: (m: RegExpExecArray) => string }> = [
+  { pattern: new RegExp(`\\b(?:every|each)\\s+other\\s+day${END}`, 'i'), rule: () => 'FREQ=DAILY;INTERVAL=2' },
+  { pattern: new RegExp(`\\b(?:(?:every|each)\\s+day|daily)${END}`, 'i'), rule: () => 'FREQ=DAILY' },
+  { pattern: new RegExp(`\\b(?:every\\s+weekday|on\\s+weekdays)${END}`, 'i'), rule: () => 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { pattern: new RegExp(`\\b(?:every\\s+weekend|on\\s+weekends)${END}`, 'i'), rule: () => 'FREQ=WEEKLY;BYDAY=SA,SU' },
+  {
+    pattern: new RegExp(`\\b(?:every|each)\\s+other\\s+(${WEEKDAY})${END}`, 'i'),
+    rule: (m) => `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekdaysIn(m[1]).map(day => RRULE_DAYS[day]).join(',')}`
+  },
+  {
+    pattern: new RegExp(`\\b(?:every|each)\\s+(${WEEKDAY_LIST})${END}`, 'i'),
+    rule: (m) => `FREQ=WEEKLY;BYDAY=${weekdaysIn(m[1]).map(day => RRULE_DAYS[day]).join(',')}`
+  },
+  {
+    // Plural weekdays on their own: "on Mondays"
+    pattern: new RegExp(`\\bon\\s+(${WEEKDAY}s(?:\\s*(?:,|and|&)\\s*${WEEKDAY}s)*)${END}`, 'i'),
+    rule: (m) => `FREQ=WEEKLY;BYDAY=${weekdaysIn(m[1]).map(day => RRULE_DAYS[day]).join(',')}`
+  },
+  { pattern: new RegExp(`\\b(?:(?:every|each)\\s+other\\s+week|biweekly|fortnightly)${END}`, 'i'), rule: () => 'FREQ=WEEKLY;INTERVAL=2' },
+  { pattern: new RegExp(`\\b(?:(?:every|each)\\s+week|weekly)${END}`, 'i'), rule: () => 'FREQ=WEEKLY' },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?(?:every|each)\\s+(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)(?:\\s+(?:of\\s+)?(?:the|each|every)\\s+month)?${END}`, 'i'),
+    rule: (m) => Number(m[1]) >= 1 && Number(m[1]) <= 31 ? `FREQ=MONTHLY;BYMONTHDAY=${Number(m[1])}` : 'FREQ=MONTHLY'
+  },
+  {
+    pattern: new RegExp(`\\b(?:on\\s+)?the\\s+last\\s+day\\s+of\\s+(?:the|each|every)\\s+month${END}`, 'i'),
+    rule: () => 'FREQ=MONTHLY;BYMONTHDAY=-1'
+  },
+  { pattern: new RegExp(`\\b(?:(?:every|each)\\s+month|monthly)${END}`, 'i'), rule: () => 'FREQ=MONTHLY' },
+  { pattern: new RegExp(`\\b(?:(?:every|each)\\s+year|yearly|annually)${END}`, 'i'), rule: () => 'FREQ=YEARLY' },
+  {
+    pattern: new RegExp(`\\bevery\\s+(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})\\s+(day|week|month|year)s${END}`, 'i'),
+    rule: (m) => {
+      const interval = Math.min(NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1]), MAX_RECURRENCE_INTERVAL)
+      return `FREQ=${UNIT_FREQUENCIES[m[2].toLowerCase()]}${interval > 1 ? `;INTERVAL=${interval}` : ''}`
+    }
+  }
+]
+
+export function detectRecurrence(content: string): DetectedRecurrence {
+  const found = firstMatch(content, RECURRENCE_PATTERNS)
+  const rule = found ? normalizeRecurrenceRule(found.entry.rule(found.match)) : null
+  if (!found || !rule) return { content, rule: null, ruleText: null }
+
+  const start = found.match.index
+  const stripped = stripSpans(content, [{ start, end: start + found.match[0].length }])
+  return {
+    content: /[a-z]/i.test(stripped) ? stripped : content,
+    rule,
+    ruleText: found.match[0]
+  }
+}
+
+// ============================================================================
+// Completing an occurrence
+// ============================================================================
+
+export type OccurrenceDates = {
+  dueAt: Date | null
+  remindAt: Date | null
+}
+
+// Dates of the item's next occurrence, with the reminder kept at the same distance from the due date.
+// Null once the series is over (UNTIL passed, COUNT reached) or the rule is not valid anymore
+export function advanceOccurrence(
+  item: OccurrenceDates & { recurrenceRule: string },
+  completedAt: Date,
+  completedCount: number, // Completions so far, the current one included
+  timeZone: string
+): OccurrenceDates | null {
+  const rule = parseRecurrenceRule(item.recurrenceRule)
+  if (!rule || (rule.count !== null && completedCount >= rule.count)) return null
+
+  const current = item.dueAt ?? item.remindAt ?? completedAt
+  const next = nextOccurrence(rule, current, completedAt, timeZone)
+  if (!next) return null
+  if (!item.dueAt && !item.remindAt) return { dueAt: next, remindAt: null }
+
+  const shift = (date: Date | null) => (date ? new Date(date.getTime() + next.getTime() - current.getTime()) : null)
+  return { dueAt: shift(item.dueAt), remindAt: shift(item.remindAt) }
+}
@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from 'wasp/server'
+import type { ServerSetupFn } from 'wasp/server'
+
+// Reminders: a scan finds items whose reminder, due date or snooze has come and turns each moment
+// into one in-app Notification. Wasp jobs would be the usual home for this, but they run on PgBoss,
+// which needs PostgreSQL, and this app runs on SQLite; the scan is scheduled from the server setup instead
+
+export type NotificationKind = 'reminder' | 'due' | 'snooze'
+
+const DEFAULT_SCAN_INTERVAL_MS = 60 * 1000
+
+// Moments older than this are not notified anymore, so a server that was down for a while
+// (or dates set far in the past) doesn't flood the user
+const NOTIFY_LOOKBACK_MS = 2 * 24 * 60 * 60 * 1000
+
+const TITLE_CONTENT_LENGTH = 80
+
+const TITLE_PREFIXES: { [kind in NotificationKind]: string } = {
+  reminder: 'Reminder',
+  due: 'Due now',
+  snooze: 'Back from snooze'
+}
+
+type ScheduledItem = {
+  content: string
+  remindAt: Date | null
+  dueAt: Date | null
+  snoozedUntil: Date | null
+}
+
+function notificationTitle(kind: NotificationKind, content: string): string {
+  const text = content.length > TITLE_CONTENT_LENGTH ? `${content.slice(0, TITLE_CONTENT_LENGTH - 1)}…` : content
+  return `${TITLE_PREFIXES[kind]}: ${text}`
+}
+
+// Moments of the item that have come within the lookback window. A snooze supersedes the
+// reminders and due dates it covered: the user hears about the item once, when it wakes up
+export function reachedMoments(item: ScheduledItem, now: Date): Array<{ kind: NotificationKind, at: Date }> {
+  const since = now.getTime() - NOTIFY_LOOKBACK_MS
+  const snoozedUntil = item.snoozedUntil ? new Date(item.snoozedUntil).getTime() : null
+  if (snoozedUntil !== null && snoozedUntil > now.getTime()) return []
+
+  const moments: Array<{ kind: NotificationKind, at: Date | null }> = [
+    { kind: 'reminder', at: item.remindAt },
+    { kind: 'due', at: item.dueAt },
+    { kind: 'snooze', at: item.snoozedUntil }
+  ]
+
+  return moments.flatMap(({ kind, at }) => {
+    if (!at) return []
+    const time = new Date(at).getTime()
+    if (time < since || time > now.getTime()) return []
+    if (kind !== 'snooze' && snoozedUntil !== null && time <= snoozedUntil) return []
+    return [{ kind, at: new Date(at) }]
+  })
+}
+
+// One scan over all users; notifications are unique per item, kind and moment, so scans can repeat freely.
+// Returns how many notifications were created
+export async function processDueReminders(now: Date = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - NOTIFY_LOOKBACK_MS)
+  const window = { gte: since, lte: now }
+
+  const items = await prisma.item.findMany({
+    where: {
+      isCompleted: false,
+      OR: [
+        { remindAt: window },
+        { dueAt: window },
+        { snoozedUntil: window }
+      ]
+    },
+    select: { id: true, content: true, userId: true, remindAt: true, dueAt: true, snoozedUntil: true }
+  })
+  if (items.length === 0) return 0
+
+  const existing = await prisma.notification.findMany({
+    where: {
+      itemId: { in: items.map(item => item.id) },
+      scheduledFor: { gte: since }
+    },
+    select: { itemId: true, kind: true, scheduledFor: true }
+  })
+  const notified = new Set(existing.map(n => `${n.itemId}:${n.kind}:${n.scheduledFor.getTime()}`))
+
+  let createdCount = 0
+  for (const item of items) {
+    for (const { kind, at } of reachedMoments(item, now)) {
+      if (notified.has(`${item.id}:${kind}:${at.getTime()}`)) continue
+
+      try {
+        await prisma.notification.create({
+          data: {
+            kind,
+            title: notificationTitle(kind, item.content),
+            itemId: item.id,
+            scheduledFor: at,
+            userId: item.userId
+          }
+        })
+        createdCount++
+      } catch (error) {
+        // Another scan got there first
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+      }
+    }
+  }
+
+  return createdCount
+}
+
+export const setupReminderScheduler: ServerSetupFn = async () => {
+  const intervalMs = Number(process.env.REMINDER_SCAN_INTERVAL_MS) || DEFAULT_SCAN_INTERVAL_MS
+  let isScanning = false
+
+  const scan = async () => {
+    if (isScanning) return
+    isScanning = true
+    try {
+      await processDueReminders()
+    } catch (error) {
+      console.error('Reminder scan failed:', error)
+    } finally {
+      isScanning = false
+    }
+  }
+
+  setInterval(scan, intervalMs)
+  void scan()
+}
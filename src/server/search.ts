@@ -0,0 +1,97 @@
+import { prisma } from 'wasp/server'
+import { normalizeText } from './textSimilarity'
+
+// Full-text search helpers backed by the "ItemSearchIndex" FTS5 table (see the add_item_search_index migration)
+
+export type HighlightSegment = {
+  text: string
+  match: boolean
+}
+
+const MAX_SEARCH_TERMS = 8
+
+// Split a free-text query into the words to look for
+export function parseSearchTerms(query: string): string[] {
+  return Array.from(new Set(normalizeText(query).split(' ').filter(term => term.length > 0)))
+    .slice(0, MAX_SEARCH_TERMS)
+}
+
+// Every term must match, as a word prefix ("tom" finds "tomatoes"); quoting keeps FTS5 syntax out of user input
+function toFtsQuery(terms: string[]): string {
+  return terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' ')
+}
+
+// Item ids of the user's items matching all terms, best matches first.
+// Throws when the FTS5 index is unavailable (e.g. on PostgreSQL), so callers can fall back to plain filtering
+export async function findItemIdsByFullText(userId: number, terms: string[], limit: number): Promise<number[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: number | bigint }>>`
+    SELECT "Item"."id" AS "id"
+    FROM "ItemSearchIndex"
+    JOIN "Item" ON "Item"."id" = "ItemSearchIndex"."rowid"
+    WHERE "ItemSearchIndex" MATCH ${toFtsQuery(terms)}
+      AND "Item"."userId" = ${userId}
+    ORDER BY "ItemSearchIndex"."rank"
+    LIMIT ${limit}
+  `
+
+  return rows.map(row => Number(row.id))
+}
+
+// Prisma filter equivalent to the full-text search, used when the index can't be queried.
+// PostgreSQL needs case-insensitive mode explicitly; SQLite's LIKE already ignores ASCII case and rejects the option
+export function buildTextSearchFilter(terms: string[]) {
+  const insensitive = process.env.DATABASE_URL?.startsWith('postgres') ? { mode: 'insensitive' as const } : {}
+
+  return {
+    AND: terms.map(term => ({
+      OR: [
+        { content: { contains: term, ...insensitive } },
+        { note: { rawText: { contains: term, ...insensitive } } },
+        { tags: { some: { tag: { name: { contains: term, ...insensitive } } } } }
+      ]
+    }))
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Split text into plain and matched segments; a term highlights every word it starts, ignoring case
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }]
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu')
+  const segments: HighlightSegment[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), match: false })
+    }
+    segments.push({ text: match[0], match: true })
+    lastIndex = start + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false })
+  }
+
+  return segments
+}
+
+// Highlighted excerpt of a long text around its first match, or null when nothing matches
+export function highlightSnippet(text: string, terms: string[], radius = 60): HighlightSegment[] | null {
+  const segments = highlightText(text, terms)
+  if (!segments.some(segment => segment.match)) return null
+
+  const firstMatchStart = segments
+    .slice(0, segments.findIndex(segment => segment.match))
+    .reduce((length, segment) => length + segment.text.length, 0)
+  const start = Math.max(0, firstMatchStart - radius)
+  const end = Math.min(text.length, firstMatchStart + radius * 2)
+
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+  return highlightText(excerpt, terms)
+}
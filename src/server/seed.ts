@@ -10,39 +10,58 @@ async function main() {
       description: "Shopping for food and household items",
       icon: "🛒",
       isDefault: true,
+      sortOrder: 0,
+      layout: "shopping",
     },
     {
       name: "Meal Planning",
       description: "Planning meals and cooking activities",
       icon: "🍽️",
       isDefault: true,
+      sortOrder: 1,
+      layout: "meals",
     },
     {
       name: "Weekend Planning",
       description: "Planning leisure and weekend activities",
       icon: "🌟",
       isDefault: true,
+      sortOrder: 2,
     },
     {
       name: "Work Projects",
       description: "Professional tasks and project management",
       icon: "💼",
       isDefault: true,
+      sortOrder: 3,
     },
     {
       name: "Personal Development",
       description: "Learning, skills, and self-improvement",
       icon: "📚",
       isDefault: true,
+      sortOrder: 4,
     },
     {
       name: "Travel Planning",
       description: "Planning trips and travel activities",
       icon: "✈️",
       isDefault: true,
+      sortOrder: 5,
     },
   ]
 
+  // Create default tag categories (also the labels for intent classification)
+  const defaultCategories = [
+    { name: "shopping", description: "Things to buy", icon: "🛒", color: "#10B981", activity: "Grocery Shopping" },
+    { name: "travel", description: "Places to go and things to see", icon: "✈️", color: "#3B82F6", activity: "Travel Planning" },
+    { name: "cooking", description: "Recipes, meals and ingredients", icon: "🍳", color: "#F59E0B", activity: "Meal Planning" },
+    { name: "work", description: "Professional tasks and projects", icon: "💼", color: "#8B5CF6", activity: "Work Projects" },
+    { name: "learning", description: "Books, courses and new skills", icon: "📚", color: "#06B6D4", activity: "Personal Development" },
+    { name: "personal", description: "Health, fitness and hobbies", icon: "🧘", color: "#EC4899", activity: "Personal Development" },
+    { name: "leisure", description: "Going out, entertainment and time with friends", icon: "🎉", color: "#F97316", activity: "Weekend Planning" },
+  ]
+
   // Create default tags
   const defaultTags = [
     // Shopping category
@@ -78,28 +97,89 @@ async function main() {
     { name: "hobbies", category: "personal", color: "#EC4899" },
   ]
 
+  // Default rules that surface matching items in each activity (users can override them)
+  const defaultActivityRules = [
+    { activity: "Grocery Shopping", tags: ["groceries", "to-buy", "ingredients"], categories: ["shopping"], excludeCompleted: true },
+    { activity: "Meal Planning", tags: ["recipes", "meal-prep", "ingredients"], categories: ["cooking"], excludeCompleted: false },
+    { activity: "Weekend Planning", tags: ["restaurants", "hobbies"], categories: [], excludeCompleted: true },
+    { activity: "Work Projects", tags: [], categories: ["work"], excludeCompleted: true },
+    { activity: "Personal Development", tags: [], categories: ["learning", "personal"], excludeCompleted: false },
+    { activity: "Travel Planning", tags: [], categories: ["travel"], excludeCompleted: false },
+  ]
+
   console.log('🌱 Starting database seed...')
 
-  // Seed activities
+  // Seed activities (global rows have no owner, so they can't be upserted by their compound unique key)
   for (const activity of defaultActivities) {
-    await prisma.activity.upsert({
-      where: { name: activity.name },
-      update: {},
-      create: activity,
+    const existing = await prisma.activity.findFirst({
+      where: { name: activity.name, userId: null },
     })
+    if (!existing) {
+      await prisma.activity.create({ data: activity })
+    }
   }
   console.log(`✅ Created ${defaultActivities.length} default activities`)
 
+  // Seed tag categories, linked to the activity their items default to
+  const categoryIds: { [name: string]: number } = {}
+  for (const { activity: activityName, ...category } of defaultCategories) {
+    const existing = await prisma.tagCategory.findFirst({
+      where: { name: category.name, userId: null },
+    })
+    if (existing) {
+      categoryIds[category.name] = existing.id
+      continue
+    }
+    const activity = await prisma.activity.findFirst({
+      where: { name: activityName, userId: null },
+    })
+    const created = await prisma.tagCategory.create({
+      data: { ...category, activityId: activity?.id },
+    })
+    categoryIds[category.name] = created.id
+  }
+  console.log(`✅ Created ${defaultCategories.length} default tag categories`)
+
   // Seed tags
-  for (const tag of defaultTags) {
-    await prisma.tag.upsert({
-      where: { name: tag.name },
-      update: {},
-      create: tag,
+  for (const { category, ...tag } of defaultTags) {
+    const existing = await prisma.tag.findFirst({
+      where: { name: tag.name, userId: null },
     })
+    if (!existing) {
+      await prisma.tag.create({ data: { ...tag, categoryId: categoryIds[category] } })
+    }
   }
   console.log(`✅ Created ${defaultTags.length} default tags`)
 
+  // Seed activity rules
+  for (const rule of defaultActivityRules) {
+    const activity = await prisma.activity.findFirst({
+      where: { name: rule.activity, userId: null },
+    })
+    if (!activity) continue
+
+    const existing = await prisma.activityRule.findFirst({
+      where: { activityId: activity.id, userId: null },
+    })
+    if (existing) continue
+
+    const tags = await prisma.tag.findMany({
+      where: { name: { in: rule.tags }, userId: null },
+    })
+    const categories = await prisma.tagCategory.findMany({
+      where: { name: { in: rule.categories }, userId: null },
+    })
+    await prisma.activityRule.create({
+      data: {
+        activityId: activity.id,
+        includeTagIds: JSON.stringify(tags.map(tag => tag.id)),
+        includeCategoryIds: JSON.stringify(categories.map(category => category.id)),
+        excludeCompleted: rule.excludeCompleted,
+      },
+    })
+  }
+  console.log(`✅ Created ${defaultActivityRules.length} default activity rules`)
+
   console.log('🎉 Database seed completed!')
 }
 
@@ -0,0 +1,9 @@
+import type { ServerSetupFn } from 'wasp/server'
+import { setupReminderScheduler } from './reminders'
+import { setupImportWorker } from './importers/jobs'
+
+// Wasp takes a single server setup function; background work that would otherwise be Wasp jobs starts here
+export const setupServer: ServerSetupFn = async (context) => {
+  await setupReminderScheduler(context)
+  await setupImportWorker(context)
+}
@@ -0,0 +1,246 @@
+import { extractShoppingDetails } from './ai/itemDetails'
+import { normalizeText } from './textSimilarity'
+import { parseItemDetails, formatQuantity, type ShoppingDetails } from '../shared/itemTypes'
+
+// The shopping list gathers everything to buy across notes and activities: items typed as shopping
+// plus anything carrying one of the grocery tags. Items for the same product become one entry whose
+// quantities are added up where the units allow ("2 tomatoes" + "3 tomatoes" is "5 tomatoes")
+
+export const SHOPPING_TAGS = ['groceries', 'to-buy', 'ingredients']
+
+export function shoppingItemFilter(userId: number) {
+  return {
+    userId,
+    OR: [
+      { type: 'shopping' },
+      { tags: { some: { tag: { name: { in: SHOPPING_TAGS } } } } }
+    ]
+  }
+}
+
+export type ShoppingListItem = {
+  id: number
+  content: string
+  type: string
+  details: string | null
+  noteId: number | null
+  isCompleted: boolean
+}
+
+export type ShoppingEntry = {
+  key: string             // Normalized product name the entry merges on
+  name: string
+  quantity: string | null // Added up: "5", "1.5 kg", "2 bottles + 500 ml"
+  stores: string[]
+  aisle: string
+  items: Array<{ id: number, content: string, noteId: number | null }>
+}
+
+export type ShoppingAisle = {
+  aisle: string
+  entries: ShoppingEntry[]
+}
+
+export type ShoppingList = {
+  aisles: ShoppingAisle[]   // Still to buy, in the order a store is usually walked
+  purchased: ShoppingEntry[]
+}
+
+// Aisles in walking order; a product goes to the aisle of its longest matching keyword
+const AISLES: Array<{ name: string, keywords: string[] }> = [
+  {
+    name: 'Produce',
+    keywords: [
+      'apple', 'banana', 'tomato', 'potato', 'onion', 'garlic', 'lettuce', 'salad', 'spinach', 'carrot', 'pepper',
+      'cucumber', 'lemon', 'lime', 'orange', 'berry', 'grape', 'avocado', 'herb', 'basil', 'parsley', 'mushroom',
+      'zucchini', 'broccoli', 'fruit', 'vegetable', 'ginger', 'celery', 'cabbage', 'kale', 'pear', 'peach', 'mango'
+    ]
+  },
+  { name: 'Bakery', keywords: ['bread', 'baguette', 'bun', 'roll', 'bagel', 'croissant', 'tortilla', 'pita', 'cake', 'muffin'] },
+  {
+    name: 'Meat & fish',
+    keywords: [
+      'chicken', 'beef', 'pork', 'lamb', 'turkey', 'bacon', 'sausage', 'ham', 'mince', 'steak', 'fish', 'salmon',
+      'tuna', 'shrimp', 'prawn', 'guanciale', 'prosciutto', 'salami'
+    ]
+  },
+  {
+    name: 'Dairy & eggs',
+    keywords: ['milk', 'cheese', 'butter', 'yogurt', 'yoghurt', 'cream', 'egg', 'mozzarella', 'parmesan', 'pecorino', 'feta', 'ricotta']
+  },
+  {
+    name: 'Pantry',
+    keywords: [
+      'pasta', 'spaghetti', 'rice', 'flour', 'sugar', 'salt', 'oil', 'vinegar', 'sauce', 'bean', 'lentil', 'cereal',
+      'oat', 'honey', 'jam', 'spice', 'stock', 'broth', 'noodle', 'coffee', 'tea', 'nut', 'chocolate', 'cracker', 'chip'
+    ]
+  },
+  { name: 'Frozen', keywords: ['frozen', 'ice cream', 'pizza'] },
+  { name: 'Drinks', keywords: ['water', 'juice', 'soda', 'beer', 'wine', 'cola', 'lemonade'] },
+  {
+    name: 'Household',
+    keywords: [
+      'soap', 'detergent', 'paper towel', 'toilet paper', 'tissue', 'sponge', 'trash bag', 'foil', 'battery',
+      'shampoo', 'toothpaste', 'cleaner'
+    ]
+  }
+]
+
+const OTHER_AISLE = 'Other'
+
+// Plural and singular mentions of a product merge: "tomatoes" and "tomato", "berries" and "berry"
+function singular(word: string): string {
+  if (word.length <= 3 || /(?:ss|us|is)$/.test(word)) return word
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(?:oes|ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2)
+  return word.endsWith('s') ? word.slice(0, -1) : word
+}
+
+export function productKey(name: string): string {
+  return normalizeText(name).split(' ').map(singular).join(' ')
+}
+
+// Single keywords also match the end of compound words: "strawberry" is a berry, "grapefruit" a fruit
+function mentions(key: string, keyword: string): boolean {
+  if (keyword.includes(' ')) return ` ${key} `.includes(` ${keyword} `)
+  return key.split(' ').some(word => word.endsWith(keyword))
+}
+
+export function guessAisle(name: string): string {
+  const key = productKey(name)
+  let best: { aisle: string, length: number } | null = null
+
+  for (const aisle of AISLES) {
+    for (const keyword of aisle.keywords) {
+      if (mentions(key, keyword) && (!best || keyword.length > best.length)) {
+        best = { aisle: aisle.name, length: keyword.length }
+      }
+    }
+  }
+  return best?.aisle ?? OTHER_AISLE
+}
+
+// Units that convert into each other are added up in the smallest one
+const UNIT_FACTORS: { [unit: string]: { base: string, factor: number } } = {
+  kg: { base: 'g', factor: 1000 },
+  g: { base: 'g', factor: 1 },
+  l: { base: 'ml', factor: 1000 },
+  ml: { base: 'ml', factor: 1 },
+  lb: { base: 'oz', factor: 16 },
+  oz: { base: 'oz', factor: 1 }
+}
+
+// Back to the larger unit once the total reaches one of it: 1500 g is shown as 1.5 kg
+const LARGER_UNITS: { [base: string]: { unit: string, factor: number } } = {
+  g: { unit: 'kg', factor: 1000 },
+  ml: { unit: 'l', factor: 1000 },
+  oz: { unit: 'lb', factor: 16 }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export function sumQuantities(quantities: Array<Pick<ShoppingDetails, 'quantity' | 'unit'>>): string | null {
+  const totals = new Map<string, number>() // Keyed by unit, '' for plain counts
+
+  for (const { quantity, unit } of quantities) {
+    if (quantity === null) continue
+    const conversion = unit ? UNIT_FACTORS[unit] : undefined
+    const key = conversion ? conversion.base : unit ?? ''
+    totals.set(key, (totals.get(key) ?? 0) + quantity * (conversion?.factor ?? 1))
+  }
+
+  const parts = Array.from(totals.entries()).map(([unit, total]) => {
+    const larger = LARGER_UNITS[unit]
+    if (larger && total >= larger.factor) {
+      return formatQuantity({ quantity: round(total / larger.factor), unit: larger.unit })
+    }
+    return formatQuantity({ quantity: round(total), unit: unit || null })
+  })
+
+  return parts.length > 0 ? parts.join(' + ') : null
+}
+
+export type ConsolidatedIngredient = {
+  key: string
+  name: string
+  quantity: string | null
+  line: string // "300 g guanciale", worded to become a shopping item
+}
+
+// Ingredient lines of several recipes as one list, with the amounts of the same product added up
+export function consolidateIngredients(lines: string[]): ConsolidatedIngredient[] {
+  const groups = new Map<string, ShoppingDetails[]>()
+  const names = new Map<string, string>()
+
+  for (const line of lines) {
+    const details = extractShoppingDetails(line)
+    const name = details.name || line.trim()
+    if (!name) continue
+
+    const key = productKey(name)
+    groups.set(key, [...(groups.get(key) ?? []), details])
+    if (!names.has(key)) names.set(key, name)
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const name = names.get(key)!
+    const quantity = sumQuantities(group)
+    return { key, name, quantity, line: quantity ? `${quantity} ${name}` : name }
+  })
+}
+
+function shoppingDetailsOf(item: ShoppingListItem): ShoppingDetails {
+  const details = item.type === 'shopping' ? parseItemDetails('shopping', item.details) : null
+  if (details?.name) return details
+
+  // Tagged items that were never typed as shopping, or typed without details, are read from their wording
+  return { ...extractShoppingDetails(item.content), aisle: details?.aisle ?? null }
+}
+
+function buildEntries(items: ShoppingListItem[]): ShoppingEntry[] {
+  const groups = new Map<string, Array<{ item: ShoppingListItem, details: ShoppingDetails }>>()
+
+  for (const item of items) {
+    const details = shoppingDetailsOf(item)
+    const key = productKey(details.name || item.content)
+    groups.set(key, [...(groups.get(key) ?? []), { item, details }])
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const name = group[0].details.name || group[0].item.content
+    const aisle = group.find(({ details }) => details.aisle)?.details.aisle ?? guessAisle(name)
+
+    return {
+      key,
+      name,
+      quantity: sumQuantities(group.map(({ details }) => details)),
+      stores: Array.from(new Set(group.map(({ details }) => details.store).filter((store): store is string => !!store))),
+      aisle,
+      items: group.map(({ item }) => ({ id: item.id, content: item.content, noteId: item.noteId }))
+    }
+  })
+}
+
+export function buildShoppingList(items: ShoppingListItem[]): ShoppingList {
+  const entries = buildEntries(items.filter(item => !item.isCompleted))
+  const aisleOrder = [...AISLES.map(aisle => aisle.name), OTHER_AISLE]
+  const aisleRank = (aisle: string) => {
+    const index = aisleOrder.indexOf(aisle)
+    return index === -1 ? aisleOrder.length - 1 : index // Aisles typed by the user sit before "Other"
+  }
+
+  const aisles = new Map<string, ShoppingEntry[]>()
+  for (const entry of entries) {
+    aisles.set(entry.aisle, [...(aisles.get(entry.aisle) ?? []), entry])
+  }
+
+  return {
+    aisles: Array.from(aisles.entries())
+      .sort(([a], [b]) => aisleRank(a) - aisleRank(b) || a.localeCompare(b))
+      .map(([aisle, aisleEntries]) => ({
+        aisle,
+        entries: aisleEntries.sort((a, b) => a.name.localeCompare(b.name))
+      })),
+    purchased: buildEntries(items.filter(item => item.isCompleted)).sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
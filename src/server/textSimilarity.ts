@@ -0,0 +1,92 @@
+// Lightweight text comparison helpers used to reconcile AI output with saved items
+
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'to', 'for', 'of', 'and', 'some', 'my'])
+
+// Lowercase, strip punctuation and collapse whitespace
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(' ')
+    .filter(word => word.length > 0 && !FILLER_WORDS.has(word))
+}
+
+// Levenshtein distance between two strings
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Similarity between 0.0 (unrelated) and 1.0 (same wording), combining word overlap and edit distance
+export function textSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeText(a)
+  const normalizedB = normalizeText(b)
+
+  if (normalizedA === normalizedB) return 1.0
+  if (!normalizedA || !normalizedB) return 0
+
+  // Dice coefficient over meaningful words
+  const wordsA = new Set(tokenize(a))
+  const wordsB = new Set(tokenize(b))
+  const sharedWords = Array.from(wordsA).filter(word => wordsB.has(word)).length
+  const wordScore = wordsA.size + wordsB.size > 0
+    ? (2 * sharedWords) / (wordsA.size + wordsB.size)
+    : 0
+
+  // Character-level similarity catches typos and small rewordings
+  const longest = Math.max(normalizedA.length, normalizedB.length)
+  const charScore = 1 - editDistance(normalizedA, normalizedB) / longest
+
+  return Math.max(wordScore, charScore)
+}
+
+// Greedily pair up the most similar entries of two lists, best matches first
+export function matchBySimilarity(
+  left: string[],
+  right: string[],
+  threshold: number
+): Array<{ leftIndex: number, rightIndex: number, similarity: number }> {
+  const candidates: Array<{ leftIndex: number, rightIndex: number, similarity: number }> = []
+
+  left.forEach((leftText, leftIndex) => {
+    right.forEach((rightText, rightIndex) => {
+      const similarity = textSimilarity(leftText, rightText)
+      if (similarity >= threshold) {
+        candidates.push({ leftIndex, rightIndex, similarity })
+      }
+    })
+  })
+
+  candidates.sort((a, b) => b.similarity - a.similarity)
+
+  const usedLeft = new Set<number>()
+  const usedRight = new Set<number>()
+  const matches: Array<{ leftIndex: number, rightIndex: number, similarity: number }> = []
+
+  for (const candidate of candidates) {
+    if (usedLeft.has(candidate.leftIndex) || usedRight.has(candidate.rightIndex)) continue
+    usedLeft.add(candidate.leftIndex)
+    usedRight.add(candidate.rightIndex)
+    matches.push(candidate)
+  }
+
+  return matches
+}
@@ -0,0 +1,13 @@
+// How the dashboard shows the items of an activity
+
+export type ActivityLayout = 'items' | 'shopping' | 'meals'
+
+export const ACTIVITY_LAYOUTS: { [layout in ActivityLayout]: { label: string, description: string } } = {
+  items: { label: 'Item cards', description: 'Every item as a card, ranked by relevance' },
+  shopping: { label: 'Shopping list', description: 'Things to buy across all notes, merged and grouped by aisle' },
+  meals: { label: 'Meal planner', description: 'A week grid to plan recipes and cooking items on days and meals' }
+}
+
+export function isActivityLayout(value: unknown): value is ActivityLayout {
+  return typeof value === 'string' && Object.keys(ACTIVITY_LAYOUTS).includes(value)
+}
@@ -0,0 +1,160 @@
+// Typed item payloads, shared by the server (parsing and validation) and the client (rendering and editing).
+// An item's content stays the readable one-liner; details hold the structured fields of its type and are
+// stored on Item.details as JSON because SQLite has no Json column
+
+export type ItemType = 'note' | 'task' | 'shopping' | 'place' | 'recipe'
+
+export type TaskPriority = 'low' | 'medium' | 'high'
+
+export type TaskDetails = {
+  priority: TaskPriority | null // The due date lives on Item.dueAt like for every other type
+}
+
+export type ShoppingDetails = {
+  name: string | null     // What to buy, without quantity or store ("tomatoes")
+  quantity: number | null
+  unit: string | null     // "kg", "bottle"; null for plain counts
+  store: string | null
+  aisle: string | null    // Where it sits in the store; guessed from the name when empty
+}
+
+export type PlaceDetails = {
+  name: string | null
+  address: string | null
+  lat: number | null
+  lng: number | null
+}
+
+export type RecipeDetails = {
+  ingredients: string[]
+  steps: string[]
+  sourceUrl: string | null
+}
+
+export type ItemDetailsByType = {
+  note: Record<string, never>
+  task: TaskDetails
+  shopping: ShoppingDetails
+  place: PlaceDetails
+  recipe: RecipeDetails
+}
+
+export type ItemDetails = ItemDetailsByType[ItemType]
+
+export const ITEM_TYPES: ItemType[] = ['note', 'task', 'shopping', 'place', 'recipe']
+
+export const ITEM_TYPE_INFO: { [type in ItemType]: { label: string, icon: string } } = {
+  note: { label: 'Note', icon: '📝' },
+  task: { label: 'Task', icon: '✅' },
+  shopping: { label: 'Shopping', icon: '🛒' },
+  place: { label: 'Place', icon: '📍' },
+  recipe: { label: 'Recipe', icon: '🍳' }
+}
+
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high']
+
+const MAX_TEXT_LENGTH = 500
+const MAX_LIST_LENGTH = 100
+
+export function isItemType(value: unknown): value is ItemType {
+  return typeof value === 'string' && (ITEM_TYPES as string[]).includes(value)
+}
+
+function isTaskPriority(value: unknown): value is TaskPriority {
+  return typeof value === 'string' && (TASK_PRIORITIES as string[]).includes(value)
+}
+
+export function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim().slice(0, MAX_TEXT_LENGTH)
+  return trimmed || null
+}
+
+function number(value: unknown, min: number, max: number): number | null {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value
+  return typeof parsed === 'number' && isFinite(parsed) && parsed >= min && parsed <= max ? parsed : null
+}
+
+function textList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.map(text).filter((entry): entry is string => entry !== null).slice(0, MAX_LIST_LENGTH)
+}
+
+function httpUrl(value: unknown): string | null {
+  const url = text(value)
+  return url && /^https?:\/\/\S+$/i.test(url) ? url : null
+}
+
+// Coerce whatever the parser, the client or an old row produced into the details of the type,
+// dropping fields the type does not have and values of the wrong shape
+export function normalizeItemDetails<T extends ItemType>(type: T, value: unknown): ItemDetailsByType[T]
+export function normalizeItemDetails(type: ItemType, value: unknown): ItemDetails {
+  const raw: { [key: string]: unknown } = isRecord(value) ? value : {}
+
+  switch (type) {
+    case 'task':
+      return {
+        priority: isTaskPriority(raw.priority) ? raw.priority : null
+      }
+    case 'shopping':
+      return {
+        name: text(raw.name),
+        quantity: number(raw.quantity, 0, 1e6),
+        unit: text(raw.unit),
+        store: text(raw.store),
+        aisle: text(raw.aisle)
+      }
+    case 'place':
+      return {
+        name: text(raw.name),
+        address: text(raw.address),
+        lat: number(raw.lat, -90, 90),
+        lng: number(raw.lng, -180, 180)
+      }
+    case 'recipe':
+      return {
+        ingredients: textList(raw.ingredients),
+        steps: textList(raw.steps),
+        sourceUrl: httpUrl(raw.sourceUrl)
+      }
+    default:
+      return {}
+  }
+}
+
+export function parseItemDetails<T extends ItemType>(type: T, json: string | null): ItemDetailsByType[T]
+export function parseItemDetails(type: string, json: string | null): ItemDetails
+export function parseItemDetails(type: string, json: string | null): ItemDetails {
+  if (!isItemType(type)) return {}
+  try {
+    return normalizeItemDetails(type, json ? JSON.parse(json) : {})
+  } catch {
+    return normalizeItemDetails(type, {})
+  }
+}
+
+// Null when the details hold nothing worth storing
+export function serializeItemDetails(type: ItemType, details: unknown): string | null {
+  const normalized = normalizeItemDetails(type, details)
+  const hasValue = Object.values(normalized).some(value => Array.isArray(value) ? value.length > 0 : value !== null)
+  return hasValue ? JSON.stringify(normalized) : null
+}
+
+// Units are stored singular; measurements keep their abbreviation whatever the amount
+const ABBREVIATED_UNITS = ['kg', 'g', 'lb', 'oz', 'l', 'ml', 'tbsp', 'tsp']
+
+function unitLabel(unit: string, quantity: number | null): string {
+  if (quantity === 1 || quantity === null || ABBREVIATED_UNITS.includes(unit)) return unit
+  if (unit === 'loaf') return 'loaves'
+  return /(?:s|x|ch|sh)$/.test(unit) ? `${unit}es` : `${unit}s`
+}
+
+// "2 kg", "3 bottles", "12" for display
+export function formatQuantity(details: Pick<ShoppingDetails, 'quantity' | 'unit'>): string | null {
+  if (details.quantity === null) return details.unit
+  return details.unit ? `${details.quantity} ${unitLabel(details.unit, details.quantity)}` : `${details.quantity}`
+}
@@ -0,0 +1,53 @@
+// Meal plan slots and calendar days, shared by the planner grid and the operations behind it.
+// Days are "YYYY-MM-DD" keys in the user's time zone, so a meal stays on its day wherever it is viewed
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner'
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner']
+
+// The time of day planned meals are due at, in the user's time zone
+export const MEALS: { [meal in MealSlot]: { label: string, icon: string, hour: number, minute: number } } = {
+  breakfast: { label: 'Breakfast', icon: '🥐', hour: 8, minute: 0 },
+  lunch: { label: 'Lunch', icon: '🥗', hour: 12, minute: 30 },
+  dinner: { label: 'Dinner', icon: '🍝', hour: 19, minute: 0 }
+}
+
+export const DAYS_PER_WEEK = 7
+
+export function isMealSlot(value: unknown): value is MealSlot {
+  return typeof value === 'string' && (MEAL_SLOTS as string[]).includes(value)
+}
+
+const DAY_KEY = /^(\d{4})-(\d{2})-(\d{2})$/
+
+// Null unless the key is a real calendar day
+export function parseDayKey(key: string): { year: number, month: number, day: number } | null {
+  const match = DAY_KEY.exec(key)
+  if (!match) return null
+
+  const [year, month, day] = match.slice(1).map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? { year, month, day } : null
+}
+
+export function toDayKey(day: { year: number, month: number, day: number }): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${day.year}-${pad(day.month)}-${pad(day.day)}`
+}
+
+// Calendar arithmetic on keys; keys are assumed valid
+export function shiftDayKey(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+// Monday of the key's week, as in the rest of the app
+export function weekStartOf(key: string): string {
+  const weekday = new Date(`${key}T00:00:00Z`).getUTCDay()
+  return shiftDayKey(key, -((weekday + 6) % 7))
+}
+
+export function weekDayKeys(weekStart: string): string[] {
+  return Array.from({ length: DAYS_PER_WEEK }, (_, index) => shiftDayKey(weekStart, index))
+}
@@ -0,0 +1,524 @@
+import React, { useState } from 'react';
+import { Link } from 'wasp/client/router';
+import type { Tag, TagCategory } from 'wasp/entities';
+import {
+  useQuery,
+  getTags,
+  getTagCategories,
+  getActivities,
+  createTag,
+  createTagCategory,
+  updateTagCategory,
+  deleteTagCategory,
+  updateTag,
+  deleteTag,
+  mergeTags
+} from 'wasp/client/operations';
+import { errorMessage } from '../client/errors';
+
+const TAG_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#6B7280'];
+
+type TagAction = { kind: 'merge' | 'delete'; tagId: number } | null;
+
+export const TagsPage = () => {
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagCategoryId, setNewTagCategoryId] = useState<string>('');
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryIcon, setNewCategoryIcon] = useState('');
+  const [newCategoryActivityId, setNewCategoryActivityId] = useState<string>('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editCategoryId, setEditCategoryId] = useState<string>('');
+  const [editingCategoryId, setEditingCategoryId] = useState<number | null>(null);
+  const [editCategoryName, setEditCategoryName] = useState('');
+  const [editCategoryIcon, setEditCategoryIcon] = useState('');
+  const [editCategoryActivityId, setEditCategoryActivityId] = useState<string>('');
+  const [pendingAction, setPendingAction] = useState<TagAction>(null);
+  const [targetTagId, setTargetTagId] = useState<string>('');
+  const [showUnusedOnly, setShowUnusedOnly] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tags, isLoading, refetch } = useQuery(getTags);
+  const { data: tagCategories, refetch: refetchCategories } = useQuery(getTagCategories);
+  const { data: activities } = useQuery(getActivities);
+
+  const allTags = tags || [];
+  const categories = tagCategories || [];
+  const ownCategories = categories.filter(category => category.userId !== null);
+  const visibleTags = showUnusedOnly ? allTags.filter(tag => tag._count.items === 0) : allTags;
+
+  // Group tags under their category, keeping empty categories out of the list
+  const tagGroups = categories
+    .map(category => ({ category, tags: visibleTags.filter(tag => tag.categoryId === category.id) }))
+    .filter(group => group.tags.length > 0);
+
+  const run = async (operation: () => Promise<string | void>) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await operation();
+      if (result) setMessage(result);
+      refetch();
+      refetchCategories();
+    } catch (err) {
+      setError(errorMessage(err, 'Something went wrong'));
+    }
+    setIsBusy(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTagName.trim() || !newTagCategoryId) return;
+
+    await run(async () => {
+      await createTag({ name: newTagName, categoryId: Number(newTagCategoryId) });
+      setNewTagName('');
+    });
+  };
+
+  const handleCreateCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCategoryName.trim()) return;
+
+    await run(async () => {
+      const category = await createTagCategory({
+        name: newCategoryName,
+        icon: newCategoryIcon || undefined,
+        activityId: newCategoryActivityId ? Number(newCategoryActivityId) : null
+      });
+      setNewCategoryName('');
+      setNewCategoryIcon('');
+      setNewCategoryActivityId('');
+      setNewTagCategoryId(String(category.id));
+    });
+  };
+
+  const startEditingCategory = (category: TagCategory) => {
+    setEditingCategoryId(category.id);
+    setEditCategoryName(category.name);
+    setEditCategoryIcon(category.icon || '');
+    setEditCategoryActivityId(category.activityId ? String(category.activityId) : '');
+  };
+
+  const handleSaveCategory = async (categoryId: number) => {
+    await run(async () => {
+      await updateTagCategory({
+        id: categoryId,
+        name: editCategoryName,
+        icon: editCategoryIcon || null,
+        activityId: editCategoryActivityId ? Number(editCategoryActivityId) : null
+      });
+      setEditingCategoryId(null);
+    });
+  };
+
+  const handleDeleteCategory = async (category: TagCategory) => {
+    if (!window.confirm(`Delete the "${category.name}" category?`)) return;
+
+    await run(async () => {
+      await deleteTagCategory({ id: category.id });
+      if (newTagCategoryId === String(category.id)) setNewTagCategoryId('');
+      return 'Category deleted';
+    });
+  };
+
+  const startEditing = (tag: Tag) => {
+    setEditingId(tag.id);
+    setEditName(tag.name);
+    setEditCategoryId(String(tag.categoryId));
+  };
+
+  const handleSaveEdit = async (tagId: number) => {
+    await run(async () => {
+      await updateTag({ id: tagId, name: editName, categoryId: Number(editCategoryId) });
+      setEditingId(null);
+    });
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const target = targetTagId ? Number(targetTagId) : undefined;
+
+    await run(async () => {
+      if (pendingAction.kind === 'merge') {
+        if (!target) return;
+        const result = await mergeTags({ sourceTagId: pendingAction.tagId, targetTagId: target });
+        setPendingAction(null);
+        return `Merged into "${result.tag.name}": moved ${result.movedItemCount} item${result.movedItemCount === 1 ? '' : 's'}` +
+          (result.alreadyTaggedCount > 0 ? `, ${result.alreadyTaggedCount} already had it` : '');
+      }
+
+      const result = await deleteTag({ id: pendingAction.tagId, reassignToTagId: target });
+      setPendingAction(null);
+      return target ? `Tag deleted, ${result.reassignedItemCount} item${result.reassignedItemCount === 1 ? '' : 's'} retagged` : 'Tag deleted';
+    });
+    setTargetTagId('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation Header */}
+      <nav className="bg-white shadow sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-semibold text-gray-900">Smart Notes</h1>
+              <div className="hidden sm:block text-sm text-gray-500">Tags</div>
+            </div>
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-sm text-gray-600 hover:text-gray-900 transition-colors">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* New Tag */}
+          <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">New Tag</h2>
+            <div className="flex flex-wrap gap-3">
+              <input
+                value={newTagName}
+                onChange={(e) => setNewTagName(e.target.value)}
+                placeholder="Name"
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <select
+                value={newTagCategoryId}
+                onChange={(e) => setNewTagCategoryId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Choose a category</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.icon} {category.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={isBusy || !newTagName.trim() || !newTagCategoryId}
+                className="btn-primary disabled:opacity-50"
+              >
+                Create Tag
+              </button>
+            </div>
+            {message && <p className="text-sm text-green-700">{message}</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </form>
+
+          {/* New Category */}
+          <form onSubmit={handleCreateCategory} className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">New Category</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Categories group your tags and are the labels AI uses to pick an item's activity
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <input
+                value={newCategoryIcon}
+                onChange={(e) => setNewCategoryIcon(e.target.value)}
+                placeholder="Emoji"
+                maxLength={4}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                value={newCategoryName}
+                onChange={(e) => setNewCategoryName(e.target.value)}
+                placeholder="Name"
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <select
+                value={newCategoryActivityId}
+                onChange={(e) => setNewCategoryActivityId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">No default activity</option>
+                {(activities || []).map(activity => (
+                  <option key={activity.id} value={activity.id}>
+                    {activity.icon} {activity.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={isBusy || !newCategoryName.trim()}
+                className="btn-primary disabled:opacity-50"
+              >
+                Create Category
+              </button>
+            </div>
+          </form>
+
+          {/* Category List */}
+          {ownCategories.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Categories</h2>
+              <div className="divide-y divide-gray-200">
+                {ownCategories.map(category => (
+                  <div key={category.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    {editingCategoryId === category.id ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input
+                          value={editCategoryIcon}
+                          onChange={(e) => setEditCategoryIcon(e.target.value)}
+                          placeholder="Emoji"
+                          maxLength={4}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                        <input
+                          value={editCategoryName}
+                          onChange={(e) => setEditCategoryName(e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                        <select
+                          value={editCategoryActivityId}
+                          onChange={(e) => setEditCategoryActivityId(e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">No default activity</option>
+                          {(activities || []).map(activity => (
+                            <option key={activity.id} value={activity.id}>
+                              {activity.icon} {activity.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleSaveCategory(category.id)}
+                          disabled={isBusy || !editCategoryName.trim()}
+                          className="text-sm text-blue-600 hover:text-blue-500"
+                        >
+                          Save
+                        </button>
+                        <button onClick={() => setEditingCategoryId(null)} className="text-sm text-gray-600">
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-3">
+                        <span>{category.icon || '🏷️'}</span>
+                        <span
+                          className="capitalize font-medium text-gray-900 border-b-2"
+                          style={{ borderColor: category.color || '#E5E7EB' }}
+                        >
+                          {category.name}
+                        </span>
+                        {category.activity && (
+                          <span className="text-xs text-gray-500">→ {category.activity.name}</span>
+                        )}
+                        <span className="text-sm text-gray-500">
+                          {category._count.tags} tag{category._count.tags === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                    )}
+
+                    {editingCategoryId !== category.id && (
+                      <div className="flex items-center space-x-3 text-sm">
+                        {/* Color picker */}
+                        <div className="flex items-center space-x-1">
+                          {TAG_COLORS.map(color => (
+                            <button
+                              key={color}
+                              onClick={() => run(async () => { await updateTagCategory({ id: category.id, color }); })}
+                              disabled={isBusy}
+                              className={`w-4 h-4 rounded-full border ${category.color === color ? 'border-gray-900' : 'border-transparent'}`}
+                              style={{ backgroundColor: color }}
+                              title={color}
+                            />
+                          ))}
+                        </div>
+                        <button onClick={() => startEditingCategory(category)} className="text-blue-600 hover:text-blue-500">
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteCategory(category)}
+                          disabled={isBusy || category._count.tags > 0}
+                          className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                          title={category._count.tags > 0 ? 'Move its tags to another category first' : undefined}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Tag List */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Your Tags</h2>
+              <label className="flex items-center space-x-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showUnusedOnly}
+                  onChange={(e) => setShowUnusedOnly(e.target.checked)}
+                />
+                <span>Unused only</span>
+              </label>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                <span className="ml-3 text-gray-600">Loading tags...</span>
+              </div>
+            ) : tagGroups.length === 0 ? (
+              <p className="text-gray-500">No tags to show.</p>
+            ) : tagGroups.map(({ category, tags: groupTags }) => (
+              <div key={category.id} className="mb-6 last:mb-0">
+                <h3
+                  className="flex items-center space-x-2 pb-2 border-b-2 font-semibold text-gray-700"
+                  style={{ borderColor: category.color || '#E5E7EB' }}
+                >
+                  <span>{category.icon || '🏷️'}</span>
+                  <span className="capitalize">{category.name}</span>
+                  {category.activity && (
+                    <span className="text-xs font-normal text-gray-500">→ {category.activity.name}</span>
+                  )}
+                </h3>
+                <div className="divide-y divide-gray-200">
+                  {groupTags.map(tag => {
+                    const isGlobal = tag.userId === null;
+                    const action = pendingAction?.tagId === tag.id ? pendingAction : null;
+
+                    return (
+                      <div key={tag.id} className="py-3">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          {editingId === tag.id ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <input
+                                value={editName}
+                                onChange={(e) => setEditName(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                              />
+                              <select
+                                value={editCategoryId}
+                                onChange={(e) => setEditCategoryId(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                              >
+                                {categories.map(category => (
+                                  <option key={category.id} value={category.id}>
+                                    {category.icon} {category.name}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => handleSaveEdit(tag.id)}
+                                disabled={isBusy || !editName.trim()}
+                                className="text-sm text-blue-600 hover:text-blue-500"
+                              >
+                                Save
+                              </button>
+                              <button onClick={() => setEditingId(null)} className="text-sm text-gray-600">
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center space-x-3">
+                              <span
+                                className="px-2 py-1 rounded-full text-sm font-medium text-white"
+                                style={{ backgroundColor: tag.color || '#9CA3AF' }}
+                              >
+                                {tag.name}
+                              </span>
+                              <span className={`text-sm ${tag._count.items === 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+                                {tag._count.items} item{tag._count.items === 1 ? '' : 's'}
+                              </span>
+                              {isGlobal && <span className="text-xs text-gray-400">built-in</span>}
+                            </div>
+                          )}
+
+                          {!isGlobal && editingId !== tag.id && (
+                            <div className="flex items-center space-x-3 text-sm">
+                              {/* Color picker */}
+                              <div className="flex items-center space-x-1">
+                                {TAG_COLORS.map(color => (
+                                  <button
+                                    key={color}
+                                    onClick={() => run(async () => { await updateTag({ id: tag.id, color }); })}
+                                    disabled={isBusy}
+                                    className={`w-4 h-4 rounded-full border ${tag.color === color ? 'border-gray-900' : 'border-transparent'}`}
+                                    style={{ backgroundColor: color }}
+                                    title={color}
+                                  />
+                                ))}
+                              </div>
+                              <button onClick={() => startEditing(tag)} className="text-blue-600 hover:text-blue-500">
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setTargetTagId('');
+                                  setPendingAction({ kind: 'merge', tagId: tag.id });
+                                }}
+                                className="text-purple-600 hover:text-purple-500"
+                              >
+                                Merge
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setTargetTagId('');
+                                  setPendingAction({ kind: 'delete', tagId: tag.id });
+                                }}
+                                className="text-red-600 hover:text-red-500"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Merge / delete confirmation */}
+                        {action && (
+                          <div className="mt-3 p-3 bg-gray-50 rounded-md flex flex-wrap items-center gap-2 text-sm">
+                            <span className="text-gray-700">
+                              {action.kind === 'merge' ? `Fold "${tag.name}" into` : 'Retag its items with'}
+                            </span>
+                            <select
+                              value={targetTagId}
+                              onChange={(e) => setTargetTagId(e.target.value)}
+                              className="border border-gray-300 rounded-md text-sm"
+                            >
+                              <option value="">{action.kind === 'merge' ? 'Choose a tag' : 'No tag'}</option>
+                              {allTags
+                                .filter(other => other.id !== tag.id)
+                                .map(other => (
+                                  <option key={other.id} value={other.id}>
+                                    {other.name} ({other.category.name})
+                                  </option>
+                                ))}
+                            </select>
+                            <button
+                              onClick={handleConfirmAction}
+                              disabled={isBusy || (action.kind === 'merge' && !targetTagId)}
+                              className="btn-primary disabled:opacity-50"
+                            >
+                              {action.kind === 'merge' ? 'Merge' : 'Delete Tag'}
+                            </button>
+                            <button onClick={() => setPendingAction(null)} className="btn-secondary">
+                              Cancel
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};